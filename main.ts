@@ -5,7 +5,17 @@ import { ProjectManager } from './src/main/ProjectManager';
 import { ViewManager } from './src/main/ViewManager';
 import { FileScanner } from './src/main/FileScanner';
 import { ConfigManager } from './src/main/ConfigManager';
-import { ScanResults, QueryModel, QueryResult, CONFIG_FILENAME } from './src/types';
+import { QueryBuilder } from './src/main/QueryBuilder';
+import { ScanWorkerManager } from './src/main/ScanWorkerManager';
+import { ScanErrorLog } from './src/main/ScanErrorLog';
+import { ScanRunLog } from './src/main/ScanRunLog';
+import { FolderWatcher } from './src/main/FolderWatcher';
+import { ScanScheduler } from './src/main/ScanScheduler';
+import { IngestProgress } from './src/main/DataIngestor';
+import {
+  ScanResults, QueryModel, QueryResult, SourceFolder, SourceFolderSettings, ScanSettings, WatchSettings, ScanSchedule, RecordedScanError,
+  CONFIG_FILENAME, ARCHIVE_ENTRY_SEPARATOR
+} from './src/types';
 
 // Enable remote debugging for the main process
 app.commandLine.appendSwitch('remote-debugging-port', '9222');
@@ -15,6 +25,14 @@ let projectManager: ProjectManager;
 let viewManager: ViewManager;
 let fileScanner: FileScanner;
 let configManager: ConfigManager;
+let queryBuilder: QueryBuilder;
+let scanWorkerManager: ScanWorkerManager;
+let folderWatcher: FolderWatcher;
+let scanScheduler: ScanScheduler;
+// Changed paths of watched projects waiting to be scanned, e.g. while another scan runs
+const queuedWatchChanges = new Map<string, Set<string>>();
+// Projects with a scan being started or running, reserved before the scan's first await so two scans cannot both start
+const scanningProjects = new Set<string>();
 let mainWindow: BrowserWindow | null = null;
 
 function createWindow(): void {
@@ -92,9 +110,30 @@ async function initializeManagers(): Promise<void> {
     // Initialize JSONScanner
     fileScanner = new FileScanner();
 
+    // Initialize QueryBuilder
+    queryBuilder = new QueryBuilder();
+
+    // Initialize ScanWorkerManager
+    scanWorkerManager = new ScanWorkerManager();
+
+    // Initialize FolderWatcher
+    folderWatcher = new FolderWatcher({
+      onChanges: queueWatchChanges,
+      onStatusChange: projectId => publishWatchStatus(projectId)
+    });
+
+    // Initialize ScanScheduler
+    scanScheduler = new ScanScheduler({ onDue: runScheduledScan });
+
     // Load projects from config file
     await loadProjectsFromGlobalConfig();
 
+    // Rescan watched projects when their source folders change
+    await startProjectWatches();
+
+    // Start scan schedules, catching up on runs missed while the application was closed
+    await startScanSchedules();
+
     console.log('Application managers initialized successfully');
   } catch (error) {
     console.error('Failed to initialize application managers:', error);
@@ -300,6 +339,9 @@ ipcMain.on('delete-project', async (event, projectId: string) => {
       throw new Error(`Project with ID "${projectId}" not found`);
     }
 
+    queuedWatchChanges.delete(projectId);
+    folderWatcher.unwatchProject(projectId);
+    scanScheduler.unschedule(projectId);
     await projectManager.deleteProject(projectId);
     
     // Also remove from config file
@@ -317,13 +359,14 @@ ipcMain.on('delete-project', async (event, projectId: string) => {
 /**
  * Add a source folder to a project
  */
-ipcMain.on('add-source-folder', async (event, data: { projectId: string; folderPath: string }) => {
+ipcMain.on('add-source-folder', async (event, data: { projectId: string; folderPath: string; settings?: SourceFolderSettings }) => {
   try {
     if (!data || !data.projectId || !data.folderPath) {
       throw new Error('Project ID and folder path are required');
     }
 
-    await projectManager.addSourceFolder(data.projectId, data.folderPath);
+    await projectManager.addSourceFolder(data.projectId, data.folderPath, data.settings);
+    await updateProjectWatch(data.projectId);
     
     // Get updated project to return the new source folder
     const project = await projectManager.getProject(data.projectId);
@@ -344,6 +387,77 @@ ipcMain.on('add-source-folder', async (event, data: { projectId: string; folderP
   }
 });
 
+/**
+ * Update how a project's scans flatten records into columns
+ */
+ipcMain.on('update-scan-settings', async (event, data: { projectId: string; scanSettings: ScanSettings }) => {
+  try {
+    if (!data || !data.projectId || !data.scanSettings) {
+      throw new Error('Project ID and scan settings are required');
+    }
+
+    const project = await projectManager.updateScanSettings(data.projectId, data.scanSettings);
+    await updateProjectWatch(data.projectId);
+
+    sendResponse('scan-settings-updated', {
+      projectId: data.projectId,
+      scanSettings: project.scanSettings
+    });
+  } catch (error) {
+    console.error('Failed to update scan settings:', error);
+    sendError('Failed to update scan settings', (error as Error).message);
+  }
+});
+
+// Number of file paths sent back by a preview; the total is always reported
+const PREVIEW_FILE_LIMIT = 500;
+
+/**
+ * List the files a scan of a project would pick up from a folder with the given settings, without scanning them
+ * The project's scan settings and parsers apply, so its log files and the formats of its own parsers are listed too
+ */
+ipcMain.on('preview-source-files', async (event, data: { projectId: string; folderPath: string; settings?: SourceFolderSettings }) => {
+  if (!data || !data.projectId) {
+    sendError('Failed to preview source files', 'Project ID is required');
+    return;
+  }
+  if (!data.folderPath) {
+    sendError('Failed to preview source files', 'Folder path is required');
+    return;
+  }
+
+  try {
+    if (!fs.existsSync(data.folderPath)) {
+      throw new Error('Source folder does not exist');
+    }
+
+    const project = await projectManager.getProject(data.projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const scanner = new FileScanner(project.scanSettings);
+    scanner.loadProjectParsers(project.workingDirectory);
+    const files = await scanner.findJsonFiles(data.folderPath, data.settings || {});
+
+    sendResponse('source-files-previewed', {
+      folderPath: data.folderPath,
+      files: files.slice(0, PREVIEW_FILE_LIMIT).map(filePath => path.relative(data.folderPath, filePath)),
+      totalFiles: files.length,
+      errors: scanner.getErrors()
+    });
+  } catch (error) {
+    // Reported with the preview so the form can show why nothing matched
+    console.error('Failed to preview source files:', error);
+    sendResponse('source-files-previewed', {
+      folderPath: data.folderPath,
+      files: [],
+      totalFiles: 0,
+      errors: [{ file: data.folderPath, error: (error as Error).message }]
+    });
+  }
+});
+
 /**
  * Remove a source folder from a project
  */
@@ -365,6 +479,7 @@ ipcMain.on('remove-source-folder', async (event, data: { projectId: string; fold
     }
 
     await projectManager.removeSourceFolder(data.projectId, folderToRemove.path);
+    await updateProjectWatch(data.projectId);
     sendResponse('source-folder-removed', { 
       projectId: data.projectId, 
       folderId: data.folderId 
@@ -393,10 +508,25 @@ ipcMain.on('open-folder', async (event, folderPath: string) => {
 
 /**
  * Scan source directories for JSON and JSONL files and extract data
- * This is an asynchronous operation that runs in the background
- * and sends progress updates to the renderer process
+ * The scan runs on a worker thread and sends progress updates to the renderer process
+ */
+ipcMain.on('scan-source-directories', (event, projectId: string) => {
+  scanProject(projectId);
+});
+
+/**
+ * Scan a project's source folders on a worker thread and report progress and the outcome to the renderer
+ * Watched projects pass the paths that changed, so only files under them are compared with the previous scan
  */
-ipcMain.on('scan-source-directories', async (event, projectId: string) => {
+async function scanProject(projectId: string, changedPaths?: string[]): Promise<void> {
+  if (projectId && isProjectScanning(projectId)) {
+    // The running scan keeps its status and runs the queued watch changes when it finishes
+    sendError('Failed to scan source directories', 'A scan is already running for this project');
+    return;
+  }
+  scanningProjects.add(projectId);
+  let completed = false;
+
   try {
     if (!projectId) {
       throw new Error('Project ID is required');
@@ -441,192 +571,64 @@ ipcMain.on('scan-source-directories', async (event, projectId: string) => {
       message: 'Scan started in background. Progress will be reported in the Files tab.' 
     });
 
-    // Create a set to track processed columns
-    const processedColumns = new Set<string>();
-    
-    // Drop the existing data table if it exists and create a new one
-    const tableName = 'data'; // For project-wide scanning, use the 'data' table
-    await dbManager.executeNonQuery(`DROP TABLE IF EXISTS ${tableName}`);
-    await dbManager.executeNonQuery(`
-      CREATE TABLE IF NOT EXISTS ${tableName} (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        _source_file TEXT,
-        _scan_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    let totalFiles = 0;
-    let processedFiles = 0;
-    let extractedObjects = 0;
-    const errors: any[] = [];
-
-    // First, count total files to provide better progress reporting
-    for (const folder of project.sourceFolders) {
-      if (!folder || !folder.path) continue;
-      
-      try {
-        const jsonFiles = await fileScanner.findJsonFiles(folder.path);
-        totalFiles += jsonFiles.length;
-      } catch (error) {
-        console.warn(`Error counting files in ${folder.path || 'unknown path'}:`, error);
-      }
-    }
+    // Only files added, modified or removed since the last scan are processed
+    let lastProgress: IngestProgress = { current: 0, total: 100, message: 'Starting JSON/JSONL file scan...' };
+    const updateScanProgress = (progress: IngestProgress, isPaused: boolean = false) => {
+      // Send progress update
+      sendResponse('scan-progress', { projectId, ...progress });
 
-    // Process each source folder
-    for (const folder of project.sourceFolders) {
-      if (!folder || !folder.path) continue;
-      
-      try {
-        if (!fs.existsSync(folder.path)) {
-          errors.push({
-            file: folder.path,
-            error: 'Source folder does not exist'
-          });
-          continue;
+      // Update project status (failures are logged but do not stop the scan)
+      projectManager.updateProjectInRegistry(projectId, {
+        scanStatus: {
+          isScanning: true,
+          isPaused,
+          progress
         }
+      }).catch(error => {
+        console.error('Failed to update project scan status:', error);
+      });
+    };
 
-        // Find all JSON and JSONL files in the folder
-        const jsonFiles = await fileScanner.findJsonFiles(folder.path);
-        
-        // Process each file
-        for (let i = 0; i < jsonFiles.length; i++) {
-          const filePath = jsonFiles[i];
-          
-          // Send progress update
-          sendResponse('scan-progress', { 
-            projectId,
-            current: processedFiles, 
-            total: totalFiles, 
-            message: `Processing file ${processedFiles + 1}/${totalFiles}: ${filePath ? path.basename(filePath) : 'unknown file'}` 
-          });
-          
-          // Update project status periodically (not on every file to reduce DB writes)
-          await projectManager.updateProjectInRegistry(projectId, {
-            scanStatus: {
-              isScanning: true,
-              progress: {
-                current: processedFiles,
-                total: totalFiles,
-                message: `Processing file ${processedFiles + 1}/${totalFiles}: ${filePath ? path.basename(filePath) : 'unknown file'}`
-              }
-            }
-          }).catch(error => {
-            console.error('Failed to update project scan status:', error);
-          });
-          
-          try {
-            if (filePath) {
-              // Parse the file
-              const jsonData = await fileScanner.parseFile(filePath);
-              
-              // Define chunk size
-              const CHUNK_SIZE = 50;
-              
-              // Process objects in chunks
-              for (let i = 0; i < jsonData.length; i += CHUNK_SIZE) {
-                // Get current chunk of objects
-                const chunk = jsonData.slice(i, i + CHUNK_SIZE);
-                
-                // First pass: determine all necessary columns in this chunk
-                const newColumns = new Set<string>();
-                for (const obj of chunk) {
-                  for (const key of Object.keys(obj)) {
-                    if (!key.startsWith('_') && !processedColumns.has(key)) {
-                      newColumns.add(key);
-                    }
-                  }
-                }
-                
-                // Add all new columns to the database at once
-                for (const key of newColumns) {
-                  try {
-                    await dbManager.executeNonQuery(`ALTER TABLE ${tableName} ADD COLUMN "${key}" TEXT`);
-                    processedColumns.add(key);
-                  } catch (columnError) {
-                    // Column might already exist, ignore the error
-                    console.warn(`Column "${key}" might already exist:`, columnError);
-                    processedColumns.add(key);
-                  }
-                }
-                
-                // Second pass: prepare true bulk insert for all objects in the chunk
-                const validObjects = chunk.filter(obj => Object.keys(obj).length > 0);
-                
-                if (validObjects.length > 0) {
-                  // Get all columns across all objects in this chunk
-                  const allColumns = new Set<string>();
-                  for (const obj of validObjects) {
-                    for (const key of Object.keys(obj)) {
-                      if (!key.startsWith('_')) {
-                        allColumns.add(key);
-                      }
-                    }
-                  }
-                  
-                  // Convert to array and sort for consistent order
-                  const columnArray = Array.from(allColumns).sort();
-                  
-                  // Create column string for SQL query
-                  const columnString = columnArray.map(col => `"${col}"`).join(', ');
-                  
-                  // Build the multi-row VALUES part of the query and parameter array
-                  let valuesSql = '';
-                  const allParams: any[] = [];
-                  
-                  validObjects.forEach((obj, index) => {
-                    // Add comma if not the first item
-                    if (index > 0) {
-                      valuesSql += ', ';
-                    }
-                    
-                    // Add source file parameter
-                    allParams.push(filePath);
-                    
-                    // Create placeholders for this row and add values to params array
-                    valuesSql += '(?';  // Start with source file placeholder
-                    
-                    // Add placeholders and values for each column
-                    columnArray.forEach(col => {
-                      valuesSql += ', ?';
-                      // Add the value or null if it doesn't exist
-                      allParams.push(obj[col] !== undefined ? obj[col] : null);
-                    });
-                    
-                    valuesSql += ')';
-                  });
-                  
-                  // Execute the bulk insert
-                  await dbManager.executeNonQuery(
-                    `INSERT INTO ${tableName} (_source_file, ${columnString}) VALUES ${valuesSql}`,
-                    allParams
-                  );
-                  
-                  // Update the count of extracted objects
-                  extractedObjects += validObjects.length;
-                }
-              }
-            }
-            
-            processedFiles++;
-            
-            // Yield to the event loop to prevent UI freezing
-            await new Promise(resolve => setTimeout(resolve, 0));
-          } catch (fileError) {
-            errors.push({
-              file: filePath,
-              error: (fileError as Error).message
-            });
-            processedFiles++;
-          }
-        }
-      } catch (folderError) {
-        errors.push({
-          file: folder.path,
-          error: `Failed to scan folder: ${(folderError as Error).message}`
-        });
+    const outcome = await scanWorkerManager.startScan(projectId, project.workingDirectory, project.sourceFolders, {
+      onProgress: (progress) => {
+        lastProgress = progress;
+        updateScanProgress(progress);
+      },
+      onPaused: () => {
+        updateScanProgress({ ...lastProgress, message: `Scan paused. ${lastProgress.message}` }, true);
+        sendResponse('scan-paused', { projectId });
+      },
+      onResumed: () => {
+        updateScanProgress(lastProgress);
+        sendResponse('scan-resumed', { projectId });
       }
+    }, project.scanSettings, changedPaths);
+
+    if (outcome.status === 'cancelled') {
+      // The worker rolled back its transaction, so the previous data table is still in place
+      // and the watched changes are kept for the next watch scan
+      addQueuedWatchChanges(projectId, changedPaths);
+      await projectManager.updateProjectInRegistry(projectId, {
+        scanStatus: {
+          isScanning: false,
+          progress: undefined,
+          lastScanResult: project.scanStatus?.lastScanResult
+        }
+      });
+
+      sendResponse('scan-cancelled', {
+        projectId,
+        message: 'Scan cancelled. The data from the previous scan has been kept.'
+      });
+      return;
     }
 
+    const ingestResults = outcome.results;
+    const { totalFiles, processedFiles, extractedObjects, errors, detectedFormats } = ingestResults;
+    const completionMessage = `Scan completed. Processed ${processedFiles} files and extracted ${extractedObjects} objects ` +
+      `(${ingestResults.addedFiles} added, ${ingestResults.modifiedFiles} modified, ` +
+      `${ingestResults.removedFiles} removed, ${ingestResults.unchangedFiles} unchanged).`;
+
     // Get the schema of the created table
     const tableSchema = await dbManager.getDataTableSchema('default');
     
@@ -637,12 +639,13 @@ ipcMain.on('scan-source-directories', async (event, projectId: string) => {
       processedFiles,
       totalRecords: extractedObjects,
       columns: tableSchema.map(col => ({
-        name: col.columnName,
-        type: col.dataType,
-        nullable: col.nullable,
+        name: col.name,
+        type: col.type,
+        nullable: col.nullable ?? col.notnull === 0,
         sampleValues: []
       })),
       errors,
+      detectedFormats,
       scanDate: new Date()
     };
 
@@ -653,33 +656,51 @@ ipcMain.on('scan-source-directories', async (event, projectId: string) => {
         progress: {
           current: totalFiles,
           total: totalFiles,
-          message: `Scan completed. Processed ${processedFiles} files and extracted ${extractedObjects} objects.`
+          message: completionMessage
         },
         lastScanResult: {
           processedFiles,
           extractedObjects,
-          completedDate: new Date()
+          completedDate: new Date(),
+          scanId: ingestResults.scanId,
+          errorCount: errors.length
         }
       }
     });
 
+    if (project.scanSchedule) {
+      publishScheduleStatus(projectId, new Date()).catch(error => {
+        console.error('Failed to update project schedule status:', error);
+      });
+    }
+
     // Send progress update - completed
     sendResponse('scan-progress', { 
       projectId,
       current: 100, 
       total: 100, 
-      message: `Scan completed. Processed ${processedFiles} files and extracted ${extractedObjects} objects.` 
+      message: completionMessage
     });
 
     // Send scan complete event
     sendResponse('scan-complete', { 
       projectId, 
       processedFiles, 
-      extractedObjects 
+      extractedObjects,
+      addedFiles: ingestResults.addedFiles,
+      modifiedFiles: ingestResults.modifiedFiles,
+      removedFiles: ingestResults.removedFiles,
+      unchangedFiles: ingestResults.unchangedFiles,
+      errorCount: errors.length,
+      detectedFormats
     });
+    completed = true;
 
   } catch (error) {
     console.error('Failed to scan source directories:', error);
+
+    // The changes of a failed watch scan are kept for the next watch scan
+    addQueuedWatchChanges(projectId, changedPaths);
     
     // Update project with error status
     try {
@@ -699,9 +720,279 @@ ipcMain.on('scan-source-directories', async (event, projectId: string) => {
     }
     
     sendError('Failed to scan source directories', (error as Error).message);
+  } finally {
+    scanningProjects.delete(projectId);
+
+    // Changes the watch reported while scanning are scanned next; after a failed or cancelled scan
+    // they wait for the next change, so a scan that keeps failing is not retried over and over
+    if (completed) {
+      runQueuedWatchScan(projectId);
+    } else if (queuedWatchChanges.has(projectId)) {
+      publishWatchStatus(projectId);
+    }
+  }
+}
+
+/**
+ * Whether a scan of a project is being started or running
+ */
+function isProjectScanning(projectId: string): boolean {
+  return scanningProjects.has(projectId) || scanWorkerManager.isScanning(projectId);
+}
+
+/**
+ * Pause a running scan
+ */
+ipcMain.on('pause-scan', (event, projectId: string) => {
+  try {
+    if (!projectId) {
+      throw new Error('Project ID is required');
+    }
+
+    scanWorkerManager.pauseScan(projectId);
+  } catch (error) {
+    console.error('Failed to pause scan:', error);
+    sendError('Failed to pause scan', (error as Error).message);
+  }
+});
+
+/**
+ * Resume a paused scan
+ */
+ipcMain.on('resume-scan', (event, projectId: string) => {
+  try {
+    if (!projectId) {
+      throw new Error('Project ID is required');
+    }
+
+    scanWorkerManager.resumeScan(projectId);
+  } catch (error) {
+    console.error('Failed to resume scan:', error);
+    sendError('Failed to resume scan', (error as Error).message);
+  }
+});
+
+/**
+ * Cancel a running scan and roll back its changes
+ */
+ipcMain.on('cancel-scan', (event, projectId: string) => {
+  try {
+    if (!projectId) {
+      throw new Error('Project ID is required');
+    }
+
+    scanWorkerManager.cancelScan(projectId);
+  } catch (error) {
+    console.error('Failed to cancel scan:', error);
+    sendError('Failed to cancel scan', (error as Error).message);
+  }
+});
+
+/**
+ * Turn watching a project's source folders on or off
+ */
+ipcMain.on('update-watch-settings', async (event, data: { projectId: string; watchSettings: WatchSettings }) => {
+  try {
+    if (!data || !data.projectId || !data.watchSettings) {
+      throw new Error('Project ID and watch settings are required');
+    }
+
+    const project = await projectManager.updateWatchSettings(data.projectId, data.watchSettings);
+    await updateProjectWatch(data.projectId);
+
+    sendResponse('watch-settings-updated', {
+      projectId: data.projectId,
+      watchSettings: project.watchSettings
+    });
+  } catch (error) {
+    console.error('Failed to update watch settings:', error);
+    sendError('Failed to update watch settings', (error as Error).message);
   }
 });
 
+/**
+ * Set or remove a project's scan schedule
+ */
+ipcMain.on('update-scan-schedule', async (event, data: { projectId: string; scanSchedule: ScanSchedule | null }) => {
+  try {
+    if (!data || !data.projectId || data.scanSchedule === undefined) {
+      throw new Error('Project ID and scan schedule are required');
+    }
+
+    const project = await projectManager.updateScanSchedule(data.projectId, data.scanSchedule);
+    await updateProjectSchedule(data.projectId);
+
+    sendResponse('scan-schedule-updated', {
+      projectId: data.projectId,
+      scanSchedule: project.scanSchedule ?? null
+    });
+  } catch (error) {
+    console.error('Failed to update scan schedule:', error);
+    sendError('Failed to update scan schedule', (error as Error).message);
+  }
+});
+
+/**
+ * Start or stop a project's scan schedule to match its settings and report its next and last run
+ * With catchUp, a run that was due while the application was closed is started now
+ */
+async function updateProjectSchedule(projectId: string, catchUp: boolean = false): Promise<void> {
+  const project = await projectManager.getProject(projectId);
+  if (!project?.scanSchedule) {
+    scanScheduler.unschedule(projectId);
+    return;
+  }
+
+  scanScheduler.schedule(projectId, project.scanSchedule);
+
+  const dbManager = await projectManager.openProjectDatabase(projectId);
+  const lastRun = await new ScanRunLog(dbManager).getLatestRun();
+  const lastRunDate = lastRun ? lastRun.completedDate : null;
+  await publishScheduleStatus(projectId, lastRunDate);
+
+  if (catchUp && project.sourceFolders.length > 0) {
+    const since = Math.max(lastRunDate?.getTime() ?? 0, project.scanSchedule.updatedDate?.getTime() ?? 0);
+    if (scanScheduler.getMissedRunDate(project.scanSchedule, new Date(since))) {
+      console.log(`Catching up on a missed scheduled scan of ${project.name}`);
+      scanProject(projectId);
+    }
+  }
+}
+
+/**
+ * Start the scan schedules of all projects that have one
+ */
+async function startScanSchedules(): Promise<void> {
+  const projects = await projectManager.getProjects();
+
+  for (const project of projects) {
+    if (!project.scanSchedule) continue;
+
+    try {
+      await updateProjectSchedule(project.id, true);
+    } catch (error) {
+      console.warn(`Failed to schedule scans of project ${project.name}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Scan a project when its schedule fires, unless it is already being scanned or has nothing to scan
+ */
+async function runScheduledScan(projectId: string): Promise<void> {
+  try {
+    // Report the next run right away; the last run is reported when the scan completes
+    await publishScheduleStatus(projectId);
+
+    const project = await projectManager.getProject(projectId);
+    if (!project || project.sourceFolders.length === 0 || isProjectScanning(projectId)) {
+      return;
+    }
+
+    await scanProject(projectId);
+  } catch (error) {
+    console.error('Failed to run scheduled scan:', error);
+  }
+}
+
+/**
+ * Store a project's next and last scheduled run and send them to the renderer
+ * The last run is kept when no new one is given
+ */
+async function publishScheduleStatus(projectId: string, lastRunDate?: Date | null): Promise<void> {
+  const project = await projectManager.getProject(projectId);
+  const scheduleStatus = {
+    nextRunDate: scanScheduler.getNextRunDate(projectId),
+    lastRunDate: lastRunDate !== undefined ? lastRunDate : project?.scheduleStatus?.lastRunDate ?? null
+  };
+
+  await projectManager.updateProjectInRegistry(projectId, { scheduleStatus });
+  sendResponse('schedule-status-changed', { projectId, scheduleStatus });
+}
+
+/**
+ * Start or stop watching a project's source folders to match its watch settings and folders
+ */
+async function updateProjectWatch(projectId: string): Promise<void> {
+  const project = await projectManager.getProject(projectId);
+
+  if (project?.watchSettings?.enabled && project.sourceFolders.length > 0) {
+    await folderWatcher.watchProject(projectId, project.sourceFolders, project.watchSettings, project.scanSettings, project.workingDirectory);
+  } else {
+    queuedWatchChanges.delete(projectId);
+    folderWatcher.unwatchProject(projectId);
+  }
+}
+
+/**
+ * Start watching the projects that have watching enabled
+ */
+async function startProjectWatches(): Promise<void> {
+  const projects = await projectManager.getProjects();
+
+  for (const project of projects) {
+    if (!project.watchSettings?.enabled) continue;
+
+    try {
+      await updateProjectWatch(project.id);
+    } catch (error) {
+      console.warn(`Failed to watch project ${project.name}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Queue the paths a watched project reported as changed and scan them unless a scan is running
+ */
+function queueWatchChanges(projectId: string, changedPaths: string[]): void {
+  addQueuedWatchChanges(projectId, changedPaths);
+  runQueuedWatchScan(projectId);
+}
+
+/**
+ * Add changed paths to a watched project's queue; projects no longer watched queue nothing
+ */
+function addQueuedWatchChanges(projectId: string, changedPaths?: string[]): void {
+  if (!changedPaths || changedPaths.length === 0 || !folderWatcher.isWatching(projectId)) {
+    return;
+  }
+
+  const queued = queuedWatchChanges.get(projectId) ?? new Set<string>();
+  changedPaths.forEach(changedPath => queued.add(changedPath));
+  queuedWatchChanges.set(projectId, queued);
+}
+
+/**
+ * Scan the queued changes of a watched project once no scan is running
+ */
+function runQueuedWatchScan(projectId: string): void {
+  const queued = queuedWatchChanges.get(projectId);
+  if (!queued) {
+    return;
+  }
+  if (isProjectScanning(projectId)) {
+    publishWatchStatus(projectId);
+    return;
+  }
+
+  queuedWatchChanges.delete(projectId);
+  publishWatchStatus(projectId);
+  scanProject(projectId, Array.from(queued));
+}
+
+/**
+ * Store a project's watch status and send it to the renderer
+ * Pending changes include those waiting for a running scan to finish
+ */
+function publishWatchStatus(projectId: string): void {
+  const status = folderWatcher.getStatus(projectId);
+  const watchStatus = { ...status, pendingChanges: status.pendingChanges + (queuedWatchChanges.get(projectId)?.size ?? 0) };
+
+  projectManager.updateProjectInRegistry(projectId, { watchStatus })
+    .then(() => sendResponse('watch-status-changed', { projectId, watchStatus }))
+    .catch(error => console.error('Failed to update project watch status:', error));
+}
+
 // The findJsonFiles, processJsonFile, and processJsonlFile functions have been removed
 // as we now use the JSONScanner class methods instead
 
@@ -821,7 +1112,7 @@ ipcMain.on('get-views', async (event, projectId: string) => {
 // All scanning is now handled by the scan-source-directories handler
 
 /**
- * Execute a query on view data
+ * Execute a structured query model on view data
  */
 ipcMain.on('execute-query', async (event, data: { projectId: string; query: QueryModel }) => {
   try {
@@ -838,13 +1129,8 @@ ipcMain.on('execute-query', async (event, data: { projectId: string; query: Quer
     // Get database manager for the project
     const dbManager = await projectManager.openProjectDatabase(data.projectId);
 
-    // For now, return empty results as query execution would require
-    // implementing the QueryBuilder class and SQL generation
-    const queryResult: QueryResult = {
-      data: [],
-      totalCount: 0,
-      columns: []
-    };
+    // Compile the query model to parameterized SQL and run it against the view's data table
+    const queryResult: QueryResult = await queryBuilder.execute(dbManager, data.query);
 
     sendResponse('query-results', queryResult);
 
@@ -943,6 +1229,155 @@ ipcMain.on('get-view-schema', async (event, data: { projectId: string; viewId: s
   }
 });
 
+/**
+ * Get the tables of the project database for the schema browser
+ */
+ipcMain.on('get-project-schema', async (event, projectId: string) => {
+  try {
+    if (!projectId) {
+      throw new Error('Project ID is required');
+    }
+
+    // Get database manager for the project
+    const dbManager = await projectManager.openProjectDatabase(projectId);
+    const tables = await dbManager.getProjectTables();
+
+    sendResponse('project-schema-loaded', { projectId, tables });
+
+  } catch (error) {
+    console.error('Failed to get project schema:', error);
+    sendError('Failed to get project schema', (error as Error).message);
+  }
+});
+
+/**
+ * Get the errors recorded by the last completed scan of a project
+ */
+ipcMain.on('get-scan-errors', async (event, projectId: string) => {
+  try {
+    if (!projectId) {
+      throw new Error('Project ID is required');
+    }
+
+    const project = await projectManager.getProject(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const scanId = project.scanStatus?.lastScanResult?.scanId ?? null;
+    let errors: RecordedScanError[] = [];
+    if (scanId) {
+      const dbManager = await projectManager.openProjectDatabase(projectId);
+      errors = await new ScanErrorLog(dbManager).getErrors(scanId);
+    }
+
+    sendResponse('scan-errors-loaded', { projectId, scanId, errors });
+  } catch (error) {
+    console.error('Failed to get scan errors:', error);
+    sendError('Failed to get scan errors', (error as Error).message);
+  }
+});
+
+/**
+ * Get the history of completed scan runs of a project, most recent first
+ */
+ipcMain.on('get-scan-runs', async (event, projectId: string) => {
+  try {
+    if (!projectId) {
+      throw new Error('Project ID is required');
+    }
+
+    const project = await projectManager.getProject(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const dbManager = await projectManager.openProjectDatabase(projectId);
+    const runs = await new ScanRunLog(dbManager).getRuns();
+
+    sendResponse('scan-runs-loaded', { projectId, runs });
+  } catch (error) {
+    console.error('Failed to get scan runs:', error);
+    sendError('Failed to get scan runs', (error as Error).message);
+  }
+});
+
+/**
+ * List the schema changes between two scan runs of a project
+ */
+ipcMain.on('compare-scan-runs', async (event, data: { projectId: string; fromScanId: string; toScanId: string }) => {
+  try {
+    if (!data || !data.projectId || !data.fromScanId || !data.toScanId) {
+      throw new Error('Project ID and two scan IDs are required');
+    }
+
+    const project = await projectManager.getProject(data.projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const dbManager = await projectManager.openProjectDatabase(data.projectId);
+    const changes = await new ScanRunLog(dbManager).compareRuns(data.fromScanId, data.toScanId);
+
+    sendResponse('scan-runs-compared', { ...data, changes });
+  } catch (error) {
+    console.error('Failed to compare scan runs:', error);
+    sendError('Failed to compare scan runs', (error as Error).message);
+  }
+});
+
+/**
+ * Read the raw text of a record from its source file, for revealing a query result row in its source
+ * Only files in the project's source folders are read, framed by the project's scan settings and parsers
+ */
+ipcMain.on('get-record-source', async (event, data: { projectId: string; filePath: string; offset: number }) => {
+  try {
+    if (!data || !data.projectId) {
+      throw new Error('Project ID is required');
+    }
+    if (!data.filePath || data.offset === undefined || data.offset === null) {
+      throw new Error('File path and offset are required');
+    }
+
+    const project = await projectManager.getProject(data.projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    if (!isInSourceFolder(project.sourceFolders, data.filePath)) {
+      throw new Error('File is not in a source folder of the project');
+    }
+
+    const scanner = new FileScanner(project.scanSettings);
+    scanner.loadProjectParsers(project.workingDirectory);
+    const source = await scanner.readRecordSource(data.filePath, Number(data.offset));
+
+    sendResponse('record-source-loaded', {
+      filePath: data.filePath,
+      offset: data.offset,
+      text: source.text,
+      truncated: source.truncated
+    });
+  } catch (error) {
+    console.error('Failed to read record source:', error);
+    sendError('Failed to read record source', (error as Error).message);
+  }
+});
+
+/**
+ * Check whether a _source_file path is inside one of the source folders
+ * Archive entries and worksheets are checked by the path of their archive or workbook
+ */
+function isInSourceFolder(sourceFolders: SourceFolder[], sourceFile: string): boolean {
+  // Sheet names cannot contain path separators, so a suffix holding one is part of the path
+  const storedPath = sourceFile.split(ARCHIVE_ENTRY_SEPARATOR)[0]!.replace(/#[^/\\]*$/, '');
+  const resolvedPath = path.resolve(storedPath);
+
+  return sourceFolders.some(folder => {
+    const relative = path.relative(path.resolve(folder.path), resolvedPath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
+}
+
 /**
  * Check if view has data table
  */
@@ -990,6 +1425,15 @@ if (process.platform === 'darwin') {
 app.on('window-all-closed', async () => {
   // Cleanup managers before quitting
   try {
+    if (folderWatcher) {
+      folderWatcher.unwatchAll();
+    }
+    if (scanScheduler) {
+      scanScheduler.unscheduleAll();
+    }
+    if (scanWorkerManager) {
+      await scanWorkerManager.terminateAll();
+    }
     if (projectManager) {
       await projectManager.close();
     }
@@ -1014,6 +1458,15 @@ app.on('activate', () => {
 // Handle app quit
 app.on('before-quit', async () => {
   try {
+    if (folderWatcher) {
+      folderWatcher.unwatchAll();
+    }
+    if (scanScheduler) {
+      scanScheduler.unscheduleAll();
+    }
+    if (scanWorkerManager) {
+      await scanWorkerManager.terminateAll();
+    }
     if (projectManager) {
       await projectManager.close();
     }
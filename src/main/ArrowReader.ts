@@ -0,0 +1,174 @@
+import { FileHandle } from 'fs/promises';
+import { DataType, RecordBatch, RecordBatchReader, Schema, util } from 'apache-arrow';
+import { RandomAccessFile } from './SourceFileReader';
+import { ColumnValueConverter, DeclaredTypes, DeclaredValueType, TimeUnit } from './ColumnValueConverter';
+
+const FEATHER_V1_MAGIC = 'FEA1';
+
+// Arrow's TimeUnit enum in order
+const TIME_UNITS: TimeUnit[] = ['second', 'millisecond', 'microsecond', 'nanosecond'];
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ArrowMetadata {
+  schema: Schema;
+  batches: AsyncIterable<RecordBatch>;  // The record batches of the file, read as they are iterated
+}
+
+/**
+ * ArrowReader reads Arrow IPC files, streams and Feather version 2 files one record batch at a
+ * time with apache-arrow. Values are converted according to their field type, and the schema
+ * declares each field's value type.
+ */
+export class ArrowReader {
+  private converter = new ColumnValueConverter();
+
+  /**
+   * Read the schema of an Arrow file or stream
+   */
+  async readMetadata(file: RandomAccessFile): Promise<ArrowMetadata> {
+    const head = await file.read(0, 4);
+    if (head.toString('latin1') === FEATHER_V1_MAGIC) {
+      throw new Error('Feather version 1 files are not supported');
+    }
+
+    const reader = await RecordBatchReader.from(this.toFileHandle(file));
+    await reader.open();
+    if (!reader.schema) {
+      throw new Error('Not an Arrow file: missing schema message');
+    }
+    return { schema: reader.schema, batches: reader };
+  }
+
+  /**
+   * Get the value types the schema declares for the fields of a record
+   * List and map fields are stored as JSON text
+   */
+  getDeclaredTypes(metadata: ArrowMetadata): DeclaredTypes {
+    const collect = (fields: { name: string; type: DataType }[]): DeclaredTypes => {
+      const types: DeclaredTypes = {};
+      for (const field of fields) {
+        types[field.name] = DataType.isStruct(field.type) ? collect(field.type.children) : this.getValueType(field.type);
+      }
+      return types;
+    };
+    return collect(metadata.schema.fields);
+  }
+
+  /**
+   * Read the rows of an Arrow file one record batch at a time
+   */
+  async *readRecordBatches(metadata: ArrowMetadata): AsyncGenerator<Record<string, any>[]> {
+    for await (const batch of metadata.batches) {
+      const columns = batch.schema.fields.map((field, index) => ({ field, vector: batch.getChildAt(index) }));
+      yield Array.from({ length: batch.numRows }, (_, row) => {
+        const record: Record<string, any> = {};
+        for (const { field, vector } of columns) {
+          record[field.name] = this.convertValue(vector?.get(row) ?? null, field.type);
+        }
+        return record;
+      });
+    }
+  }
+
+  /**
+   * Present a file as the file handle apache-arrow reads at any position
+   */
+  private toFileHandle(file: RandomAccessFile): FileHandle {
+    const handle = {
+      fd: -1,
+      stat: async () => ({ size: file.size }),
+      read: async (buffer: Uint8Array, offset: number, length: number, position: number) => {
+        const bytes = await file.read(position, length);
+        buffer.set(bytes, offset);
+        return { bytesRead: bytes.length, buffer };
+      },
+      // The caller closes the file once the rows are read
+      close: async () => {}
+    };
+    return handle as unknown as FileHandle;
+  }
+
+  /**
+   * Get the value type a field type declares
+   */
+  private getValueType(type: DataType): DeclaredValueType {
+    if (DataType.isDictionary(type)) {
+      return this.getValueType(type.dictionary);
+    }
+    if (DataType.isInt(type)) {
+      // Unsigned 64-bit integers may not fit the integers of the data table
+      return type.bitWidth === 64 && !type.isSigned ? 'text' : 'integer';
+    }
+    if (DataType.isDuration(type)) {
+      return 'integer';
+    }
+    if (DataType.isFloat(type)) {
+      return 'real';
+    }
+    if (DataType.isBool(type)) {
+      return 'boolean';
+    }
+    if (DataType.isDecimal(type)) {
+      // Decimals with more digits than a double holds are kept as exact text
+      if (type.precision > 15) return 'text';
+      return type.scale === 0 ? 'integer' : 'real';
+    }
+    return 'text';
+  }
+
+  /**
+   * Convert a value read by apache-arrow to a record value according to its field type
+   */
+  private convertValue(value: any, type: DataType): any {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    if (DataType.isDictionary(type)) {
+      return this.convertValue(value, type.dictionary);
+    }
+    if (DataType.isStruct(type)) {
+      const record: Record<string, any> = {};
+      for (const child of type.children) {
+        record[child.name] = this.convertValue(value[child.name] ?? null, child.type);
+      }
+      return record;
+    }
+    if (DataType.isList(type) || DataType.isLargeList(type) || DataType.isFixedSizeList(type)) {
+      const elementType = type.children[0]!.type;
+      return Array.from(value as Iterable<any>, item => this.convertValue(item, elementType));
+    }
+    if (DataType.isMap(type)) {
+      // Map entries are keyed by the text of their keys
+      const valueType = type.children[0]!.type.children[1]!.type;
+      const map: Record<string, any> = {};
+      for (const [key, item] of value as Iterable<[any, any]>) {
+        map[String(key)] = this.convertValue(item, valueType);
+      }
+      return map;
+    }
+
+    if (DataType.isInt(type) || DataType.isDuration(type)) {
+      return typeof value === 'bigint' ? this.converter.toInteger(value) : value;
+    }
+    if (DataType.isDecimal(type)) {
+      return this.converter.toDecimal(util.bigNumToBigInt(value), type.scale);
+    }
+    if (DataType.isDate(type)) {
+      // apache-arrow reads dates as milliseconds since the Unix epoch
+      return this.converter.toDate(Math.floor(value / MILLISECONDS_PER_DAY));
+    }
+    if (DataType.isTimestamp(type)) {
+      // apache-arrow reads timestamps of every unit as milliseconds
+      return this.converter.toTimestamp(value, 'millisecond');
+    }
+    if (DataType.isTime(type)) {
+      return this.converter.toTimeOfDay(value, TIME_UNITS[type.unit] ?? 'millisecond');
+    }
+    if (DataType.isBinary(type) || DataType.isLargeBinary(type) || DataType.isFixedSizeBinary(type)) {
+      return this.converter.toBinary(Buffer.from(value));
+    }
+    return value;
+  }
+}
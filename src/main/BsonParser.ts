@@ -0,0 +1,229 @@
+// Largest document accepted, as in MongoDB
+const MAX_DOCUMENT_SIZE = 16 * 1024 * 1024;
+
+// Exponent bias of the IEEE 754-2008 decimal128 type
+const DECIMAL128_EXPONENT_BIAS = 6176;
+
+export interface BsonDocument {
+  document: Record<string, any>;
+  offset: number;   // Byte offset of the document in the stream
+}
+
+/**
+ * BsonParser reads BSON, the binary format of MongoDB and of `mongodump` files, which are
+ * a sequence of documents each starting with its length. Documents are read one at a time.
+ * Values without a JSON equivalent become MongoDB Extended JSON type wrappers such as
+ * `{ "$oid": ... }`, `{ "$date": ... }` and `{ "$numberDecimal": ... }`, as `mongoexport` writes them.
+ */
+export class BsonParser {
+  /**
+   * Parse a stream of concatenated BSON documents
+   */
+  async *parse(stream: AsyncIterable<string | Buffer> | Iterable<string | Buffer>): AsyncGenerator<BsonDocument> {
+    let pending = Buffer.alloc(0);
+    let offset = 0;
+
+    for await (const chunk of stream) {
+      pending = Buffer.concat([pending, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+
+      while (pending.length >= 4) {
+        const length = pending.readInt32LE(0);
+        if (length < 5 || length > MAX_DOCUMENT_SIZE) {
+          throw new Error(`Invalid BSON document length ${length} at byte ${offset}`);
+        }
+        if (pending.length < length) break;
+
+        yield { document: this.decodeDocument(pending.subarray(0, length), offset), offset };
+        pending = pending.subarray(length);
+        offset += length;
+      }
+    }
+
+    if (pending.length > 0) {
+      throw new Error(`Unexpected end of input inside the BSON document at byte ${offset}`);
+    }
+  }
+
+  /**
+   * Decode one BSON document, including its length prefix and terminating zero byte
+   */
+  decodeDocument(buffer: Buffer, offset: number = 0): Record<string, any> {
+    try {
+      const length = buffer.readInt32LE(0);
+      if (length !== buffer.length || buffer[length - 1] !== 0) {
+        throw new Error('document length does not match its contents');
+      }
+      return this.readElements(buffer, 4, length - 1);
+    } catch (error) {
+      throw new Error(`Invalid BSON document at byte ${offset}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Read the elements between two positions of a buffer into an object
+   */
+  private readElements(buffer: Buffer, start: number, end: number): Record<string, any> {
+    const result: Record<string, any> = {};
+    let position = start;
+
+    while (position < end) {
+      const type = buffer[position]!;
+      const nameEnd = this.findZero(buffer, position + 1);
+      const name = buffer.toString('utf8', position + 1, nameEnd);
+      const { value, next } = this.readValue(buffer, type, nameEnd + 1);
+      result[name] = value;
+      position = next;
+    }
+
+    if (position !== end) {
+      throw new Error('element runs past the end of its document');
+    }
+    return result;
+  }
+
+  /**
+   * Read the value of an element of a type starting at a position
+   * Returns the value and the position after it
+   */
+  private readValue(buffer: Buffer, type: number, position: number): { value: any; next: number } {
+    switch (type) {
+      case 0x01: {  // Double
+        const value = buffer.readDoubleLE(position);
+        return { value: Number.isFinite(value) ? value : { $numberDouble: String(value) }, next: position + 8 };
+      }
+      case 0x02:  // String
+        return this.readString(buffer, position);
+      case 0x03:  // Embedded document
+      case 0x04: {  // Array, a document keyed by index
+        const length = buffer.readInt32LE(position);
+        const elements = this.readElements(buffer, position + 4, position + length - 1);
+        return { value: type === 0x04 ? Object.values(elements) : elements, next: position + length };
+      }
+      case 0x05: {  // Binary
+        const length = buffer.readInt32LE(position);
+        const subType = buffer[position + 4]!;
+        // The old binary subtype repeats the length inside the data
+        const dataStart = subType === 0x02 ? position + 9 : position + 5;
+        const base64 = buffer.toString('base64', dataStart, position + 5 + length);
+        return { value: { $binary: { base64, subType: subType.toString(16).padStart(2, '0') } }, next: position + 5 + length };
+      }
+      case 0x06:  // Undefined
+        return { value: { $undefined: true }, next: position };
+      case 0x07:  // ObjectId
+        return { value: { $oid: buffer.toString('hex', position, position + 12) }, next: position + 12 };
+      case 0x08:  // Boolean
+        return { value: buffer[position] === 1, next: position + 1 };
+      case 0x09:  // UTC datetime in milliseconds
+        return { value: { $date: { $numberLong: buffer.readBigInt64LE(position).toString() } }, next: position + 8 };
+      case 0x0a:  // Null
+        return { value: null, next: position };
+      case 0x0b: {  // Regular expression
+        const patternEnd = this.findZero(buffer, position);
+        const optionsEnd = this.findZero(buffer, patternEnd + 1);
+        const regularExpression = {
+          pattern: buffer.toString('utf8', position, patternEnd),
+          options: buffer.toString('utf8', patternEnd + 1, optionsEnd)
+        };
+        return { value: { $regularExpression: regularExpression }, next: optionsEnd + 1 };
+      }
+      case 0x0c: {  // DBPointer
+        const { value: ref, next } = this.readString(buffer, position);
+        return { value: { $dbPointer: { $ref: ref, $id: { $oid: buffer.toString('hex', next, next + 12) } } }, next: next + 12 };
+      }
+      case 0x0d: {  // JavaScript code
+        const { value, next } = this.readString(buffer, position);
+        return { value: { $code: value }, next };
+      }
+      case 0x0e: {  // Symbol
+        const { value, next } = this.readString(buffer, position);
+        return { value: { $symbol: value }, next };
+      }
+      case 0x0f: {  // JavaScript code with scope
+        const length = buffer.readInt32LE(position);
+        const { value: code, next } = this.readString(buffer, position + 4);
+        const scopeLength = buffer.readInt32LE(next);
+        const scope = this.readElements(buffer, next + 4, next + scopeLength - 1);
+        return { value: { $code: code, $scope: scope }, next: position + length };
+      }
+      case 0x10:  // 32-bit integer
+        return { value: buffer.readInt32LE(position), next: position + 4 };
+      case 0x11:  // Timestamp: increment in the low word, seconds in the high word
+        return {
+          value: { $timestamp: { t: buffer.readUInt32LE(position + 4), i: buffer.readUInt32LE(position) } },
+          next: position + 8
+        };
+      case 0x12:  // 64-bit integer
+        return { value: { $numberLong: buffer.readBigInt64LE(position).toString() }, next: position + 8 };
+      case 0x13:  // Decimal128
+        return { value: { $numberDecimal: this.decodeDecimal128(buffer, position) }, next: position + 16 };
+      case 0xff:  // Min key
+        return { value: { $minKey: 1 }, next: position };
+      case 0x7f:  // Max key
+        return { value: { $maxKey: 1 }, next: position };
+      default:
+        throw new Error(`unknown element type 0x${type.toString(16).padStart(2, '0')}`);
+    }
+  }
+
+  /**
+   * Read a length-prefixed, zero-terminated UTF-8 string
+   */
+  private readString(buffer: Buffer, position: number): { value: string; next: number } {
+    const length = buffer.readInt32LE(position);
+    if (length < 1 || position + 4 + length > buffer.length) {
+      throw new Error('string runs past the end of its document');
+    }
+    return { value: buffer.toString('utf8', position + 4, position + 3 + length), next: position + 4 + length };
+  }
+
+  /**
+   * Find the zero byte ending a C string
+   */
+  private findZero(buffer: Buffer, position: number): number {
+    const end = buffer.indexOf(0, position);
+    if (end === -1) {
+      throw new Error('name runs past the end of its document');
+    }
+    return end;
+  }
+
+  /**
+   * Convert a decimal128 value to its exact decimal text, as MongoDB prints it
+   */
+  private decodeDecimal128(buffer: Buffer, position: number): string {
+    const low = buffer.readBigUInt64LE(position);
+    const high = buffer.readBigUInt64LE(position + 8);
+    const sign = (high >> 63n) === 1n ? '-' : '';
+    const combination = (high >> 58n) & 0x1fn;
+
+    if (combination === 0x1fn) return 'NaN';
+    if (combination === 0x1en) return `${sign}Infinity`;
+
+    let exponent: number;
+    let coefficient: bigint;
+    if (((high >> 61n) & 0x3n) === 0x3n) {
+      // The coefficient would exceed 34 digits, which makes the value a non-canonical zero
+      exponent = Number((high >> 47n) & 0x3fffn) - DECIMAL128_EXPONENT_BIAS;
+      coefficient = 0n;
+    } else {
+      exponent = Number((high >> 49n) & 0x3fffn) - DECIMAL128_EXPONENT_BIAS;
+      coefficient = ((high & 0x1ffffffffffffn) << 64n) | low;
+      if (coefficient > 9999999999999999999999999999999999n) coefficient = 0n;
+    }
+
+    const digits = coefficient.toString();
+    const adjustedExponent = exponent + digits.length - 1;
+
+    if (exponent > 0 || adjustedExponent < -6) {
+      const mantissa = digits.length > 1 ? `${digits[0]}.${digits.slice(1)}` : digits;
+      return `${sign}${mantissa}E${adjustedExponent >= 0 ? '+' : ''}${adjustedExponent}`;
+    }
+    if (exponent === 0) {
+      return `${sign}${digits}`;
+    }
+
+    const padded = digits.padStart(-exponent + 1, '0');
+    const point = padded.length + exponent;
+    return `${sign}${padded.slice(0, point)}.${padded.slice(point)}`;
+  }
+}
@@ -0,0 +1,288 @@
+import { ColumnSchema, DATA_SCHEMA_TABLE } from '../types';
+import { DatabaseManager } from './DatabaseManager';
+import { FileScanner } from './FileScanner';
+import { DeclaredValueType } from './ColumnValueConverter';
+
+type SQLType = ColumnSchema['dataType'];
+
+interface TrackedColumn {
+  name: string;                  // Column name as created in the data table
+  dataType: SQLType | null;      // Current SQL type, null until the column exists
+  observedTypes: Set<string>;    // Value types seen so far, as reported by FileScanner.inferDataType
+  nullable: boolean;
+  exists: boolean;               // Whether the column has been added to the data table
+}
+
+export interface ColumnTypeChange {
+  name: string;
+  from: SQLType | null;          // Previous SQL type, null for a new column
+  to: SQLType;
+}
+
+/**
+ * ColumnSchemaTracker keeps track of the inferred type of every column in a scan table.
+ * Types only ever widen (INTEGER -> REAL -> TEXT) as more values are observed, and the
+ * recorded schema is persisted so incremental scans continue from the previous state.
+ * A column that has only held nulls takes the type of the first values it receives.
+ * Column names are matched case-insensitively, as SQLite does.
+ */
+export class ColumnSchemaTracker {
+  private databaseManager: DatabaseManager;
+  private fileScanner: FileScanner;
+  private tableName: string;
+  private columns = new Map<string, TrackedColumn>();
+  private dirtyColumns = new Set<string>();
+  private hasObservedRecords = false;
+  private observedColumns = new Set<string>();  // Columns records have had since the schema was loaded
+  private declaredTypes = new Map<string, DeclaredValueType>();  // Keyed by lower-case column name
+
+  constructor(databaseManager: DatabaseManager, fileScanner: FileScanner, tableName: string) {
+    this.databaseManager = databaseManager;
+    this.fileScanner = fileScanner;
+    this.tableName = tableName;
+  }
+
+  /**
+   * Create the schema table if it does not exist
+   */
+  async ensureTable(): Promise<void> {
+    await this.databaseManager.executeNonQuery(`
+      CREATE TABLE IF NOT EXISTS ${DATA_SCHEMA_TABLE} (
+        table_name TEXT NOT NULL,
+        column_name TEXT NOT NULL,
+        data_type TEXT NOT NULL,
+        observed_types TEXT NOT NULL,
+        nullable INTEGER NOT NULL DEFAULT 1,
+        PRIMARY KEY (table_name, column_name)
+      )
+    `);
+  }
+
+  /**
+   * Load the recorded schema of the table
+   */
+  async load(): Promise<void> {
+    this.columns.clear();
+    this.dirtyColumns.clear();
+    this.observedColumns.clear();
+
+    const rows = await this.databaseManager.executeQuery(
+      `SELECT column_name, data_type, observed_types, nullable FROM ${DATA_SCHEMA_TABLE} WHERE table_name = ?`,
+      [this.tableName]
+    );
+
+    for (const row of rows) {
+      this.columns.set(row.column_name.toLowerCase(), {
+        name: row.column_name,
+        dataType: row.data_type,
+        observedTypes: new Set(JSON.parse(row.observed_types)),
+        nullable: row.nullable === 1,
+        exists: true
+      });
+    }
+    this.hasObservedRecords = rows.length > 0;
+  }
+
+  /**
+   * Remove the recorded schema of the table
+   */
+  async clear(): Promise<void> {
+    this.columns.clear();
+    this.dirtyColumns.clear();
+    this.hasObservedRecords = false;
+    await this.databaseManager.executeNonQuery(
+      `DELETE FROM ${DATA_SCHEMA_TABLE} WHERE table_name = ?`,
+      [this.tableName]
+    );
+  }
+
+  /**
+   * Check whether a column has a recorded schema
+   */
+  hasColumn(columnName: string): boolean {
+    return this.columns.has(columnName.toLowerCase());
+  }
+
+  /**
+   * Get the name under which a key is stored in the data table
+   */
+  getColumnName(key: string): string {
+    return this.columns.get(key.toLowerCase())?.name ?? key;
+  }
+
+  /**
+   * Get the current type of a column
+   */
+  getColumnType(columnName: string): SQLType | null {
+    return this.columns.get(columnName.toLowerCase())?.dataType ?? null;
+  }
+
+  /**
+   * Set the column types declared by the schema of the file being observed, replacing those of the previous file
+   * Declared types are used instead of types inferred from the values, and apply to columns holding only nulls
+   */
+  setDeclaredTypes(types: Map<string, DeclaredValueType>): void {
+    this.declaredTypes = new Map(Array.from(types, ([name, type]) => [name.toLowerCase(), type]));
+  }
+
+  /**
+   * Observe the values of a batch of records and return the columns that must be added or retyped
+   * Keys starting with an underscore are reserved for internal columns and ignored
+   */
+  observe(records: any[]): ColumnTypeChange[] {
+    // Number of records in this batch that have a value for each column
+    const presentCounts = new Map<string, number>();
+
+    for (const record of records) {
+      const recordKeys = new Set<string>();
+
+      for (const key of Object.keys(record)) {
+        if (key.startsWith('_')) continue;
+
+        const columnKey = key.toLowerCase();
+        this.observedColumns.add(columnKey);
+        if (!recordKeys.has(columnKey)) {
+          recordKeys.add(columnKey);
+          presentCounts.set(columnKey, (presentCounts.get(columnKey) ?? 0) + 1);
+        }
+
+        let column = this.columns.get(columnKey);
+        if (!column) {
+          // Records from earlier batches did not have this column
+          column = { name: key, dataType: null, observedTypes: new Set(), nullable: this.hasObservedRecords, exists: false };
+          this.columns.set(columnKey, column);
+          this.dirtyColumns.add(columnKey);
+        }
+
+        const value = record[key];
+        const declaredType = this.declaredTypes.get(columnKey);
+        if (value === null || value === undefined) {
+          if (!column.nullable) {
+            column.nullable = true;
+            this.dirtyColumns.add(columnKey);
+          }
+          if (declaredType && !column.observedTypes.has(declaredType)) {
+            column.observedTypes.add(declaredType);
+            this.dirtyColumns.add(columnKey);
+          }
+          continue;
+        }
+
+        const valueType = declaredType
+          ? this.fileScanner.inferDeclaredDataType(value, declaredType)
+          : this.fileScanner.inferDataType(value);
+        if (!column.observedTypes.has(valueType)) {
+          column.observedTypes.add(valueType);
+          this.dirtyColumns.add(columnKey);
+        }
+      }
+    }
+
+    // Columns that some records in this batch do not have are nullable
+    for (const [columnKey, column] of this.columns) {
+      if (!column.nullable && (presentCounts.get(columnKey) ?? 0) < records.length) {
+        column.nullable = true;
+        this.dirtyColumns.add(columnKey);
+      }
+    }
+    this.hasObservedRecords = this.hasObservedRecords || records.length > 0;
+
+    const changes: ColumnTypeChange[] = [];
+    for (const columnKey of this.dirtyColumns) {
+      const column = this.columns.get(columnKey)!;
+      const inferredType = this.fileScanner.determineSQLType(column.observedTypes);
+
+      if (!column.exists || column.dataType !== inferredType) {
+        changes.push({ name: column.name, from: column.exists ? column.dataType : null, to: inferredType });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Mark a column change as applied to the data table
+   */
+  applyChange(change: ColumnTypeChange): void {
+    const column = this.columns.get(change.name.toLowerCase());
+    if (column) {
+      column.dataType = change.to;
+      column.exists = true;
+    }
+  }
+
+  /**
+   * Convert a value to the representation stored in a column of the given type
+   */
+  toStorageValue(value: any, dataType: SQLType | null): any {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    if (dataType === 'INTEGER' || dataType === 'REAL') {
+      if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+      }
+      if (typeof value === 'string') {
+        const lowerValue = value.toLowerCase();
+        if (lowerValue === 'true' || lowerValue === 'false') {
+          return lowerValue === 'true' ? 1 : 0;
+        }
+        // Only strings that read back the same are converted, so a code such as 00501 keeps its zeros
+        return this.fileScanner.isNumericString(value) ? Number(value) : value;
+      }
+      return value;
+    }
+
+    return typeof value === 'boolean' ? String(value) : value;
+  }
+
+  /**
+   * Get the names of the table's columns that no record has had since the schema was loaded
+   */
+  getUnobservedColumns(): string[] {
+    return Array.from(this.columns.entries())
+      .filter(([columnKey, column]) => column.exists && !this.observedColumns.has(columnKey))
+      .map(([, column]) => column.name);
+  }
+
+  /**
+   * Forget a column dropped from the table, along with its recorded schema
+   */
+  async removeColumn(columnName: string): Promise<void> {
+    const column = this.columns.get(columnName.toLowerCase());
+    if (!column) return;
+
+    this.columns.delete(columnName.toLowerCase());
+    this.dirtyColumns.delete(columnName.toLowerCase());
+    await this.databaseManager.executeNonQuery(
+      `DELETE FROM ${DATA_SCHEMA_TABLE} WHERE table_name = ? AND column_name = ?`,
+      [this.tableName, column.name]
+    );
+  }
+
+  /**
+   * Get the recorded schema of the table
+   */
+  getSchema(): ColumnSchema[] {
+    return Array.from(this.columns.values())
+      .filter(column => column.exists && column.dataType !== null)
+      .map(column => ({ columnName: column.name, dataType: column.dataType!, nullable: column.nullable }));
+  }
+
+  /**
+   * Persist columns whose schema changed since the last save
+   */
+  async save(): Promise<void> {
+    for (const columnKey of this.dirtyColumns) {
+      const column = this.columns.get(columnKey);
+      if (!column || !column.exists || column.dataType === null) continue;
+
+      await this.databaseManager.executeNonQuery(
+        `INSERT OR REPLACE INTO ${DATA_SCHEMA_TABLE} (table_name, column_name, data_type, observed_types, nullable) VALUES (?, ?, ?, ?, ?)`,
+        [this.tableName, column.name, column.dataType, JSON.stringify(Array.from(column.observedTypes)), column.nullable ? 1 : 0]
+      );
+    }
+    this.dirtyColumns.clear();
+  }
+}
@@ -0,0 +1,101 @@
+export type TimeUnit = 'second' | 'millisecond' | 'microsecond' | 'nanosecond';
+
+// Value type of a column declared by a file's schema, named as FileScanner.inferDataType names value types
+export type DeclaredValueType = 'integer' | 'real' | 'boolean' | 'text';
+
+// Declared value types of a record's fields, nested like the records of the file
+export interface DeclaredTypes {
+  [field: string]: DeclaredValueType | DeclaredTypes;
+}
+
+// Units of each time unit in a millisecond
+const UNITS_PER_MILLISECOND: Record<TimeUnit, number> = {
+  second: 0.001,
+  millisecond: 1,
+  microsecond: 1000,
+  nanosecond: 1000000
+};
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * ColumnValueConverter turns the values read from columnar files (Parquet and Arrow) into
+ * the values stored in the data table: 64-bit integers and decimals stay exact, becoming
+ * text when a JavaScript number cannot hold them, dates and times become ISO 8601 text and
+ * binary data becomes base64 text.
+ */
+export class ColumnValueConverter {
+  /**
+   * Convert a 64-bit integer, keeping integers beyond 2^53 as their decimal text
+   */
+  toInteger(value: bigint): number | string {
+    const number = Number(value);
+    return Number.isSafeInteger(number) ? number : value.toString();
+  }
+
+  /**
+   * Convert an unscaled decimal integer and its scale to exact decimal text
+   */
+  toDecimal(unscaled: bigint, scale: number): string {
+    const negative = unscaled < 0n;
+    const digits = (negative ? -unscaled : unscaled).toString();
+    if (scale <= 0) {
+      return `${negative ? '-' : ''}${digits}${'0'.repeat(-scale)}`;
+    }
+
+    const padded = digits.padStart(scale + 1, '0');
+    return `${negative ? '-' : ''}${padded.slice(0, -scale)}.${padded.slice(-scale)}`;
+  }
+
+  /**
+   * Read a big-endian two's complement integer, as Parquet stores decimals in byte arrays
+   */
+  readBigEndianInteger(bytes: Buffer): bigint {
+    if (bytes.length === 0) {
+      return 0n;
+    }
+    return BigInt.asIntN(bytes.length * 8, BigInt(`0x${bytes.toString('hex')}`));
+  }
+
+  /**
+   * Convert days since the Unix epoch to an ISO 8601 date
+   */
+  toDate(days: number): string {
+    const date = new Date(days * MILLISECONDS_PER_DAY);
+    return Number.isNaN(date.getTime()) ? String(days) : date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Convert a time since the Unix epoch to an ISO 8601 timestamp in UTC
+   * Times outside the range of a JavaScript date are kept as their number
+   */
+  toTimestamp(value: bigint | number, unit: TimeUnit): string {
+    const milliseconds = Number(value) / UNITS_PER_MILLISECOND[unit];
+    const date = new Date(Math.floor(milliseconds));
+    return Number.isNaN(date.getTime()) ? String(value) : date.toISOString();
+  }
+
+  /**
+   * Convert a time since midnight to an ISO 8601 time of day
+   */
+  toTimeOfDay(value: bigint | number, unit: TimeUnit): string {
+    const milliseconds = Number(value) / UNITS_PER_MILLISECOND[unit];
+    const date = new Date(Math.floor(milliseconds));
+    return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().slice(11, 23);
+  }
+
+  /**
+   * Convert binary data to base64 text
+   */
+  toBinary(bytes: Buffer): string {
+    return bytes.toString('base64');
+  }
+
+  /**
+   * Convert 16 bytes to UUID text
+   */
+  toUuid(bytes: Buffer): string {
+    const hex = bytes.toString('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+}
@@ -0,0 +1,158 @@
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// Minute, hour or day steps taken while searching for a matching time; covers several years
+const MAX_SEARCH_STEPS = 100000;
+
+/**
+ * CronExpression matches local times against a five-field cron expression:
+ * minute, hour, day of month, month and day of week (0 or 7 is Sunday).
+ * Fields accept `*`, numbers, ranges `a-b`, steps `*\/n` and `a-b/n`, and comma-separated lists.
+ * As in cron, when both day fields are restricted a day matches if either of them does.
+ */
+export class CronExpression {
+  readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private restrictsDayOfMonth: boolean;
+  private restrictsDayOfWeek: boolean;
+
+  constructor(expression: string) {
+    const trimmed = expression.trim();
+    const parts = trimmed.split(/\s+/);
+    if (parts.length !== CRON_FIELDS.length) {
+      throw new Error(`Cron expression must have ${CRON_FIELDS.length} fields: minute hour day-of-month month day-of-week`);
+    }
+
+    this.expression = trimmed;
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => this.parseField(part, CRON_FIELDS[index]!));
+    this.minutes = minutes!;
+    this.hours = hours!;
+    this.daysOfMonth = daysOfMonth!;
+    this.months = months!;
+    // Sunday can be written as 0 or 7
+    this.daysOfWeek = new Set(Array.from(daysOfWeek!, day => day % 7));
+    this.restrictsDayOfMonth = parts[2] !== '*';
+    this.restrictsDayOfWeek = parts[4] !== '*';
+  }
+
+  /**
+   * Check whether a time matches the expression, ignoring seconds
+   */
+  matches(date: Date): boolean {
+    return this.matchesDay(date) && this.hours.has(date.getHours()) && this.minutes.has(date.getMinutes());
+  }
+
+  /**
+   * Get the first matching time after a date
+   */
+  next(after: Date): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+
+    throw new Error(`Cron expression "${this.expression}" never matches`);
+  }
+
+  /**
+   * Get the last matching time at or before a date, or null if there is none within the search range
+   */
+  previous(atOrBefore: Date): Date | null {
+    const date = new Date(atOrBefore.getTime());
+    date.setSeconds(0, 0);
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+      // Each branch moves to the last minute of the previous month, day or hour
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setDate(1);
+        date.setHours(0, -1, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setHours(0, -1, 0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setMinutes(-1, 0, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() - 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether the day of a date matches the day of month and day of week fields
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonthMatches = this.daysOfMonth.has(date.getDate());
+    const dayOfWeekMatches = this.daysOfWeek.has(date.getDay());
+
+    if (this.restrictsDayOfMonth && this.restrictsDayOfWeek) {
+      return dayOfMonthMatches || dayOfWeekMatches;
+    }
+    return dayOfMonthMatches && dayOfWeekMatches;
+  }
+
+  /**
+   * Parse one field of the expression into the values it allows
+   */
+  private parseField(source: string, field: CronField): Set<number> {
+    const values = new Set<number>();
+
+    for (const item of source.split(',')) {
+      const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+      if (!match) {
+        throw new Error(`Invalid ${field.name} field in cron expression: "${source}"`);
+      }
+
+      const isWildcard = match[1] === '*';
+      const start = isWildcard ? field.min : Number(match[2]);
+      // A single value with a step, such as 5/15, runs from the value to the end of the range
+      const end = isWildcard || (match[3] === undefined && match[4] !== undefined) ? field.max : Number(match[3] ?? match[2]);
+      const step = match[4] !== undefined ? Number(match[4]) : 1;
+
+      if (start < field.min || end > field.max || start > end) {
+        throw new Error(`Invalid ${field.name} field in cron expression: "${source}" must be within ${field.min}-${field.max}`);
+      }
+      if (step < 1) {
+        throw new Error(`Invalid ${field.name} field in cron expression: step must be at least 1`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+}
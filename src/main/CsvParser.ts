@@ -0,0 +1,313 @@
+import { StringDecoder } from 'string_decoder';
+import { CsvOptions } from '../types';
+
+export const CSV_DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+export const DEFAULT_CSV_QUOTE = '"';
+
+// Number of rows examined when detecting the delimiter of a file
+const SNIFF_ROW_COUNT = 20;
+// Characters of a stream buffered to detect its delimiter
+const DELIMITER_SNIFF_LENGTH = 64 * 1024;
+
+// Splits a chunk of delimited text into the rows it completes, continuing the rows of earlier chunks
+type RowReader = (text: string, final: boolean, maxRows?: number) => string[][];
+
+export interface CsvParseOptions extends CsvOptions {
+  defaultDelimiter?: string | undefined;  // Used instead of detection when no delimiter override is set
+}
+
+/**
+ * CsvParser reads delimited text (CSV, TSV and similar dialects) into records.
+ * It handles quoted fields with doubled quote escapes, newlines inside quoted fields,
+ * a leading byte order mark and an optional header row.
+ */
+export class CsvParser {
+  /**
+   * Parse delimited text into records keyed by column name
+   * Empty fields become null so they are treated as missing values during schema inference
+   */
+  parse(content: string, options: CsvParseOptions = {}): Record<string, string | null>[] {
+    const text = this.stripBom(content);
+    const quote = options.quote || DEFAULT_CSV_QUOTE;
+    const delimiter = this.getDelimiter(text, quote, options);
+
+    const rows = this.parseRows(text, delimiter, quote);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const header = options.noHeader ? [] : this.buildHeader(rows[0]!);
+    const dataRows = options.noHeader ? rows : rows.slice(1);
+
+    return dataRows.map(row => this.toRecord(row, header));
+  }
+
+  /**
+   * Parse a stream of delimited text, yielding records as their rows complete
+   * Only the start of the stream is buffered, to detect the delimiter, so files larger than memory can be read
+   */
+  async *parseStream(
+    stream: AsyncIterable<string | Buffer> | Iterable<string | Buffer>,
+    options: CsvParseOptions = {}
+  ): AsyncGenerator<Record<string, string | null>> {
+    const decoder = new StringDecoder('utf8');
+    const quote = options.quote || DEFAULT_CSV_QUOTE;
+    let readRows: RowReader | null = null;
+    let header: string[] | null = options.noHeader ? [] : null;
+    let buffered = '';  // Start of the text, kept until the delimiter is known
+    let hasContent = false;
+
+    const toRecords = (rows: string[][]): Record<string, string | null>[] => {
+      const records: Record<string, string | null>[] = [];
+      for (const row of rows) {
+        if (header) {
+          records.push(this.toRecord(row, header));
+        } else {
+          header = this.buildHeader(row);
+        }
+      }
+      return records;
+    };
+
+    // Detect the delimiter from the buffered start of the text, leaving out a last line that may be cut off
+    const startRows = (final: boolean): RowReader => {
+      const text = this.stripBom(buffered);
+      const lastNewline = text.lastIndexOf('\n');
+      const sniffText = final || lastNewline === -1 ? text : text.slice(0, lastNewline);
+      buffered = text;
+      return this.createRowReader(this.getDelimiter(sniffText, quote, options), quote);
+    };
+
+    for await (const chunk of stream) {
+      const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+      hasContent = hasContent || text.trim() !== '';
+
+      if (readRows) {
+        yield* toRecords(readRows(text, false));
+        continue;
+      }
+
+      buffered += text;
+      if (buffered.length >= DELIMITER_SNIFF_LENGTH) {
+        readRows = startRows(false);
+        yield* toRecords(readRows(buffered, false));
+        buffered = '';
+      }
+    }
+
+    const rest = decoder.end();
+    hasContent = hasContent || rest.trim() !== '';
+    if (!hasContent) {
+      throw new Error('File is empty');
+    }
+
+    if (!readRows) {
+      buffered += rest;
+      readRows = startRows(true);
+      yield* toRecords(readRows(buffered, true));
+    } else {
+      yield* toRecords(readRows(rest, true));
+    }
+  }
+
+  /**
+   * Split delimited text into rows of fields
+   * Blank lines are skipped; an unterminated quoted field is an error
+   */
+  parseRows(content: string, delimiter: string, quote: string = DEFAULT_CSV_QUOTE, maxRows: number = Infinity): string[][] {
+    return this.createRowReader(delimiter, quote)(content, true, maxRows);
+  }
+
+  /**
+   * Detect the delimiter of delimited text from its first rows
+   * Prefers the candidate that splits the most rows into the same number of fields
+   */
+  sniffDelimiter(content: string, quote: string = DEFAULT_CSV_QUOTE): string {
+    const text = this.stripBom(content);
+    let bestDelimiter = CSV_DELIMITER_CANDIDATES[0]!;
+    let bestScore = 0;
+
+    for (const candidate of CSV_DELIMITER_CANDIDATES) {
+      if (candidate === quote) continue;
+
+      let rows: string[][];
+      try {
+        rows = this.parseRows(text, candidate, quote, SNIFF_ROW_COUNT);
+      } catch {
+        continue;
+      }
+
+      // Count how many rows share each field count, ignoring rows the candidate does not split
+      const frequencies = new Map<number, number>();
+      for (const row of rows) {
+        if (row.length > 1) {
+          frequencies.set(row.length, (frequencies.get(row.length) ?? 0) + 1);
+        }
+      }
+
+      for (const [fieldCount, frequency] of frequencies) {
+        // Consistency across rows matters most; more fields breaks ties
+        const score = frequency * 1000 + fieldCount;
+        if (score > bestScore) {
+          bestScore = score;
+          bestDelimiter = candidate;
+        }
+      }
+    }
+
+    return bestDelimiter;
+  }
+
+  /**
+   * Build unique column names from a header row
+   * Blank names become column_N and repeated names get a numbered suffix
+   */
+  buildHeader(headerRow: string[]): string[] {
+    const names: string[] = [];
+    const used = new Set<string>();
+
+    headerRow.forEach((rawName, index) => {
+      const baseName = rawName.trim() || `column_${index + 1}`;
+      let name = baseName;
+      let suffix = 2;
+
+      while (used.has(name.toLowerCase())) {
+        name = `${baseName}_${suffix++}`;
+      }
+
+      used.add(name.toLowerCase());
+      names.push(name);
+    });
+
+    return names;
+  }
+
+  /**
+   * Create a reader that splits delimited text given in chunks into rows of fields
+   * Each call returns the rows its chunk completes; the final chunk also ends the last row
+   */
+  private createRowReader(delimiter: string, quote: string): RowReader {
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let fieldQuoted = false;
+    let line = 1;
+    let quoteStartLine = 0;
+    // A quote or carriage return at the end of a chunk is read with the next chunk, as its meaning depends on what follows
+    let pending = '';
+
+    return (text, final, maxRows = Infinity) => {
+      const content = pending + text;
+      const end = final ? content.length : content.length - 1;
+      const rows: string[][] = [];
+
+      const endField = () => {
+        row.push(field);
+        field = '';
+        fieldQuoted = false;
+      };
+
+      const endRow = () => {
+        // A line holding nothing but an unquoted empty field is a blank line
+        const isBlank = row.length === 0 && field === '' && !fieldQuoted;
+        endField();
+        if (!isBlank) {
+          rows.push(row);
+        }
+        row = [];
+      };
+
+      let i = 0;
+      for (; i < end && rows.length < maxRows; i++) {
+        const char = content[i]!;
+
+        if (inQuotes) {
+          if (char === quote) {
+            if (content[i + 1] === quote) {
+              // Doubled quote inside a quoted field is a literal quote
+              field += quote;
+              i++;
+            } else {
+              inQuotes = false;
+            }
+          } else {
+            if (char === '\n') line++;
+            field += char;
+          }
+          continue;
+        }
+
+        if (char === quote && field === '' && !fieldQuoted) {
+          inQuotes = true;
+          fieldQuoted = true;
+          quoteStartLine = line;
+        } else if (char === delimiter) {
+          endField();
+        } else if (char === '\n' || char === '\r') {
+          if (char === '\r' && content[i + 1] === '\n') {
+            i++;
+          }
+          endRow();
+          line++;
+        } else {
+          field += char;
+        }
+      }
+      pending = content.slice(i);
+
+      if (!final) {
+        return rows;
+      }
+
+      if (inQuotes) {
+        throw new Error(`Unterminated quoted field starting on line ${quoteStartLine}`);
+      }
+
+      // Flush the final row when the content does not end with a newline
+      if ((field !== '' || fieldQuoted || row.length > 0) && rows.length < maxRows) {
+        endRow();
+      }
+
+      return rows;
+    };
+  }
+
+  /**
+   * Get the delimiter of delimited text: the configured one, the format's default or the detected one
+   */
+  private getDelimiter(text: string, quote: string, options: CsvParseOptions): string {
+    const delimiter = options.delimiter || options.defaultDelimiter || this.sniffDelimiter(text, quote);
+
+    if (delimiter.length !== 1 || quote.length !== 1) {
+      throw new Error('Delimiter and quote must be single characters');
+    }
+
+    if (delimiter === quote) {
+      throw new Error('Delimiter and quote character must be different');
+    }
+
+    return delimiter;
+  }
+
+  /**
+   * Key the fields of a row by column name; columns without a header name become column_N
+   */
+  private toRecord(row: string[], header: string[]): Record<string, string | null> {
+    const record: Record<string, string | null> = {};
+    const fieldCount = Math.max(row.length, header.length);
+
+    for (let i = 0; i < fieldCount; i++) {
+      const value = row[i];
+      record[header[i] ?? `column_${i + 1}`] = value === undefined || value === '' ? null : value;
+    }
+
+    return record;
+  }
+
+  /**
+   * Remove a leading UTF-8 byte order mark
+   */
+  private stripBom(content: string): string {
+    return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  }
+}
@@ -0,0 +1,715 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  SourceFolder, ScanError, DetectedFileFormat, ScanRunColumn, PROJECT_DATA_TABLE, DATA_SCHEMA_TABLE, DATA_TABLES_TABLE, CHILD_TABLE_SEPARATOR,
+  ARCHIVE_ENTRY_SEPARATOR, WORKSHEET_SEPARATOR
+} from '../types';
+import { DatabaseManager } from './DatabaseManager';
+import { FileScanner, CHILD_RECORDS_FIELD, SOURCE_LOCATION_FIELD, TARGET_TABLE_FIELD, RecordLocation } from './FileScanner';
+import { FileManifest, FileManifestEntry } from './FileManifest';
+import { ColumnSchemaTracker, ColumnTypeChange } from './ColumnSchemaTracker';
+import { DeclaredValueType } from './ColumnValueConverter';
+import { ScanControl } from './ScanControl';
+import { ScanErrorLog } from './ScanErrorLog';
+import { ScanRunLog } from './ScanRunLog';
+
+export interface IngestProgress {
+  current: number;
+  total: number;
+  message: string;
+}
+
+export interface IngestResults {
+  totalFiles: number;       // Files found in the source folders
+  processedFiles: number;   // Files parsed during this scan
+  extractedObjects: number; // Records inserted during this scan
+  addedFiles: number;       // New files ingested
+  modifiedFiles: number;    // Changed files whose rows were replaced
+  removedFiles: number;     // Deleted files whose rows were removed
+  unchangedFiles: number;   // Files skipped because their contents did not change
+  fullRebuild: boolean;     // Whether the data table was rebuilt from scratch
+  scanId: string;           // Identifies this scan in the scan_runs and scan_errors tables
+  errors: ScanError[];
+  detectedFormats: DetectedFileFormat[];  // Files parsed during this scan as the format detected from their content
+}
+
+export interface IngestOptions {
+  progressCallback?: (progress: IngestProgress) => void;
+  control?: ScanControl;    // Pauses or cancels the ingest between files and batches
+  changedPaths?: string[] | undefined;  // Files and directories known to have changed; other files are left as they are
+}
+
+// A table holding the elements of an exploded array, linked to its parent table by _parent_id
+interface ChildTable {
+  name: string;
+  schemaTracker: ColumnSchemaTracker;
+}
+
+// The data table or a table that table rules route records to, with the child tables of its exploded arrays
+interface DataTable {
+  name: string;
+  schemaTracker: ColumnSchemaTracker;
+  childTables: Map<string, ChildTable>;
+}
+
+// A row for a table together with the values of its internal columns
+interface PendingRow {
+  record: any;
+  internalValues: any[];
+}
+
+// Number of records inserted with a single INSERT statement
+const CHUNK_SIZE = 50;
+
+// Skipped lines of a file recorded individually; further ones are only counted
+const MAX_SKIPPED_LINES_PER_FILE = 100;
+
+// Internal columns of the data tables filled for every row
+const DATA_INTERNAL_COLUMNS = ['_source_file', '_source_line', '_source_offset', '_record_index'];
+
+/**
+ * DataIngestor loads records from a project's source folders into the project-wide data table.
+ * A file manifest records what was ingested, so rescans insert rows from new files,
+ * replace rows from modified files and delete rows from removed files using _source_file.
+ * Each row records where it was read from in _source_line, _source_offset and _record_index.
+ * Watched projects limit an ingest to the files under the paths that changed.
+ * All changes are made in a single transaction, so a failed or cancelled ingest leaves the previous data in place.
+ * The errors of each ingest, including every line that could not be parsed, are recorded in the scan_errors table,
+ * and its statistics and resulting schema in the scan_runs table.
+ * Arrays a source folder chooses to explode are stored in child tables such as data__items,
+ * one row per element with the parent's _id in _parent_id and the element's position in _index.
+ * The project's table rules route the records of matching files, or records holding a discriminator value,
+ * to tables such as orders instead, each with its own schema and child tables. These tables are listed
+ * in the data_tables table and dropped once no rows are left in them.
+ * Columns that re-parsed files no longer produce, e.g. after the flatten settings changed, are dropped once they hold no values.
+ */
+export class DataIngestor {
+  private databaseManager: DatabaseManager;
+  private fileScanner: FileScanner;
+  private manifest: FileManifest;
+  private errorLog: ScanErrorLog;
+  private runLog: ScanRunLog;
+  private tableName: string;    // Table of the records no table rule routes elsewhere
+  private tables = new Map<string, DataTable>();
+  private declaredTypes = new Map<string, DeclaredValueType>();  // Column types declared by the file being ingested
+
+  constructor(databaseManager: DatabaseManager, fileScanner: FileScanner, tableName: string = PROJECT_DATA_TABLE) {
+    this.databaseManager = databaseManager;
+    this.fileScanner = fileScanner;
+    this.manifest = new FileManifest(databaseManager);
+    this.errorLog = new ScanErrorLog(databaseManager);
+    this.runLog = new ScanRunLog(databaseManager);
+    this.tableName = tableName;
+  }
+
+  /**
+   * Bring the data table up to date with the files in the source folders
+   */
+  async ingest(sourceFolders: SourceFolder[], options: IngestOptions = {}): Promise<IngestResults> {
+    if (!this.databaseManager.isConnected()) {
+      throw new Error('DatabaseManager must be connected before ingesting data');
+    }
+
+    const { progressCallback, control, changedPaths } = options;
+    const startedDate = new Date();
+    const errors: ScanError[] = [];
+    const detectedFormats: DetectedFileFormat[] = [];
+    const filePaths: string[] = [];
+    const missingFolders: string[] = [];
+    const folderByFile = new Map<string, SourceFolder>();
+    this.fileScanner.clearResults();
+
+    for (const folder of sourceFolders) {
+      if (!folder || !folder.path) continue;
+
+      if (!fs.existsSync(folder.path)) {
+        // Keep the rows of an unavailable folder rather than treating its files as deleted
+        missingFolders.push(folder.path);
+        errors.push({
+          file: folder.path,
+          error: 'Source folder does not exist'
+        });
+        continue;
+      }
+
+      try {
+        const folderFiles = await this.fileScanner.findJsonFiles(folder.path, folder);
+        folderFiles.forEach(filePath => folderByFile.set(filePath, folder));
+        filePaths.push(...folderFiles);
+      } catch (folderError) {
+        missingFolders.push(folder.path);
+        errors.push({
+          file: folder.path,
+          error: `Failed to scan folder: ${(folderError as Error).message}`
+        });
+      }
+    }
+
+    // Directories and archives that could not be read while looking for files
+    errors.push(...this.fileScanner.getErrors());
+
+    await this.databaseManager.executeNonQuery('BEGIN TRANSACTION');
+
+    try {
+      const fullRebuild = await this.prepareDataTable();
+      // A rebuild ingests every file; otherwise only files under the changed paths are compared with the manifest
+      const isAffected = (filePath: string) => fullRebuild || !changedPaths ||
+        changedPaths.some(changedPath => filePath === changedPath || this.isInsideFolder(filePath, changedPath) ||
+          filePath.startsWith(changedPath + ARCHIVE_ENTRY_SEPARATOR));
+      const changes = await this.manifest.detectChanges(
+        filePaths.filter(isAffected),
+        filePath => !isAffected(filePath) || missingFolders.some(folder => this.isInsideFolder(filePath, folder)),
+        filePath => this.fileScanner.describeParseSettings(this.fileScanner.getParseOptions(folderByFile.get(filePath), filePath))
+      );
+
+      const filesToProcess = [...changes.added, ...changes.modified];
+      const total = filesToProcess.length + changes.removed.length;
+      let current = 0;
+      let processedFiles = 0;
+      let extractedObjects = 0;
+
+      for (const filePath of changes.removed) {
+        await control?.checkpoint();
+        progressCallback?.({
+          current,
+          total,
+          message: `Removing rows from deleted file ${current + 1}/${total}: ${path.basename(filePath)}`
+        });
+
+        await this.deleteFileRecords(filePath);
+        await this.manifest.removeFile(filePath);
+        current++;
+      }
+
+      for (const entry of changes.touched) {
+        await this.manifest.recordFile(entry);
+      }
+
+      for (const entry of filesToProcess) {
+        await control?.checkpoint();
+        progressCallback?.({
+          current,
+          total,
+          message: `Processing file ${current + 1}/${total}: ${path.basename(entry.path)}`
+        });
+
+        try {
+          extractedObjects += await this.replaceFileRecords(entry, folderByFile.get(entry.path), errors, detectedFormats, control);
+          processedFiles++;
+        } catch (fileError) {
+          if (control?.isCancelled()) {
+            throw fileError;
+          }
+
+          // Drop stale rows and forget the file so the next scan retries it
+          await this.deleteFileRecords(entry.path);
+          await this.manifest.removeFile(entry.path);
+          errors.push({
+            file: entry.path,
+            error: (fileError as Error).message
+          });
+        }
+
+        current++;
+
+        // Yield to the event loop to prevent UI freezing
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      // Columns only re-parsed or removed files produced may be left without values, e.g. after the separator changed
+      if (changes.modified.length > 0 || changes.removed.length > 0) {
+        await this.dropStaleColumns();
+      }
+      await this.dropEmptyTables();
+
+      const scanId = crypto.randomUUID();
+      const results: IngestResults = {
+        totalFiles: filePaths.length,
+        processedFiles,
+        extractedObjects,
+        addedFiles: changes.added.length,
+        modifiedFiles: changes.modified.length,
+        removedFiles: changes.removed.length,
+        unchangedFiles: changes.unchanged.length,
+        fullRebuild,
+        scanId,
+        errors,
+        detectedFormats
+      };
+      await this.errorLog.recordScan(scanId, errors);
+      await this.recordRun(results, startedDate);
+
+      await this.databaseManager.executeNonQuery('COMMIT');
+
+      return results;
+    } catch (error) {
+      await this.databaseManager.executeNonQuery('ROLLBACK').catch(() => undefined);
+      if (control?.isCancelled()) {
+        throw error;
+      }
+      throw new Error(`Failed to ingest source folders: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Record the statistics of a completed ingest and the resulting schema of the data tables and their child tables
+   */
+  private async recordRun(results: IngestResults, startedDate: Date): Promise<void> {
+    const rows: any[] = [];
+    for (const table of this.tables.values()) {
+      rows.push(...await this.databaseManager.executeQuery(
+        `SELECT table_name, column_name, data_type, nullable FROM ${DATA_SCHEMA_TABLE}
+         WHERE table_name = ? OR substr(table_name, 1, ?) = ? ORDER BY table_name, rowid`,
+        [table.name, table.name.length + CHILD_TABLE_SEPARATOR.length, table.name + CHILD_TABLE_SEPARATOR]
+      ));
+    }
+    const schema: ScanRunColumn[] = rows.map(row => ({
+      table: row.table_name,
+      name: row.column_name,
+      dataType: row.data_type,
+      nullable: row.nullable === 1
+    }));
+
+    const completedDate = new Date();
+    await this.runLog.recordRun({
+      id: results.scanId,
+      startedDate,
+      completedDate,
+      durationMs: completedDate.getTime() - startedDate.getTime(),
+      totalFiles: results.totalFiles,
+      addedFiles: results.addedFiles,
+      modifiedFiles: results.modifiedFiles,
+      removedFiles: results.removedFiles,
+      unchangedFiles: results.unchangedFiles,
+      insertedRecords: results.extractedObjects,
+      errorCount: results.errors.length,
+      fullRebuild: results.fullRebuild,
+      schema
+    });
+  }
+
+  /**
+   * Create the data table, manifest and schema record if needed, and open the tables table rules routed records to
+   * The data tables are rebuilt when the data table is missing, uses a legacy layout, or has no manifest or schema record to continue from
+   */
+  private async prepareDataTable(): Promise<boolean> {
+    await this.manifest.ensureTable();
+    const schemaTracker = new ColumnSchemaTracker(this.databaseManager, this.fileScanner, this.tableName);
+    await schemaTracker.ensureTable();
+    await schemaTracker.load();
+    await this.databaseManager.executeNonQuery(`CREATE TABLE IF NOT EXISTS ${DATA_TABLES_TABLE} (name TEXT PRIMARY KEY)`);
+
+    const existingColumns = await this.databaseManager.executeQuery(`PRAGMA table_info("${this.tableName}")`);
+    // Tables from before rows recorded their position in the source file are rebuilt too
+    const hasCurrentLayout = existingColumns.some(col => col.name === '_id') &&
+      existingColumns.some(col => col.name === '_source_offset') &&
+      existingColumns
+        .filter(col => !col.name.startsWith('_'))
+        .every(col => schemaTracker.hasColumn(col.name));
+    const manifestEntries = await this.manifest.getEntries();
+    const fullRebuild = !hasCurrentLayout || manifestEntries.size === 0;
+    const routedTableNames = (await this.databaseManager.executeQuery(`SELECT name FROM ${DATA_TABLES_TABLE} ORDER BY name`))
+      .map(row => row.name as string);
+    this.tables.clear();
+
+    if (fullRebuild) {
+      for (const tableName of [this.tableName, ...routedTableNames]) {
+        await this.dropDataTable(tableName);
+      }
+      await this.manifest.clear();
+      await this.openDataTable(this.tableName);
+    } else {
+      for (const tableName of [this.tableName, ...routedTableNames]) {
+        await this.openDataTable(tableName);
+      }
+    }
+
+    return fullRebuild;
+  }
+
+  /**
+   * Get a data table, creating it on first use
+   */
+  private async getDataTable(name: string): Promise<DataTable> {
+    return this.tables.get(name) ?? this.openDataTable(name);
+  }
+
+  /**
+   * Create a data table if needed, and load its recorded schema and its child tables
+   * Tables other than the data table are listed in the data_tables table
+   */
+  private async openDataTable(name: string): Promise<DataTable> {
+    const table = this.quoteIdentifier(name);
+    await this.databaseManager.executeNonQuery(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        _id INTEGER PRIMARY KEY AUTOINCREMENT,
+        _source_file TEXT,
+        _source_line INTEGER,
+        _source_offset INTEGER,
+        _record_index INTEGER,
+        _scan_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await this.databaseManager.executeNonQuery(
+      `CREATE INDEX IF NOT EXISTS ${this.quoteIdentifier(`idx_${name}_source_file`)} ON ${table} (_source_file)`
+    );
+    if (name !== this.tableName) {
+      await this.databaseManager.executeNonQuery(`INSERT OR IGNORE INTO ${DATA_TABLES_TABLE} (name) VALUES (?)`, [name]);
+    }
+
+    const schemaTracker = new ColumnSchemaTracker(this.databaseManager, this.fileScanner, name);
+    await schemaTracker.load();
+    schemaTracker.setDeclaredTypes(this.declaredTypes);
+
+    const dataTable: DataTable = { name, schemaTracker, childTables: new Map() };
+    this.tables.set(name, dataTable);
+    for (const childTableName of await this.getChildTableNames(name)) {
+      await this.openChildTable(dataTable, childTableName);
+    }
+    return dataTable;
+  }
+
+  /**
+   * Drop a data table and its child tables along with their recorded schemas
+   */
+  private async dropDataTable(name: string): Promise<void> {
+    for (const tableName of [...await this.getChildTableNames(name), name]) {
+      await this.databaseManager.executeNonQuery(`DROP TABLE IF EXISTS ${this.quoteIdentifier(tableName)}`);
+      await this.databaseManager.executeNonQuery(`DELETE FROM ${DATA_SCHEMA_TABLE} WHERE table_name = ?`, [tableName]);
+    }
+    await this.databaseManager.executeNonQuery(`DELETE FROM ${DATA_TABLES_TABLE} WHERE name = ?`, [name]);
+    this.tables.delete(name);
+  }
+
+  /**
+   * Drop the tables table rules routed records to once no rows are left in them, e.g. after their rule was removed
+   */
+  private async dropEmptyTables(): Promise<void> {
+    for (const name of Array.from(this.tables.keys())) {
+      if (name === this.tableName) continue;
+
+      const rows = await this.databaseManager.executeQuery(`SELECT 1 FROM ${this.quoteIdentifier(name)} LIMIT 1`);
+      if (rows.length === 0) {
+        await this.dropDataTable(name);
+      }
+    }
+  }
+
+  /**
+   * Drop the columns of the data tables and their child tables that files no longer produce, with their recorded schemas
+   * A column is stale when no record ingested this time had it and no row left holds a value in it
+   */
+  private async dropStaleColumns(): Promise<void> {
+    for (const dataTable of this.tables.values()) {
+      for (const { name, schemaTracker } of [dataTable, ...dataTable.childTables.values()]) {
+        const table = this.quoteIdentifier(name);
+
+        for (const columnName of schemaTracker.getUnobservedColumns()) {
+          const column = this.quoteIdentifier(columnName);
+          const rows = await this.databaseManager.executeQuery(`SELECT 1 FROM ${table} WHERE ${column} IS NOT NULL LIMIT 1`);
+          if (rows.length === 0) {
+            await this.databaseManager.executeNonQuery(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+            await schemaTracker.removeColumn(columnName);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the names of the existing child tables of a data table
+   */
+  private async getChildTableNames(tableName: string): Promise<string[]> {
+    const prefix = `${tableName}${CHILD_TABLE_SEPARATOR}`;
+    const tables = await this.databaseManager.executeQuery(
+      "SELECT name FROM sqlite_master WHERE type='table' AND substr(name, 1, ?) = ?",
+      [prefix.length, prefix]
+    );
+    return tables.map(table => table.name);
+  }
+
+  /**
+   * Get the child table of a data table for an exploded array, creating it on first use
+   * e.g. the array at order.lines is stored in data__order_lines
+   */
+  private async getChildTable(dataTable: DataTable, arrayPath: string): Promise<ChildTable> {
+    const name = `${dataTable.name}${CHILD_TABLE_SEPARATOR}${arrayPath.replace(/\./g, '_')}`;
+    return dataTable.childTables.get(name) ?? this.openChildTable(dataTable, name);
+  }
+
+  /**
+   * Create a child table if needed and load its recorded schema
+   */
+  private async openChildTable(dataTable: DataTable, name: string): Promise<ChildTable> {
+    const table = this.quoteIdentifier(name);
+    await this.databaseManager.executeNonQuery(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        _id INTEGER PRIMARY KEY AUTOINCREMENT,
+        _parent_id INTEGER NOT NULL REFERENCES ${this.quoteIdentifier(dataTable.name)} (_id) ON DELETE CASCADE,
+        _index INTEGER NOT NULL,
+        _source_file TEXT
+      )
+    `);
+    await this.databaseManager.executeNonQuery(
+      `CREATE INDEX IF NOT EXISTS ${this.quoteIdentifier(`idx_${name}_parent_id`)} ON ${table} (_parent_id)`
+    );
+    await this.databaseManager.executeNonQuery(
+      `CREATE INDEX IF NOT EXISTS ${this.quoteIdentifier(`idx_${name}_source_file`)} ON ${table} (_source_file)`
+    );
+
+    const schemaTracker = new ColumnSchemaTracker(this.databaseManager, this.fileScanner, name);
+    await schemaTracker.load();
+
+    const childTable = { name, schemaTracker };
+    dataTable.childTables.set(name, childTable);
+    return childTable;
+  }
+
+  /**
+   * Set the column types declared by the file being ingested on the data tables, replacing those of the previous file
+   */
+  private setDeclaredTypes(types: Map<string, DeclaredValueType>): void {
+    this.declaredTypes = types;
+    this.tables.forEach(table => table.schemaTracker.setDeclaredTypes(types));
+  }
+
+  /**
+   * Replace the rows of a file with its current contents and record it in the manifest
+   * Column name collisions and lines that could not be parsed are added to errors, and the file's format
+   * to detectedFormats when it was detected from the file's content
+   */
+  private async replaceFileRecords(
+    entry: FileManifestEntry,
+    folder: SourceFolder | undefined,
+    errors: ScanError[],
+    detectedFormats: DetectedFileFormat[],
+    control?: ScanControl
+  ): Promise<number> {
+    // Records are streamed straight into the table; if reading fails part way, ingest() drops the file's rows
+    await this.deleteFileRecords(entry.path);
+    const collisions = new Set<string>();
+    const skippedLines: ScanError[] = [];
+    let unrecordedSkippedLines = 0;
+    const records = this.fileScanner.readRecords(entry.path, {
+      ...this.fileScanner.getParseOptions(folder, entry.path),
+      onCollision: message => collisions.add(message),
+      onSkippedLine: skipped => {
+        if (skippedLines.length < MAX_SKIPPED_LINES_PER_FILE) {
+          skippedLines.push({ file: entry.path, line: skipped.line, error: skipped.message, snippet: skipped.snippet });
+        } else {
+          unrecordedSkippedLines++;
+        }
+      },
+      onDeclaredTypes: types => this.setDeclaredTypes(types),
+      onDetectedFormat: detected => detectedFormats.push(detected),
+      includeLocation: true
+    });
+    this.setDeclaredTypes(new Map());
+    const insertedCount = await this.insertFileRecords(entry.path, records, control);
+    await this.manifest.recordFile(entry);
+    collisions.forEach(message => errors.push({ file: entry.path, error: message }));
+    errors.push(...skippedLines);
+    if (unrecordedSkippedLines > 0) {
+      errors.push({ file: entry.path, error: `${unrecordedSkippedLines} more lines could not be parsed` });
+    }
+
+    return insertedCount;
+  }
+
+  /**
+   * Delete all rows that were ingested from a file from every data table, including the rows of each sheet of a workbook
+   */
+  private async deleteFileRecords(filePath: string): Promise<void> {
+    // Sheet rows are stored as `file#sheet`; the range matches exactly the values starting with `file#`
+    // and, unlike LIKE, can use the _source_file index
+    const sheetPrefix = filePath + WORKSHEET_SEPARATOR;
+    const sheetPrefixEnd = filePath + String.fromCharCode(WORKSHEET_SEPARATOR.charCodeAt(0) + 1);
+    const condition = '_source_file = ? OR (_source_file >= ? AND _source_file < ?)';
+
+    for (const dataTable of this.tables.values()) {
+      for (const childTable of dataTable.childTables.values()) {
+        await this.databaseManager.executeNonQuery(
+          `DELETE FROM ${this.quoteIdentifier(childTable.name)} WHERE ${condition}`,
+          [filePath, sheetPrefix, sheetPrefixEnd]
+        );
+      }
+      await this.databaseManager.executeNonQuery(
+        `DELETE FROM ${this.quoteIdentifier(dataTable.name)} WHERE ${condition}`,
+        [filePath, sheetPrefix, sheetPrefixEnd]
+      );
+    }
+  }
+
+  /**
+   * Insert the records of a file in chunks as they are read, so memory use does not grow with the file size
+   */
+  private async insertFileRecords(filePath: string, records: AsyncIterable<any>, control?: ScanControl): Promise<number> {
+    let insertedCount = 0;
+    let chunk: any[] = [];
+
+    for await (const record of records) {
+      chunk.push(record);
+      if (chunk.length >= CHUNK_SIZE) {
+        insertedCount += await this.insertChunk(filePath, chunk, control);
+        chunk = [];
+      }
+    }
+
+    if (chunk.length > 0) {
+      insertedCount += await this.insertChunk(filePath, chunk, control);
+    }
+
+    return insertedCount;
+  }
+
+  /**
+   * Insert a chunk of records into the data tables they are routed to
+   */
+  private async insertChunk(filePath: string, chunk: any[], control?: ScanControl): Promise<number> {
+    await control?.checkpoint();
+
+    const validObjects = chunk.filter(obj => Object.keys(obj).some(key => key !== SOURCE_LOCATION_FIELD && key !== TARGET_TABLE_FIELD));
+    const recordsByTable = new Map<string, any[]>();
+    for (const record of validObjects) {
+      const tableName: string = record[TARGET_TABLE_FIELD] ?? this.tableName;
+      const records = recordsByTable.get(tableName) ?? [];
+      records.push(record);
+      recordsByTable.set(tableName, records);
+    }
+
+    for (const [tableName, records] of recordsByTable) {
+      await this.insertTableRecords(await this.getDataTable(tableName), filePath, records);
+    }
+
+    return validObjects.length;
+  }
+
+  /**
+   * Insert records into a data table and the elements of their exploded arrays into its child tables
+   */
+  private async insertTableRecords(dataTable: DataTable, filePath: string, validObjects: any[]): Promise<void> {
+    // Rows read from a worksheet name it after the workbook's path
+    const sourceFiles = validObjects.map(record => {
+      const sheet = (record[SOURCE_LOCATION_FIELD] as RecordLocation | undefined)?.sheet;
+      return sheet === undefined ? filePath : `${filePath}${WORKSHEET_SEPARATOR}${sheet}`;
+    });
+    const rowIds = await this.insertRows(
+      dataTable.name,
+      dataTable.schemaTracker,
+      DATA_INTERNAL_COLUMNS,
+      validObjects.map((record, recordIndex) => {
+        const location: RecordLocation | undefined = record[SOURCE_LOCATION_FIELD];
+        return {
+          record,
+          internalValues: [sourceFiles[recordIndex], location?.line ?? null, location?.offset ?? null, location?.index ?? null]
+        };
+      })
+    );
+
+    // Child rows are grouped by array so each child table receives bulk inserts
+    const childRows = new Map<string, PendingRow[]>();
+    validObjects.forEach((record, recordIndex) => {
+      const children: Record<string, any[]> = record[CHILD_RECORDS_FIELD] ?? {};
+      for (const [arrayPath, elements] of Object.entries(children)) {
+        const rows = childRows.get(arrayPath) ?? [];
+        elements.forEach((element, index) => rows.push({ record: element, internalValues: [rowIds[recordIndex], index, sourceFiles[recordIndex]] }));
+        childRows.set(arrayPath, rows);
+      }
+    });
+
+    for (const [arrayPath, rows] of childRows) {
+      const childTable = await this.getChildTable(dataTable, arrayPath);
+      for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+        await this.insertRows(childTable.name, childTable.schemaTracker, ['_parent_id', '_index', '_source_file'], rows.slice(i, i + CHUNK_SIZE));
+      }
+    }
+  }
+
+  /**
+   * Insert rows into a table, adding or widening its columns as new keys and values appear
+   * Returns the _id of each inserted row
+   */
+  private async insertRows(
+    tableName: string,
+    schemaTracker: ColumnSchemaTracker,
+    internalColumns: string[],
+    pendingRows: PendingRow[]
+  ): Promise<number[]> {
+    if (pendingRows.length === 0) return [];
+
+    // First pass: infer column types and add or widen columns before inserting
+    for (const change of schemaTracker.observe(pendingRows.map(row => row.record))) {
+      await this.applyColumnChange(tableName, schemaTracker, change);
+    }
+    await schemaTracker.save();
+
+    // Second pass: map keys to their table columns, sorted for consistent order
+    const rows = pendingRows.map(({ record }) => {
+      const row = new Map<string, any>();
+      for (const key of Object.keys(record)) {
+        if (!key.startsWith('_')) {
+          row.set(schemaTracker.getColumnName(key), record[key]);
+        }
+      }
+      return row;
+    });
+    const allColumns = new Set<string>();
+    rows.forEach(row => row.forEach((_value, column) => allColumns.add(column)));
+    const columnArray = Array.from(allColumns).sort();
+    const columnTypes = columnArray.map(col => schemaTracker.getColumnType(col));
+    const columnString = [...internalColumns, ...columnArray.map(col => this.quoteIdentifier(col))].join(', ');
+    const rowPlaceholder = `(${new Array(internalColumns.length + columnArray.length).fill('?').join(', ')})`;
+
+    const allParams: any[] = [];
+    rows.forEach((row, index) => {
+      allParams.push(...pendingRows[index]!.internalValues);
+      columnArray.forEach((col, columnIndex) => allParams.push(schemaTracker.toStorageValue(row.get(col), columnTypes[columnIndex] ?? null)));
+    });
+
+    const result = await this.databaseManager.executeNonQuery(
+      `INSERT INTO ${this.quoteIdentifier(tableName)} (${columnString}) VALUES ${rows.map(() => rowPlaceholder).join(', ')}`,
+      allParams
+    );
+
+    // A multi-row INSERT assigns consecutive ids, ending with the last inserted id
+    const firstId = result.lastID - rows.length + 1;
+    return rows.map((_row, index) => firstId + index);
+  }
+
+  /**
+   * Add a new column, or rebuild an existing column with a wider type
+   * SQLite cannot change a column's type in place, so values are copied into a new column that replaces it
+   */
+  private async applyColumnChange(tableName: string, schemaTracker: ColumnSchemaTracker, change: ColumnTypeChange): Promise<void> {
+    const table = this.quoteIdentifier(tableName);
+    const column = this.quoteIdentifier(change.name);
+
+    if (change.from === null) {
+      await this.databaseManager.executeNonQuery(`ALTER TABLE ${table} ADD COLUMN ${column} ${change.to}`);
+    } else {
+      const retypedColumn = this.quoteIdentifier(`${change.name}__retyped`);
+      await this.databaseManager.executeNonQuery(`ALTER TABLE ${table} ADD COLUMN ${retypedColumn} ${change.to}`);
+      await this.databaseManager.executeNonQuery(`UPDATE ${table} SET ${retypedColumn} = CAST(${column} AS ${change.to})`);
+      await this.databaseManager.executeNonQuery(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+      await this.databaseManager.executeNonQuery(`ALTER TABLE ${table} RENAME COLUMN ${retypedColumn} TO ${column}`);
+    }
+
+    schemaTracker.applyChange(change);
+  }
+
+  /**
+   * Quote an identifier for use in SQL
+   */
+  private quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * Check whether a file path is inside a folder
+   */
+  private isInsideFolder(filePath: string, folderPath: string): boolean {
+    const relative = path.relative(folderPath, filePath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
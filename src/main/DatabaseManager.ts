@@ -1,7 +1,7 @@
 import * as sqlite3 from 'sqlite3';
 import * as path from 'path';
 import * as fs from 'fs';
-import { ColumnSchema, PROJECT_CONFIG_FOLDER, DATABASE_FILENAME } from '../types';
+import { ColumnSchema, TableSchema, PROJECT_CONFIG_FOLDER, DATABASE_FILENAME, PROJECT_DATA_TABLE, DEFAULT_VIEW_ID, DATA_SCHEMA_TABLE, DATA_TABLES_TABLE, CHILD_TABLE_SEPARATOR, DATABASE_BUSY_TIMEOUT_MS } from '../types';
 
 interface DatabaseResult {
   lastID: number;
@@ -60,6 +60,8 @@ export class DatabaseManager {
             return;
           }
 
+          // Scans write through a separate connection on a worker thread, so wait for locks instead of failing
+          this.db!.configure('busyTimeout', DATABASE_BUSY_TIMEOUT_MS);
           this.isInitialized = true;
           resolve();
         });
@@ -97,6 +99,8 @@ export class DatabaseManager {
             return;
           }
 
+          // Scans write through a separate connection on a worker thread, so wait for locks instead of failing
+          this.db!.configure('busyTimeout', DATABASE_BUSY_TIMEOUT_MS);
           this.isInitialized = true;
           resolve();
         });
@@ -466,6 +470,20 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Resolve the SQLite table that holds the data for a view
+   * The default view maps to the project-wide data table, other views to their own data_view_* table
+   */
+  getDataTableName(viewId: string): string {
+    if (viewId === DEFAULT_VIEW_ID) {
+      return PROJECT_DATA_TABLE;
+    }
+
+    // Sanitize table name to prevent SQL injection and ensure valid SQLite identifier
+    const sanitizedViewId = viewId.replace(/[^a-zA-Z0-9_]/g, '_');
+    return `data_view_${sanitizedViewId}`;
+  }
+
   /**
    * Create a dynamic data table for a view
    */
@@ -474,9 +492,7 @@ export class DatabaseManager {
       throw new Error('Invalid parameters for data table creation');
     }
 
-    // Sanitize table name to prevent SQL injection and ensure valid SQLite identifier
-    const sanitizedViewId = viewId.replace(/[^a-zA-Z0-9_]/g, '_');
-    const tableName = `data_view_${sanitizedViewId}`;
+    const tableName = this.getDataTableName(viewId);
 
     // Build column definitions
     const columnDefs = [
@@ -510,9 +526,7 @@ export class DatabaseManager {
       throw new Error('View ID is required');
     }
 
-    // Sanitize table name to prevent SQL injection and ensure valid SQLite identifier
-    const sanitizedViewId = viewId.replace(/[^a-zA-Z0-9_]/g, '_');
-    const tableName = `data_view_${sanitizedViewId}`;
+    const tableName = this.getDataTableName(viewId);
     await this.executeNonQuery(`DROP TABLE IF EXISTS ${tableName}`);
   }
 
@@ -524,13 +538,19 @@ export class DatabaseManager {
       throw new Error('View ID is required');
     }
 
-    // Sanitize table name to prevent SQL injection and ensure valid SQLite identifier
-    const sanitizedViewId = viewId.replace(/[^a-zA-Z0-9_]/g, '_');
-    const tableName = `data_view_${sanitizedViewId}`;
+    const tableName = this.getDataTableName(viewId);
 
     try {
       const columns = await this.executeQuery(`PRAGMA table_info(${tableName})`);
-      return columns.filter(col => !col.name.startsWith('_')); // Filter out internal columns
+      const recordedSchema = await this.getRecordedSchema(tableName);
+
+      return columns
+        .filter(col => !col.name.startsWith('_')) // Filter out internal columns
+        .map(col => {
+          // Scanned tables record the inferred type and nullability of each column
+          const recorded = recordedSchema.get(col.name);
+          return recorded ? { ...col, type: recorded.data_type, nullable: recorded.nullable === 1 } : col;
+        });
     } catch (error) {
       if ((error as Error).message.includes('no such table')) {
         return [];
@@ -539,6 +559,71 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * List the project data table and the tables table rules routed records to, each followed by its child tables,
+   * with their columns
+   * Internal columns such as _id and _parent_id are included so tables can be joined
+   */
+  async getProjectTables(): Promise<TableSchema[]> {
+    const routedTables = await this.executeQuery(
+      "SELECT name FROM sqlite_master WHERE type='table' AND name=?",
+      [DATA_TABLES_TABLE]
+    );
+    const dataTableNames = routedTables.length > 0
+      ? (await this.executeQuery(`SELECT name FROM ${DATA_TABLES_TABLE} WHERE name != ? ORDER BY name`, [PROJECT_DATA_TABLE])).map(row => row.name)
+      : [];
+
+    const tables: { name: string; parentTable?: string | undefined }[] = [];
+    for (const dataTableName of [PROJECT_DATA_TABLE, ...dataTableNames]) {
+      const prefix = `${dataTableName}${CHILD_TABLE_SEPARATOR}`;
+      const names = await this.executeQuery(
+        "SELECT name FROM sqlite_master WHERE type='table' AND (name = ? OR substr(name, 1, ?) = ?) ORDER BY name",
+        [dataTableName, prefix.length, prefix]
+      );
+      names.forEach(table => tables.push({ name: table.name, parentTable: table.name === dataTableName ? undefined : dataTableName }));
+    }
+
+    const schemas: TableSchema[] = [];
+    for (const table of tables) {
+      const columns = await this.executeQuery(`PRAGMA table_info("${table.name}")`);
+      const recordedSchema = await this.getRecordedSchema(table.name);
+
+      schemas.push({
+        name: table.name,
+        parentTable: table.parentTable,
+        columns: columns.map(col => {
+          const recorded = recordedSchema.get(col.name);
+          return {
+            name: col.name,
+            type: recorded ? recorded.data_type : col.type,
+            nullable: recorded ? recorded.nullable === 1 : col.notnull === 0 && col.pk === 0
+          };
+        })
+      });
+    }
+
+    return schemas;
+  }
+
+  /**
+   * Get the schema recorded by the scanner for a table, keyed by column name
+   */
+  private async getRecordedSchema(tableName: string): Promise<Map<string, any>> {
+    const schemaTable = await this.executeQuery(
+      "SELECT name FROM sqlite_master WHERE type='table' AND name=?",
+      [DATA_SCHEMA_TABLE]
+    );
+    if (schemaTable.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.executeQuery(
+      `SELECT column_name, data_type, nullable FROM ${DATA_SCHEMA_TABLE} WHERE table_name = ?`,
+      [tableName]
+    );
+    return new Map(rows.map(row => [row.column_name, row]));
+  }
+
   /**
    * Check if a data table exists for a view
    */
@@ -547,9 +632,7 @@ export class DatabaseManager {
       return false;
     }
 
-    // Sanitize table name to prevent SQL injection and ensure valid SQLite identifier
-    const sanitizedViewId = viewId.replace(/[^a-zA-Z0-9_]/g, '_');
-    const tableName = `data_view_${sanitizedViewId}`;
+    const tableName = this.getDataTableName(viewId);
 
     try {
       const result = await this.executeQuery(
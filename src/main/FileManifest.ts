@@ -0,0 +1,199 @@
+import * as crypto from 'crypto';
+import { FILE_MANIFEST_TABLE } from '../types';
+import { DatabaseManager } from './DatabaseManager';
+import { SourceFileReader, SourceFileStats } from './SourceFileReader';
+
+export interface FileManifestEntry {
+  path: string;         // Absolute path of the source file, or virtual path of a zip archive entry
+  size: number;         // File size in bytes
+  mtime: number;        // Last modification time in milliseconds
+  hash: string;         // SHA-256 of the file contents as stored on disk
+  settings: string;     // Parse settings the file was ingested with, as described by FileScanner.describeParseSettings
+}
+
+export interface ManifestChanges {
+  added: FileManifestEntry[];      // Files not seen by the previous scan
+  modified: FileManifestEntry[];   // Files whose contents or parse settings changed since the previous scan
+  removed: string[];               // Files recorded in the manifest that no longer exist
+  unchanged: string[];             // Files whose contents are identical to the previous scan
+  touched: FileManifestEntry[];    // Unchanged files whose size or mtime changed and need their entry refreshed
+}
+
+/**
+ * FileManifest tracks the files ingested into a project's data table so that rescans
+ * only need to process files that were added, modified or removed since the last scan.
+ * Files are compared by size and mtime first and only hashed when those differ.
+ * Entries of zip archives take the mtime of their archive.
+ * Files are also processed again when the settings they are parsed with change.
+ */
+export class FileManifest {
+  private databaseManager: DatabaseManager;
+  private sourceReader = new SourceFileReader();
+
+  constructor(databaseManager: DatabaseManager) {
+    this.databaseManager = databaseManager;
+  }
+
+  /**
+   * Create the manifest table if it does not exist
+   */
+  async ensureTable(): Promise<void> {
+    await this.databaseManager.executeNonQuery(`
+      CREATE TABLE IF NOT EXISTS ${FILE_MANIFEST_TABLE} (
+        path TEXT PRIMARY KEY,
+        size INTEGER NOT NULL,
+        mtime REAL NOT NULL,
+        hash TEXT NOT NULL,
+        settings TEXT NOT NULL DEFAULT '',
+        scanned_date DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Manifests written before parse settings were tracked lack the settings column
+    const columns = await this.databaseManager.executeQuery(`PRAGMA table_info(${FILE_MANIFEST_TABLE})`);
+    if (!columns.some(col => col.name === 'settings')) {
+      await this.databaseManager.executeNonQuery(`ALTER TABLE ${FILE_MANIFEST_TABLE} ADD COLUMN settings TEXT NOT NULL DEFAULT ''`);
+    }
+  }
+
+  /**
+   * Get all manifest entries keyed by file path
+   */
+  async getEntries(): Promise<Map<string, FileManifestEntry>> {
+    const rows = await this.databaseManager.executeQuery(
+      `SELECT path, size, mtime, hash, settings FROM ${FILE_MANIFEST_TABLE}`
+    );
+
+    const entries = new Map<string, FileManifestEntry>();
+    for (const row of rows) {
+      entries.set(row.path, { path: row.path, size: row.size, mtime: row.mtime, hash: row.hash, settings: row.settings });
+    }
+    return entries;
+  }
+
+  /**
+   * Compare the files currently on disk with the manifest
+   * Paths in keepPaths are never reported as removed, even when they are missing from filePaths
+   * settingsFor gives the parse settings each file would be ingested with now
+   */
+  async detectChanges(
+    filePaths: string[],
+    keepPaths: (filePath: string) => boolean = () => false,
+    settingsFor: (filePath: string) => string = () => ''
+  ): Promise<ManifestChanges> {
+    const entries = await this.getEntries();
+    const changes: ManifestChanges = { added: [], modified: [], removed: [], unchanged: [], touched: [] };
+    const seen = new Set<string>();
+
+    for (const filePath of filePaths) {
+      if (seen.has(filePath)) continue;
+      seen.add(filePath);
+
+      let stats: SourceFileStats;
+      try {
+        stats = await this.sourceReader.stat(filePath);
+      } catch (error) {
+        // A file deleted or rotated since it was listed has not been seen, so its entry is reported as removed
+        if (this.isMissingFileError(error)) {
+          seen.delete(filePath);
+          continue;
+        }
+        throw error;
+      }
+      const previous = entries.get(filePath);
+      const settings = settingsFor(filePath);
+
+      if (previous && previous.size === stats.size && previous.mtime === stats.mtimeMs) {
+        if (previous.settings === settings) {
+          changes.unchanged.push(filePath);
+        } else {
+          changes.modified.push({ ...previous, settings });
+        }
+        continue;
+      }
+
+      let hash: string;
+      try {
+        hash = await this.computeHash(filePath);
+      } catch (error) {
+        if (this.isMissingFileError(error)) {
+          seen.delete(filePath);
+          continue;
+        }
+        throw error;
+      }
+
+      const entry: FileManifestEntry = { path: filePath, size: stats.size, mtime: stats.mtimeMs, hash, settings };
+
+      if (!previous) {
+        changes.added.push(entry);
+      } else if (previous.hash !== entry.hash || previous.settings !== settings) {
+        changes.modified.push(entry);
+      } else {
+        changes.unchanged.push(filePath);
+        changes.touched.push(entry);
+      }
+    }
+
+    for (const filePath of entries.keys()) {
+      if (!seen.has(filePath) && !keepPaths(filePath)) {
+        changes.removed.push(filePath);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Record or update the manifest entry for a file
+   */
+  async recordFile(entry: FileManifestEntry): Promise<void> {
+    await this.databaseManager.executeNonQuery(
+      `INSERT OR REPLACE INTO ${FILE_MANIFEST_TABLE} (path, size, mtime, hash, settings, scanned_date) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [entry.path, entry.size, entry.mtime, entry.hash, entry.settings]
+    );
+  }
+
+  /**
+   * Remove the manifest entry for a file
+   */
+  async removeFile(filePath: string): Promise<void> {
+    await this.databaseManager.executeNonQuery(
+      `DELETE FROM ${FILE_MANIFEST_TABLE} WHERE path = ?`,
+      [filePath]
+    );
+  }
+
+  /**
+   * Remove all manifest entries, forcing the next scan to process every file
+   */
+  async clear(): Promise<void> {
+    await this.databaseManager.executeNonQuery(`DELETE FROM ${FILE_MANIFEST_TABLE}`);
+  }
+
+  /**
+   * Compute the SHA-256 hash of a file's contents without loading it into memory
+   * Compressed files and archive entries are hashed without decompressing them
+   */
+  async computeHash(filePath: string): Promise<string> {
+    const stream = await this.sourceReader.createRawReadStream(filePath);
+
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+
+      stream.on('data', chunk => hash.update(chunk));
+      stream.on('end', () => resolve(hash.digest('hex')));
+      // The error code is kept so a file deleted while it is hashed can be told apart
+      stream.on('error', (error: NodeJS.ErrnoException) => reject(
+        Object.assign(new Error(`Failed to hash file ${filePath}: ${error.message}`), { code: error.code })
+      ));
+    });
+  }
+
+  /**
+   * Check whether an error reports that a file does not exist
+   */
+  private isMissingFileError(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+}
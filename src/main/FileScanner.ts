@@ -1,7 +1,153 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { SourceFolder, ScanResults, ScanColumn, ScanError, ColumnSchema } from '../types';
+import {
+  SourceFolder, ScanResults, ScanColumn, ScanError, DetectedFileFormat, ColumnSchema, CsvOptions, ExcelOptions, XmlOptions, RecordSelector, ScanSettings, LogFormat, TableRule,
+  FlattenSeparator, ColumnCollisionStrategy, DEFAULT_FLATTEN_DEPTH, PROJECT_CONFIG_FOLDER, PROJECT_PARSERS_FOLDER
+} from '../types';
 import { DatabaseManager } from './DatabaseManager';
+import { CsvParser } from './CsvParser';
+import { JsonStreamParser } from './JsonStreamParser';
+import { BsonParser } from './BsonParser';
+import { ParquetReader } from './ParquetReader';
+import { ArrowReader } from './ArrowReader';
+import { XlsxReader } from './XlsxReader';
+import { YamlParser } from './YamlParser';
+import { XmlRecordReader } from './XmlRecordReader';
+import { DeclaredTypes, DeclaredValueType } from './ColumnValueConverter';
+import { JsonPath } from './JsonPath';
+import { LogParser } from './LogParser';
+import { GlobPattern } from './GlobPattern';
+import { SourceFileReader } from './SourceFileReader';
+import { ParserRegistry, FileParser, FileParserContext, ParsedRecord } from './ParserRegistry';
+
+// How the files of a source folder are chosen; a SourceFolder can be passed as is
+export type FileSelectionOptions = Pick<SourceFolder, 'fileRules' | 'maxDepth' | 'followSymlinks'>;
+
+// Directories skipped unless an include rule matches them
+const DEFAULT_SKIPPED_DIRECTORIES = ['node_modules', 'dist', 'build', 'target'];
+
+// Layout of an AWS DynamoDB export to S3: the manifests sit next to a folder of gzipped DynamoDB JSON files
+const DYNAMODB_EXPORT_SUMMARY_FILE = 'manifest-summary.json';
+const DYNAMODB_EXPORT_FILES_MANIFEST = 'manifest-files.json';
+const DYNAMODB_EXPORT_DATA_FOLDER = 'data';
+
+export interface FileParseOptions {
+  csvOptions?: CsvOptions | undefined;  // CSV/TSV dialect overrides from the file's source folder
+  excelOptions?: ExcelOptions | undefined;      // Sheet selection and row handling for Excel workbooks
+  xmlOptions?: XmlOptions | undefined;          // Repeating element read as records from XML files
+  recordSelector?: RecordSelector | undefined;  // Selects the records inside each JSON document
+  childTables?: string[] | undefined;           // Array fields of each record moved into child tables
+  logFormat?: LogFormat | undefined;            // Reads the file as a log file, one record per entry
+  tableRules?: TableRule[] | undefined;         // Table rules whose source folder and pattern match the file, in order
+  mongoExport?: boolean | undefined;            // Read JSON files as mongoexport output even when it is not detected
+  onCollision?: ((message: string) => void) | undefined;  // Called when two keys of a record flatten to the same column
+  includeLocation?: boolean | undefined;  // Add where each record was read from under SOURCE_LOCATION_FIELD
+  onSkippedLine?: ((skipped: SkippedLine) => void) | undefined;  // Called for each line or array element that could not become a record
+  onDeclaredTypes?: ((types: Map<string, DeclaredValueType>) => void) | undefined;  // Called with the column types a Parquet or Arrow schema declares, before the file's records
+  onDetectedFormat?: ((detected: DetectedFileFormat) => void) | undefined;  // Called when the file's format was detected from its content
+}
+
+// A line of a JSONL, DynamoDB JSON or log file, or an element of a JSON array, that was skipped
+export interface SkippedLine {
+  line: number;     // 1-based line number
+  message: string;  // Why it was skipped
+  snippet: string;  // Start of its raw text
+}
+
+// Characters of a skipped line's text kept in its snippet
+const SKIPPED_LINE_SNIPPET_LENGTH = 200;
+
+// Field of a record holding the elements of its exploded arrays, keyed by array path
+export const CHILD_RECORDS_FIELD = '_children';
+
+// Field of a record holding the table a table rule routes it to; records without it belong in the data table
+export const TARGET_TABLE_FIELD = '_table';
+
+// Field of a record holding its RecordLocation when FileParseOptions.includeLocation is set
+export const SOURCE_LOCATION_FIELD = '_location';
+
+// Column holding the `_id` of BSON and mongoexport documents, as columns starting with an underscore are internal
+export const DOCUMENT_ID_COLUMN = 'document_id';
+
+// Keys of the MongoDB Extended JSON type wrappers, sorted and joined; a JSON file whose first document
+// holds one is read as mongoexport output
+const EXTENDED_JSON_WRAPPERS = new Set([
+  '$oid', '$symbol', '$uuid', '$numberInt', '$numberDouble', '$numberLong', '$numberDecimal', '$date',
+  '$binary', '$binary,$type', '$regularExpression', '$options,$regex', '$timestamp', '$code', '$code,$scope',
+  '$dbPointer', '$minKey', '$maxKey', '$undefined'
+]);
+
+// Where a record was read from; line and offset are only known for JSON, JSONL, DynamoDB JSON and log files,
+// only the line for YAML and XML files, only the offset for BSON files, and the sheet and row for Excel workbooks
+export interface RecordLocation {
+  sheet?: string | undefined;   // Worksheet of an Excel workbook the record was read from
+  line?: number | undefined;    // 1-based line the record's text starts on, or worksheet row
+  offset?: number | undefined;  // Byte offset of the record's text in the decompressed file
+  index: number;                // 0-based position of the record among the records of the file
+}
+
+// The raw text of a record as it appears in its source file
+export interface RecordSource {
+  text: string;
+  truncated: boolean;   // Whether the text was cut at MAX_RECORD_SOURCE_BYTES
+}
+
+// Largest record text returned by readRecordSource
+const MAX_RECORD_SOURCE_BYTES = 1024 * 1024;
+
+// Parsers of formats read with their column types declared by the file's schema
+const COLUMNAR_PARSERS = ['parquet', 'arrow'];
+
+// Parsers of formats whose records are read from a zipped package of XML parts rather than from text
+const PACKAGED_PARSERS = ['excel'];
+
+// Parsers of JSON documents, whose records span any number of lines
+const JSON_DOCUMENT_PARSERS = ['json', 'json-array', 'json-object'];
+
+const DECLARED_VALUE_TYPES: DeclaredValueType[] = ['integer', 'real', 'boolean', 'text'];
+
+// Bytes read from the start of a .json file to tell whether it has one document per line
+const JSON_LINES_SNIFF_BYTES = 1024 * 1024;
+
+// Bytes from the start of a file given to the sniff functions of parsers
+const PARSER_SNIFF_BYTES = 16 * 1024;
+
+// Format extensions that do not tell how to read a file, so the built-in parsers sniff its content:
+// files without an extension, text files, and JSON files that may hold a document per line or DynamoDB items.
+// .jsonl files are always read as JSON lines, so a malformed first line is skipped rather than failing the file
+const AMBIGUOUS_FILE_EXTENSIONS = ['', '.txt', '.json'];
+
+// Names of the compression extensions in detected formats
+const COMPRESSION_NAMES: Record<string, string> = { '.gz': 'gzip', '.bz2': 'bzip2' };
+
+// Rows of a file's start parsed to tell whether it is delimited text
+const CSV_SNIFF_ROW_COUNT = 20;
+
+// Type descriptors of DynamoDB attribute values
+const DYNAMODB_TYPE_DESCRIPTORS = ['S', 'N', 'B', 'BOOL', 'NULL', 'L', 'M', 'SS', 'NS', 'BS'];
+
+// The parser reading a file, with the format its content was detected as when it was sniffed
+interface ParserMatch {
+  parser: FileParser;
+  detected?: DetectedFileFormat | undefined;
+}
+
+// A record selector with its JSONPaths parsed
+interface CompiledRecordSelector {
+  path: JsonPath;
+  parentFields: JsonPath[];
+}
+
+// How records are taken from JSON documents
+interface RecordLayout {
+  selector?: CompiledRecordSelector | undefined;
+  childArrays: string[];    // Dotted paths of the arrays to explode, e.g. order.lines
+  onCollision?: ((message: string) => void) | undefined;
+  onSkippedLine?: ((skipped: SkippedLine) => void) | undefined;
+  onDeclaredTypes?: ((types: Map<string, DeclaredValueType>) => void) | undefined;
+  includeLocation: boolean;
+  tableRules: TableRule[];  // Rules routing the records to tables by their discriminator field
+}
 
 interface BatchInsertResult {
   insertedCount: number;
@@ -65,11 +211,16 @@ interface ScanAndPopulateResult {
 interface ColumnStats {
   name: string;
   types: Set<string>;
-  nullCount: number;
-  totalCount: number;
+  valueCount: number;     // Records holding a non-null value for the column
   sampleValues: any[];
 }
 
+// Running statistics used to infer a schema from records seen one at a time
+interface SchemaStats {
+  recordCount: number;
+  columns: Map<string, ColumnStats>;
+}
+
 /**
  * JSONScanner handles scanning and parsing JSON files from source data folders,
  * analyzing their schema, and preparing data for database insertion.
@@ -77,9 +228,93 @@ interface ColumnStats {
 export class FileScanner {
   private scanResults: ScanResults | null = null;
   private errors: ScanError[] = [];
+  private sourceReader = new SourceFileReader();
+  private flattenDepth: number;
+  private separator: FlattenSeparator;
+  private collisionStrategy: ColumnCollisionStrategy;
+  private logFormats: { format: LogFormat; glob: GlobPattern }[];
+  private tableRules: { rule: TableRule; glob: GlobPattern | null }[];
+  private parsers = new ParserRegistry();
+
+  constructor(scanSettings: ScanSettings = {}) {
+    this.flattenDepth = scanSettings.flattenDepth ?? DEFAULT_FLATTEN_DEPTH;
+    this.separator = scanSettings.separator ?? '_';
+    this.collisionStrategy = scanSettings.collisionStrategy ?? 'suffix';
+    this.logFormats = (scanSettings.logFormats || []).map(format => ({ format, glob: new GlobPattern(format.pattern) }));
+    this.tableRules = (scanSettings.tableRules || []).map(rule => ({ rule, glob: rule.pattern ? new GlobPattern(rule.pattern) : null }));
+    this.registerBuiltInParsers();
+  }
+
+  /**
+   * Add a parser for a file format; it takes precedence over the parsers registered before it
+   */
+  registerParser(parser: FileParser): void {
+    this.parsers.register(parser);
+  }
+
+  /**
+   * Register the parsers of a project, loaded from the modules in the parsers folder of its config folder
+   * Returns the names of the parsers registered
+   */
+  loadProjectParsers(workingDirectory: string): string[] {
+    return this.parsers.loadModules(path.join(workingDirectory, PROJECT_CONFIG_FOLDER, PROJECT_PARSERS_FOLDER));
+  }
+
+  /**
+   * Register the parsers of the formats read without project parsers
+   * The JSON, JSON lines, DynamoDB JSON and CSV parsers also sniff files with ambiguous extensions; when several
+   * claim a file the one registered last wins, so the more specific line formats come after JSON documents
+   */
+  private registerBuiltInParsers(): void {
+    const sniffExtensions = AMBIGUOUS_FILE_EXTENSIONS;
+    const builtInParsers: FileParser[] = [
+      { name: 'json', extensions: ['.json'], readRecords: context => this.readJsonFile(context) },
+      {
+        name: 'json-array',
+        sniff: header => this.getSniffText(header).trimStart().startsWith('['),
+        sniffExtensions,
+        readRecords: context => this.readJsonFile(context)
+      },
+      {
+        name: 'json-object',
+        sniff: header => this.getSniffText(header).trimStart().startsWith('{'),
+        sniffExtensions,
+        readRecords: context => this.readJsonFile(context)
+      },
+      {
+        name: 'csv',
+        extensions: ['.csv'],
+        sniff: header => this.isDelimitedText(this.getSniffText(header)),
+        sniffExtensions,
+        readRecords: context => this.readCsvFile(context)
+      },
+      {
+        name: 'jsonl',
+        extensions: ['.jsonl'],
+        sniff: header => this.isJsonLinesText(this.getSniffText(header)),
+        sniffExtensions,
+        readRecords: context => this.readJsonLFile(context)
+      },
+      {
+        name: 'dynamodb-json',
+        extensions: ['.jsonddb'],
+        sniff: header => this.isDynamoDBJsonText(this.getSniffText(header)),
+        sniffExtensions,
+        readRecords: context => this.readDynamoDBJsonFile(context)
+      },
+      { name: 'bson', extensions: ['.bson'], readRecords: context => this.readBsonFile(context) },
+      { name: 'parquet', extensions: ['.parquet'], readRecords: context => this.readParquetFile(context) },
+      { name: 'arrow', extensions: ['.arrow', '.feather'], readRecords: context => this.readArrowFile(context) },
+      { name: 'yaml', extensions: ['.yaml', '.yml'], readRecords: context => this.readYamlFile(context) },
+      { name: 'xml', extensions: ['.xml'], readRecords: context => this.readXmlFile(context) },
+      { name: 'excel', extensions: ['.xlsx'], readRecords: context => this.readXlsxFile(context) },
+      { name: 'tsv', extensions: ['.tsv'], readRecords: context => this.readCsvFile(context, '\t') }
+    ];
+    builtInParsers.forEach(parser => this.parsers.register(parser));
+  }
 
   /**
-   * Scan all JSON and JSONL files in the provided source data folders
+   * Scan all supported data files in the provided source data folders
    */
   async scanSourceFolders(sourceFolders: SourceFolder[]): Promise<ScanResults> {
     if (!sourceFolders || !Array.isArray(sourceFolders) || sourceFolders.length === 0) {
@@ -88,7 +323,9 @@ export class FileScanner {
 
     this.errors = [];
     const allJsonFiles: string[] = [];
-    const allJsonData: any[] = [];
+    const schemaStats = this.createSchemaStats();
+    const folderByFile = new Map<string, SourceFolder>();
+    const detectedFormats: DetectedFileFormat[] = [];
 
     // Recursively find all JSON files in source folders
     for (const sourceFolder of sourceFolders) {
@@ -101,7 +338,8 @@ export class FileScanner {
           continue;
         }
 
-        const jsonFiles = await this.findJsonFiles(sourceFolder.path);
+        const jsonFiles = await this.findJsonFiles(sourceFolder.path, sourceFolder);
+        jsonFiles.forEach(filePath => folderByFile.set(filePath, sourceFolder));
         allJsonFiles.push(...jsonFiles);
       } catch (error) {
         this.errors.push({
@@ -111,40 +349,45 @@ export class FileScanner {
       }
     }
 
-    // Parse all found JSON files
+    // Stream the records of each file into the schema statistics without keeping them in memory
+    let failedFiles = 0;
     for (const filePath of allJsonFiles) {
+      const collisions = new Set<string>();
+      let declaredTypes = new Map<string, DeclaredValueType>();
       try {
-        const jsonData = await this.parseFile(filePath);
-        if (jsonData && Array.isArray(jsonData) && jsonData.length > 0) {
-          // Add source file information to each record
-          const dataWithSource = jsonData.map(record => ({
-            ...record,
-            _source_file: filePath
-          }));
-          allJsonData.push(...dataWithSource);
+        const options: FileParseOptions = {
+          ...this.getParseOptions(folderByFile.get(filePath), filePath),
+          onCollision: message => collisions.add(message),
+          onDeclaredTypes: types => { declaredTypes = types; },
+          onDetectedFormat: detected => detectedFormats.push(detected)
+        };
+        for await (const record of this.readRecords(filePath, options)) {
+          this.observeRecord(schemaStats, record, declaredTypes);
         }
       } catch (error) {
+        failedFiles++;
         this.errors.push({
           file: filePath,
           error: (error as Error).message
         });
       }
+      collisions.forEach(message => this.errors.push({ file: filePath, error: message }));
     }
 
-    // Analyze schema from all collected data
-    const schema = this.analyzeSchema(allJsonData);
+    // Analyze schema from all streamed records
+    const schema = this.buildSchema(schemaStats);
 
-    // Calculate processed files correctly - count files that were successfully parsed
-    const fileErrors = this.errors.filter(error => !error.file.endsWith('/') && !error.error.includes('Source folder'));
-    const processedFiles = Math.max(0, allJsonFiles.length - fileErrors.length);
+    // Count files that were successfully parsed; collision reports do not make a file fail
+    const processedFiles = Math.max(0, allJsonFiles.length - failedFiles);
 
     this.scanResults = {
       viewId: '', // Will be set by caller
       totalFiles: allJsonFiles.length,
       processedFiles: processedFiles,
-      totalRecords: allJsonData.length,
+      totalRecords: schemaStats.recordCount,
       columns: schema,
       errors: [...this.errors],
+      detectedFormats,
       scanDate: new Date()
     };
 
@@ -152,28 +395,150 @@ export class FileScanner {
   }
 
   /**
-   * Recursively find all JSON and JSONL files in a directory
+   * Recursively find the data files a registered parser reads in a directory, by extension or by sniffing
+   * their content, and the log files matching a log format's pattern
+   * Compressed files are included by their inner extension, and zip archives contribute
+   * their entries as virtual paths such as `archive.zip!/inner/path.json`.
+   * A DynamoDB export to S3 contributes the data files its manifest lists, read as DynamoDB JSON,
+   * and not its manifests; the metadata files `mongodump` writes next to BSON files are skipped.
+   * The folder's include/exclude rules are matched against paths relative to the directory, and a
+   * rule matching a directory applies to everything below it. The last matching rule decides; files
+   * no rule matches are scanned unless the first rule is an include rule. Hidden and build output
+   * directories are skipped unless a rule includes them.
    */
-  async findJsonFiles(dirPath: string): Promise<string[]> {
+  async findJsonFiles(dirPath: string, selection: FileSelectionOptions = {}): Promise<string[]> {
     const jsonFiles: string[] = [];
+    const rules = (selection.fileRules || []).map(rule => ({ type: rule.type, glob: new GlobPattern(rule.pattern) }));
+    const includedByDefault = rules[0]?.type !== 'include';
+    const maxDepth = selection.maxDepth ?? Infinity;
+    const followSymlinks = selection.followSymlinks ?? true;
+    const visitedDirectories = new Set<string>();
+
+    const toRelativePath = (filePath: string): string => path.relative(dirPath, filePath).split(path.sep).join('/');
+
+    const isScannedFile = async (filePath: string): Promise<boolean> => {
+      if (this.isSupportedFile(filePath) || this.findLogFormat(toRelativePath(filePath)) !== undefined) {
+        return true;
+      }
+      try {
+        return await this.findParser(filePath) !== undefined;
+      } catch (error) {
+        this.errors.push({ file: filePath, error: (error as Error).message });
+        return false;
+      }
+    };
+
+    // Index of the last rule matching a path or one of its parent directories, or -1
+    const lastMatchingRule = (relativePath: string): number => {
+      const segments = relativePath.split('/');
+      const candidates = [relativePath];
+      for (let i = 1; i < segments.length; i++) {
+        const directory = segments.slice(0, i).join('/');
+        candidates.push(directory, `${directory}/`);
+      }
+      for (let i = rules.length - 1; i >= 0; i--) {
+        if (candidates.some(candidate => rules[i]!.glob.matches(candidate))) {
+          return i;
+        }
+      }
+      return -1;
+    };
+
+    const isIncluded = (filePath: string, unmatchedIncluded: boolean): boolean => {
+      const ruleIndex = lastMatchingRule(toRelativePath(filePath));
+      return ruleIndex === -1 ? unmatchedIncluded : rules[ruleIndex]!.type === 'include';
+    };
+
+    // Whether a later include rule may still select paths below an excluded one
+    const hasIncludeAfter = (ruleIndex: number): boolean => rules.slice(ruleIndex + 1).some(rule => rule.type === 'include');
+
+    // Directories are pruned only when excluded with no include rule after the exclusion
+    const shouldDescend = (directoryPath: string, skippedByDefault: boolean): boolean => {
+      const ruleIndex = lastMatchingRule(`${toRelativePath(directoryPath)}/`);
+      if (ruleIndex === -1) {
+        return !skippedByDefault;
+      }
+      return rules[ruleIndex]!.type === 'include' || hasIncludeAfter(ruleIndex);
+    };
+
+    const scanArchive = async (archivePath: string): Promise<void> => {
+      try {
+        // Entries follow the rule matching the archive unless a rule matches them directly
+        const ruleIndex = lastMatchingRule(toRelativePath(archivePath));
+        const entriesIncluded = ruleIndex === -1 ? includedByDefault : rules[ruleIndex]!.type === 'include';
+        if (!entriesIncluded && ruleIndex !== -1 && !hasIncludeAfter(ruleIndex)) {
+          return;
+        }
+        for (const entryPath of await this.sourceReader.listArchiveEntries(archivePath)) {
+          if (isIncluded(entryPath, entriesIncluded) && await isScannedFile(entryPath)) {
+            jsonFiles.push(entryPath);
+          }
+        }
+      } catch (error) {
+        this.errors.push({
+          file: archivePath,
+          error: (error as Error).message
+        });
+      }
+    };
+
+    const scanDynamoDBExport = (exportPath: string): void => {
+      try {
+        const dataFiles = this.findDynamoDBExportFiles(exportPath);
+        jsonFiles.push(...dataFiles.filter(filePath => isIncluded(filePath, includedByDefault)));
+      } catch (error) {
+        this.errors.push({
+          file: exportPath,
+          error: `Failed to read DynamoDB export: ${(error as Error).message}`
+        });
+      }
+    };
 
-    const scanDirectory = async (currentPath: string): Promise<void> => {
+    const scanDirectory = async (currentPath: string, depth: number): Promise<void> => {
       try {
+        const realPath = fs.realpathSync(currentPath);
+        if (visitedDirectories.has(realPath)) {
+          return; // A symbolic link loops back to a directory already scanned
+        }
+        visitedDirectories.add(realPath);
+
         const items = fs.readdirSync(currentPath);
+        if (items.includes(DYNAMODB_EXPORT_SUMMARY_FILE)) {
+          scanDynamoDBExport(currentPath);
+          return;
+        }
 
         for (const item of items) {
           const itemPath = path.join(currentPath, item);
-          const stats = fs.statSync(itemPath);
+          let stats = fs.lstatSync(itemPath);
+
+          if (stats.isSymbolicLink()) {
+            if (!followSymlinks) {
+              continue;
+            }
+            try {
+              stats = fs.statSync(itemPath);
+            } catch {
+              continue; // Dangling link
+            }
+          }
 
           if (stats.isDirectory()) {
+            if (depth >= maxDepth) {
+              continue;
+            }
             // Skip hidden directories and common non-data directories
-            if (!item.startsWith('.') &&
-              !['node_modules', 'dist', 'build', 'target'].includes(item.toLowerCase())) {
-              await scanDirectory(itemPath);
+            const skippedByDefault = item.startsWith('.') ||
+              DEFAULT_SKIPPED_DIRECTORIES.includes(item.toLowerCase());
+            if (shouldDescend(itemPath, skippedByDefault)) {
+              await scanDirectory(itemPath, depth + 1);
             }
           } else if (stats.isFile()) {
-            const ext = path.extname(item).toLowerCase();
-            if (ext === '.json' || ext === '.jsonl' || ext === '.jsonddb') {
+            if (this.sourceReader.isZipArchive(itemPath)) {
+              await scanArchive(itemPath);
+            } else if (this.isMongoDumpMetadataFile(item, items)) {
+              continue;
+            } else if (isIncluded(itemPath, includedByDefault) && await isScannedFile(itemPath)) {
               jsonFiles.push(itemPath);
             }
           }
@@ -186,33 +551,292 @@ export class FileScanner {
       }
     };
 
-    await scanDirectory(dirPath);
+    await scanDirectory(dirPath, 0);
     return jsonFiles;
   }
 
+  /**
+   * Find the data files of a DynamoDB export to S3
+   * Files are taken from the export's file manifest, or from its data folder when there is no file manifest
+   */
+  private findDynamoDBExportFiles(exportPath: string): string[] {
+    const summary = JSON.parse(fs.readFileSync(path.join(exportPath, DYNAMODB_EXPORT_SUMMARY_FILE), 'utf8'));
+    if (summary.outputFormat && summary.outputFormat !== 'DYNAMODB_JSON') {
+      throw new Error(`Unsupported export format ${summary.outputFormat}; only DYNAMODB_JSON exports can be scanned`);
+    }
+
+    const dataPath = path.join(exportPath, DYNAMODB_EXPORT_DATA_FOLDER);
+    const manifestPath = path.join(exportPath, DYNAMODB_EXPORT_FILES_MANIFEST);
+    if (!fs.existsSync(manifestPath)) {
+      return fs.existsSync(dataPath)
+        ? fs.readdirSync(dataPath).map(item => path.join(dataPath, item)).filter(filePath => this.isSupportedFile(filePath))
+        : [];
+    }
+
+    // The file manifest has one JSON object per line naming the S3 key of a data file
+    const dataFiles: string[] = [];
+    for (const line of fs.readFileSync(manifestPath, 'utf8').split(/\r?\n/)) {
+      if (!line.trim()) continue;
+
+      const entry = JSON.parse(line);
+      if (typeof entry.dataFileS3Key !== 'string') continue;
+
+      const filePath = path.join(dataPath, path.posix.basename(entry.dataFileS3Key));
+      if (fs.existsSync(filePath)) {
+        dataFiles.push(filePath);
+      } else {
+        this.errors.push({ file: filePath, error: 'Data file listed in the DynamoDB export manifest is missing' });
+      }
+    }
+    return dataFiles;
+  }
+
+  /**
+   * Check whether a file is the metadata `mongodump` writes next to the BSON file of a collection
+   */
+  private isMongoDumpMetadataFile(fileName: string, folderItems: string[]): boolean {
+    const match = fileName.match(/^(.*)\.metadata\.json(\.gz)?$/i);
+    return !!match && (folderItems.includes(`${match[1]}.bson`) || folderItems.includes(`${match[1]}.bson.gz`));
+  }
+
+  /**
+   * Check whether a file is a data file of a DynamoDB export to S3
+   */
+  isDynamoDBExportFile(filePath: string): boolean {
+    if (this.sourceReader.isArchiveEntry(filePath)) {
+      return false;
+    }
+
+    const folderPath = path.dirname(filePath);
+    return path.basename(folderPath) === DYNAMODB_EXPORT_DATA_FOLDER &&
+      fs.existsSync(path.join(path.dirname(folderPath), DYNAMODB_EXPORT_SUMMARY_FILE));
+  }
+
+  /**
+   * Get the extension of the format a file is read as
+   * Data files of DynamoDB exports are DynamoDB JSON whatever their extension
+   */
+  private getFileFormat(filePath: string): string {
+    return this.isDynamoDBExportFile(filePath) ? '.jsonddb' : this.sourceReader.getFormatExtension(filePath);
+  }
+
+  /**
+   * Check whether a registered parser reads a file or archive entry by its extension, looking through compression extensions
+   */
+  isSupportedFile(filePath: string): boolean {
+    return this.parsers.findByExtension(this.sourceReader.getFormatExtension(filePath)) !== undefined;
+  }
+
+  /**
+   * Check whether the format of a file is told from its content, as its extension is missing or ambiguous
+   */
+  isSniffedFile(filePath: string): boolean {
+    return this.parsers.hasSniffers(this.getFileFormat(filePath));
+  }
+
+  /**
+   * Check whether a file is read as a data file: by its extension, or when its format is told from its content,
+   * by whether a parser claims its first bytes
+   */
+  async isDataFile(filePath: string): Promise<boolean> {
+    if (this.isSupportedFile(filePath)) {
+      return true;
+    }
+    if (!this.isSniffedFile(filePath)) {
+      return false;
+    }
+
+    try {
+      return await this.findParser(filePath) !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Find the parser reading a file: one sniffing its first bytes when its extension is offered to sniffers,
+   * or else the one claiming its format extension
+   * Sniffed files that turn out to be gzip or bzip2 streams are decompressed and sniffed again, and read decompressed
+   */
+  private async findParser(filePath: string): Promise<ParserMatch | undefined> {
+    const format = this.getFileFormat(filePath);
+    const parser = this.parsers.findByExtension(format);
+    if (!this.parsers.hasSniffers(format)) {
+      return parser && { parser };
+    }
+
+    this.sourceReader.setContentCompression(filePath, null);
+    let header = await this.readFileHeader(filePath, PARSER_SNIFF_BYTES);
+    const compression = this.sourceReader.detectCompression(header);
+    if (compression) {
+      this.sourceReader.setContentCompression(filePath, compression);
+      header = await this.readFileHeader(filePath, PARSER_SNIFF_BYTES);
+    }
+
+    const sniffed = this.parsers.findBySniff(header, filePath, format);
+    const chosen = sniffed ?? parser;
+    if (!chosen) {
+      return undefined;
+    }
+    if (!sniffed && !compression) {
+      return { parser: chosen };
+    }
+    return {
+      parser: chosen,
+      detected: { file: filePath, format: chosen.name, compression: compression ? COMPRESSION_NAMES[compression] : undefined }
+    };
+  }
+
+  /**
+   * Read up to a number of bytes from the start of a file, decompressed
+   */
+  private async readFileHeader(filePath: string, maxLength: number): Promise<Buffer> {
+    const bytes: Buffer[] = [];
+    let length = 0;
+    for await (const buffer of this.sourceReader.readFrom(filePath, 0)) {
+      bytes.push(buffer);
+      length += buffer.length;
+      if (length >= maxLength) break;
+    }
+    return Buffer.concat(bytes).subarray(0, maxLength);
+  }
+
   /**
    * Parse a file and return its contents as an array
-   * Supports different file formats based on extension
+   * Supports different file formats based on extension; gzip, bzip2 and zip entries are decompressed while reading
+   */
+  async parseFile(filePath: string, options: FileParseOptions = {}): Promise<any[]> {
+    const records: any[] = [];
+    for await (const record of this.readRecords(filePath, options)) {
+      records.push(record);
+    }
+    return records;
+  }
+
+  /**
+   * Get the options for parsing a file from the settings of its source folder
+   * The first record selector and the first log format whose pattern matches the file's path within the folder apply,
+   * along with every table rule for the folder whose pattern matches; without a folder, log formats are matched
+   * against the file name and table rules do not apply
+   */
+  getParseOptions(folder: SourceFolder | undefined, filePath: string): FileParseOptions {
+    const relativePath = folder ? path.relative(folder.path, filePath).split(path.sep).join('/') : path.basename(filePath);
+    const logFormat = this.findLogFormat(relativePath);
+    if (!folder) {
+      return logFormat ? { logFormat } : {};
+    }
+
+    const recordSelector = (folder.recordSelectors || []).find(selector =>
+      !selector.pattern || new GlobPattern(selector.pattern).matches(relativePath)
+    );
+    const tableRules = this.tableRules
+      .filter(({ rule, glob }) => (!rule.sourceFolder || path.resolve(rule.sourceFolder) === path.resolve(folder.path)) &&
+        (!glob || glob.matches(relativePath)))
+      .map(({ rule }) => rule);
+
+    return {
+      csvOptions: folder.csvOptions,
+      excelOptions: folder.excelOptions,
+      xmlOptions: folder.xmlOptions,
+      recordSelector,
+      childTables: folder.childTables,
+      logFormat,
+      tableRules: tableRules.length > 0 ? tableRules : undefined,
+      mongoExport: folder.mongoExport
+    };
+  }
+
+  /**
+   * Check whether a file is read as a log file, by its path within its source folder
+   */
+  isLogFile(folder: SourceFolder, filePath: string): boolean {
+    return this.findLogFormat(path.relative(folder.path, filePath).split(path.sep).join('/')) !== undefined;
+  }
+
+  /**
+   * Find the first log format whose pattern matches a path relative to its source folder
+   */
+  private findLogFormat(relativePath: string): LogFormat | undefined {
+    return this.logFormats.find(({ glob }) => glob.matches(relativePath))?.format;
+  }
+
+  /**
+   * Describe the settings that change how a file is turned into records
+   * Files are parsed again when their description changes; it is empty when only defaults apply
    */
-  async parseFile(filePath: string): Promise<any[]> {
+  describeParseSettings(options: FileParseOptions): string {
+    const settings: Record<string, any> = {};
+    if (options.csvOptions && Object.keys(options.csvOptions).length > 0) settings['csvOptions'] = options.csvOptions;
+    if (options.excelOptions && Object.keys(options.excelOptions).length > 0) settings['excelOptions'] = options.excelOptions;
+    if (options.xmlOptions?.recordPath) settings['xmlOptions'] = options.xmlOptions;
+    if (options.recordSelector) settings['recordSelector'] = options.recordSelector;
+    if (options.childTables && options.childTables.length > 0) settings['childTables'] = options.childTables;
+    if (options.logFormat) settings['logFormat'] = options.logFormat;
+    if (options.tableRules && options.tableRules.length > 0) settings['tableRules'] = options.tableRules;
+    if (options.mongoExport) settings['mongoExport'] = true;
+    if (this.flattenDepth !== DEFAULT_FLATTEN_DEPTH) settings['flattenDepth'] = this.flattenDepth;
+    if (this.separator !== '_') settings['separator'] = this.separator;
+    if (this.collisionStrategy !== 'suffix') settings['collisionStrategy'] = this.collisionStrategy;
+
+    return Object.keys(settings).length > 0 ? JSON.stringify(settings) : '';
+  }
+
+  /**
+   * Read the records of a file one at a time without holding the whole file in memory
+   * Records are flattened the same way as the records returned by parseFile
+   */
+  async *readRecords(filePath: string, options: FileParseOptions = {}): AsyncGenerator<any> {
     try {
-      if (!fs.existsSync(filePath)) {
+      if (!this.sourceReader.exists(filePath)) {
         throw new Error('File does not exist');
       }
 
-      // Extract file extension
-      const extension = path.extname(filePath).toLowerCase();
-      
-      // Use switch statement to delegate to the appropriate parser based on extension
-      switch (extension) {
-        case '.jsonl':
-          return this.parseJsonLFile(filePath);
-        case '.json':
-          return this.parseJsonFile(filePath);
-        case '.jsonddb':
-          return this.parseDynamoDBJsonFile(filePath);
-        default:
-          throw new Error(`Unsupported file extension: ${extension}`);
+      const layout: RecordLayout = {
+        selector: options.recordSelector ? this.compileRecordSelector(options.recordSelector) : undefined,
+        childArrays: options.childTables || [],
+        onCollision: options.onCollision,
+        onSkippedLine: options.onSkippedLine,
+        onDeclaredTypes: options.onDeclaredTypes,
+        includeLocation: options.includeLocation === true,
+        tableRules: options.tableRules || []
+      };
+
+      const context: FileParserContext = {
+        filePath,
+        source: this.sourceReader,
+        options,
+        reportSkipped: (line, message, text) => this.reportSkippedLine(layout, filePath, line, message, text),
+        declareTypes: types => this.declareTypes(types, layout)
+      };
+
+      let parsedRecords: AsyncIterable<ParsedRecord>;
+      if (options.logFormat) {
+        parsedRecords = this.readLogFile(context, options.logFormat);
+      } else {
+        const match = await this.findParser(filePath);
+        if (!match) {
+          // Name the format extension, looking through compression extensions such as .gz
+          throw new Error(`Unsupported file extension: ${this.getFileFormat(filePath)}`);
+        }
+        const { parser, detected } = match;
+        if (detected) {
+          options.onDetectedFormat?.(detected);
+        }
+        if (parser.schemaHints) {
+          context.declareTypes(parser.schemaHints);
+        }
+        parsedRecords = parser.readRecords(context);
+      }
+
+      let recordIndex = 0;
+      for await (const { record, location } of parsedRecords) {
+        for (const selected of this.selectRecords(record, layout, location ?? null)) {
+          if (layout.includeLocation) {
+            selected[SOURCE_LOCATION_FIELD] = { ...selected[SOURCE_LOCATION_FIELD], index: recordIndex };
+          }
+          recordIndex++;
+          yield selected;
+        }
       }
     } catch (error) {
       throw new Error(`Failed to parse file ${filePath}: ${(error as Error).message}`);
@@ -220,188 +844,683 @@ export class FileScanner {
   }
 
   /**
-   * Parse a JSON file and return its contents as an array
+   * Read the raw text of the record starting at a byte offset of a file
+   * JSON files yield the array element or document at the offset; line-based formats yield the line
    */
-  private async parseJsonFile(filePath: string): Promise<any[]> {
+  async readRecordSource(filePath: string, offset: number): Promise<RecordSource> {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error('Record offset must be a whole number of 0 or more');
+    }
+    if (!this.sourceReader.exists(filePath)) {
+      throw new Error(`File does not exist: ${filePath}`);
+    }
+
+    // Files that are not read by a parser, such as log files, are read line by line
+    const parserName = (await this.findParser(filePath))?.parser.name;
+    if (parserName === 'bson') {
+      return this.readBsonRecordSource(filePath, offset);
+    }
+    if (parserName && COLUMNAR_PARSERS.includes(parserName)) {
+      throw new Error('Parquet and Arrow records have no source text');
+    }
+    if (parserName && PACKAGED_PARSERS.includes(parserName)) {
+      throw new Error('Excel rows have no source text');
+    }
+
+    const wholeValue = parserName !== undefined && JSON_DOCUMENT_PARSERS.includes(parserName);
+    const bytes: Buffer[] = [];
+    let length = 0;
+    let depth = 0;
+    let started = false;
+    let inString = false;
+    let escaped = false;
+
+    // Structural characters are ASCII, so the text can be scanned byte by byte without decoding
+    const findEnd = (buffer: Buffer): number => {
+      for (let i = 0; i < buffer.length; i++) {
+        const byte = buffer[i]!;
+        if (!wholeValue) {
+          if (byte === 0x0a) return i;
+          continue;
+        }
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (byte === 0x5c) escaped = true;
+          else if (byte === 0x22) inString = false;
+        } else if (byte === 0x22) {
+          inString = true;
+          started = true;
+        } else if (byte === 0x7b || byte === 0x5b) {
+          depth++;
+          started = true;
+        } else if (byte === 0x7d || byte === 0x5d) {
+          depth--;
+          if (depth <= 0) return depth === 0 ? i + 1 : i;
+        } else if (byte === 0x2c && depth === 0 && started) {
+          return i;
+        } else if (byte > 0x20) {
+          started = true;
+        }
+      }
+      return -1;
+    };
+
     try {
-      if (!fs.existsSync(filePath)) {
-        throw new Error('File does not exist');
+      for await (const buffer of this.sourceReader.readFrom(filePath, offset)) {
+        const end = findEnd(buffer);
+        const chunk = end === -1 ? buffer : buffer.subarray(0, end);
+        bytes.push(chunk);
+        length += chunk.length;
+
+        if (length >= MAX_RECORD_SOURCE_BYTES) {
+          return { text: Buffer.concat(bytes).subarray(0, MAX_RECORD_SOURCE_BYTES).toString('utf8'), truncated: true };
+        }
+        if (end !== -1) break;
       }
+    } catch (error) {
+      throw new Error(`Failed to read record source: ${(error as Error).message}`);
+    }
 
-      // No need to check file extension here as parseFile already handles routing
+    return { text: Buffer.concat(bytes).toString('utf8').replace(/\r$/, '').trim(), truncated: false };
+  }
 
-      const fileContent = fs.readFileSync(filePath, 'utf8');
+  /**
+   * Read the BSON document starting at a byte offset of a file as Extended JSON text
+   */
+  private async readBsonRecordSource(filePath: string, offset: number): Promise<RecordSource> {
+    let pending = Buffer.alloc(0);
 
-      if (!fileContent.trim()) {
-        throw new Error('File is empty');
-      }
+    try {
+      for await (const buffer of this.sourceReader.readFrom(filePath, offset)) {
+        pending = Buffer.concat([pending, buffer]);
+        if (pending.length < 4) continue;
 
-      let parsedData: any;
-      try {
-        parsedData = JSON.parse(fileContent);
-      } catch (parseError) {
-        throw new Error(`Invalid JSON format: ${(parseError as Error).message}`);
+        const length = pending.readInt32LE(0);
+        if (length > MAX_RECORD_SOURCE_BYTES) {
+          return { text: `BSON document of ${length} bytes is too large to show`, truncated: true };
+        }
+        if (pending.length >= length) {
+          const document = new BsonParser().decodeDocument(pending.subarray(0, length), offset);
+          return { text: JSON.stringify(document, null, 2), truncated: false };
+        }
       }
+    } catch (error) {
+      throw new Error(`Failed to read record source: ${(error as Error).message}`);
+    }
 
-      // Ensure data is in array format
-      if (!Array.isArray(parsedData)) {
-        if (typeof parsedData === 'object' && parsedData !== null) {
-          // If it's a single object, wrap it in an array
-          parsedData = [parsedData];
-        } else {
+    throw new Error('Failed to read record source: no BSON document starts at this offset');
+  }
+
+  /**
+   * Read the objects of a JSON file
+   * A top-level array is streamed element by element, so files larger than memory can be read
+   */
+  private async *readJsonFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
+    // mongoexport and many other tools write one document per line to .json files
+    if (await this.isJsonLinesFile(filePath)) {
+      yield* this.readJsonLFile(context);
+      return;
+    }
+
+    const fileStream = await this.sourceReader.createReadStream(filePath);
+
+    try {
+      const parser = new JsonStreamParser();
+      let index = 0;
+      let mongoExport: boolean | undefined = context.options.mongoExport || undefined;
+
+      for await (const item of parser.parse(fileStream)) {
+        // A document that is not an array is yielded as its only item and must be an object
+        if (!parser.isTopLevelArray() && (typeof item !== 'object' || item === null || Array.isArray(item))) {
           throw new Error('JSON content must be an object or array of objects');
         }
-      }
 
-      // Validate that all items in the array are objects
-      const validObjects: any[] = [];
-      for (let i = 0; i < parsedData.length; i++) {
-        const item = parsedData[i];
         if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
-          // Flatten nested objects to some degree
-          const flattenedItem = this.flattenObject(item);
-          validObjects.push(flattenedItem);
+          mongoExport ??= this.hasExtendedJson(item);
+          yield { record: mongoExport ? this.normalizeDocument(item) : item, location: parser.getLocation() };
         } else {
           // Skip non-object items but don't fail the entire file
-          // Only log warning in non-test environments
-          if (process.env['NODE_ENV'] !== 'test') {
-            console.warn(`Skipping non-object item at index ${i} in file ${filePath}`);
-          }
+          const text = JSON.stringify(item) ?? String(item);
+          context.reportSkipped(parser.getLocation()?.line ?? 1, `Array element ${index} is not an object`, text);
         }
+        index++;
       }
-
-      return validObjects;
     } catch (error) {
       throw new Error(`Failed to parse JSON file ${filePath}: ${(error as Error).message}`);
+    } finally {
+      fileStream.destroy();
     }
   }
 
   /**
-   * Parse a JSONL file and return its contents as an array
+   * Read the objects of a JSONL file
    * Each line in a JSONL file is a separate JSON object
    */
-  private async parseJsonLFile(filePath: string): Promise<any[]> {
+  private async *readJsonLFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
     try {
-      if (!fs.existsSync(filePath)) {
-        throw new Error('File does not exist');
-      }
-
-      const readline = require('readline');
-      const fileStream = fs.createReadStream(filePath, { encoding: 'utf8' });
-      const rl = readline.createInterface({
-        input: fileStream,
-        crlfDelay: Infinity
-      });
+      let validObjectCount = 0;
+      let mongoExport: boolean | undefined = context.options.mongoExport || undefined;
 
-      const validObjects: any[] = [];
-      let lineNumber = 0;
-
-      for await (const line of rl) {
-        lineNumber++;
-        
+      for await (const { text: line, line: lineNumber, offset } of this.sourceReader.readLines(filePath)) {
         // Skip empty lines
         if (!line.trim()) continue;
         
+        let parsedData: any;
         try {
           // Parse each line as a separate JSON object
-          const parsedData = JSON.parse(line);
-          
-          if (typeof parsedData === 'object' && parsedData !== null && !Array.isArray(parsedData)) {
-            // Flatten nested objects to some degree
-            const flattenedItem = this.flattenObject(parsedData);
-            validObjects.push(flattenedItem);
-          } else {
-            // Skip non-object items but don't fail the entire file
-            // Only log warning in non-test environments
-            if (process.env['NODE_ENV'] !== 'test') {
-              console.warn(`Skipping non-object item at line ${lineNumber} in file ${filePath}`);
-            }
-          }
+          parsedData = JSON.parse(line);
         } catch (parseError) {
-          // Log the error but continue processing other lines
-          if (process.env['NODE_ENV'] !== 'test') {
-            console.warn(`Error parsing line ${lineNumber} in JSONL file ${filePath}: ${(parseError as Error).message}`);
-          }
+          // Report the error but continue processing other lines
+          context.reportSkipped(lineNumber, `Invalid JSON: ${(parseError as Error).message}`, line);
+          continue;
+        }
+
+        if (typeof parsedData === 'object' && parsedData !== null && !Array.isArray(parsedData)) {
+          validObjectCount++;
+          mongoExport ??= this.hasExtendedJson(parsedData);
+          yield { record: mongoExport ? this.normalizeDocument(parsedData) : parsedData, location: { line: lineNumber, offset } };
+        } else {
+          // Skip non-object items but don't fail the entire file
+          context.reportSkipped(lineNumber, 'Line is not a JSON object', line);
         }
       }
 
-      if (validObjects.length === 0) {
+      if (validObjectCount === 0) {
         throw new Error('No valid JSON objects found in JSONL file');
       }
-
-      return validObjects;
     } catch (error) {
       throw new Error(`Failed to parse JSONL file ${filePath}: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Parse a DynamoDB JSON file and return its contents as an array
-   * Each line in a DynamoDB JSON file is a separate JSON object with DynamoDB type annotations
+   * Read the entries of a log file as records, one column per named capture group of its log format
+   * Entries that do not match the format are reported as skipped lines
    */
-  private async parseDynamoDBJsonFile(filePath: string): Promise<any[]> {
+  private async *readLogFile(context: FileParserContext, logFormat: LogFormat): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
     try {
-      if (!fs.existsSync(filePath)) {
-        throw new Error('File does not exist');
-      }
+      const parser = new LogParser(logFormat);
+      let matchedCount = 0;
+      let entryCount = 0;
+
+      for await (const entry of parser.parseLines(this.sourceReader.readLines(filePath))) {
+        entryCount++;
+        if (!entry.record) {
+          context.reportSkipped(entry.line, 'Line does not match the log format', entry.text);
+          continue;
+        }
 
-      const readline = require('readline');
-      const fileStream = fs.createReadStream(filePath, { encoding: 'utf8' });
-      const rl = readline.createInterface({
-        input: fileStream,
-        crlfDelay: Infinity
-      });
+        matchedCount++;
+        yield { record: entry.record, location: { line: entry.line, offset: entry.offset } };
+      }
 
-      const validObjects: any[] = [];
-      let lineNumber = 0;
+      if (entryCount > 0 && matchedCount === 0) {
+        throw new Error('No lines match the log format');
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse log file ${filePath}: ${(error as Error).message}`);
+    }
+  }
 
-      for await (const line of rl) {
-        lineNumber++;
-        
+  /**
+   * Check whether a .json file holds one document per line rather than a single document
+   * Only the start of the file is read: its first line must be a whole object and another line must follow
+   */
+  private async isJsonLinesFile(filePath: string): Promise<boolean> {
+    return this.isJsonLinesText((await this.readFileHeader(filePath, JSON_LINES_SNIFF_BYTES)).toString('utf8'));
+  }
+
+  /**
+   * Check whether the start of a file's text is a whole JSON object on its first line followed by another line
+   */
+  private isJsonLinesText(text: string): boolean {
+    const lines = text.split('\n').filter(line => line.trim());
+    if (lines.length < 2) {
+      return false;
+    }
+
+    try {
+      const first = JSON.parse(lines[0]!);
+      return typeof first === 'object' && first !== null && !Array.isArray(first);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether the start of a file's text is DynamoDB JSON: every line an item of typed attribute values,
+   * on its own or wrapped in an Item field
+   */
+  private isDynamoDBJsonText(text: string): boolean {
+    const isObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+    const isItem = (item: any) => isObject(item) && Object.keys(item).length > 0 && Object.values(item).every((value: any) =>
+      isObject(value) && Object.keys(value).length === 1 && DYNAMODB_TYPE_DESCRIPTORS.includes(Object.keys(value)[0]!));
+
+    const lines = text.split('\n').filter(line => line.trim());
+    return lines.length > 0 && lines.every(line => {
+      try {
+        const parsed = JSON.parse(line);
+        return isItem(isObject(parsed) && Object.keys(parsed).join() === 'Item' ? parsed.Item : parsed);
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Check whether the start of a file's text is delimited rows: a header of two or more fields
+   * and at least one more row with as many fields
+   */
+  private isDelimitedText(text: string): boolean {
+    const trimmed = text.trimStart();
+    if (!trimmed || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      return false;
+    }
+
+    try {
+      const csvParser = new CsvParser();
+      const rows = csvParser.parseRows(text, csvParser.sniffDelimiter(text), undefined, CSV_SNIFF_ROW_COUNT)
+        .filter(row => row.some(field => field.trim() !== ''));
+      return rows.length >= 2 && rows[0]!.length >= 2 && rows.every(row => row.length === rows[0]!.length);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Decode the start of a file for the built-in sniff functions, without a byte order mark
+   * A last line cut off at the end of the sniffed bytes is left out; binary content decodes to nothing
+   */
+  private getSniffText(header: Buffer): string {
+    if (header.includes(0)) {
+      return '';
+    }
+
+    const text = header.toString('utf8').replace(/^\uFEFF/, '');
+    const lastNewline = text.lastIndexOf('\n');
+    return header.length >= PARSER_SNIFF_BYTES && lastNewline !== -1 ? text.slice(0, lastNewline) : text;
+  }
+
+  /**
+   * Read the documents of a BSON file, such as a collection written by `mongodump`
+   * Documents are read one at a time; their MongoDB types are converted like Extended JSON
+   */
+  private async *readBsonFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
+    const fileStream = await this.sourceReader.createReadStream(filePath);
+
+    try {
+      for await (const { document, offset } of new BsonParser().parse(fileStream)) {
+        yield { record: this.normalizeDocument(document), location: { offset } };
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse BSON file ${filePath}: ${(error as Error).message}`);
+    } finally {
+      fileStream.destroy();
+    }
+  }
+
+  /**
+   * Read the rows of a Parquet file one row group at a time
+   * Column types come from the file's schema rather than from its values
+   */
+  private async *readParquetFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
+    const file = await this.sourceReader.openRandomAccess(filePath);
+
+    try {
+      const reader = new ParquetReader();
+      const metadata = await reader.readMetadata(file);
+      context.declareTypes(reader.getDeclaredTypes(metadata));
+
+      for await (const rows of reader.readRowGroups(metadata)) {
+        for (const row of rows) {
+          yield { record: row };
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse Parquet file ${filePath}: ${(error as Error).message}`);
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Read the rows of an Arrow IPC or Feather file one record batch at a time
+   * Column types come from the file's schema rather than from its values
+   */
+  private async *readArrowFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
+    const file = await this.sourceReader.openRandomAccess(filePath);
+
+    try {
+      const reader = new ArrowReader();
+      const metadata = await reader.readMetadata(file);
+      context.declareTypes(reader.getDeclaredTypes(metadata));
+
+      for await (const rows of reader.readRecordBatches(metadata)) {
+        for (const row of rows) {
+          yield { record: row };
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse Arrow file ${filePath}: ${(error as Error).message}`);
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Report the column types a file's schema declares, flattened like its records
+   * Fields flattened into JSON text are text; types are not declared when records are selected
+   * from inside the rows or arrays are moved into child tables, as the columns differ then
+   */
+  private declareTypes(types: DeclaredTypes, layout: RecordLayout): void {
+    if (!layout.onDeclaredTypes || layout.selector || layout.childArrays.length > 0) {
+      return;
+    }
+
+    const columns = new Map<string, DeclaredValueType>();
+    for (const [column, type] of Object.entries(this.flattenObject(types))) {
+      columns.set(column, DECLARED_VALUE_TYPES.includes(type as DeclaredValueType) ? type as DeclaredValueType : 'text');
+    }
+    layout.onDeclaredTypes(columns);
+  }
+
+  /**
+   * Read the objects of a DynamoDB JSON file
+   * Each line in a DynamoDB JSON file is a separate JSON object with DynamoDB type annotations
+   */
+  private async *readDynamoDBJsonFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
+    try {
+      let validObjectCount = 0;
+
+      for await (const { text: line, line: lineNumber, offset } of this.sourceReader.readLines(filePath)) {
         // Skip empty lines
         if (!line.trim()) continue;
         
+        let dynamoDBJson: any;
         try {
           // Parse each line as a separate DynamoDB JSON object
-          const dynamoDBJson = JSON.parse(line);
+          dynamoDBJson = JSON.parse(line);
+        } catch (parseError) {
+          // Report the error but continue processing other lines
+          context.reportSkipped(lineNumber, `Invalid JSON: ${(parseError as Error).message}`, line);
+          continue;
+        }
+
+        // Check if this is a valid DynamoDB item format
+        if (typeof dynamoDBJson === 'object' && dynamoDBJson !== null) {
+          let standardItem: any;
           
-          // Check if this is a valid DynamoDB item format
-          if (typeof dynamoDBJson === 'object' && dynamoDBJson !== null) {
-            let standardItem: any;
-            
-            // Handle the common DynamoDB export format where items are wrapped in an "Item" field
-            if (dynamoDBJson.hasOwnProperty('Item')) {
-              standardItem = this.convertDynamoDBToStandardJson(dynamoDBJson.Item);
-            } else {
-              // Try to convert directly if not in the "Item" wrapper format
-              standardItem = this.convertDynamoDBToStandardJson(dynamoDBJson);
-            }
-            
-            // Flatten nested objects to some degree
-            const flattenedItem = this.flattenObject(standardItem);
-            validObjects.push(flattenedItem);
+          // Handle the common DynamoDB export format where items are wrapped in an "Item" field
+          if (dynamoDBJson.hasOwnProperty('Item')) {
+            standardItem = this.convertDynamoDBToStandardJson(dynamoDBJson.Item);
           } else {
-            // Skip non-object items but don't fail the entire file
-            // Only log warning in non-test environments
-            if (process.env['NODE_ENV'] !== 'test') {
-              console.warn(`Skipping non-object item at line ${lineNumber} in file ${filePath}`);
-            }
+            // Try to convert directly if not in the "Item" wrapper format
+            standardItem = this.convertDynamoDBToStandardJson(dynamoDBJson);
           }
+          
+          validObjectCount++;
+          yield { record: standardItem, location: { line: lineNumber, offset } };
+        } else {
+          // Skip non-object items but don't fail the entire file
+          context.reportSkipped(lineNumber, 'Line is not a JSON object', line);
+        }
+      }
+
+      // Data files of an export are empty when a part of the table held no items
+      if (validObjectCount === 0 && !this.isDynamoDBExportFile(filePath)) {
+        throw new Error('No valid JSON objects found in DynamoDB JSON file');
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse DynamoDB JSON file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Report a skipped line to the caller, or log it when the caller does not collect them
+   */
+  private reportSkippedLine(layout: RecordLayout, filePath: string, line: number, message: string, text: string): void {
+    if (layout.onSkippedLine) {
+      layout.onSkippedLine({ line, message, snippet: text.slice(0, SKIPPED_LINE_SNIPPET_LENGTH) });
+    } else if (process.env['NODE_ENV'] !== 'test') {
+      // Only log warning in non-test environments
+      console.warn(`${message} at line ${line} in file ${filePath}`);
+    }
+  }
+
+  /**
+   * Parse the JSONPaths of a record selector
+   */
+  private compileRecordSelector(recordSelector: RecordSelector): CompiledRecordSelector {
+    const parentFields = (recordSelector.parentFields || []).map(field => new JsonPath(field));
+    const wildcardField = parentFields.find(field => field.hasWildcard());
+    if (wildcardField) {
+      throw new Error(`Parent field "${wildcardField.expression}" must not contain wildcards`);
+    }
+
+    return { path: new JsonPath(recordSelector.path), parentFields };
+  }
+
+  /**
+   * Turn a JSON document into flattened records
+   * Without a selector the document is the record; with one, each matched object becomes a record
+   * and the selected parent fields are copied onto it unless the record has a field of the same name
+   */
+  private *selectRecords(document: any, layout: RecordLayout, location: Omit<RecordLocation, 'index'> | null): Generator<any> {
+    const { selector } = layout;
+    // Tables are chosen from the record as read, so a discriminator field can be nested deeper than is flattened
+    const locate = (record: any, source: any) => {
+      const table = this.findTargetTable(source, layout.tableRules);
+      if (table !== undefined) {
+        record[TARGET_TABLE_FIELD] = table;
+      }
+      return layout.includeLocation && location ? { ...record, [SOURCE_LOCATION_FIELD]: { ...location } } : record;
+    };
+
+    if (!selector) {
+      yield locate(this.flattenRecord(document, layout), document);
+      return;
+    }
+
+    const parentValues: any = {};
+    for (const field of selector.parentFields) {
+      const value = field.select(document)[0];
+      if (value !== undefined) {
+        Object.assign(parentValues, this.flattenObject({ [field.toColumnName(this.separator)]: value }, '', this.flattenDepth, 0, layout.onCollision));
+      }
+    }
+
+    for (const match of selector.path.select(document)) {
+      if (typeof match !== 'object' || match === null || Array.isArray(match)) {
+        // Only objects can become rows
+        continue;
+      }
+
+      yield locate({ ...parentValues, ...this.flattenRecord(match, layout) }, match);
+    }
+  }
+
+  /**
+   * Find the table of the first rule whose discriminator field, if it has one, holds the rule's value in a record
+   */
+  private findTargetTable(record: any, tableRules: TableRule[]): string | undefined {
+    return tableRules.find(rule => {
+      if (rule.field === undefined) {
+        return true;
+      }
+
+      const value = rule.field.split('.').reduce(
+        (container, key) => typeof container === 'object' && container !== null ? container[key] : undefined,
+        record
+      );
+      return ['string', 'number', 'boolean'].includes(typeof value) && String(value) === rule.value;
+    })?.table;
+  }
+
+  /**
+   * Flatten a record, moving the elements of the given arrays into its child records
+   * Object elements are flattened like records; other elements are stored in a value column
+   */
+  private flattenRecord(record: any, layout: RecordLayout): any {
+    const { childArrays, onCollision } = layout;
+    if (childArrays.length === 0) {
+      return this.flattenObject(record, '', this.flattenDepth, 0, onCollision);
+    }
+
+    const remaining = { ...record };
+    const children: Record<string, any[]> = {};
+
+    for (const arrayPath of childArrays) {
+      const keys = arrayPath.split('.');
+      const lastKey = keys.pop()!;
+
+      // Copy the objects along the path so the source document is left untouched
+      let container: any = remaining;
+      for (const key of keys) {
+        const value = container[key];
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          container = null;
+          break;
+        }
+        container = container[key] = { ...value };
+      }
+
+      const elements = container ? container[lastKey] : undefined;
+      if (!Array.isArray(elements)) continue;
+
+      delete container[lastKey];
+      children[arrayPath] = elements.map(element =>
+        typeof element === 'object' && element !== null && !Array.isArray(element)
+          ? this.flattenObject(element, '', this.flattenDepth, 0, onCollision)
+          : { value: Array.isArray(element) ? JSON.stringify(element) : element }
+      );
+    }
+
+    return { ...this.flattenObject(remaining, '', this.flattenDepth, 0, onCollision), [CHILD_RECORDS_FIELD]: children };
+  }
+
+  /**
+   * Read the documents of a YAML file: a mapping document is one record and each mapping
+   * of a top-level sequence is one; other documents and items are reported as skipped
+   */
+  private async *readYamlFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
+    try {
+      const parser = new YamlParser();
+      let mappingCount = 0;
+      const isMapping = (value: any): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+      for await (const source of parser.readDocuments(this.sourceReader.readLines(filePath))) {
+        let document;
+        try {
+          document = parser.parseDocument(source);
         } catch (parseError) {
-          // Log the error but continue processing other lines
-          if (process.env['NODE_ENV'] !== 'test') {
-            console.warn(`Error parsing line ${lineNumber} in DynamoDB JSON file ${filePath}: ${(parseError as Error).message}`);
+          // Report the document but continue with the next one
+          context.reportSkipped(source.line, (parseError as Error).message, source.lines.map(line => line.text).join('\n'));
+          continue;
+        }
+
+        const { value, itemLines } = document;
+        if (isMapping(value)) {
+          mappingCount++;
+          yield { record: value, location: { line: source.line } };
+        } else if (Array.isArray(value)) {
+          for (const [index, item] of value.entries()) {
+            const line = itemLines[index] ?? source.line;
+            if (isMapping(item)) {
+              mappingCount++;
+              yield { record: item, location: { line } };
+            } else {
+              context.reportSkipped(line, `Sequence item ${index} is not a mapping`, JSON.stringify(item) ?? String(item));
+            }
           }
+        } else if (value !== null) {
+          context.reportSkipped(source.line, 'Document is not a mapping or sequence', String(value));
         }
       }
 
-      if (validObjects.length === 0) {
-        throw new Error('No valid JSON objects found in DynamoDB JSON file');
+      if (mappingCount === 0) {
+        throw new Error('No YAML mappings found');
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse YAML file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Read the repeating elements of an XML file as records
+   */
+  private async *readXmlFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath, options } = context;
+    const fileStream = await this.sourceReader.createReadStream(filePath);
+
+    try {
+      const reader = new XmlRecordReader(options.xmlOptions?.recordPath);
+      let elementCount = 0;
+
+      for await (const { record, line } of reader.readRecords(fileStream)) {
+        elementCount++;
+        yield { record, location: { line } };
       }
 
-      return validObjects;
+      if (elementCount === 0) {
+        throw new Error(`No elements match the record path ${reader.recordPath}`);
+      }
     } catch (error) {
-      throw new Error(`Failed to parse DynamoDB JSON file ${filePath}: ${(error as Error).message}`);
+      throw new Error(`Failed to parse XML file ${filePath}: ${(error as Error).message}`);
+    } finally {
+      fileStream.destroy();
+    }
+  }
+
+  /**
+   * Read the rows of the selected sheets of an Excel workbook, one record per row
+   * Each record's location names its sheet, so rows from different sheets can be told apart
+   */
+  private async *readXlsxFile(context: FileParserContext): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
+    const excelOptions = context.options.excelOptions || {};
+    const fileStream = await this.sourceReader.createReadStream(filePath);
+
+    try {
+      const reader = new XlsxReader();
+      const workbook = await reader.readWorkbook(fileStream);
+
+      for (const sheet of reader.selectSheets(workbook, excelOptions.sheets)) {
+        for await (const { record, row } of reader.readRecords(workbook, sheet, excelOptions)) {
+          yield { record, location: { sheet: sheet.name, line: row } };
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse Excel file ${filePath}: ${(error as Error).message}`);
+    } finally {
+      fileStream.destroy();
+    }
+  }
+
+  /**
+   * Read the rows of a CSV or TSV file as objects
+   * Rows are streamed one at a time; the delimiter is detected from the file unless the source folder overrides it
+   */
+  private async *readCsvFile(context: FileParserContext, defaultDelimiter?: string): AsyncGenerator<ParsedRecord> {
+    const { filePath } = context;
+    const fileStream = await this.sourceReader.createReadStream(filePath);
+
+    try {
+      // Rows are flattened like JSON records so they go through the same schema inference
+      for await (const record of new CsvParser().parseStream(fileStream, { ...context.options.csvOptions, defaultDelimiter })) {
+        yield { record };
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse CSV file ${filePath}: ${(error as Error).message}`);
+    } finally {
+      fileStream.destroy();
     }
   }
 
@@ -420,52 +1539,7 @@ export class FileScanner {
     
     for (const key in dynamoDBItem) {
       if (dynamoDBItem.hasOwnProperty(key)) {
-        const value = dynamoDBItem[key];
-        
-        // Handle different DynamoDB types
-        if (value.hasOwnProperty('S')) {  // String type
-          result[key] = value.S;
-        } else if (value.hasOwnProperty('N')) {  // Number type
-          // Convert to float or int as appropriate
-          const numStr = value.N;
-          result[key] = numStr.includes('.') ? parseFloat(numStr) : parseInt(numStr, 10);
-        } else if (value.hasOwnProperty('BOOL')) {  // Boolean type
-          result[key] = value.BOOL;
-        } else if (value.hasOwnProperty('NULL')) {  // Null type
-          result[key] = null;
-        } else if (value.hasOwnProperty('L')) {  // List type
-          result[key] = [];
-          for (const item of value.L) {
-            if (typeof item === 'object') {
-              if (item.hasOwnProperty('S')) {
-                result[key].push(item.S);
-              } else if (item.hasOwnProperty('N')) {
-                const numStr = item.N;
-                result[key].push(numStr.includes('.') ? parseFloat(numStr) : parseInt(numStr, 10));
-              } else if (item.hasOwnProperty('BOOL')) {
-                result[key].push(item.BOOL);
-              } else if (item.hasOwnProperty('M')) {
-                result[key].push(this.convertDynamoDBToStandardJson(item.M));
-              } else {
-                // For other types or complex nested structures
-                result[key].push(item);
-              }
-            } else {
-              result[key].push(item);
-            }
-          }
-        } else if (value.hasOwnProperty('M')) {  // Map type
-          result[key] = this.convertDynamoDBToStandardJson(value.M);
-        } else if (value.hasOwnProperty('SS')) {  // String Set type
-          result[key] = Array.from(value.SS);
-        } else if (value.hasOwnProperty('NS')) {  // Number Set type
-          result[key] = value.NS.map((n: string) => n.includes('.') ? parseFloat(n) : parseInt(n, 10));
-        } else if (value.hasOwnProperty('BS')) {  // Binary Set type
-          result[key] = Array.from(value.BS);
-        } else {
-          // For any unhandled types, keep as is
-          result[key] = value;
-        }
+        result[key] = this.convertDynamoDBAttribute(dynamoDBItem[key]);
       }
     }
     
@@ -473,35 +1547,265 @@ export class FileScanner {
   }
 
   /**
-   * Flatten nested objects to a reasonable depth
+   * Convert one DynamoDB attribute value, converting the values inside lists, maps and sets as well
+   * Binary values stay base64 encoded; values without a known type descriptor are kept as is
+   */
+  private convertDynamoDBAttribute(value: any): any {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return value;
+    }
+
+    if (value.hasOwnProperty('S')) {  // String type
+      return value.S;
+    } else if (value.hasOwnProperty('N')) {  // Number type
+      return this.convertExactNumber(value.N);
+    } else if (value.hasOwnProperty('B')) {  // Binary type
+      return value.B;
+    } else if (value.hasOwnProperty('BOOL')) {  // Boolean type
+      return value.BOOL;
+    } else if (value.hasOwnProperty('NULL')) {  // Null type
+      return null;
+    } else if (value.hasOwnProperty('L')) {  // List type
+      return Array.isArray(value.L) ? value.L.map((item: any) => this.convertDynamoDBAttribute(item)) : value.L;
+    } else if (value.hasOwnProperty('M')) {  // Map type
+      return this.convertDynamoDBToStandardJson(value.M);
+    } else if (value.hasOwnProperty('SS')) {  // String Set type
+      return Array.from(value.SS);
+    } else if (value.hasOwnProperty('NS')) {  // Number Set type
+      return Array.from(value.NS, (n: string) => this.convertExactNumber(n));
+    } else if (value.hasOwnProperty('BS')) {  // Binary Set type
+      return Array.from(value.BS);
+    }
+
+    // For any unhandled types, keep as is
+    return value;
+  }
+
+  /**
+   * Convert the decimal text of a number, such as a DynamoDB number or a MongoDB long or decimal
+   * Numbers a JavaScript number cannot hold exactly are kept as their decimal text
    */
-  private flattenObject(obj: any, prefix: string = '', maxDepth: number = 2, currentDepth: number = 0): any {
+  private convertExactNumber(text: any): number | string {
+    if (typeof text !== 'string') {
+      return text;
+    }
+
+    const value = Number(text);
+    if (!text.trim() || !Number.isFinite(value)) {
+      return text;
+    }
+    if (/^[-+]?\d+$/.test(text.trim())) {
+      return Number.isSafeInteger(value) ? value : text.trim();
+    }
+
+    // Up to 15 significant digits survive the round trip through a double
+    const digits = text.trim().replace(/^[-+]/, '').replace(/e.*$/i, '').replace('.', '').replace(/^0+/, '').replace(/0+$/, '');
+    return digits.length <= 15 ? value : text.trim();
+  }
+
+  /**
+   * Prepare a BSON or mongoexport document for record selection: convert its MongoDB Extended JSON values
+   * and keep its `_id`, which would otherwise be dropped with the internal columns, as DOCUMENT_ID_COLUMN
+   */
+  private normalizeDocument(document: Record<string, any>): Record<string, any> {
+    const normalized = this.normalizeExtendedJson(document);
+    if (normalized._id !== undefined && !(DOCUMENT_ID_COLUMN in normalized)) {
+      const { _id, ...fields } = normalized;
+      return { [DOCUMENT_ID_COLUMN]: _id, ...fields };
+    }
+    return normalized;
+  }
+
+  /**
+   * Check whether a JSON document holds a MongoDB Extended JSON type wrapper at any depth
+   */
+  private hasExtendedJson(value: any): boolean {
+    if (Array.isArray(value)) {
+      return value.some(item => this.hasExtendedJson(item));
+    }
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+
+    return EXTENDED_JSON_WRAPPERS.has(Object.keys(value).sort().join(',')) ||
+      Object.values(value).some(item => this.hasExtendedJson(item));
+  }
+
+  /**
+   * Convert MongoDB Extended JSON type wrappers, such as those `mongoexport` writes, to plain values
+   * Object ids become hex strings, dates ISO 8601 strings, binary data base64 (or UUID) strings and
+   * longs and decimals exact numbers; objects that are not type wrappers are converted recursively
+   */
+  private normalizeExtendedJson(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.normalizeExtendedJson(item));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const keys = Object.keys(value);
+    switch (keys.sort().join(',')) {
+      case '$oid':
+      case '$symbol':
+      case '$uuid':
+        return String(value[keys[0]!]);
+      case '$numberInt':
+      case '$numberDouble': {
+        const number = Number(value[keys[0]!]);
+        return Number.isFinite(number) ? number : String(value[keys[0]!]);
+      }
+      case '$numberLong':
+      case '$numberDecimal':
+        return this.convertExactNumber(String(value[keys[0]!]));
+      case '$date':
+        return this.convertExtendedJsonDate(value.$date);
+      case '$binary':
+        if (typeof value.$binary === 'object' && value.$binary !== null) {
+          return this.convertExtendedJsonBinary(value.$binary.base64, value.$binary.subType);
+        }
+        return value.$binary;
+      case '$binary,$type':  // Legacy binary
+        return this.convertExtendedJsonBinary(value.$binary, value.$type);
+      case '$regularExpression':
+        return `/${value.$regularExpression?.pattern ?? ''}/${value.$regularExpression?.options ?? ''}`;
+      case '$options,$regex':  // Legacy regular expression
+        return `/${value.$regex}/${value.$options}`;
+      case '$timestamp':
+        return this.convertExtendedJsonDate((value.$timestamp?.t ?? 0) * 1000);
+      case '$code':
+      case '$code,$scope':
+        return value.$code;
+      case '$dbPointer':
+        return this.normalizeExtendedJson(value.$dbPointer?.$id);
+      case '$minKey':
+        return 'MinKey';
+      case '$maxKey':
+        return 'MaxKey';
+      case '$undefined':
+        return null;
+    }
+
+    const result: any = {};
+    for (const key of Object.keys(value)) {
+      result[key] = this.normalizeExtendedJson(value[key]);
+    }
+    return result;
+  }
+
+  /**
+   * Convert an Extended JSON date, given as ISO 8601 text, milliseconds or a `$numberLong` of milliseconds
+   * Dates outside the range of a JavaScript date are kept as given
+   */
+  private convertExtendedJsonDate(date: any): string {
+    const source = typeof date === 'object' && date !== null && '$numberLong' in date ? Number(date.$numberLong) : date;
+    const parsed = typeof source === 'number' || typeof source === 'string' ? new Date(source) : new Date(NaN);
+    return Number.isNaN(parsed.getTime()) ? String(date?.$numberLong ?? date) : parsed.toISOString();
+  }
+
+  /**
+   * Convert Extended JSON binary data to base64 text, or to UUID text for the UUID subtypes
+   */
+  private convertExtendedJsonBinary(base64: any, subType: any): string {
+    const type = String(subType ?? '').toLowerCase();
+    if (typeof base64 === 'string' && (type === '04' || type === '4' || type === '03' || type === '3')) {
+      const hex = Buffer.from(base64, 'base64').toString('hex');
+      if (hex.length === 32) {
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+      }
+    }
+    return String(base64);
+  }
+
+  /**
+   * Flatten nested objects to the project's flatten depth, joining keys with its separator
+   * Keys that flatten to a column name already in use, compared case-insensitively as SQLite compares column names,
+   * are resolved with the collision strategy and reported
+   */
+  private flattenObject(
+    obj: any,
+    prefix: string = '',
+    maxDepth: number = this.flattenDepth,
+    currentDepth: number = 0,
+    onCollision?: (message: string) => void
+  ): any {
     const flattened: any = {};
+    this.flattenInto(flattened, new Map(), obj, prefix, maxDepth, currentDepth, onCollision);
+    return flattened;
+  }
 
+  /**
+   * Add the flattened keys of an object to a record
+   */
+  private flattenInto(
+    flattened: any,
+    columnKeys: Map<string, string>,
+    obj: any,
+    prefix: string,
+    maxDepth: number,
+    currentDepth: number,
+    onCollision?: (message: string) => void
+  ): void {
     for (const key in obj) {
       if (obj.hasOwnProperty(key)) {
         const value = obj[key];
-        const newKey = prefix ? `${prefix}_${key}` : key;
+        const newKey = prefix ? `${prefix}${this.separator}${key}` : key;
 
         if (value === null || value === undefined) {
-          flattened[newKey] = null;
+          this.setFlattenedValue(flattened, columnKeys, newKey, null, onCollision);
         } else if (Array.isArray(value)) {
           // Convert arrays to JSON strings for storage
-          flattened[newKey] = JSON.stringify(value);
+          this.setFlattenedValue(flattened, columnKeys, newKey, JSON.stringify(value), onCollision);
         } else if (typeof value === 'object' && currentDepth < maxDepth) {
           // Recursively flatten nested objects up to maxDepth
-          const nestedFlattened = this.flattenObject(value, newKey, maxDepth, currentDepth + 1);
-          Object.assign(flattened, nestedFlattened);
+          this.flattenInto(flattened, columnKeys, value, newKey, maxDepth, currentDepth + 1, onCollision);
         } else if (typeof value === 'object') {
           // Convert deep nested objects to JSON strings
-          flattened[newKey] = JSON.stringify(value);
+          this.setFlattenedValue(flattened, columnKeys, newKey, JSON.stringify(value), onCollision);
         } else {
-          flattened[newKey] = value;
+          this.setFlattenedValue(flattened, columnKeys, newKey, value, onCollision);
         }
       }
     }
+  }
 
-    return flattened;
+  /**
+   * Set a flattened value, applying the collision strategy when the column already has a value
+   * columnKeys maps the lower-cased keys of the record to the keys as they were first set
+   */
+  private setFlattenedValue(
+    flattened: any,
+    columnKeys: Map<string, string>,
+    key: string,
+    value: any,
+    onCollision?: (message: string) => void
+  ): void {
+    const existingKey = columnKeys.get(key.toLowerCase());
+    if (existingKey === undefined) {
+      columnKeys.set(key.toLowerCase(), key);
+      flattened[key] = value;
+      return;
+    }
+
+    switch (this.collisionStrategy) {
+      case 'overwrite':
+        flattened[existingKey] = value;
+        onCollision?.(`Keys collide on column "${existingKey}"; later values overwrote earlier ones`);
+        break;
+      case 'keep-first':
+        onCollision?.(`Keys collide on column "${existingKey}"; later values were dropped`);
+        break;
+      default: {
+        let suffix = 2;
+        while (columnKeys.has(`${existingKey}_${suffix}`.toLowerCase())) {
+          suffix++;
+        }
+        const suffixedKey = `${existingKey}_${suffix}`;
+        columnKeys.set(suffixedKey.toLowerCase(), suffixedKey);
+        flattened[suffixedKey] = value;
+        onCollision?.(`Keys collide on column "${existingKey}"; later values were stored in "${suffixedKey}"`);
+      }
+    }
   }
 
   /**
@@ -512,70 +1816,65 @@ export class FileScanner {
       return [];
     }
 
-    const columnStats: { [key: string]: ColumnStats } = {};
-
-    // First pass: collect all unique column names
-    const allColumns = new Set<string>();
-    jsonDataArray.forEach(record => {
-      Object.keys(record).forEach(key => {
-        if (!key.startsWith('_')) {
-          allColumns.add(key);
-        }
-      });
-    });
+    const stats = this.createSchemaStats();
+    jsonDataArray.forEach(record => this.observeRecord(stats, record));
+    return this.buildSchema(stats);
+  }
 
-    // Initialize stats for all columns
-    allColumns.forEach(columnName => {
-      columnStats[columnName] = {
-        name: columnName,
-        types: new Set(),
-        nullCount: 0,
-        totalCount: 0,
-        sampleValues: []
-      };
-    });
+  /**
+   * Create empty running statistics for schema inference
+   */
+  private createSchemaStats(): SchemaStats {
+    return { recordCount: 0, columns: new Map() };
+  }
 
-    // Second pass: collect statistics about each column
-    jsonDataArray.forEach(record => {
-      allColumns.forEach(columnName => {
-        const stats = columnStats[columnName]!;
-        stats.totalCount++;
+  /**
+   * Add one record to running schema statistics
+   * Columns missing from a record count as null for that record; declared column types replace inferred ones
+   */
+  private observeRecord(stats: SchemaStats, record: any, declaredTypes?: Map<string, DeclaredValueType>): void {
+    stats.recordCount++;
 
-        if (record.hasOwnProperty(columnName)) {
-          const value = record[columnName];
+    Object.keys(record).forEach(columnName => {
+      // Skip internal fields
+      if (columnName.startsWith('_')) return;
 
-          if (value === null || value === undefined) {
-            stats.nullCount++;
-            stats.types.add('null');
-          } else {
-            const valueType = this.inferDataType(value);
-            stats.types.add(valueType);
+      let columnStats = stats.columns.get(columnName);
+      if (!columnStats) {
+        columnStats = { name: columnName, types: new Set(), valueCount: 0, sampleValues: [] };
+        stats.columns.set(columnName, columnStats);
+      }
 
-            // Collect sample values (up to 5)
-            if (stats.sampleValues.length < 5) {
-              stats.sampleValues.push(value);
-            }
-          }
-        } else {
-          // Column is missing from this record, count as null
-          stats.nullCount++;
-          stats.types.add('null');
-        }
-      });
-    });
+      const value = record[columnName];
+      const declaredType = declaredTypes?.get(columnName);
+      if (declaredType) {
+        columnStats.types.add(declaredType);
+      }
+      if (value === null || value === undefined) {
+        columnStats.types.add('null');
+        return;
+      }
 
-    // Convert statistics to column definitions
-    const columns = Object.values(columnStats).map(stats => {
-      const sqlType = this.determineSQLType(stats.types);
-      const nullable = stats.nullCount > 0;
+      columnStats.valueCount++;
+      columnStats.types.add(declaredType ? this.inferDeclaredDataType(value, declaredType) : this.inferDataType(value));
 
-      return {
-        name: stats.name,
-        type: sqlType,
-        nullable: nullable,
-        sampleValues: stats.sampleValues
-      };
+      // Collect sample values (up to 5)
+      if (columnStats.sampleValues.length < 5) {
+        columnStats.sampleValues.push(value);
+      }
     });
+  }
+
+  /**
+   * Convert running schema statistics to column definitions
+   */
+  private buildSchema(stats: SchemaStats): ScanColumn[] {
+    const columns = Array.from(stats.columns.values()).map(columnStats => ({
+      name: columnStats.name,
+      type: this.determineSQLType(columnStats.types),
+      nullable: columnStats.valueCount < stats.recordCount,
+      sampleValues: columnStats.sampleValues
+    }));
 
     // Sort columns alphabetically for consistency
     columns.sort((a, b) => a.name.localeCompare(b.name));
@@ -583,10 +1882,30 @@ export class FileScanner {
     return columns;
   }
 
+  /**
+   * Infer the data type of a value in a column whose type a file's schema declares
+   * The declared type applies unless the value only fits in text, such as an integer a double cannot hold exactly
+   */
+  inferDeclaredDataType(value: any, declaredType: DeclaredValueType): string {
+    return this.inferDataType(value) === 'text' ? 'text' : declaredType;
+  }
+
+  /**
+   * Check whether a string is a number that can be stored as one without changing how it reads
+   * Integers must read back as the same text, so leading zeros, signs and exponents keep them text;
+   * decimals must not have leading zeros and must have few enough digits for a double to hold exactly
+   */
+  isNumericString(value: string): boolean {
+    if (/^-?\d+$/.test(value)) {
+      return String(Number(value)) === value;
+    }
+    return /^-?(0|[1-9]\d*)?\.\d+$/.test(value) && typeof this.convertExactNumber(value) === 'number';
+  }
+
   /**
    * Infer the data type of a value
    */
-  private inferDataType(value: any): string {
+  inferDataType(value: any): string {
     if (value === null || value === undefined) {
       return 'null';
     }
@@ -600,12 +1919,10 @@ export class FileScanner {
     }
 
     if (typeof value === 'string') {
-      // Check if string represents a number
-      if (/^\d+$/.test(value)) {
-        return 'integer_string';
-      }
-      if (/^\d*\.\d+$/.test(value)) {
-        return 'real_string';
+      // Check if string represents a number; numbers a double cannot hold exactly stay text to keep their digits,
+      // as do integers that do not read back the same, such as zip codes and IDs with leading zeros
+      if (this.isNumericString(value)) {
+        return /^-?\d+$/.test(value) ? 'integer_string' : 'real_string';
       }
       // Check if string represents a boolean
       if (value.toLowerCase() === 'true' || value.toLowerCase() === 'false') {
@@ -621,7 +1938,7 @@ export class FileScanner {
   /**
    * Determine the appropriate SQLite data type based on observed types
    */
-  private determineSQLType(types: Set<string>): 'TEXT' | 'INTEGER' | 'REAL' {
+  determineSQLType(types: Set<string>): 'TEXT' | 'INTEGER' | 'REAL' {
     const typeArray = Array.from(types).filter(type => type !== 'null');
 
     if (typeArray.length === 0) {
@@ -908,7 +2225,7 @@ export class FileScanner {
       
       try {
         if (folder.path) {
-          const jsonFiles = await this.findJsonFiles(folder.path as string);
+          const jsonFiles = await this.findJsonFiles(folder.path as string, folder);
           totalFiles += jsonFiles.length;
           
           // Report progress after counting files in each folder
@@ -943,6 +2260,7 @@ export class FileScanner {
           totalRecords: 0,
           columns: [],
           errors: [],
+          detectedFormats: [],
           scanDate: new Date()
         },
         tableCreated: false,
@@ -959,6 +2277,7 @@ export class FileScanner {
     let processedFiles = 0;
     let allJsonData: any[] = [];
     const errors: ScanError[] = [];
+    const detectedFormats: DetectedFileFormat[] = [];
 
     // Process each source folder
     for (let i = 0; i < sourceFolders.length; i++) {
@@ -989,7 +2308,7 @@ export class FileScanner {
         }
 
         // Find all JSON and JSONL files in the folder
-        const jsonFiles = await this.findJsonFiles(folder.path as string);
+        const jsonFiles = await this.findJsonFiles(folder.path as string, folder);
         
         // Process each file
         for (let j = 0; j < jsonFiles.length; j++) {
@@ -1008,7 +2327,7 @@ export class FileScanner {
           }
           
           try {
-            const jsonData = await this.parseFile(filePath as string);
+            const jsonData = await this.parseFile(filePath as string, { onDetectedFormat: detected => detectedFormats.push(detected) });
             if (jsonData && Array.isArray(jsonData) && jsonData.length > 0) {
               // Add source file information to each record
               const dataWithSource = jsonData.map(record => ({
@@ -1057,6 +2376,7 @@ export class FileScanner {
       totalRecords: allJsonData.length,
       columns: schema,
       errors: [...errors],
+      detectedFormats,
       scanDate: new Date()
     };
 
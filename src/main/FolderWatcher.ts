@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  SourceFolder, WatchSettings, WatchStatus, ScanSettings, PROJECT_CONFIG_FOLDER, ARCHIVE_ENTRY_SEPARATOR,
+  WATCH_DEBOUNCE_MS, WATCH_POLL_INTERVAL_MS
+} from '../types';
+import { FileScanner } from './FileScanner';
+import { SourceFileReader } from './SourceFileReader';
+
+export interface FolderWatcherOptions {
+  onChanges: (projectId: string, changedPaths: string[]) => void;  // Called once changes have settled for the debounce time
+  onStatusChange?: (projectId: string, status: WatchStatus) => void;
+  pollIntervalMs?: number;
+}
+
+interface WatchedFolder {
+  folder: SourceFolder;
+  watcher: fs.FSWatcher | null;          // File system watcher, null while the folder is polled
+  snapshot: Map<string, string> | null;  // Size and mtime of each file, kept while the folder is polled
+}
+
+interface ProjectWatch {
+  folders: WatchedFolder[];
+  fileScanner: FileScanner;              // Picks the files a scan would read, including the project's log files
+  debounceMs: number;
+  pendingPaths: Set<string>;             // Changed paths waiting for the debounce time to pass
+  debounceTimer: NodeJS.Timeout | null;
+  pollTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * FolderWatcher observes the source folders of watched projects and reports the files
+ * and directories that changed, so only those need to be ingested again.
+ * Folders are watched with recursive fs.watch, and polled for size and mtime changes when
+ * the project asks for polling or file system events are unavailable, e.g. on network drives.
+ * Bursts of changes are collected until no change has been seen for the debounce time.
+ */
+export class FolderWatcher {
+  private watches = new Map<string, ProjectWatch>();
+  private onChanges: FolderWatcherOptions['onChanges'];
+  private onStatusChange: FolderWatcherOptions['onStatusChange'];
+  private pollIntervalMs: number;
+  private sourceReader = new SourceFileReader();
+
+  constructor(options: FolderWatcherOptions) {
+    this.onChanges = options.onChanges;
+    this.onStatusChange = options.onStatusChange;
+    this.pollIntervalMs = options.pollIntervalMs ?? WATCH_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Start watching the source folders of a project, replacing any previous watch of the project
+   * The project's scan settings decide which files besides the supported data files are log files worth watching,
+   * and the parsers in its working directory which other extensions are data files
+   */
+  async watchProject(
+    projectId: string,
+    sourceFolders: SourceFolder[],
+    settings: WatchSettings,
+    scanSettings: ScanSettings = {},
+    workingDirectory?: string
+  ): Promise<void> {
+    this.closeWatch(projectId);
+
+    const fileScanner = new FileScanner(scanSettings);
+    if (workingDirectory) {
+      try {
+        fileScanner.loadProjectParsers(workingDirectory);
+      } catch {
+        // The scan reports a broken parser module; the parsers loaded before it still decide what is watched
+      }
+    }
+
+    const watch: ProjectWatch = {
+      folders: [],
+      fileScanner,
+      debounceMs: settings.debounceMs ?? WATCH_DEBOUNCE_MS,
+      pendingPaths: new Set(),
+      debounceTimer: null,
+      pollTimer: null
+    };
+    this.watches.set(projectId, watch);
+
+    for (const folder of sourceFolders) {
+      if (!folder || !folder.path) continue;
+
+      const watchedFolder: WatchedFolder = { folder, watcher: null, snapshot: null };
+      watch.folders.push(watchedFolder);
+
+      if (settings.usePolling || !this.startFileSystemWatch(projectId, watchedFolder)) {
+        watchedFolder.snapshot = await this.takeSnapshot(watch, folder);
+      }
+    }
+
+    // The project may have been unwatched while snapshots were taken
+    if (this.watches.get(projectId) !== watch) return;
+
+    this.schedulePoll(projectId, watch);
+    this.notifyStatus(projectId);
+  }
+
+  /**
+   * Stop watching a project and drop its pending changes
+   */
+  unwatchProject(projectId: string): void {
+    if (this.closeWatch(projectId)) {
+      this.notifyStatus(projectId);
+    }
+  }
+
+  /**
+   * Stop watching all projects, e.g. when the application quits
+   */
+  unwatchAll(): void {
+    Array.from(this.watches.keys()).forEach(projectId => this.closeWatch(projectId));
+  }
+
+  /**
+   * Check whether a project's source folders are watched
+   */
+  isWatching(projectId: string): boolean {
+    return this.watches.has(projectId);
+  }
+
+  /**
+   * Get the state of a project's watch
+   */
+  getStatus(projectId: string): WatchStatus {
+    const watch = this.watches.get(projectId);
+    return {
+      isWatching: !!watch,
+      isPolling: !!watch && watch.folders.some(watchedFolder => watchedFolder.snapshot !== null),
+      pendingChanges: watch ? watch.pendingPaths.size : 0
+    };
+  }
+
+  /**
+   * Watch a folder with file system events
+   * Returns false when the platform cannot watch the folder, so it is polled instead
+   */
+  private startFileSystemWatch(projectId: string, watchedFolder: WatchedFolder): boolean {
+    const folderPath = watchedFolder.folder.path;
+    if (!fs.existsSync(folderPath)) {
+      return false;
+    }
+
+    try {
+      const watcher = fs.watch(folderPath, { recursive: true }, (_eventType, fileName) => {
+        this.recordChange(projectId, fileName ? path.join(folderPath, fileName.toString()) : folderPath);
+      });
+
+      // Fall back to polling when the watch breaks, e.g. when the folder is removed or the watch limit is reached
+      watcher.on('error', () => {
+        watcher.close();
+        const watch = this.watches.get(projectId);
+        if (!watch || watchedFolder.watcher !== watcher) return;
+
+        watchedFolder.watcher = null;
+        this.takeSnapshot(watch, watchedFolder.folder).then(snapshot => {
+          watchedFolder.snapshot = snapshot;
+          this.recordChange(projectId, folderPath);
+        });
+      });
+
+      watchedFolder.watcher = watcher;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Poll the polled folders of a project after the poll interval
+   */
+  private schedulePoll(projectId: string, watch: ProjectWatch): void {
+    watch.pollTimer = setTimeout(async () => {
+      for (const watchedFolder of watch.folders) {
+        if (!watchedFolder.snapshot) continue;
+
+        const snapshot = await this.takeSnapshot(watch, watchedFolder.folder);
+        if (this.watches.get(projectId) !== watch) return;
+
+        const previous = watchedFolder.snapshot;
+        watchedFolder.snapshot = snapshot;
+        snapshot.forEach((signature, filePath) => {
+          if (previous.get(filePath) !== signature) this.recordChange(projectId, filePath);
+        });
+        previous.forEach((_signature, filePath) => {
+          if (!snapshot.has(filePath)) this.recordChange(projectId, filePath);
+        });
+      }
+
+      if (this.watches.get(projectId) === watch) {
+        this.schedulePoll(projectId, watch);
+      }
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Record the size and mtime of the files a scan of the folder would pick up
+   * Archive entries are compared through their archive
+   */
+  private async takeSnapshot(watch: ProjectWatch, folder: SourceFolder): Promise<Map<string, string>> {
+    const snapshot = new Map<string, string>();
+    if (!fs.existsSync(folder.path)) {
+      return snapshot;
+    }
+
+    watch.fileScanner.clearResults();
+    const filePaths = await watch.fileScanner.findJsonFiles(folder.path, folder);
+    for (const filePath of filePaths) {
+      const diskPath = filePath.split(ARCHIVE_ENTRY_SEPARATOR)[0]!;
+      if (snapshot.has(diskPath)) continue;
+
+      try {
+        const stats = fs.statSync(diskPath);
+        snapshot.set(diskPath, `${stats.size}:${stats.mtimeMs}`);
+      } catch {
+        // Removed while the folder was listed; the next poll reports it
+      }
+    }
+    return snapshot;
+  }
+
+  /**
+   * Add a changed path to the project's pending changes and restart the debounce time
+   */
+  private async recordChange(projectId: string, changedPath: string): Promise<void> {
+    const watch = this.watches.get(projectId);
+    if (!watch || !await this.isRelevantChange(watch, changedPath) || this.watches.get(projectId) !== watch) return;
+
+    const isNewPath = !watch.pendingPaths.has(changedPath);
+    watch.pendingPaths.add(changedPath);
+    if (isNewPath) {
+      this.notifyStatus(projectId);
+    }
+
+    if (watch.debounceTimer) {
+      clearTimeout(watch.debounceTimer);
+    }
+    watch.debounceTimer = setTimeout(() => {
+      watch.debounceTimer = null;
+      const changedPaths = Array.from(watch.pendingPaths);
+      watch.pendingPaths.clear();
+      this.onChanges(projectId, changedPaths);
+      this.notifyStatus(projectId);
+    }, watch.debounceMs);
+  }
+
+  /**
+   * Check whether a change can affect the scanned files
+   * Changes inside a project's config folder, such as its database, and to unsupported files are ignored.
+   * Files whose format is told from their content are sniffed; removed ones count when a scan may have read them
+   */
+  private async isRelevantChange(watch: ProjectWatch, changedPath: string): Promise<boolean> {
+    if (changedPath.split(path.sep).includes(PROJECT_CONFIG_FOLDER)) {
+      return false;
+    }
+
+    let stats: fs.Stats | null = null;
+    try {
+      stats = fs.statSync(changedPath);
+    } catch {
+      // Removed
+    }
+
+    if (stats?.isDirectory() || (!stats && (path.extname(changedPath) === '' || watch.fileScanner.isSniffedFile(changedPath)))) {
+      return true;
+    }
+    if (this.sourceReader.isZipArchive(changedPath) || watch.folders.some(({ folder }) => watch.fileScanner.isLogFile(folder, changedPath))) {
+      return true;
+    }
+    return stats ? watch.fileScanner.isDataFile(changedPath) : watch.fileScanner.isSupportedFile(changedPath);
+  }
+
+  /**
+   * Close the watchers and timers of a project
+   * Returns whether the project was watched
+   */
+  private closeWatch(projectId: string): boolean {
+    const watch = this.watches.get(projectId);
+    if (!watch) {
+      return false;
+    }
+
+    watch.folders.forEach(watchedFolder => watchedFolder.watcher?.close());
+    if (watch.debounceTimer) clearTimeout(watch.debounceTimer);
+    if (watch.pollTimer) clearTimeout(watch.pollTimer);
+    this.watches.delete(projectId);
+    return true;
+  }
+
+  /**
+   * Report the state of a project's watch
+   */
+  private notifyStatus(projectId: string): void {
+    this.onStatusChange?.(projectId, this.getStatus(projectId));
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * GlobPattern matches forward-slash separated relative paths against a glob pattern.
+ * Supported syntax: `*` (any characters except `/`), `**` (any number of path segments),
+ * `?` (one character except `/`), `[abc]` / `[!abc]` character classes and `{a,b}` alternatives.
+ * Patterns without a `/` match against the file name only, e.g. `*.json` matches `2024/jan/a.json`.
+ * Matching is case-insensitive.
+ */
+export class GlobPattern {
+  readonly pattern: string;
+  private regex: RegExp;
+  private matchBaseName: boolean;
+
+  constructor(pattern: string) {
+    const trimmed = pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+    if (!trimmed) {
+      throw new Error('Glob pattern must not be empty');
+    }
+
+    this.pattern = trimmed;
+    this.matchBaseName = !trimmed.includes('/');
+    this.regex = new RegExp(`^${this.toRegexSource(trimmed)}$`, 'i');
+  }
+
+  /**
+   * Check whether a relative path matches the pattern
+   */
+  matches(relativePath: string): boolean {
+    const normalized = relativePath.replace(/\\/g, '/');
+    const target = this.matchBaseName ? normalized.slice(normalized.lastIndexOf('/') + 1) : normalized;
+    return this.regex.test(target);
+  }
+
+  /**
+   * Convert a glob pattern to the source of an equivalent regular expression
+   */
+  private toRegexSource(pattern: string): string {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i]!;
+
+      if (char === '*') {
+        if (pattern[i + 1] === '*') {
+          // `**/` matches zero or more directories; a trailing `**` matches everything below
+          if (pattern[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[') {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          let characterClass = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+          if (characterClass.startsWith('!')) {
+            characterClass = `^${characterClass.slice(1)}`;
+          }
+          source += `[${characterClass}]`;
+          i = end;
+        }
+      } else if (char === '{') {
+        braceDepth++;
+        source += '(?:';
+      } else if (char === '}' && braceDepth > 0) {
+        braceDepth--;
+        source += ')';
+      } else if (char === ',' && braceDepth > 0) {
+        source += '|';
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    if (braceDepth > 0) {
+      throw new Error(`Unclosed "{" in glob pattern: ${pattern}`);
+    }
+
+    return source;
+  }
+}
@@ -0,0 +1,148 @@
+export type JsonPathSegment =
+  | { type: 'property'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+/**
+ * JsonPath evaluates a subset of JSONPath used to select records inside JSON documents.
+ * Supported syntax: `$` (the document), `.name`, `['name']` / `["name"]`, `[0]` / `[-1]`,
+ * and the wildcards `[*]` and `.*`, e.g. `$.data.items[*]` or `$['meta']['requestId']`.
+ */
+export class JsonPath {
+  readonly expression: string;
+  readonly segments: JsonPathSegment[];
+
+  constructor(expression: string) {
+    this.expression = expression.trim();
+    this.segments = this.parse(this.expression);
+  }
+
+  /**
+   * Check whether the path contains a wildcard and can match more than one value
+   */
+  hasWildcard(): boolean {
+    return this.segments.some(segment => segment.type === 'wildcard');
+  }
+
+  /**
+   * Get all values matched by the path, in document order
+   */
+  select(document: any): any[] {
+    let current: any[] = [document];
+
+    for (const segment of this.segments) {
+      const next: any[] = [];
+
+      for (const value of current) {
+        if (value === null || typeof value !== 'object') continue;
+
+        if (segment.type === 'wildcard') {
+          next.push(...(Array.isArray(value) ? value : Object.values(value)));
+        } else if (segment.type === 'index') {
+          if (Array.isArray(value)) {
+            const index = segment.index < 0 ? value.length + segment.index : segment.index;
+            if (index >= 0 && index < value.length) {
+              next.push(value[index]);
+            }
+          }
+        } else if (!Array.isArray(value) && Object.prototype.hasOwnProperty.call(value, segment.name)) {
+          next.push(value[segment.name]);
+        }
+      }
+
+      current = next;
+    }
+
+    return current;
+  }
+
+  /**
+   * Get a column name for the value at this path, joining its segments with a separator
+   * e.g. `$.meta.requestId` becomes `meta_requestId`
+   */
+  toColumnName(separator: string = '_'): string {
+    return this.segments
+      .map(segment => {
+        if (segment.type === 'property') return segment.name;
+        if (segment.type === 'index') return String(segment.index);
+        return '*';
+      })
+      .join(separator);
+  }
+
+  /**
+   * Parse a JSONPath expression into segments
+   */
+  private parse(expression: string): JsonPathSegment[] {
+    if (!expression.startsWith('$')) {
+      throw new Error(`Invalid JSONPath "${expression}": must start with $`);
+    }
+
+    const segments: JsonPathSegment[] = [];
+    let i = 1;
+
+    while (i < expression.length) {
+      const char = expression[i];
+
+      if (char === '.') {
+        if (expression[i + 1] === '.') {
+          throw new Error(`Invalid JSONPath "${expression}": recursive descent (..) is not supported`);
+        }
+        if (expression[i + 1] === '*') {
+          segments.push({ type: 'wildcard' });
+          i += 2;
+          continue;
+        }
+
+        const match = /^[A-Za-z0-9_$-]+/.exec(expression.slice(i + 1));
+        if (!match) {
+          throw new Error(`Invalid JSONPath "${expression}": expected a property name at position ${i + 1}`);
+        }
+        segments.push({ type: 'property', name: match[0] });
+        i += 1 + match[0].length;
+      } else if (char === '[') {
+        const end = this.findClosingBracket(expression, i);
+        const content = expression.slice(i + 1, end).trim();
+
+        if (content === '*') {
+          segments.push({ type: 'wildcard' });
+        } else if (/^-?\d+$/.test(content)) {
+          segments.push({ type: 'index', index: parseInt(content, 10) });
+        } else if (/^'.*'$|^".*"$/.test(content) && content.length >= 2) {
+          segments.push({ type: 'property', name: content.slice(1, -1).replace(/\\(['"\\])/g, '$1') });
+        } else {
+          throw new Error(`Invalid JSONPath "${expression}": unsupported selector [${content}]`);
+        }
+        i = end + 1;
+      } else {
+        throw new Error(`Invalid JSONPath "${expression}": unexpected "${char}" at position ${i}`);
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Find the bracket that closes the one at the given position, skipping quoted names
+   */
+  private findClosingBracket(expression: string, start: number): number {
+    let quote: string | null = null;
+
+    for (let i = start + 1; i < expression.length; i++) {
+      const char = expression[i];
+      if (quote) {
+        if (char === '\\') {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ']') {
+        return i;
+      }
+    }
+
+    throw new Error(`Invalid JSONPath "${expression}": unclosed [`);
+  }
+}
@@ -0,0 +1,242 @@
+import { StringDecoder } from 'string_decoder';
+
+const CHAR_QUOTE = 0x22;         // "
+const CHAR_BACKSLASH = 0x5c;     // \
+const CHAR_COMMA = 0x2c;         // ,
+const CHAR_OPEN_BRACKET = 0x5b;  // [
+const CHAR_CLOSE_BRACKET = 0x5d; // ]
+const CHAR_OPEN_BRACE = 0x7b;    // {
+const CHAR_CLOSE_BRACE = 0x7d;   // }
+const CHAR_BOM = 0xfeff;
+
+/**
+ * Check whether a character code is JSON whitespace
+ */
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+/**
+ * Count the UTF-8 bytes of a UTF-16 code unit; a surrogate pair counts four bytes on its first unit
+ */
+function utf8Length(code: number): number {
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code >= 0xd800 && code <= 0xdbff) return 4;
+  if (code >= 0xdc00 && code <= 0xdfff) return 0;
+  return 3;
+}
+
+// Where a value starts in the source text
+export interface TextLocation {
+  line: number;    // 1-based line number
+  offset: number;  // Byte offset from the start of the text
+}
+
+/**
+ * JsonStreamParser reads a JSON document incrementally and yields the elements
+ * of a top-level array one at a time, so arrays far larger than memory can be processed.
+ * Only the text of the element being read is buffered. A document that is not an
+ * array is buffered whole and yielded as a single value.
+ */
+export class JsonStreamParser {
+  private topLevelArray = false;
+  private location: TextLocation | null = null;
+
+  /**
+   * Check whether the document being parsed is a top-level array
+   * Known once the first value has been yielded
+   */
+  isTopLevelArray(): boolean {
+    return this.topLevelArray;
+  }
+
+  /**
+   * Get where the most recently yielded value starts in the stream
+   */
+  getLocation(): TextLocation | null {
+    return this.location;
+  }
+
+  /**
+   * Parse a stream of JSON text, yielding top-level array elements as they complete
+   */
+  async *parse(stream: AsyncIterable<string | Buffer> | Iterable<string | Buffer>): AsyncGenerator<any> {
+    const decoder = new StringDecoder('utf8');
+    // processChunk is a plain generator function, so it updates instance state through this callback
+    const markArray = () => { this.topLevelArray = true; };
+    const setLocation = (location: TextLocation) => { this.location = location; };
+    this.topLevelArray = false;
+    this.location = null;
+    let phase: 'start' | 'array' | 'document' | 'end' = 'start';
+    let parts: string[] = [];
+    const openBrackets: number[] = [];  // Brackets and braces open inside the current element
+    let inString = false;
+    let escaped = false;
+    let expectValue = true;    // Inside the array: waiting for an element rather than a comma or ']'
+    let inElement = false;
+    let elementCount = 0;
+    let sawComma = false;
+    // Position of the first character of the current chunk that has not been counted yet
+    let line = 1;
+    let offset = 0;
+    let countedIndex = 0;
+    let elementStart: TextLocation = { line, offset };
+    let documentStart: TextLocation = { line, offset };
+
+    const countTo = (chunk: string, index: number): TextLocation => {
+      for (let j = countedIndex; j < index; j++) {
+        const code = chunk.charCodeAt(j);
+        if (code === 0x0a) line++;
+        offset += utf8Length(code);
+      }
+      countedIndex = index;
+      return { line, offset };
+    };
+
+    const parseElement = (text: string): any => {
+      try {
+        return JSON.parse(text);
+      } catch (error) {
+        throw new Error(`Invalid JSON format: ${(error as Error).message} in array element ${elementCount}`);
+      }
+    };
+
+    const processChunk = function* (chunk: string): Generator<any> {
+      let segmentStart = inElement ? 0 : -1;
+      countedIndex = 0;
+
+      for (let i = 0; i < chunk.length; i++) {
+        const code = chunk.charCodeAt(i);
+
+        if (phase === 'start') {
+          if (isWhitespace(code) || code === CHAR_BOM) continue;
+
+          if (code === CHAR_OPEN_BRACKET) {
+            phase = 'array';
+            markArray();
+          } else {
+            // Not an array: buffer the whole document
+            documentStart = countTo(chunk, i);
+            phase = 'document';
+            parts.push(chunk.slice(i));
+            return;
+          }
+          continue;
+        }
+
+        if (phase === 'document') {
+          parts.push(chunk.slice(i));
+          return;
+        }
+
+        if (phase === 'end') {
+          if (!isWhitespace(code)) {
+            throw new Error('Invalid JSON format: unexpected content after the top-level array');
+          }
+          continue;
+        }
+
+        // Inside the top-level array
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (code === CHAR_BACKSLASH) {
+            escaped = true;
+          } else if (code === CHAR_QUOTE) {
+            inString = false;
+          }
+          continue;
+        }
+
+        if (!inElement) {
+          if (isWhitespace(code)) continue;
+
+          if (code === CHAR_CLOSE_BRACKET) {
+            if (sawComma) {
+              throw new Error('Invalid JSON format: trailing comma in array');
+            }
+            phase = 'end';
+            continue;
+          }
+
+          if (code === CHAR_COMMA) {
+            if (expectValue) {
+              throw new Error('Invalid JSON format: unexpected comma in array');
+            }
+            expectValue = true;
+            sawComma = true;
+            continue;
+          }
+
+          if (!expectValue) {
+            throw new Error(`Invalid JSON format: expected ',' or ']' after array element ${elementCount - 1}`);
+          }
+
+          inElement = true;
+          expectValue = false;
+          sawComma = false;
+          segmentStart = i;
+          elementStart = countTo(chunk, i);
+        }
+
+        if (code === CHAR_QUOTE) {
+          inString = true;
+        } else if (code === CHAR_OPEN_BRACE || code === CHAR_OPEN_BRACKET) {
+          openBrackets.push(code);
+        } else if (openBrackets.length > 0 && (code === CHAR_CLOSE_BRACE || code === CHAR_CLOSE_BRACKET)) {
+          const expected = openBrackets.pop() === CHAR_OPEN_BRACE ? CHAR_CLOSE_BRACE : CHAR_CLOSE_BRACKET;
+          if (code !== expected) {
+            throw new Error(`Invalid JSON format: unexpected '${chunk[i]}' in array element ${elementCount}`);
+          }
+        } else if (code === CHAR_CLOSE_BRACE) {
+          throw new Error(`Invalid JSON format: unexpected '}' in array element ${elementCount}`);
+        } else if (openBrackets.length === 0 && (code === CHAR_COMMA || code === CHAR_CLOSE_BRACKET)) {
+          // The element ends at the separator that follows it
+          parts.push(chunk.slice(segmentStart, i));
+          const text = parts.join('');
+          parts = [];
+          inElement = false;
+          segmentStart = -1;
+
+          const element = parseElement(text);
+          setLocation(elementStart);
+          yield element;
+          elementCount++;
+          i--; // Handle the separator outside the element
+        }
+      }
+
+      if (inElement && segmentStart !== -1) {
+        parts.push(chunk.slice(segmentStart));
+      }
+      if (phase !== 'document') {
+        countTo(chunk, chunk.length);
+      }
+    };
+
+    for await (const chunk of stream) {
+      yield* processChunk(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+    }
+    yield* processChunk(decoder.end());
+
+    if (phase === 'start') {
+      throw new Error('File is empty');
+    }
+
+    if (phase === 'array') {
+      throw new Error('Invalid JSON format: unexpected end of input inside the top-level array');
+    }
+
+    if (phase === 'document') {
+      let document: any;
+      try {
+        document = JSON.parse(parts.join(''));
+      } catch (error) {
+        throw new Error(`Invalid JSON format: ${(error as Error).message}`);
+      }
+      this.location = documentStart;
+      yield document;
+    }
+  }
+}
@@ -0,0 +1,361 @@
+import { LogFormat, LogFormatPreset } from '../types';
+import { SourceLine } from './SourceFileReader';
+
+export type LogValue = string | boolean | null;
+
+// One entry of a log file: a line plus the continuation lines that follow it
+export interface LogEntry {
+  record: Record<string, LogValue> | null;  // Null when the entry does not match the format
+  text: string;     // The entry's lines joined by newlines
+  line: number;     // 1-based line number of the entry's first line
+  offset: number;   // Byte offset of the entry's first line
+}
+
+interface LogPreset {
+  regex: string | null;   // Null for logfmt, which is split into key=value pairs instead
+  timestampField: string;
+  timestampFormat?: string;
+}
+
+// Fields of the common log format shared by Apache and nginx, e.g.
+// 127.0.0.1 - frank [10/Oct/2000:13:55:36 -0700] "GET /a.gif HTTP/1.0" 200 2326
+const COMMON_LOG_REGEX = '^(?:-|(?<client>\\S+)) (?:-|(?<ident>\\S+)) (?:-|(?<user>\\S+)) \\[(?<timestamp>[^\\]]+)\\] '
+  + '"(?:(?<method>[A-Z]+) (?<path>\\S+)(?: (?<protocol>[^"]*))?|[^"]*)" (?<status>\\d{3}) (?:-|(?<bytes>\\d+))';
+
+const LOG_PRESETS: Record<LogFormatPreset, LogPreset> = {
+  common: { regex: COMMON_LOG_REGEX, timestampField: 'timestamp', timestampFormat: 'dd/MMM/yyyy:HH:mm:ss Z' },
+  combined: {
+    regex: `${COMMON_LOG_REGEX} "(?:-|(?<referrer>[^"]*))" "(?<user_agent>[^"]*)"`,
+    timestampField: 'timestamp',
+    timestampFormat: 'dd/MMM/yyyy:HH:mm:ss Z'
+  },
+  // RFC 3164, e.g. <34>Oct 11 22:14:15 mymachine su[230]: 'su root' failed
+  syslog: {
+    regex: '^(?:<(?<priority>\\d{1,3})>)?(?<timestamp>[A-Z][a-z]{2} +\\d{1,2} \\d{2}:\\d{2}:\\d{2}) '
+      + '(?<host>\\S+) (?<program>[^\\s:\\[]+)(?:\\[(?<pid>\\d+)\\])?: (?<message>.*)',
+    timestampField: 'timestamp',
+    timestampFormat: 'MMM d HH:mm:ss'
+  },
+  logfmt: { regex: null, timestampField: 'time' }
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Tokens of a timestamp format, longest first, with the regex matching each
+const TIMESTAMP_TOKENS: [string, string][] = [
+  ['yyyy', '(\\d{4})'],
+  ['yy', '(\\d{2})'],
+  ['MMM', '([A-Za-z]{3})'],
+  ['MM', '(\\d{2})'],
+  ['M', '(\\d{1,2})'],
+  ['dd', '(\\d{2})'],
+  ['d', '(\\d{1,2})'],
+  ['HH', '(\\d{2})'],
+  ['H', '(\\d{1,2})'],
+  ['mm', '(\\d{2})'],
+  ['ss', '(\\d{2})'],
+  ['SSS', '(\\d{1,9})'],
+  ['Z', '(Z|[+-]\\d{2}:?\\d{2}|[+-]\\d{2})']
+];
+
+// A key=value pair of logfmt; values may be double quoted with backslash escapes
+const LOGFMT_PAIR_REGEX = /([^\s="]+)(?:=("(?:[^"\\]|\\.)*"|\S*))?/g;
+
+/**
+ * LogParser turns the lines of a plain-text log file into records using a log format:
+ * a regular expression whose named capture groups become columns, or one of the built-in presets.
+ * With a multiline pattern, lines matching it are appended to the previous entry (stack traces,
+ * wrapped messages) and the regex is matched against the whole entry. The timestamp field is
+ * converted to an ISO 8601 string when a timestamp format is known.
+ */
+export class LogParser {
+  private regex: RegExp | null;
+  private multilineRegex: RegExp | null;
+  private timestampField: string;
+  private timestampRegex: RegExp | null = null;
+  private timestampParts: string[] = [];
+  private epochUnit: number | null = null;
+
+  constructor(format: LogFormat) {
+    const preset = format.regex ? null : this.getPreset(format.preset);
+    const multiline = Boolean(format.multilinePattern);
+
+    this.multilineRegex = multiline ? this.compile(format.multilinePattern!, '', 'multiline pattern') : null;
+    this.regex = this.compileFormatRegex(format.regex || preset!.regex, multiline);
+    this.timestampField = format.timestampField || preset?.timestampField || 'timestamp';
+
+    const timestampFormat = format.timestampFormat || preset?.timestampFormat;
+    if (timestampFormat) {
+      this.compileTimestampFormat(timestampFormat);
+    }
+  }
+
+  /**
+   * Group lines into entries and match each entry against the format
+   * Blank lines that do not continue an entry are skipped
+   */
+  async *parseLines(lines: AsyncIterable<SourceLine>): AsyncGenerator<LogEntry> {
+    let pending: { lines: string[]; line: number; offset: number } | null = null;
+
+    for await (const sourceLine of lines) {
+      if (pending && this.multilineRegex?.test(sourceLine.text)) {
+        pending.lines.push(sourceLine.text);
+        continue;
+      }
+
+      if (pending) {
+        yield this.parseEntry(pending.lines.join('\n'), pending.line, pending.offset);
+        pending = null;
+      }
+
+      if (sourceLine.text.trim()) {
+        pending = { lines: [sourceLine.text], line: sourceLine.line, offset: sourceLine.offset };
+      }
+    }
+
+    if (pending) {
+      yield this.parseEntry(pending.lines.join('\n'), pending.line, pending.offset);
+    }
+  }
+
+  /**
+   * Match the text of one entry against the format, or return null when it does not match
+   */
+  parse(text: string): Record<string, LogValue> | null {
+    const record = this.regex ? this.matchRegex(text) : this.parseLogfmt(text);
+    if (!record) {
+      return null;
+    }
+
+    const timestamp = record[this.timestampField];
+    if (typeof timestamp === 'string') {
+      record[this.timestampField] = this.parseTimestamp(timestamp) ?? timestamp;
+    }
+    return record;
+  }
+
+  /**
+   * Convert a timestamp in the format's timestamp format to an ISO 8601 string
+   * Returns null when there is no timestamp format or the value does not match it.
+   * Timestamps without an offset are taken as UTC and timestamps without a year fall in the current year.
+   */
+  parseTimestamp(value: string): string | null {
+    if (this.epochUnit !== null) {
+      const epoch = Number(value.trim());
+      return value.trim() && Number.isFinite(epoch) ? this.toIsoString(epoch * this.epochUnit) : null;
+    }
+
+    const match = this.timestampRegex?.exec(value.trim());
+    if (!match) {
+      return null;
+    }
+
+    const parts: Record<string, string> = {};
+    this.timestampParts.forEach((part, index) => {
+      parts[part] = match[index + 1]!;
+    });
+
+    const year = parts['yyyy'] ? Number(parts['yyyy'])
+      : parts['yy'] ? this.expandTwoDigitYear(Number(parts['yy']))
+      : new Date().getUTCFullYear();
+    const month = parts['MMM'] ? MONTH_NAMES.indexOf(parts['MMM'].toLowerCase()) + 1 : Number(parts['MM'] ?? parts['M'] ?? 1);
+    const day = Number(parts['dd'] ?? parts['d'] ?? 1);
+    const hour = Number(parts['HH'] ?? parts['H'] ?? 0);
+    const minute = Number(parts['mm'] ?? 0);
+    const second = Number(parts['ss'] ?? 0);
+    const millisecond = parts['SSS'] ? Number(`0.${parts['SSS']}`) * 1000 : 0;
+
+    if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59 || second > 60) {
+      return null;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second, millisecond));
+    if (date.getUTCDate() !== day) {
+      return null;
+    }
+
+    return this.toIsoString(date.getTime() - this.parseOffsetMinutes(parts['Z']) * 60000);
+  }
+
+  /**
+   * Match one entry and build its record
+   */
+  private parseEntry(text: string, line: number, offset: number): LogEntry {
+    return { record: this.parse(text), text, line, offset };
+  }
+
+  /**
+   * Build a record from the named capture groups; groups that did not take part in the match are null
+   */
+  private matchRegex(text: string): Record<string, LogValue> | null {
+    const match = this.regex!.exec(text);
+    if (!match?.groups) {
+      return null;
+    }
+
+    const record: Record<string, LogValue> = {};
+    for (const [name, value] of Object.entries(match.groups)) {
+      record[name] = value ?? null;
+    }
+    return record;
+  }
+
+  /**
+   * Split a logfmt entry into its key=value pairs
+   * Bare keys are true and empty values are null; an entry without any key=value pair does not match
+   */
+  private parseLogfmt(text: string): Record<string, LogValue> | null {
+    const record: Record<string, LogValue> = {};
+    let hasPair = false;
+
+    for (const [, key, value] of text.matchAll(LOGFMT_PAIR_REGEX)) {
+      if (value === undefined) {
+        record[key!] = true;
+        continue;
+      }
+
+      hasPair = true;
+      record[key!] = value === '' ? null : this.unquoteLogfmtValue(value);
+    }
+
+    return hasPair ? record : null;
+  }
+
+  /**
+   * Remove the quotes and escapes of a quoted logfmt value
+   */
+  private unquoteLogfmtValue(value: string): string {
+    if (!value.startsWith('"')) {
+      return value;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+
+  /**
+   * Look up a built-in format
+   */
+  private getPreset(preset: string | undefined): LogPreset {
+    if (!preset) {
+      throw new Error('Log format needs a regex or a preset');
+    }
+
+    const found = Object.prototype.hasOwnProperty.call(LOG_PRESETS, preset) ? LOG_PRESETS[preset as LogFormatPreset] : undefined;
+    if (!found) {
+      throw new Error(`Unknown log format preset: ${preset}`);
+    }
+    return found;
+  }
+
+  /**
+   * Compile the entry regex, which must have at least one named capture group
+   * Multiline entries are matched with `.` matching newlines so a group can take in continuation lines.
+   */
+  private compileFormatRegex(source: string | null, multiline: boolean): RegExp | null {
+    if (source === null) {
+      return null;
+    }
+
+    const regex = this.compile(source, multiline ? 's' : '', 'regex');
+
+    // An empty alternative always matches, listing every named group of the regex
+    const groups = new RegExp(`${source}|`, regex.flags).exec('')?.groups;
+    if (!groups || Object.keys(groups).length === 0) {
+      throw new Error('Log format regex must have at least one named capture group, e.g. (?<level>\\w+)');
+    }
+    return regex;
+  }
+
+  /**
+   * Compile a regular expression from the log format
+   */
+  private compile(source: string, flags: string, name: string): RegExp {
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      throw new Error(`Invalid log format ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Turn a timestamp format into a regex with one group per token
+   * A space matches any run of whitespace and text in single quotes is literal.
+   */
+  private compileTimestampFormat(format: string): void {
+    if (format === 'epoch' || format === 'epoch_millis') {
+      this.epochUnit = format === 'epoch' ? 1000 : 1;
+      return;
+    }
+
+    let source = '';
+    let i = 0;
+    while (i < format.length) {
+      const char = format[i]!;
+
+      if (char === "'") {
+        const end = format.indexOf("'", i + 1);
+        if (end === -1) {
+          throw new Error(`Unterminated quote in timestamp format: ${format}`);
+        }
+        source += this.escapeRegex(format.slice(i + 1, end));
+        i = end + 1;
+        continue;
+      }
+
+      const token = TIMESTAMP_TOKENS.find(([name]) => format.startsWith(name, i));
+      if (token) {
+        if (this.timestampParts.includes(token[0])) {
+          throw new Error(`Timestamp format uses ${token[0]} more than once: ${format}`);
+        }
+        this.timestampParts.push(token[0]);
+        source += token[1];
+        i += token[0].length;
+        continue;
+      }
+
+      source += char === ' ' ? '\\s+' : this.escapeRegex(char);
+      i++;
+    }
+
+    this.timestampRegex = new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Parse a UTC offset such as +0200, -07:00 or Z into minutes
+   */
+  private parseOffsetMinutes(offset: string | undefined): number {
+    if (!offset || offset === 'Z') {
+      return 0;
+    }
+
+    const digits = offset.slice(1).replace(':', '');
+    const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+    return offset.startsWith('-') ? -minutes : minutes;
+  }
+
+  /**
+   * Place a two-digit year in 1970-2069
+   */
+  private expandTwoDigitYear(year: number): number {
+    return year < 70 ? 2000 + year : 1900 + year;
+  }
+
+  /**
+   * Format epoch milliseconds, or return null when they are out of range
+   */
+  private toIsoString(milliseconds: number): string | null {
+    const date = new Date(milliseconds);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  /**
+   * Escape text for use in a regular expression
+   */
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,248 @@
+import { FileMetaDataExt, ParquetEnvelopeReader, ParquetField, ParquetReader as ParquetFileReader, ParquetShredder } from '@dsnp/parquetjs';
+import { RandomAccessFile } from './SourceFileReader';
+import { ColumnValueConverter, DeclaredTypes, DeclaredValueType, TimeUnit } from './ColumnValueConverter';
+
+const PARQUET_MAGIC = 'PAR1';
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// An element of the schema in the file footer, which holds the logical type annotations of newer writers
+type SchemaElement = FileMetaDataExt['schema'][number];
+
+export interface ParquetMetadata {
+  reader: ParquetFileReader;
+  elements: Map<string, SchemaElement>;  // Schema elements by the dotted path of their field
+}
+
+/**
+ * ParquetReader reads Apache Parquet files one row group at a time with parquetjs, so only one
+ * row group is held in memory. Lists become arrays, values are converted according to the
+ * column's logical type, and the schema declares each column's value type.
+ */
+export class ParquetReader {
+  private converter = new ColumnValueConverter();
+
+  /**
+   * Read the footer of a Parquet file
+   */
+  async readMetadata(file: RandomAccessFile): Promise<ParquetMetadata> {
+    if (file.size < 12) {
+      throw new Error('File is too small to be a Parquet file');
+    }
+
+    const head = await file.read(0, 4);
+    const tail = await file.read(file.size - 4, 4);
+    if (head.toString('latin1') !== PARQUET_MAGIC || tail.toString('latin1') !== PARQUET_MAGIC) {
+      throw new Error('Not a Parquet file: missing PAR1 marker');
+    }
+
+    // The caller closes the file once the rows are read
+    const envelopeReader = new ParquetEnvelopeReader((position, length) => file.read(position, length), () => {}, file.size);
+    const reader = await ParquetFileReader.openEnvelopeReader(envelopeReader, { treatInt96AsTimestamp: true });
+    return { reader, elements: this.indexSchemaElements(reader.metadata!.schema) };
+  }
+
+  /**
+   * Get the value types the schema declares for the fields of a record
+   * List columns are stored as JSON text
+   */
+  getDeclaredTypes(metadata: ParquetMetadata): DeclaredTypes {
+    const collect = (fields: Record<string, ParquetField>): DeclaredTypes => {
+      const types: DeclaredTypes = {};
+      for (const [name, field] of Object.entries(fields)) {
+        const element = metadata.elements.get(field.path.join('.'));
+        if (field.repetitionType === 'REPEATED' || this.isListOrMap(element)) {
+          types[name] = 'text';
+        } else {
+          types[name] = field.fields ? collect(field.fields) : this.getValueType(field, element);
+        }
+      }
+      return types;
+    };
+    return collect(metadata.reader.getSchema().fields);
+  }
+
+  /**
+   * Read the rows of a Parquet file one row group at a time
+   */
+  async *readRowGroups(metadata: ParquetMetadata): AsyncGenerator<Record<string, any>[]> {
+    const { reader } = metadata;
+    const schema = reader.getSchema();
+
+    for (const rowGroup of reader.metadata!.row_groups) {
+      const buffer = await reader.envelopeReader!.readRowGroup(schema, rowGroup, []);
+      const records = ParquetShredder.materializeRecords(schema, buffer);
+      yield records.map(record => this.convertRecord(metadata, record, schema.fields));
+    }
+  }
+
+  /**
+   * Index the schema elements, listed depth first, by the dotted path of their field
+   */
+  private indexSchemaElements(schema: SchemaElement[]): Map<string, SchemaElement> {
+    const elements = new Map<string, SchemaElement>();
+    let index = 1;
+    const visit = (count: number, parentPath: string[]): void => {
+      for (let i = 0; i < count; i++) {
+        const element = schema[index++];
+        if (!element) {
+          throw new Error('Parquet schema ends early');
+        }
+        const path = [...parentPath, element.name];
+        elements.set(path.join('.'), element);
+        visit(element.num_children ?? 0, path);
+      }
+    };
+    visit(schema[0]?.num_children ?? 0, []);
+    return elements;
+  }
+
+  /**
+   * Convert the fields of a materialized record
+   */
+  private convertRecord(metadata: ParquetMetadata, record: Record<string, any>, fields: Record<string, ParquetField>): Record<string, any> {
+    const converted: Record<string, any> = {};
+    for (const [name, field] of Object.entries(fields)) {
+      converted[name] = this.convertField(metadata, record[name] ?? null, field);
+    }
+    return converted;
+  }
+
+  /**
+   * Convert the value of a field; a repeated field without values is an empty list
+   */
+  private convertField(metadata: ParquetMetadata, value: any, field: ParquetField): any {
+    if (field.repetitionType === 'REPEATED') {
+      return ((value ?? []) as any[]).map(item => this.convertNode(metadata, item, field));
+    }
+    return this.convertNode(metadata, value, field);
+  }
+
+  /**
+   * Convert a single value of a field
+   * A list or map annotated group holds a repeated group of elements, whose single field is the element itself
+   */
+  private convertNode(metadata: ParquetMetadata, value: any, field: ParquetField): any {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    const element = metadata.elements.get(field.path.join('.'));
+    if (!field.fields) {
+      return this.convertValue(field, element, value);
+    }
+
+    if (this.isListOrMap(element)) {
+      const repeated = Object.values(field.fields)[0];
+      if (!repeated) {
+        return [];
+      }
+      const items: any[] = this.convertField(metadata, value[repeated.name] ?? null, repeated);
+      const elementFields = repeated.fields ? Object.keys(repeated.fields) : [];
+      if (elementFields.length !== 1) {
+        return items;
+      }
+      return items.map(item => (item === null ? null : item[elementFields[0]!]));
+    }
+
+    return this.convertRecord(metadata, value, field.fields);
+  }
+
+  /**
+   * Convert a value read by parquetjs to a record value according to the column's logical type
+   */
+  private convertValue(field: ParquetField, element: SchemaElement | undefined, value: any): any {
+    const logicalType = element?.logicalType;
+
+    if (value instanceof Date) {
+      return field.originalType === 'DATE'
+        ? this.converter.toDate(Math.floor(value.getTime() / MILLISECONDS_PER_DAY))
+        : this.converter.toTimestamp(value.getTime(), 'millisecond');
+    }
+
+    switch (field.originalType) {
+      case 'TIME_MILLIS':
+        return this.converter.toTimeOfDay(value, 'millisecond');
+      case 'TIME_MICROS':
+        return this.converter.toTimeOfDay(value, 'microsecond');
+      case 'UINT_32':
+        return Number(value) >>> 0;
+      case 'UINT_64':
+        return this.converter.toInteger(BigInt.asUintN(64, BigInt(value)));
+      case 'JSON':
+        return JSON.stringify(value);
+      case 'DECIMAL':
+        return Buffer.isBuffer(value) ? this.converter.toDecimal(this.converter.readBigEndianInteger(value), field.scale ?? 0) : value;
+    }
+
+    // Newer writers annotate some columns only with a logical type, which parquetjs does not apply
+    const timestampUnit = this.getTimeUnit(logicalType?.TIMESTAMP?.unit);
+    if (timestampUnit) return this.converter.toTimestamp(value, timestampUnit);
+    const timeUnit = this.getTimeUnit(logicalType?.TIME?.unit);
+    if (timeUnit) return this.converter.toTimeOfDay(value, timeUnit);
+
+    if (typeof value === 'bigint') {
+      return this.converter.toInteger(value);
+    }
+    if (Buffer.isBuffer(value)) {
+      if (logicalType?.UUID) return this.converter.toUuid(value);
+      if (logicalType?.STRING || logicalType?.ENUM || logicalType?.JSON) return value.toString('utf8');
+      return this.converter.toBinary(value);
+    }
+    return value;
+  }
+
+  /**
+   * Get the unit of a logical timestamp or time type
+   */
+  private getTimeUnit(unit: { MILLIS?: unknown; MICROS?: unknown; NANOS?: unknown } | null | undefined): TimeUnit | null {
+    if (unit?.MILLIS) return 'millisecond';
+    if (unit?.MICROS) return 'microsecond';
+    if (unit?.NANOS) return 'nanosecond';
+    return null;
+  }
+
+  /**
+   * Check whether a group is annotated as a list or map
+   */
+  private isListOrMap(element: SchemaElement | undefined): boolean {
+    if (!element || !element.num_children) {
+      return false;
+    }
+    // Converted types 1, 2 and 3 are MAP, MAP_KEY_VALUE and LIST
+    const convertedType = element.converted_type ?? -1;
+    return (convertedType >= 1 && convertedType <= 3) || !!element.logicalType?.LIST || !!element.logicalType?.MAP;
+  }
+
+  /**
+   * Get the value type declared by a column's schema
+   */
+  private getValueType(field: ParquetField, element: SchemaElement | undefined): DeclaredValueType {
+    const logicalType = element?.logicalType;
+
+    if (field.originalType === 'DECIMAL' || logicalType?.DECIMAL) {
+      // Decimals with more digits than a double holds are kept as exact text
+      if ((field.precision ?? 38) > 15) return 'text';
+      return (field.scale ?? 0) === 0 ? 'integer' : 'real';
+    }
+
+    switch (field.primitiveType) {
+      case 'BOOLEAN':
+        return 'boolean';
+      case 'INT32':
+      case 'INT64': {
+        const isTemporal = ['DATE', 'TIME_MILLIS', 'TIME_MICROS', 'TIMESTAMP_MILLIS', 'TIMESTAMP_MICROS'].includes(field.originalType ?? '') ||
+          !!logicalType?.DATE || !!logicalType?.TIME || !!logicalType?.TIMESTAMP;
+        if (isTemporal) return 'text';
+        // Unsigned 64-bit integers may not fit the integers of the data table
+        const isUnsigned64 = field.primitiveType === 'INT64' && (field.originalType === 'UINT_64' || logicalType?.INTEGER?.isSigned === false);
+        return isUnsigned64 ? 'text' : 'integer';
+      }
+      case 'FLOAT':
+      case 'DOUBLE':
+        return 'real';
+      default:
+        return 'text';
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PARSER_MODULE_EXTENSIONS } from '../types';
+import { DeclaredTypes, DeclaredValueType } from './ColumnValueConverter';
+import { SourceFileReader } from './SourceFileReader';
+import { FileParseOptions, RecordLocation } from './FileScanner';
+
+// What a parser is given to read one file
+export interface FileParserContext {
+  filePath: string;            // Path of the file, or archive.zip!/entry for an entry of a zip archive
+  source: SourceFileReader;    // Reads the file, decompressing it and extracting archive entries as needed
+  options: FileParseOptions;   // Settings of the file's source folder
+  reportSkipped: (line: number, message: string, text: string) => void;  // Report a part of the file that could not become a record
+  declareTypes: (types: DeclaredTypes) => void;  // Declare column types the file itself holds, such as a schema in its header
+}
+
+// A record read by a parser, before it is flattened
+export interface ParsedRecord {
+  record: Record<string, any>;
+  location?: Omit<RecordLocation, 'index'> | null | undefined;  // Where the record was read from, when known
+}
+
+// A file format that can be read into records
+export interface FileParser {
+  name: string;                        // Names the format in errors, e.g. parquet
+  extensions?: string[] | undefined;   // Extensions of the files it reads, e.g. ['.parquet']; compression extensions are looked through
+  sniff?: ((header: Buffer, filePath: string) => boolean) | undefined;  // Claims a file from its first bytes, decompressed
+  sniffExtensions?: string[] | undefined;  // Extensions of the files offered to sniff, '' for none; files no parser claims by default
+  schemaHints?: DeclaredTypes | undefined;  // Column types of every file it reads, keyed by field
+  readRecords: (context: FileParserContext) => AsyncIterable<ParsedRecord>;  // Read the records of a file one at a time
+}
+
+const DECLARED_VALUE_TYPES: DeclaredValueType[] = ['integer', 'real', 'boolean', 'text'];
+
+/**
+ * ParserRegistry holds the file formats a scan can read.
+ * Files are read by the parser claiming their extension. Files no parser claims, and files whose extension
+ * a parser lists among its sniff extensions, are offered to the sniff functions with their first bytes.
+ * When parsers claim the same extension or both sniff a file, the one registered last wins, so a project's
+ * own parsers can replace the built-in ones.
+ */
+export class ParserRegistry {
+  private parsers: FileParser[] = [];
+
+  /**
+   * Add a parser after checking that it can be used
+   */
+  register(parser: FileParser): void {
+    if (!parser || typeof parser !== 'object') {
+      throw new Error('Parser must be an object');
+    }
+    if (typeof parser.name !== 'string' || !parser.name.trim()) {
+      throw new Error('Parser must have a name');
+    }
+    if (typeof parser.readRecords !== 'function') {
+      throw new Error(`Parser ${parser.name} must have a readRecords function`);
+    }
+    if (parser.sniff !== undefined && typeof parser.sniff !== 'function') {
+      throw new Error(`Parser ${parser.name} has a sniff that is not a function`);
+    }
+
+    const extensions = this.checkExtensions(parser.name, parser.extensions || [], false);
+    const sniffExtensions = parser.sniffExtensions && this.checkExtensions(parser.name, parser.sniffExtensions, true);
+    if (extensions.length === 0 && !parser.sniff) {
+      throw new Error(`Parser ${parser.name} must declare file extensions or a sniff function`);
+    }
+    if (parser.schemaHints !== undefined) {
+      this.checkSchemaHints(parser.name, parser.schemaHints, '');
+    }
+
+    this.parsers.push({ ...parser, extensions, sniffExtensions });
+  }
+
+  /**
+   * Find the parser reading files of a format extension, such as .json
+   */
+  findByExtension(extension: string): FileParser | undefined {
+    const normalized = extension.toLowerCase();
+    for (let i = this.parsers.length - 1; i >= 0; i--) {
+      if (this.parsers[i]!.extensions!.includes(normalized)) {
+        return this.parsers[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the parser whose sniff function claims a file of a format extension from its first bytes
+   */
+  findBySniff(header: Buffer, filePath: string, extension: string): FileParser | undefined {
+    const sniffers = this.getSniffers(extension);
+    for (let i = sniffers.length - 1; i >= 0; i--) {
+      const parser = sniffers[i]!;
+
+      try {
+        if (parser.sniff!(header, filePath)) {
+          return parser;
+        }
+      } catch (error) {
+        throw new Error(`Parser ${parser.name} failed to sniff the file: ${(error as Error).message}`);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether any parser is offered files of a format extension to sniff
+   */
+  hasSniffers(extension: string): boolean {
+    return this.getSniffers(extension).length > 0;
+  }
+
+  /**
+   * Register the parsers exported by the JavaScript modules of a folder, in file name order
+   * A module exports a parser or an array of parsers, as module.exports or as its default export.
+   * Returns the names of the parsers registered; a missing folder registers none
+   */
+  loadModules(folderPath: string): string[] {
+    if (!fs.existsSync(folderPath)) {
+      return [];
+    }
+
+    const moduleFiles = fs.readdirSync(folderPath)
+      .filter(item => PARSER_MODULE_EXTENSIONS.includes(path.extname(item).toLowerCase()))
+      .sort();
+
+    const names: string[] = [];
+    for (const moduleFile of moduleFiles) {
+      try {
+        const modulePath = require.resolve(path.resolve(folderPath, moduleFile));
+        // Load the module afresh so changes to it are picked up by the next scan
+        delete require.cache[modulePath];
+        const exported = require(modulePath);
+        const parsers = exported && typeof exported === 'object' && 'default' in exported ? exported.default : exported;
+
+        for (const parser of Array.isArray(parsers) ? parsers : [parsers]) {
+          this.register(parser);
+          names.push(parser.name);
+        }
+      } catch (error) {
+        throw new Error(`Failed to load parser module ${moduleFile}: ${(error as Error).message}`);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Get the parsers offered files of a format extension to sniff, in the order they were registered
+   */
+  private getSniffers(extension: string): FileParser[] {
+    const normalized = extension.toLowerCase();
+    const claimed = this.findByExtension(normalized) !== undefined;
+    return this.parsers.filter(parser => parser.sniff &&
+      (parser.sniffExtensions ? parser.sniffExtensions.includes(normalized) : !claimed));
+  }
+
+  /**
+   * Check that extensions start with a dot, allowing the empty extension of files without one where given
+   */
+  private checkExtensions(parserName: string, extensions: string[], allowEmpty: boolean): string[] {
+    if (!Array.isArray(extensions)) {
+      throw new Error(`Parser ${parserName} must list its extensions in an array`);
+    }
+
+    return extensions.map(extension => {
+      if (typeof extension !== 'string' || !(/^\.[^./\\\s]+$/.test(extension) || (allowEmpty && extension === ''))) {
+        throw new Error(`Parser ${parserName} has an invalid extension "${extension}": use a dot and a name, such as .dat`);
+      }
+      return extension.toLowerCase();
+    });
+  }
+
+  /**
+   * Check that every schema hint is a known column type or an object of further hints
+   */
+  private checkSchemaHints(parserName: string, hints: DeclaredTypes, prefix: string): void {
+    if (typeof hints !== 'object' || hints === null || Array.isArray(hints)) {
+      throw new Error(`Parser ${parserName} must give its schema hints as an object`);
+    }
+
+    for (const [field, type] of Object.entries(hints)) {
+      if (typeof type === 'object' && type !== null && !Array.isArray(type)) {
+        this.checkSchemaHints(parserName, type, `${prefix}${field}.`);
+      } else if (!DECLARED_VALUE_TYPES.includes(type as DeclaredValueType)) {
+        throw new Error(`Parser ${parserName} has an invalid schema hint for ${prefix}${field}: use ${DECLARED_VALUE_TYPES.join(', ')}`);
+      }
+    }
+  }
+}
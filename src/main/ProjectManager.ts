@@ -1,9 +1,27 @@
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Project, SourceFolder, Config, PROJECT_CONFIG_FOLDER, PROJECT_CONFIG_FILE } from '../types';
+import {
+  Project, SourceFolder, SourceFolderSettings, ScanSettings, TableRule, WatchSettings, ScanSchedule, Config, PROJECT_CONFIG_FOLDER,
+  PROJECT_CONFIG_FILE, FLATTEN_SEPARATORS, COLUMN_COLLISION_STRATEGIES, MAX_FLATTEN_DEPTH, SCAN_SCHEDULE_FREQUENCIES, CHILD_TABLE_SEPARATOR,
+  FILE_MANIFEST_TABLE, DATA_SCHEMA_TABLE, SCAN_ERRORS_TABLE, SCAN_RUNS_TABLE, DATA_TABLES_TABLE
+} from '../types';
 import { ConfigManager } from './ConfigManager';
 import { DatabaseManager } from './DatabaseManager';
+import { JsonPath } from './JsonPath';
+import { GlobPattern } from './GlobPattern';
+import { CronExpression } from './CronExpression';
+import { LogParser } from './LogParser';
+import { XmlRecordReader } from './XmlRecordReader';
+
+// Tables of the project database that table rules cannot route records to
+const RESERVED_TABLE_NAMES = [
+  'project_info', 'source_folders', 'views', 'schema_version',
+  FILE_MANIFEST_TABLE, DATA_SCHEMA_TABLE, SCAN_ERRORS_TABLE, SCAN_RUNS_TABLE, DATA_TABLES_TABLE
+];
+
+// Prefixes of the names of SQLite's own tables and of view tables
+const RESERVED_TABLE_PREFIXES = ['sqlite_', 'data_view_'];
 
 /**
  * ProjectManager handles project CRUD operations and persistence across global registry and per-project databases.
@@ -93,6 +111,12 @@ export class ProjectManager {
             if (projectData.createdDate) project.createdDate = new Date(projectData.createdDate);
             if (projectData.lastModified) project.lastModified = new Date(projectData.lastModified);
             if (projectData.scanStatus) project.scanStatus = projectData.scanStatus;
+            if (projectData.scanSettings) project.scanSettings = projectData.scanSettings;
+            if (projectData.watchSettings) project.watchSettings = projectData.watchSettings;
+            if (projectData.scanSchedule) {
+              const { updatedDate } = projectData.scanSchedule;
+              project.scanSchedule = { ...projectData.scanSchedule, updatedDate: updatedDate ? new Date(updatedDate) : undefined };
+            }
           }
           
           // Add to cache
@@ -201,6 +225,12 @@ export class ProjectManager {
         workingDirectory: updates.workingDirectory || project.workingDirectory,
         sourceFolders: updates.sourceFolders || project.sourceFolders,
         scanStatus: updates.scanStatus !== undefined ? updates.scanStatus : project.scanStatus,
+        scanSettings: updates.scanSettings !== undefined ? updates.scanSettings : project.scanSettings,
+        watchSettings: updates.watchSettings !== undefined ? updates.watchSettings : project.watchSettings,
+        watchStatus: updates.watchStatus !== undefined ? updates.watchStatus : project.watchStatus,
+        // A schedule can be removed, so an explicit undefined replaces it
+        scanSchedule: 'scanSchedule' in updates ? updates.scanSchedule : project.scanSchedule,
+        scheduleStatus: 'scheduleStatus' in updates ? updates.scheduleStatus : project.scheduleStatus,
         lastModified: new Date()
       };
       
@@ -433,7 +463,10 @@ export class ProjectManager {
         sourceFolders: project.sourceFolders,
         createdDate: project.createdDate,
         lastModified: new Date(),
-        scanStatus: project.scanStatus
+        scanStatus: project.scanStatus,
+        scanSettings: project.scanSettings,
+        watchSettings: project.watchSettings,
+        scanSchedule: project.scanSchedule
       };
       
       // Write to project.json file
@@ -469,7 +502,7 @@ export class ProjectManager {
   /**
    * Add a source folder to a project
    */
-  async addSourceFolder(projectId: string, folderPath: string): Promise<void> {
+  async addSourceFolder(projectId: string, folderPath: string, settings: SourceFolderSettings = {}): Promise<void> {
     this._validateInitialized();
     
     if (!projectId || typeof projectId !== 'string') {
@@ -480,6 +513,8 @@ export class ProjectManager {
       throw new Error('Folder path must be a non-empty string');
     }
 
+    this._validateSourceFolderSettings(settings);
+
     try {
       // Verify project exists
       const project = await this.getProject(projectId);
@@ -519,7 +554,8 @@ export class ProjectManager {
       const sourceFolder: SourceFolder = {
         id: uuidv4(),
         path: resolvedPath,
-        addedDate: new Date()
+        addedDate: new Date(),
+        ...settings
       };
 
       // Add to project's source folders and update registry
@@ -562,6 +598,128 @@ export class ProjectManager {
     }
   }
 
+  /**
+   * Replace the scan settings of a project and save them to project.json
+   * Files are parsed again with the new settings on the next scan
+   */
+  async updateScanSettings(projectId: string, scanSettings: ScanSettings): Promise<Project> {
+    this._validateInitialized();
+
+    if (!projectId || typeof projectId !== 'string') {
+      throw new Error('Project ID must be a non-empty string');
+    }
+
+    this._validateScanSettings(scanSettings);
+
+    try {
+      const project = await this.getProject(projectId);
+      if (!project) {
+        throw new Error(`Project with ID "${projectId}" not found`);
+      }
+
+      // Only store the settings that were given
+      const settings: ScanSettings = {
+        ...(scanSettings.flattenDepth !== undefined ? { flattenDepth: scanSettings.flattenDepth } : {}),
+        ...(scanSettings.separator !== undefined ? { separator: scanSettings.separator } : {}),
+        ...(scanSettings.collisionStrategy !== undefined ? { collisionStrategy: scanSettings.collisionStrategy } : {}),
+        ...(scanSettings.logFormats !== undefined ? { logFormats: scanSettings.logFormats } : {}),
+        ...(scanSettings.tableRules !== undefined ? { tableRules: scanSettings.tableRules } : {})
+      };
+
+      const updatedProject = await this.updateProjectInRegistry(projectId, { scanSettings: settings });
+      await this.saveProjectJson(updatedProject);
+
+      return updatedProject;
+    } catch (error) {
+      if ((error as Error).message.includes('not found')) {
+        throw error;
+      }
+      throw new Error(`Failed to update scan settings: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Replace the watch settings of a project and save them to project.json
+   */
+  async updateWatchSettings(projectId: string, watchSettings: WatchSettings): Promise<Project> {
+    this._validateInitialized();
+
+    if (!projectId || typeof projectId !== 'string') {
+      throw new Error('Project ID must be a non-empty string');
+    }
+
+    this._validateWatchSettings(watchSettings);
+
+    try {
+      const project = await this.getProject(projectId);
+      if (!project) {
+        throw new Error(`Project with ID "${projectId}" not found`);
+      }
+
+      // Only store the settings that were given
+      const settings: WatchSettings = {
+        enabled: watchSettings.enabled,
+        ...(watchSettings.usePolling !== undefined ? { usePolling: watchSettings.usePolling } : {}),
+        ...(watchSettings.debounceMs !== undefined ? { debounceMs: watchSettings.debounceMs } : {})
+      };
+
+      const updatedProject = await this.updateProjectInRegistry(projectId, { watchSettings: settings });
+      await this.saveProjectJson(updatedProject);
+
+      return updatedProject;
+    } catch (error) {
+      if ((error as Error).message.includes('not found')) {
+        throw error;
+      }
+      throw new Error(`Failed to update watch settings: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Replace the scan schedule of a project and save it to project.json
+   * A null schedule leaves the project to manual scans
+   */
+  async updateScanSchedule(projectId: string, scanSchedule: ScanSchedule | null): Promise<Project> {
+    this._validateInitialized();
+
+    if (!projectId || typeof projectId !== 'string') {
+      throw new Error('Project ID must be a non-empty string');
+    }
+
+    if (scanSchedule !== null) {
+      this._validateScanSchedule(scanSchedule);
+    }
+
+    try {
+      const project = await this.getProject(projectId);
+      if (!project) {
+        throw new Error(`Project with ID "${projectId}" not found`);
+      }
+
+      // Only store the settings used by the chosen frequency
+      const schedule: ScanSchedule | undefined = scanSchedule === null ? undefined : {
+        frequency: scanSchedule.frequency,
+        ...(scanSchedule.frequency === 'hourly' && scanSchedule.minute !== undefined ? { minute: scanSchedule.minute } : {}),
+        ...(scanSchedule.frequency === 'daily' ? { time: scanSchedule.time } : {}),
+        ...(scanSchedule.frequency === 'cron' ? { cron: scanSchedule.cron!.trim() } : {}),
+        updatedDate: new Date()
+      };
+
+      const updatedProject = await this.updateProjectInRegistry(projectId, {
+        scanSchedule: schedule,
+        ...(schedule ? {} : { scheduleStatus: undefined })
+      });
+      await this.saveProjectJson(updatedProject);
+
+      return updatedProject;
+    } catch (error) {
+      if ((error as Error).message.includes('not found')) {
+        throw error;
+      }
+      throw new Error(`Failed to update scan schedule: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Remove a source folder from a project
    */
@@ -840,6 +998,200 @@ export class ProjectManager {
     }
   }
 
+  /**
+   * Validate the parse settings of a source folder
+   */
+  private _validateSourceFolderSettings(settings: SourceFolderSettings): void {
+    for (const selector of settings.recordSelectors || []) {
+      try {
+        new JsonPath(selector.path);
+        for (const field of selector.parentFields || []) {
+          if (new JsonPath(field).hasWildcard()) {
+            throw new Error(`Parent field "${field}" must not contain wildcards`);
+          }
+        }
+        if (selector.pattern !== undefined) {
+          new GlobPattern(selector.pattern);
+        }
+      } catch (error) {
+        throw new Error(`Invalid record selector: ${(error as Error).message}`);
+      }
+    }
+
+    for (const arrayPath of settings.childTables || []) {
+      if (typeof arrayPath !== 'string' || !/^[^.\s]+(\.[^.\s]+)*$/.test(arrayPath)) {
+        throw new Error(`Invalid child table path "${arrayPath}": use dotted field names such as items or order.lines`);
+      }
+    }
+
+    for (const rule of settings.fileRules || []) {
+      if (rule.type !== 'include' && rule.type !== 'exclude') {
+        throw new Error(`Invalid file rule type "${rule.type}": use include or exclude`);
+      }
+      try {
+        new GlobPattern(rule.pattern);
+      } catch (error) {
+        throw new Error(`Invalid file rule: ${(error as Error).message}`);
+      }
+    }
+
+    if (settings.maxDepth !== undefined && (!Number.isInteger(settings.maxDepth) || settings.maxDepth < 0)) {
+      throw new Error('Max depth must be a whole number of 0 or more');
+    }
+
+    const { excelOptions } = settings;
+    for (const sheet of excelOptions?.sheets || []) {
+      try {
+        new GlobPattern(sheet);
+      } catch (error) {
+        throw new Error(`Invalid sheet pattern: ${(error as Error).message}`);
+      }
+    }
+    if (excelOptions?.headerRow !== undefined && (!Number.isInteger(excelOptions.headerRow) || excelOptions.headerRow < 1)) {
+      throw new Error('Header row must be a whole number of 1 or more');
+    }
+    if (excelOptions?.headerRow !== undefined && excelOptions.noHeader) {
+      throw new Error('A header row cannot be set for sheets without a header');
+    }
+
+    if (settings.xmlOptions?.recordPath !== undefined) {
+      new XmlRecordReader(settings.xmlOptions.recordPath);
+    }
+  }
+
+  /**
+   * Validate the scan settings of a project
+   */
+  private _validateScanSettings(scanSettings: ScanSettings): void {
+    if (!scanSettings || typeof scanSettings !== 'object') {
+      throw new Error('Scan settings must be an object');
+    }
+
+    const { flattenDepth, separator, collisionStrategy, logFormats, tableRules } = scanSettings;
+    if (flattenDepth !== undefined && (!Number.isInteger(flattenDepth) || flattenDepth < 0 || flattenDepth > MAX_FLATTEN_DEPTH)) {
+      throw new Error(`Flatten depth must be a whole number from 0 to ${MAX_FLATTEN_DEPTH}`);
+    }
+    if (separator !== undefined && !FLATTEN_SEPARATORS.includes(separator)) {
+      throw new Error(`Separator must be one of: ${FLATTEN_SEPARATORS.join(' ')}`);
+    }
+    if (collisionStrategy !== undefined && !COLUMN_COLLISION_STRATEGIES.includes(collisionStrategy)) {
+      throw new Error(`Collision strategy must be one of: ${COLUMN_COLLISION_STRATEGIES.join(', ')}`);
+    }
+    if (logFormats !== undefined && !Array.isArray(logFormats)) {
+      throw new Error('Log formats must be an array');
+    }
+
+    for (const logFormat of logFormats || []) {
+      try {
+        if (!logFormat || typeof logFormat.pattern !== 'string') {
+          throw new Error('A file pattern is required');
+        }
+        new GlobPattern(logFormat.pattern);
+        new LogParser(logFormat);
+      } catch (error) {
+        throw new Error(`Invalid log format: ${(error as Error).message}`);
+      }
+    }
+
+    if (tableRules !== undefined && !Array.isArray(tableRules)) {
+      throw new Error('Table rules must be an array');
+    }
+    for (const tableRule of tableRules || []) {
+      try {
+        this._validateTableRule(tableRule);
+      } catch (error) {
+        throw new Error(`Invalid table rule: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Validate a rule routing records to a named table
+   */
+  private _validateTableRule(tableRule: TableRule): void {
+    if (!tableRule || typeof tableRule !== 'object') {
+      throw new Error('A table rule must be an object');
+    }
+
+    const { table, sourceFolder, pattern, field, value } = tableRule;
+    if (typeof table !== 'string' || !/^[a-z][a-z0-9_]*$/.test(table)) {
+      throw new Error('Table name must start with a lowercase letter and hold only lowercase letters, digits and underscores');
+    }
+    if (table.includes(CHILD_TABLE_SEPARATOR)) {
+      throw new Error(`Table name ${table} must not contain ${CHILD_TABLE_SEPARATOR}, which names child tables`);
+    }
+    if (RESERVED_TABLE_NAMES.includes(table) || RESERVED_TABLE_PREFIXES.some(prefix => table.startsWith(prefix))) {
+      throw new Error(`Table name ${table} is reserved`);
+    }
+    if (sourceFolder === undefined && pattern === undefined && field === undefined) {
+      throw new Error(`The rule for table ${table} needs a source folder, a file pattern or a field`);
+    }
+    if (sourceFolder !== undefined && (typeof sourceFolder !== 'string' || !sourceFolder.trim())) {
+      throw new Error('Source folder must be a non-empty path');
+    }
+    if (pattern !== undefined) {
+      if (typeof pattern !== 'string') {
+        throw new Error('File pattern must be a string');
+      }
+      new GlobPattern(pattern);
+    }
+    if (field !== undefined && (typeof field !== 'string' || !/^[^.\s]+(\.[^.\s]+)*$/.test(field))) {
+      throw new Error(`Invalid field "${field}": use dotted field names such as type or meta.kind`);
+    }
+    if ((field === undefined) !== (value === undefined)) {
+      throw new Error(`The rule for table ${table} needs both a field and the value it must hold`);
+    }
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error('Field value must be a string');
+    }
+  }
+
+  /**
+   * Validate the watch settings of a project
+   */
+  private _validateWatchSettings(watchSettings: WatchSettings): void {
+    if (!watchSettings || typeof watchSettings !== 'object') {
+      throw new Error('Watch settings must be an object');
+    }
+    if (typeof watchSettings.enabled !== 'boolean') {
+      throw new Error('Watch settings must say whether watching is enabled');
+    }
+    const { debounceMs } = watchSettings;
+    if (debounceMs !== undefined && (!Number.isInteger(debounceMs) || debounceMs < 0)) {
+      throw new Error('Debounce time must be a whole number of milliseconds of 0 or more');
+    }
+  }
+
+  /**
+   * Validate the scan schedule of a project
+   */
+  private _validateScanSchedule(scanSchedule: ScanSchedule): void {
+    if (!scanSchedule || typeof scanSchedule !== 'object') {
+      throw new Error('Scan schedule must be an object');
+    }
+
+    const { frequency, minute, time, cron } = scanSchedule;
+    if (!SCAN_SCHEDULE_FREQUENCIES.includes(frequency)) {
+      throw new Error(`Scan schedule frequency must be one of: ${SCAN_SCHEDULE_FREQUENCIES.join(', ')}`);
+    }
+    if (frequency === 'hourly' && minute !== undefined && (!Number.isInteger(minute) || minute < 0 || minute > 59)) {
+      throw new Error('Minute of hourly scans must be a whole number from 0 to 59');
+    }
+    if (frequency === 'daily') {
+      const match = (time ?? '').match(/^(\d{1,2}):(\d{2})$/);
+      if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+        throw new Error('Daily scans need a time as HH:MM');
+      }
+    }
+    if (frequency === 'cron') {
+      try {
+        new CronExpression(cron ?? '').next(new Date());
+      } catch (error) {
+        throw new Error(`Invalid cron expression: ${(error as Error).message}`);
+      }
+    }
+  }
+
   /**
    * Validate project object structure
    */
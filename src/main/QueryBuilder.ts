@@ -0,0 +1,211 @@
+import { QueryModel, QueryFilter, QueryResult } from '../types';
+import { DatabaseManager } from './DatabaseManager';
+
+interface CompiledQuery {
+  sql: string;          // Paginated SELECT statement
+  params: any[];        // Parameters for the SELECT statement
+  countSql: string;     // COUNT(*) statement without pagination
+  countParams: any[];   // Parameters for the COUNT(*) statement
+}
+
+interface TableColumn {
+  name: string;
+  type: string;         // Declared SQLite type, may be empty
+}
+
+/**
+ * QueryBuilder compiles structured QueryModel objects into parameterized SQL
+ * and executes them against a project's data table or a view's data table.
+ * Column names are validated against the table schema since identifiers cannot be bound as parameters.
+ */
+export class QueryBuilder {
+  /**
+   * Execute a query model against the data table it targets
+   */
+  async execute(databaseManager: DatabaseManager, query: QueryModel): Promise<QueryResult> {
+    if (!databaseManager || !query) {
+      throw new Error('DatabaseManager and query are required');
+    }
+
+    if (!databaseManager.isConnected()) {
+      throw new Error('DatabaseManager must be connected before executing a query');
+    }
+
+    const tableName = databaseManager.getDataTableName(query.viewId);
+    const columns = await this.getTableColumns(databaseManager, tableName);
+
+    if (columns.length === 0) {
+      throw new Error(`No data table found for view "${query.viewId}". Scan the source folders first.`);
+    }
+
+    const compiled = this.compile(query, tableName, columns);
+
+    const countResult = await databaseManager.executeQuery(compiled.countSql, compiled.countParams);
+    const rows = await databaseManager.executeQuery(compiled.sql, compiled.params);
+
+    return {
+      data: rows.map(row => this.coerceRow(row, columns)),
+      totalCount: countResult[0]?.total || 0,
+      columns: columns.map(col => col.name)
+    };
+  }
+
+  /**
+   * Compile a query model into parameterized SQL for the given table
+   */
+  compile(query: QueryModel, tableName: string, columns: TableColumn[]): CompiledQuery {
+    if (!query || !tableName) {
+      throw new Error('Query and table name are required');
+    }
+
+    const columnTypes = new Map<string, string>();
+    columns.forEach(col => columnTypes.set(col.name, (col.type || '').toUpperCase()));
+
+    const whereClauses: string[] = [];
+    const whereParams: any[] = [];
+
+    for (const filter of query.filters || []) {
+      const declaredType = columnTypes.get(filter.column);
+      if (declaredType === undefined) {
+        throw new Error(`Unknown column in filter: ${filter.column}`);
+      }
+
+      const { clause, params } = this.compileFilter(filter, declaredType);
+      whereClauses.push(clause);
+      whereParams.push(...params);
+    }
+
+    const fromClause = `FROM ${this.quoteIdentifier(tableName)}` +
+      (whereClauses.length > 0 ? ` WHERE ${whereClauses.join(' AND ')}` : '');
+
+    let sql = `SELECT * ${fromClause}`;
+    const params = [...whereParams];
+
+    if (query.sortBy) {
+      if (!columnTypes.has(query.sortBy)) {
+        throw new Error(`Unknown sort column: ${query.sortBy}`);
+      }
+      const direction = query.sortDirection === 'DESC' ? 'DESC' : 'ASC';
+      sql += ` ORDER BY ${this.quoteIdentifier(query.sortBy)} ${direction}`;
+    }
+
+    if (query.limit !== undefined || query.offset !== undefined) {
+      const limit = query.limit !== undefined ? this.validatePaginationValue(query.limit, 'limit') : -1;
+      const offset = query.offset !== undefined ? this.validatePaginationValue(query.offset, 'offset') : 0;
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(limit, offset);
+    }
+
+    return {
+      sql,
+      params,
+      countSql: `SELECT COUNT(*) AS total ${fromClause}`,
+      countParams: [...whereParams]
+    };
+  }
+
+  /**
+   * Compile a single filter into a WHERE clause fragment and its parameters
+   */
+  private compileFilter(filter: QueryFilter, declaredType: string): { clause: string; params: any[] } {
+    const column = this.quoteIdentifier(filter.column);
+    const isNumericFilter = filter.dataType === 'INTEGER' || filter.dataType === 'REAL';
+
+    // Columns declared as TEXT compare lexically, so cast them when the filter is numeric
+    const needsCast = isNumericFilter && declaredType !== 'INTEGER' && declaredType !== 'REAL';
+    const comparable = needsCast ? `CAST(${column} AS REAL)` : column;
+
+    switch (filter.operator) {
+      case 'equals':
+        if (filter.value === null || filter.value === undefined) {
+          return { clause: `${column} IS NULL`, params: [] };
+        }
+        return { clause: `${comparable} = ?`, params: [this.coerceFilterValue(filter)] };
+      case 'greater':
+        return { clause: `${comparable} > ?`, params: [this.coerceFilterValue(filter)] };
+      case 'less':
+        return { clause: `${comparable} < ?`, params: [this.coerceFilterValue(filter)] };
+      case 'contains':
+        return {
+          clause: `${column} LIKE ? ESCAPE '\\'`,
+          params: [`%${this.escapeLikePattern(String(filter.value ?? ''))}%`]
+        };
+      case 'like':
+        return { clause: `${column} LIKE ?`, params: [String(filter.value ?? '')] };
+      default:
+        throw new Error(`Unsupported filter operator: ${(filter as QueryFilter).operator}`);
+    }
+  }
+
+  /**
+   * Convert a filter value to the type declared by the filter
+   */
+  private coerceFilterValue(filter: QueryFilter): any {
+    if (filter.value === null || filter.value === undefined) {
+      throw new Error(`Filter value for "${filter.column}" is required for operator "${filter.operator}"`);
+    }
+
+    if (filter.dataType === 'INTEGER' || filter.dataType === 'REAL') {
+      const numericValue = typeof filter.value === 'number' ? filter.value : Number(String(filter.value).trim());
+      if (String(filter.value).trim() === '' || !Number.isFinite(numericValue)) {
+        throw new Error(`Filter value for "${filter.column}" must be a number`);
+      }
+      return filter.dataType === 'INTEGER' ? Math.trunc(numericValue) : numericValue;
+    }
+
+    return String(filter.value);
+  }
+
+  /**
+   * Convert row values to the JavaScript types matching their declared column types
+   */
+  private coerceRow(row: any, columns: TableColumn[]): any {
+    const typedRow: any = {};
+
+    columns.forEach(col => {
+      const value = row[col.name];
+      const declaredType = (col.type || '').toUpperCase();
+
+      if (typeof value === 'string' && (declaredType === 'INTEGER' || declaredType === 'REAL')) {
+        const numericValue = Number(value);
+        typedRow[col.name] = value.trim() !== '' && Number.isFinite(numericValue) ? numericValue : value;
+      } else {
+        typedRow[col.name] = value === undefined ? null : value;
+      }
+    });
+
+    return typedRow;
+  }
+
+  /**
+   * Get the columns of a table, or an empty array if the table does not exist
+   */
+  private async getTableColumns(databaseManager: DatabaseManager, tableName: string): Promise<TableColumn[]> {
+    const columns = await databaseManager.executeQuery(`PRAGMA table_info(${this.quoteIdentifier(tableName)})`);
+    return columns.map(col => ({ name: col.name, type: col.type }));
+  }
+
+  /**
+   * Validate a limit or offset value
+   */
+  private validatePaginationValue(value: number, name: string): number {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Query ${name} must be a non-negative integer`);
+    }
+    return value;
+  }
+
+  /**
+   * Escape LIKE wildcards so the value is matched literally
+   */
+  private escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+  }
+
+  /**
+   * Quote an identifier for use in SQL
+   */
+  private quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+}
@@ -0,0 +1,68 @@
+export const SCAN_CANCELLED_MESSAGE = 'Scan cancelled';
+
+/**
+ * ScanControl lets a running scan be paused, resumed and cancelled.
+ * The scan calls checkpoint() between units of work; it waits there while paused
+ * and throws once the scan has been cancelled so the caller can roll back.
+ */
+export class ScanControl {
+  private paused = false;
+  private cancelled = false;
+  private resumeWaiters: (() => void)[] = [];
+
+  /**
+   * Pause the scan at its next checkpoint
+   */
+  pause(): void {
+    if (!this.cancelled) {
+      this.paused = true;
+    }
+  }
+
+  /**
+   * Resume a paused scan
+   */
+  resume(): void {
+    this.paused = false;
+    this.releaseWaiters();
+  }
+
+  /**
+   * Cancel the scan at its next checkpoint, including while it is paused
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.paused = false;
+    this.releaseWaiters();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * Wait while the scan is paused and throw if it has been cancelled
+   */
+  async checkpoint(): Promise<void> {
+    while (this.paused) {
+      await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+    }
+
+    if (this.cancelled) {
+      throw new Error(SCAN_CANCELLED_MESSAGE);
+    }
+  }
+
+  /**
+   * Wake up everything waiting in checkpoint()
+   */
+  private releaseWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
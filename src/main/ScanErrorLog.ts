@@ -0,0 +1,86 @@
+import { ScanError, RecordedScanError, SCAN_ERRORS_TABLE } from '../types';
+import { DatabaseManager } from './DatabaseManager';
+
+// Number of scan runs whose errors are kept; older runs are pruned when a scan is recorded
+const SCAN_RUNS_KEPT = 20;
+
+// Number of errors inserted with a single INSERT statement
+const INSERT_CHUNK_SIZE = 100;
+
+/**
+ * ScanErrorLog keeps the errors reported by each scan run in the project database,
+ * so they can be reviewed after the scan: files that could not be read, lines that
+ * could not be parsed with a snippet of their text, and column name collisions.
+ */
+export class ScanErrorLog {
+  private databaseManager: DatabaseManager;
+
+  constructor(databaseManager: DatabaseManager) {
+    this.databaseManager = databaseManager;
+  }
+
+  /**
+   * Create the scan errors table if it does not exist
+   */
+  async ensureTable(): Promise<void> {
+    await this.databaseManager.executeNonQuery(`
+      CREATE TABLE IF NOT EXISTS ${SCAN_ERRORS_TABLE} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scan_id TEXT NOT NULL,
+        file TEXT NOT NULL,
+        line INTEGER,
+        error TEXT NOT NULL,
+        snippet TEXT,
+        recorded_date DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await this.databaseManager.executeNonQuery(
+      `CREATE INDEX IF NOT EXISTS idx_${SCAN_ERRORS_TABLE}_scan_id ON ${SCAN_ERRORS_TABLE} (scan_id)`
+    );
+  }
+
+  /**
+   * Record the errors of a scan run and prune the errors of old runs
+   */
+  async recordScan(scanId: string, errors: ScanError[]): Promise<void> {
+    await this.ensureTable();
+
+    for (let i = 0; i < errors.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = errors.slice(i, i + INSERT_CHUNK_SIZE);
+      const params: any[] = [];
+      chunk.forEach(error => params.push(scanId, error.file, error.line ?? null, error.error, error.snippet ?? null));
+
+      await this.databaseManager.executeNonQuery(
+        `INSERT INTO ${SCAN_ERRORS_TABLE} (scan_id, file, line, error, snippet) VALUES ${chunk.map(() => '(?, ?, ?, ?, ?)').join(', ')}`,
+        params
+      );
+    }
+
+    await this.databaseManager.executeNonQuery(`
+      DELETE FROM ${SCAN_ERRORS_TABLE} WHERE scan_id NOT IN (
+        SELECT scan_id FROM ${SCAN_ERRORS_TABLE} GROUP BY scan_id ORDER BY MAX(id) DESC LIMIT ?
+      )
+    `, [SCAN_RUNS_KEPT]);
+  }
+
+  /**
+   * Get the errors of a scan run in the order they were reported
+   */
+  async getErrors(scanId: string): Promise<RecordedScanError[]> {
+    await this.ensureTable();
+
+    const rows = await this.databaseManager.executeQuery(
+      `SELECT id, scan_id, file, line, error, snippet FROM ${SCAN_ERRORS_TABLE} WHERE scan_id = ? ORDER BY id`,
+      [scanId]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      scanId: row.scan_id,
+      file: row.file,
+      error: row.error,
+      ...(row.line !== null ? { line: row.line } : {}),
+      ...(row.snippet !== null ? { snippet: row.snippet } : {})
+    }));
+  }
+}
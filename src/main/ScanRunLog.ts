@@ -0,0 +1,164 @@
+import { ScanRun, ScanRunColumn, SchemaChange, SCAN_RUNS_TABLE } from '../types';
+import { DatabaseManager } from './DatabaseManager';
+
+/**
+ * ScanRunLog keeps the history of completed scan runs in the project database:
+ * when each run started and ended, how many files and records it processed, how many
+ * errors it reported and a snapshot of the schema of the scanned tables afterwards.
+ * Snapshots of two runs can be compared to see how the schema changed between them.
+ */
+export class ScanRunLog {
+  private databaseManager: DatabaseManager;
+
+  constructor(databaseManager: DatabaseManager) {
+    this.databaseManager = databaseManager;
+  }
+
+  /**
+   * Create the scan runs table if it does not exist
+   */
+  async ensureTable(): Promise<void> {
+    await this.databaseManager.executeNonQuery(`
+      CREATE TABLE IF NOT EXISTS ${SCAN_RUNS_TABLE} (
+        id TEXT PRIMARY KEY,
+        started_date TEXT NOT NULL,
+        completed_date TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        total_files INTEGER NOT NULL,
+        added_files INTEGER NOT NULL,
+        modified_files INTEGER NOT NULL,
+        removed_files INTEGER NOT NULL,
+        unchanged_files INTEGER NOT NULL,
+        inserted_records INTEGER NOT NULL,
+        error_count INTEGER NOT NULL,
+        full_rebuild INTEGER NOT NULL,
+        schema TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Record a completed scan run
+   */
+  async recordRun(run: ScanRun): Promise<void> {
+    await this.ensureTable();
+
+    await this.databaseManager.executeNonQuery(
+      `INSERT INTO ${SCAN_RUNS_TABLE} (
+        id, started_date, completed_date, duration_ms, total_files, added_files, modified_files,
+        removed_files, unchanged_files, inserted_records, error_count, full_rebuild, schema
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        run.id,
+        run.startedDate.toISOString(),
+        run.completedDate.toISOString(),
+        run.durationMs,
+        run.totalFiles,
+        run.addedFiles,
+        run.modifiedFiles,
+        run.removedFiles,
+        run.unchangedFiles,
+        run.insertedRecords,
+        run.errorCount,
+        run.fullRebuild ? 1 : 0,
+        JSON.stringify(run.schema)
+      ]
+    );
+  }
+
+  /**
+   * Get all recorded scan runs, most recent first
+   */
+  async getRuns(): Promise<ScanRun[]> {
+    await this.ensureTable();
+
+    const rows = await this.databaseManager.executeQuery(
+      `SELECT * FROM ${SCAN_RUNS_TABLE} ORDER BY completed_date DESC, rowid DESC`
+    );
+    return rows.map(row => this.toScanRun(row));
+  }
+
+  /**
+   * Get the most recently completed scan run, or null if no scan has completed
+   */
+  async getLatestRun(): Promise<ScanRun | null> {
+    await this.ensureTable();
+
+    const rows = await this.databaseManager.executeQuery(
+      `SELECT * FROM ${SCAN_RUNS_TABLE} ORDER BY completed_date DESC, rowid DESC LIMIT 1`
+    );
+    return rows[0] ? this.toScanRun(rows[0]) : null;
+  }
+
+  /**
+   * Get a recorded scan run
+   */
+  async getRun(scanId: string): Promise<ScanRun | null> {
+    await this.ensureTable();
+
+    const rows = await this.databaseManager.executeQuery(`SELECT * FROM ${SCAN_RUNS_TABLE} WHERE id = ?`, [scanId]);
+    return rows[0] ? this.toScanRun(rows[0]) : null;
+  }
+
+  /**
+   * List the columns added, removed or retyped between the schemas of two scan runs
+   */
+  async compareRuns(fromScanId: string, toScanId: string): Promise<SchemaChange[]> {
+    const fromRun = await this.getRun(fromScanId);
+    const toRun = await this.getRun(toScanId);
+    if (!fromRun || !toRun) {
+      throw new Error(`Scan run not found: ${!fromRun ? fromScanId : toScanId}`);
+    }
+
+    return this.compareSchemas(fromRun.schema, toRun.schema);
+  }
+
+  /**
+   * List the columns added, removed or retyped between two schema snapshots
+   * Columns are matched by table and case-insensitive name, as SQLite does
+   */
+  compareSchemas(fromSchema: ScanRunColumn[], toSchema: ScanRunColumn[]): SchemaChange[] {
+    const keyOf = (column: ScanRunColumn) => `${column.table}\u0000${column.name.toLowerCase()}`;
+    const fromColumns = new Map(fromSchema.map(column => [keyOf(column), column]));
+    const toColumns = new Map(toSchema.map(column => [keyOf(column), column]));
+    const changes: SchemaChange[] = [];
+
+    for (const column of toSchema) {
+      const previous = fromColumns.get(keyOf(column));
+      if (!previous) {
+        changes.push({ table: column.table, column: column.name, change: 'added', toType: column.dataType });
+      } else if (previous.dataType !== column.dataType) {
+        changes.push({ table: column.table, column: column.name, change: 'type-changed', fromType: previous.dataType, toType: column.dataType });
+      }
+    }
+
+    for (const column of fromSchema) {
+      if (!toColumns.has(keyOf(column))) {
+        changes.push({ table: column.table, column: column.name, change: 'removed', fromType: column.dataType });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Convert a row of the scan runs table to a scan run
+   */
+  private toScanRun(row: any): ScanRun {
+    return {
+      id: row.id,
+      startedDate: new Date(row.started_date),
+      completedDate: new Date(row.completed_date),
+      durationMs: row.duration_ms,
+      totalFiles: row.total_files,
+      addedFiles: row.added_files,
+      modifiedFiles: row.modified_files,
+      removedFiles: row.removed_files,
+      unchangedFiles: row.unchanged_files,
+      insertedRecords: row.inserted_records,
+      errorCount: row.error_count,
+      fullRebuild: row.full_rebuild === 1,
+      schema: JSON.parse(row.schema)
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { ScanSchedule } from '../types';
+import { CronExpression } from './CronExpression';
+
+export interface ScanSchedulerOptions {
+  onDue: (projectId: string) => void;   // Called when a project's schedule fires
+  checkIntervalMs?: number;
+}
+
+interface ScheduledProject {
+  expression: CronExpression;
+  nextRunDate: Date;
+  timer: NodeJS.Timeout | null;
+}
+
+// Longest wait between checks of a schedule, so runs missed while the computer slept fire soon after it wakes
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * ScanScheduler fires the scan schedules of projects while the application is open.
+ * Hourly and daily schedules are turned into cron expressions, and every schedule is checked
+ * at least once a minute, so a run that was due while the computer slept fires once when it wakes.
+ */
+export class ScanScheduler {
+  private scheduled = new Map<string, ScheduledProject>();
+  private onDue: ScanSchedulerOptions['onDue'];
+  private checkIntervalMs: number;
+
+  constructor(options: ScanSchedulerOptions) {
+    this.onDue = options.onDue;
+    this.checkIntervalMs = options.checkIntervalMs ?? CHECK_INTERVAL_MS;
+  }
+
+  /**
+   * Schedule a project's scans, replacing any previous schedule of the project
+   * Returns when the schedule first fires
+   */
+  schedule(projectId: string, schedule: ScanSchedule, now: Date = new Date()): Date {
+    this.unschedule(projectId);
+
+    const expression = this.toCronExpression(schedule);
+    const entry: ScheduledProject = { expression, nextRunDate: expression.next(now), timer: null };
+    this.scheduled.set(projectId, entry);
+    this.arm(projectId, entry);
+
+    return entry.nextRunDate;
+  }
+
+  /**
+   * Stop firing a project's schedule
+   */
+  unschedule(projectId: string): void {
+    const entry = this.scheduled.get(projectId);
+    if (entry?.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.scheduled.delete(projectId);
+  }
+
+  /**
+   * Stop firing all schedules, e.g. when the application quits
+   */
+  unscheduleAll(): void {
+    Array.from(this.scheduled.keys()).forEach(projectId => this.unschedule(projectId));
+  }
+
+  /**
+   * Get when a project's schedule next fires, or null if the project is not scheduled
+   */
+  getNextRunDate(projectId: string): Date | null {
+    return this.scheduled.get(projectId)?.nextRunDate ?? null;
+  }
+
+  /**
+   * Get the last time a schedule was due after a date, or null if it was not due since then
+   * Used on launch to catch up on a run missed while the application was closed
+   */
+  getMissedRunDate(schedule: ScanSchedule, since: Date, now: Date = new Date()): Date | null {
+    const previous = this.toCronExpression(schedule).previous(now);
+    return previous && previous.getTime() > since.getTime() ? previous : null;
+  }
+
+  /**
+   * Convert a schedule to the cron expression it fires on
+   */
+  toCronExpression(schedule: ScanSchedule): CronExpression {
+    switch (schedule.frequency) {
+      case 'hourly':
+        return new CronExpression(`${schedule.minute ?? 0} * * * *`);
+      case 'daily': {
+        const match = (schedule.time ?? '').match(/^(\d{1,2}):(\d{2})$/);
+        if (!match) {
+          throw new Error('Daily scans need a time as HH:MM');
+        }
+        return new CronExpression(`${Number(match[2])} ${Number(match[1])} * * *`);
+      }
+      case 'cron':
+        return new CronExpression(schedule.cron ?? '');
+      default:
+        throw new Error(`Unknown scan schedule frequency: ${schedule.frequency}`);
+    }
+  }
+
+  /**
+   * Wait for the next check of a project's schedule, firing it once it is due
+   */
+  private arm(projectId: string, entry: ScheduledProject): void {
+    const delay = Math.max(0, Math.min(entry.nextRunDate.getTime() - Date.now(), this.checkIntervalMs));
+
+    entry.timer = setTimeout(() => {
+      if (this.scheduled.get(projectId) !== entry) return;
+
+      const now = new Date();
+      if (now.getTime() >= entry.nextRunDate.getTime()) {
+        entry.nextRunDate = entry.expression.next(now);
+        this.onDue(projectId);
+      }
+
+      if (this.scheduled.get(projectId) === entry) {
+        this.arm(projectId, entry);
+      }
+    }, delay);
+  }
+}
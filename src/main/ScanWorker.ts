@@ -0,0 +1,69 @@
+import { parentPort, workerData } from 'worker_threads';
+import { DatabaseManager } from './DatabaseManager';
+import { DataIngestor } from './DataIngestor';
+import { FileScanner } from './FileScanner';
+import { ScanControl } from './ScanControl';
+import { ScanWorkerData, ScanWorkerCommand, ScanWorkerMessage } from './ScanWorkerManager';
+
+/**
+ * Worker thread entry point that ingests a project's source folders.
+ * The worker opens its own connection to the project database and reports
+ * progress and the outcome of the scan back to ScanWorkerManager.
+ */
+async function runScan(): Promise<void> {
+  if (!parentPort) {
+    throw new Error('ScanWorker must be run as a worker thread');
+  }
+
+  const port = parentPort;
+  const { workingDirectory, sourceFolders, scanSettings, changedPaths } = workerData as ScanWorkerData;
+  const control = new ScanControl();
+  const postMessage = (message: ScanWorkerMessage) => port.postMessage(message);
+
+  const onCommand = (command: ScanWorkerCommand) => {
+    switch (command.type) {
+      case 'pause':
+        control.pause();
+        postMessage({ type: 'paused' });
+        break;
+      case 'resume':
+        control.resume();
+        postMessage({ type: 'resumed' });
+        break;
+      case 'cancel':
+        control.cancel();
+        break;
+    }
+  };
+  port.on('message', onCommand);
+
+  const dbManager = new DatabaseManager(workingDirectory);
+
+  try {
+    await dbManager.openProjectDatabase(workingDirectory);
+
+    const fileScanner = new FileScanner(scanSettings);
+    fileScanner.loadProjectParsers(workingDirectory);
+
+    const dataIngestor = new DataIngestor(dbManager, fileScanner);
+    const results = await dataIngestor.ingest(sourceFolders, {
+      progressCallback: progress => postMessage({ type: 'progress', progress }),
+      control,
+      changedPaths
+    });
+
+    postMessage({ type: 'complete', results });
+  } catch (error) {
+    if (control.isCancelled()) {
+      postMessage({ type: 'cancelled' });
+    } else {
+      postMessage({ type: 'error', message: (error as Error).message });
+    }
+  } finally {
+    await dbManager.closeProjectDatabase().catch(() => undefined);
+    // Stop listening so the worker can exit
+    port.off('message', onCommand);
+  }
+}
+
+runScan();
@@ -0,0 +1,204 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { SourceFolder, ScanSettings } from '../types';
+import { IngestProgress, IngestResults } from './DataIngestor';
+
+export interface ScanWorkerData {
+  workingDirectory: string;
+  sourceFolders: SourceFolder[];
+  scanSettings: ScanSettings;
+  changedPaths?: string[] | undefined;  // Limits the scan to files under these paths
+}
+
+// Commands sent from the main thread to a scan worker
+export type ScanWorkerCommand =
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'cancel' };
+
+// Messages sent from a scan worker to the main thread
+export type ScanWorkerMessage =
+  | { type: 'progress'; progress: IngestProgress }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'complete'; results: IngestResults }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+export type ScanOutcome =
+  | { status: 'completed'; results: IngestResults }
+  | { status: 'cancelled' };
+
+export interface ScanCallbacks {
+  onProgress?: (progress: IngestProgress) => void;
+  onPaused?: () => void;
+  onResumed?: () => void;
+}
+
+interface ScanWorkerOptions {
+  workerScript?: string;    // Path to the compiled worker entry point
+  execArgv?: string[];      // Node.js options for the worker thread
+}
+
+interface ActiveScan {
+  worker: Worker;
+  paused: boolean;
+  cancelRequested: boolean;
+}
+
+/**
+ * ScanWorkerManager runs project scans on worker threads so parsing and insertion
+ * do not block the main process, and forwards pause, resume and cancel commands.
+ * Only one scan can run per project at a time.
+ */
+export class ScanWorkerManager {
+  private activeScans = new Map<string, ActiveScan>();
+  private workerScript: string;
+  private execArgv: string[] | undefined;
+
+  constructor(options: ScanWorkerOptions = {}) {
+    this.workerScript = options.workerScript || path.join(__dirname, 'ScanWorker.js');
+    this.execArgv = options.execArgv;
+  }
+
+  /**
+   * Start scanning a project's source folders on a worker thread
+   * Resolves when the scan completes or is cancelled, and rejects when it fails
+   * When changedPaths is given, only files under those paths are compared with the previous scan
+   */
+  startScan(
+    projectId: string,
+    workingDirectory: string,
+    sourceFolders: SourceFolder[],
+    callbacks: ScanCallbacks = {},
+    scanSettings: ScanSettings = {},
+    changedPaths?: string[]
+  ): Promise<ScanOutcome> {
+    if (!projectId || !workingDirectory) {
+      return Promise.reject(new Error('Project ID and working directory are required'));
+    }
+
+    if (this.activeScans.has(projectId)) {
+      return Promise.reject(new Error('A scan is already running for this project'));
+    }
+
+    const workerData: ScanWorkerData = { workingDirectory, sourceFolders, scanSettings, changedPaths };
+    const worker = new Worker(this.workerScript, {
+      workerData,
+      ...(this.execArgv ? { execArgv: this.execArgv } : {})
+    });
+    const activeScan: ActiveScan = { worker, paused: false, cancelRequested: false };
+    this.activeScans.set(projectId, activeScan);
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const settle = (outcome: ScanOutcome | Error) => {
+        if (settled) return;
+        settled = true;
+        this.activeScans.delete(projectId);
+
+        if (outcome instanceof Error) {
+          reject(outcome);
+        } else {
+          resolve(outcome);
+        }
+      };
+
+      worker.on('message', (message: ScanWorkerMessage) => {
+        switch (message.type) {
+          case 'progress':
+            callbacks.onProgress?.(message.progress);
+            break;
+          case 'paused':
+            activeScan.paused = true;
+            callbacks.onPaused?.();
+            break;
+          case 'resumed':
+            activeScan.paused = false;
+            callbacks.onResumed?.();
+            break;
+          case 'complete':
+            settle({ status: 'completed', results: message.results });
+            break;
+          case 'cancelled':
+            settle({ status: 'cancelled' });
+            break;
+          case 'error':
+            settle(new Error(message.message));
+            break;
+        }
+      });
+
+      worker.on('error', error => {
+        settle(new Error(`Scan worker failed: ${error.message}`));
+      });
+
+      worker.on('exit', code => {
+        if (activeScan.cancelRequested) {
+          settle({ status: 'cancelled' });
+        } else {
+          settle(new Error(`Scan worker stopped unexpectedly with exit code ${code}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Pause a running scan
+   */
+  pauseScan(projectId: string): void {
+    this.getActiveScan(projectId).worker.postMessage({ type: 'pause' } as ScanWorkerCommand);
+  }
+
+  /**
+   * Resume a paused scan
+   */
+  resumeScan(projectId: string): void {
+    this.getActiveScan(projectId).worker.postMessage({ type: 'resume' } as ScanWorkerCommand);
+  }
+
+  /**
+   * Cancel a running scan; its changes are rolled back
+   */
+  cancelScan(projectId: string): void {
+    const activeScan = this.getActiveScan(projectId);
+    activeScan.cancelRequested = true;
+    activeScan.worker.postMessage({ type: 'cancel' } as ScanWorkerCommand);
+  }
+
+  /**
+   * Check whether a scan is running for a project
+   */
+  isScanning(projectId: string): boolean {
+    return this.activeScans.has(projectId);
+  }
+
+  /**
+   * Check whether a project's scan is paused
+   */
+  isPaused(projectId: string): boolean {
+    return this.activeScans.get(projectId)?.paused ?? false;
+  }
+
+  /**
+   * Stop all running scans, e.g. when the application quits
+   * Terminating a worker discards its open transaction
+   */
+  async terminateAll(): Promise<void> {
+    const scans = Array.from(this.activeScans.values());
+    scans.forEach(scan => { scan.cancelRequested = true; });
+    await Promise.all(scans.map(scan => scan.worker.terminate()));
+  }
+
+  /**
+   * Get the running scan of a project or throw if there is none
+   */
+  private getActiveScan(projectId: string): ActiveScan {
+    const activeScan = this.activeScans.get(projectId);
+    if (!activeScan) {
+      throw new Error('No scan is running for this project');
+    }
+    return activeScan;
+  }
+}
@@ -0,0 +1,485 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { PassThrough, Readable, pipeline } from 'stream';
+import bz2 from 'unbzip2-stream';
+import { ARCHIVE_ENTRY_SEPARATOR, ARCHIVE_FILE_EXTENSIONS, COMPRESSED_FILE_EXTENSIONS } from '../types';
+
+export interface ZipEntry {
+  name: string;               // Path of the entry inside the archive
+  compressionMethod: number;  // 0 = stored, 8 = deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;  // Offset of the entry's local file header in the archive
+  encrypted: boolean;
+}
+
+export interface SourceFileStats {
+  size: number;     // Size of the file or archive entry in bytes
+  mtimeMs: number;  // Modification time of the file, or of the archive containing the entry
+}
+
+export interface SourceLine {
+  text: string;     // The line without its line ending
+  line: number;     // 1-based line number
+  offset: number;   // Byte offset of the start of the line in the decompressed contents
+}
+
+// Reads parts of a file at any position, for formats whose metadata is at the end of the file
+export interface RandomAccessFile {
+  size: number;                                               // Size of the decompressed contents in bytes
+  read: (position: number, length: number) => Promise<Buffer>;  // Reads fewer bytes only at the end of the contents
+  close: () => Promise<void>;
+}
+
+interface ZipDirectory {
+  size: number;
+  mtimeMs: number;
+  entries: Map<string, ZipEntry>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_ZIP_COMMENT_SIZE = 0xffff;
+
+/**
+ * SourceFileReader gives the scanner uniform access to plain files, gzip and bzip2
+ * compressed files and entries inside zip archives.
+ * Zip entries are addressed with virtual paths such as `archive.zip!/inner/path.json`,
+ * and compressed files are decompressed on the fly while they are read, including files
+ * found to be compressed by their content rather than their extension.
+ */
+export class SourceFileReader {
+  private zipDirectories = new Map<string, ZipDirectory>();
+  private contentCompression = new Map<string, string>();  // Compression extension of files compressed without one
+
+  /**
+   * Check whether a path refers to a zip archive
+   */
+  isZipArchive(filePath: string): boolean {
+    return !this.isArchiveEntry(filePath) && ARCHIVE_FILE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Check whether a path is a virtual path to an entry inside a zip archive
+   */
+  isArchiveEntry(filePath: string): boolean {
+    return this.splitArchivePath(filePath) !== null;
+  }
+
+  /**
+   * Build the virtual path of an entry inside a zip archive
+   */
+  getEntryPath(archivePath: string, entryName: string): string {
+    return `${archivePath}${ARCHIVE_ENTRY_SEPARATOR}${entryName}`;
+  }
+
+  /**
+   * Get the extension that decides how a file is parsed, ignoring compression extensions
+   * e.g. `events.jsonl.gz` and `bundle.zip!/events.jsonl` both resolve to `.jsonl`
+   */
+  getFormatExtension(filePath: string): string {
+    let name = path.basename(this.splitArchivePath(filePath)?.entryName ?? filePath);
+    let extension = path.extname(name).toLowerCase();
+
+    while (COMPRESSED_FILE_EXTENSIONS.includes(extension)) {
+      name = name.slice(0, -extension.length);
+      extension = path.extname(name).toLowerCase();
+    }
+
+    return extension;
+  }
+
+  /**
+   * Detect a gzip or bzip2 stream from its first bytes, returning its compression extension
+   */
+  detectCompression(header: Buffer): string | null {
+    if (header[0] === 0x1f && header[1] === 0x8b) {
+      return '.gz';
+    }
+    // BZh followed by the block size digit
+    const blockSize = header[3] ?? 0;
+    if (header.subarray(0, 3).toString('latin1') === 'BZh' && blockSize >= 0x31 && blockSize <= 0x39) {
+      return '.bz2';
+    }
+    return null;
+  }
+
+  /**
+   * Decompress a file as if its name ended with a compression extension, for files found to be compressed
+   * by their content; null reads the file as it is again
+   */
+  setContentCompression(filePath: string, extension: string | null): void {
+    if (extension) {
+      this.contentCompression.set(filePath, extension);
+    } else {
+      this.contentCompression.delete(filePath);
+    }
+  }
+
+  /**
+   * Check whether a file, or the archive containing an entry, exists
+   */
+  exists(filePath: string): boolean {
+    const archivePath = this.splitArchivePath(filePath)?.archivePath;
+    return fs.existsSync(archivePath ?? filePath);
+  }
+
+  /**
+   * Get the size and modification time of a file or archive entry
+   */
+  async stat(filePath: string): Promise<SourceFileStats> {
+    const archive = this.splitArchivePath(filePath);
+    if (!archive) {
+      const stats = fs.statSync(filePath);
+      return { size: stats.size, mtimeMs: stats.mtimeMs };
+    }
+
+    const directory = await this.readZipDirectory(archive.archivePath);
+    const entry = this.getZipEntry(directory, archive.archivePath, archive.entryName);
+    return { size: entry.uncompressedSize, mtimeMs: directory.mtimeMs };
+  }
+
+  /**
+   * List the file entries of a zip archive as virtual paths
+   */
+  async listArchiveEntries(archivePath: string): Promise<string[]> {
+    const directory = await this.readZipDirectory(archivePath);
+    return Array.from(directory.entries.keys()).map(entryName => this.getEntryPath(archivePath, entryName));
+  }
+
+  /**
+   * Open a stream of the stored bytes of a file or archive entry, without decompressing them
+   * Used to fingerprint files cheaply
+   */
+  async createRawReadStream(filePath: string): Promise<Readable> {
+    const archive = this.splitArchivePath(filePath);
+    if (!archive) {
+      return fs.createReadStream(filePath);
+    }
+
+    const directory = await this.readZipDirectory(archive.archivePath);
+    const entry = this.getZipEntry(directory, archive.archivePath, archive.entryName);
+    const archiveFile = await this.openRandomAccess(archive.archivePath);
+    let dataOffset: number;
+    try {
+      dataOffset = await this.getEntryDataOffset(archiveFile, archive.archivePath, entry);
+    } finally {
+      await archiveFile.close();
+    }
+
+    if (entry.compressedSize === 0) {
+      return Readable.from([]);
+    }
+
+    return fs.createReadStream(archive.archivePath, {
+      start: dataOffset,
+      end: dataOffset + entry.compressedSize - 1
+    });
+  }
+
+  /**
+   * Open a stream of the decompressed contents of a file or archive entry
+   */
+  async createReadStream(filePath: string): Promise<Readable> {
+    const archive = this.splitArchivePath(filePath);
+    let inflateEntry = false;
+
+    if (archive) {
+      const directory = await this.readZipDirectory(archive.archivePath);
+      const entry = this.getZipEntry(directory, archive.archivePath, archive.entryName);
+
+      this.ensureReadableEntry(entry);
+      inflateEntry = entry.compressionMethod === 8;
+    }
+
+    let stream = await this.createRawReadStream(filePath);
+    if (inflateEntry) {
+      stream = this.decompress(stream, zlib.createInflateRaw());
+    }
+
+    // Undo compression layers from the outside in, e.g. `.json.gz` is gunzipped once
+    let name = path.basename(archive?.entryName ?? filePath);
+    let extension = path.extname(name).toLowerCase();
+
+    while (COMPRESSED_FILE_EXTENSIONS.includes(extension)) {
+      stream = this.decompress(stream, extension === '.gz' ? zlib.createGunzip() : bz2());
+      name = name.slice(0, -extension.length);
+      extension = path.extname(name).toLowerCase();
+    }
+
+    const contentCompression = this.contentCompression.get(filePath);
+    if (contentCompression) {
+      stream = this.decompress(stream, contentCompression === '.gz' ? zlib.createGunzip() : bz2());
+    }
+
+    return stream;
+  }
+
+  /**
+   * Open a file or archive entry for reading at any position
+   * Plain files are read in place; compressed files and archive entries are decompressed into memory first
+   */
+  async openRandomAccess(filePath: string): Promise<RandomAccessFile> {
+    const plain = this.isStoredPlain(filePath);
+
+    if (plain) {
+      const handle = await fs.promises.open(filePath, 'r');
+      const { size } = await handle.stat();
+      return {
+        size,
+        read: async (position, length) => {
+          const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+          const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+          return buffer.subarray(0, bytesRead);
+        },
+        close: () => handle.close()
+      };
+    }
+
+    const stream = await this.createReadStream(filePath);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    const contents = Buffer.concat(chunks);
+
+    return {
+      size: contents.length,
+      read: async (position, length) => contents.subarray(position, position + length),
+      close: async () => {}
+    };
+  }
+
+  /**
+   * Read the decompressed contents of a file or archive entry starting at a byte offset
+   * Plain files are read from the offset directly; compressed contents are decompressed up to it
+   */
+  async *readFrom(filePath: string, offset: number): AsyncGenerator<Buffer> {
+    const plain = this.isStoredPlain(filePath);
+    const stream = plain ? fs.createReadStream(filePath, { start: offset }) : await this.createReadStream(filePath);
+    let skip = plain ? 0 : offset;
+
+    try {
+      for await (const chunk of stream) {
+        const buffer: Buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        if (skip >= buffer.length) {
+          skip -= buffer.length;
+          continue;
+        }
+        yield skip > 0 ? buffer.subarray(skip) : buffer;
+        skip = 0;
+      }
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  /**
+   * Read the lines of a file or archive entry with their line numbers and byte offsets
+   * Lines may end with \n or \r\n; offsets count bytes of the decompressed contents
+   */
+  async *readLines(filePath: string): AsyncGenerator<SourceLine> {
+    const stream = await this.createReadStream(filePath);
+    let pending: Buffer[] = [];
+    let line = 1;
+    let offset = 0;
+
+    const takeLine = (bytes: Buffer): SourceLine => {
+      const text = bytes.toString('utf8');
+      const sourceLine = { text: text.endsWith('\r') ? text.slice(0, -1) : text, line, offset };
+      line++;
+      offset += bytes.length + 1;
+      return sourceLine;
+    };
+
+    try {
+      for await (const chunk of stream) {
+        const buffer: Buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        let start = 0;
+        let newline = buffer.indexOf(0x0a);
+
+        while (newline !== -1) {
+          pending.push(buffer.subarray(start, newline));
+          yield takeLine(pending.length === 1 ? pending[0]! : Buffer.concat(pending));
+          pending = [];
+          start = newline + 1;
+          newline = buffer.indexOf(0x0a, start);
+        }
+        if (start < buffer.length) {
+          pending.push(buffer.subarray(start));
+        }
+      }
+
+      if (pending.length > 0) {
+        yield takeLine(Buffer.concat(pending));
+      }
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  /**
+   * Read the decompressed contents of a file or archive entry as UTF-8 text
+   */
+  async readText(filePath: string): Promise<string> {
+    const stream = await this.createReadStream(filePath);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  /**
+   * Check whether a file's stored bytes are its contents: it is not an archive entry and not compressed
+   */
+  private isStoredPlain(filePath: string): boolean {
+    return !this.isArchiveEntry(filePath) && !COMPRESSED_FILE_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) &&
+      !this.contentCompression.has(filePath);
+  }
+
+  /**
+   * Split a virtual archive entry path into the archive path and entry name
+   */
+  private splitArchivePath(filePath: string): { archivePath: string; entryName: string } | null {
+    const match = /^(.*?\.zip)!\/(.+)$/i.exec(filePath);
+    if (!match) {
+      return null;
+    }
+    return { archivePath: match[1]!, entryName: match[2]! };
+  }
+
+  /**
+   * Pipe a stream through a decompressor, passing errors on to the returned stream
+   * The output goes through a PassThrough so classic streams such as the bzip2 decoder
+   * can still be consumed with async iteration
+   */
+  private decompress(source: Readable, decompressor: NodeJS.ReadWriteStream): Readable {
+    return pipeline(source, decompressor, new PassThrough(), () => undefined);
+  }
+
+  /**
+   * Look up an entry in a zip directory or throw if it does not exist
+   */
+  private getZipEntry(directory: ZipDirectory, archivePath: string, entryName: string): ZipEntry {
+    const entry = directory.entries.get(entryName);
+    if (!entry) {
+      throw new Error(`Entry "${entryName}" not found in archive ${archivePath}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Read the central directory of a zip archive
+   * Results are cached until the archive's size or modification time changes
+   */
+  private async readZipDirectory(archivePath: string): Promise<ZipDirectory> {
+    const stats = fs.statSync(archivePath);
+    const cached = this.zipDirectories.get(archivePath);
+    if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+      return cached;
+    }
+
+    const archiveFile = await this.openRandomAccess(archivePath);
+    try {
+      const directory: ZipDirectory = { size: stats.size, mtimeMs: stats.mtimeMs, entries: await this.readZipEntries(archiveFile) };
+      this.zipDirectories.set(archivePath, directory);
+      return directory;
+    } catch (error) {
+      throw new Error(`Failed to read zip archive ${archivePath}: ${(error as Error).message}`);
+    } finally {
+      await archiveFile.close();
+    }
+  }
+
+  /**
+   * Read the entries listed in the central directory of a zip file
+   */
+  private async readZipEntries(file: RandomAccessFile): Promise<Map<string, ZipEntry>> {
+    // The end of central directory record sits at the end of the file, after an optional comment
+    const tailSize = Math.min(file.size, EOCD_MIN_SIZE + MAX_ZIP_COMMENT_SIZE);
+    const tail = await file.read(file.size - tailSize, tailSize);
+
+    let eocdOffset = -1;
+    for (let i = tail.length - EOCD_MIN_SIZE; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocdOffset = i;
+        break;
+      }
+    }
+
+    if (eocdOffset === -1) {
+      throw new Error('End of central directory not found');
+    }
+
+    const entryCount = tail.readUInt16LE(eocdOffset + 10);
+    const directorySize = tail.readUInt32LE(eocdOffset + 12);
+    const directoryOffset = tail.readUInt32LE(eocdOffset + 16);
+
+    if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    const directoryBuffer = await file.read(directoryOffset, directorySize);
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directoryBuffer.length || directoryBuffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error('Invalid central directory entry');
+      }
+
+      const flags = directoryBuffer.readUInt16LE(offset + 8);
+      const nameLength = directoryBuffer.readUInt16LE(offset + 28);
+      const extraLength = directoryBuffer.readUInt16LE(offset + 30);
+      const commentLength = directoryBuffer.readUInt16LE(offset + 32);
+      const name = directoryBuffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      // Directories are listed with a trailing slash and hold no data
+      if (!name.endsWith('/')) {
+        entries.set(name, {
+          name,
+          compressionMethod: directoryBuffer.readUInt16LE(offset + 10),
+          compressedSize: directoryBuffer.readUInt32LE(offset + 20),
+          uncompressedSize: directoryBuffer.readUInt32LE(offset + 24),
+          localHeaderOffset: directoryBuffer.readUInt32LE(offset + 42),
+          encrypted: (flags & 0x1) !== 0
+        });
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Check that an entry can be decompressed
+   */
+  private ensureReadableEntry(entry: ZipEntry): void {
+    if (entry.encrypted) {
+      throw new Error(`Encrypted zip entries are not supported: ${entry.name}`);
+    }
+    if (entry.compressionMethod !== 0 && entry.compressionMethod !== 8) {
+      throw new Error(`Unsupported zip compression method ${entry.compressionMethod}: ${entry.name}`);
+    }
+  }
+
+  /**
+   * Find where an entry's data starts by reading its local file header
+   */
+  private async getEntryDataOffset(file: RandomAccessFile, archivePath: string, entry: ZipEntry): Promise<number> {
+    const header = await file.read(entry.localHeaderOffset, 30);
+
+    if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid local header for entry "${entry.name}" in archive ${archivePath}`);
+    }
+
+    return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  }
+}
@@ -0,0 +1,238 @@
+import { Readable } from 'stream';
+import { Cell, CellValue, Row, ValueType, Workbook, Worksheet } from 'exceljs';
+import { ExcelOptions } from '../types';
+import { CsvParser } from './CsvParser';
+import { GlobPattern } from './GlobPattern';
+
+export type XlsxCellValue = string | number | boolean | null;
+
+// A record read from a sheet with the worksheet row it came from
+export interface XlsxRecord {
+  record: Record<string, XlsxCellValue>;
+  row: number;        // 1-based worksheet row
+}
+
+type DateKind = 'date' | 'time' | 'datetime';
+
+interface XlsxRow {
+  row: number;
+  cells: XlsxCellValue[];
+  mergedColumns: Set<number>;   // Columns holding the first cell of a merged range spanning several columns
+}
+
+// Rows examined when looking for the header row
+const HEADER_DETECTION_ROWS = 10;
+
+// Days between the 1900 and 1904 date systems, and between 1899-12-30 and 1970-01-01
+const DATE_1904_OFFSET_DAYS = 1462;
+const UNIX_EPOCH_SERIAL = 25569;
+const MILLISECONDS_PER_DAY = 86400000;
+
+/**
+ * XlsxReader reads the worksheets of an Excel workbook (.xlsx) as records, one per row, with exceljs.
+ * The header row is taken from the options or detected among the first rows, blank rows
+ * and rows made of a single merged cell are skipped, and cells with date formats are
+ * converted to ISO 8601 dates.
+ */
+export class XlsxReader {
+  private csvParser = new CsvParser();
+
+  /**
+   * Read a workbook with its sheets, shared strings and styles
+   * exceljs only reports merged ranges when the whole workbook is read, so sheets are not streamed
+   */
+  async readWorkbook(stream: Readable): Promise<Workbook> {
+    const workbook = new Workbook();
+    await workbook.xlsx.read(stream);
+    // Excel keeps at least one sheet in every workbook, so a package without sheets is some other zip file
+    if (workbook.worksheets.length === 0) {
+      throw new Error('Not an Excel workbook: no worksheets found');
+    }
+    return workbook;
+  }
+
+  /**
+   * Choose the sheets to read: the sheets matching a name or pattern of the selection,
+   * or every visible sheet when there is no selection
+   */
+  selectSheets(workbook: Workbook, selection: string[] | undefined): Worksheet[] {
+    if (!selection || selection.length === 0) {
+      return workbook.worksheets.filter(sheet => sheet.state === 'visible');
+    }
+
+    const patterns = selection.map(pattern => new GlobPattern(pattern));
+    return workbook.worksheets.filter(sheet => patterns.some(pattern => pattern.matches(sheet.name)));
+  }
+
+  /**
+   * Read the rows of a sheet as records keyed by the header row's column names
+   * Rows above the header row are skipped
+   */
+  async *readRecords(workbook: Workbook, sheet: Worksheet, options: ExcelOptions = {}): AsyncGenerator<XlsxRecord> {
+    let header: string[] | null = options.noHeader ? [] : null;
+    const candidates: XlsxRow[] = [];
+
+    const toRecord = (row: XlsxRow): XlsxRecord => {
+      const record: Record<string, XlsxCellValue> = {};
+      const columnCount = Math.max(row.cells.length, header!.length);
+      for (let i = 0; i < columnCount; i++) {
+        record[header![i] ?? `column_${i + 1}`] = row.cells[i] ?? null;
+      }
+      return { record, row: row.row };
+    };
+
+    for (const row of this.readRows(workbook, sheet, options)) {
+      const filled = row.cells.filter(value => value !== null);
+      if (filled.length === 0 && !options.keepBlankRows) continue;
+      if (filled.length === 1 && !options.keepMergedRows && this.isMergedRow(row)) continue;
+
+      if (header) {
+        yield toRecord(row);
+      } else if (options.headerRow !== undefined) {
+        if (row.row === options.headerRow) {
+          header = this.buildHeader(row);
+        }
+      } else {
+        candidates.push(row);
+        if (candidates.length === HEADER_DETECTION_ROWS) {
+          const headerIndex = this.detectHeaderRow(candidates);
+          header = this.buildHeader(candidates[headerIndex]!);
+          for (const candidate of candidates.slice(headerIndex + 1)) {
+            yield toRecord(candidate);
+          }
+        }
+      }
+    }
+
+    // Sheets with fewer rows than the detection window
+    if (!header && candidates.length > 0) {
+      const headerIndex = this.detectHeaderRow(candidates);
+      header = this.buildHeader(candidates[headerIndex]!);
+      for (const candidate of candidates.slice(headerIndex + 1)) {
+        yield toRecord(candidate);
+      }
+    }
+  }
+
+  /**
+   * Read the rows stored in a sheet with their cell values by column
+   */
+  private *readRows(workbook: Workbook, sheet: Worksheet, options: ExcelOptions): Generator<XlsxRow> {
+    for (let number = 1; number <= sheet.rowCount; number++) {
+      const row: Row | undefined = sheet.findRow(number);
+      if (!row) continue;
+
+      const cells: XlsxCellValue[] = [];
+      const mergedColumns = new Set<number>();
+      row.eachCell({ includeEmpty: false }, (cell, column) => {
+        // The other cells of a merged range repeat its first cell's value, but hold none of their own
+        if (cell.type === ValueType.Merge) return;
+
+        while (cells.length < column - 1) {
+          cells.push(null);
+        }
+        cells[column - 1] = this.convertCell(workbook, cell, cell.value, options);
+        if (cell.isMerged && row.findCell(column + 1)?.master === cell) {
+          mergedColumns.add(column - 1);
+        }
+      });
+      yield { row: number, cells, mergedColumns };
+    }
+  }
+
+  /**
+   * Convert the value of a cell; formulas give their cached result and rich text its joined runs
+   */
+  private convertCell(workbook: Workbook, cell: Cell, value: CellValue, options: ExcelOptions): XlsxCellValue {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      const date1904 = !!workbook.properties.date1904;
+      const serial = UNIX_EPOCH_SERIAL + value.getTime() / MILLISECONDS_PER_DAY - (date1904 ? DATE_1904_OFFSET_DAYS : 0);
+      return options.rawDates ? serial : this.convertSerialDate(serial, this.getFormatDateKind(cell.numFmt ?? '') ?? 'datetime', date1904);
+    }
+    if (typeof value !== 'object') {
+      return value;
+    }
+
+    if ('richText' in value) {
+      return value.richText.map(run => run.text).join('');
+    }
+    if ('error' in value) {
+      return value.error;
+    }
+    if ('formula' in value || 'sharedFormula' in value) {
+      return this.convertCell(workbook, cell, value.result ?? null, options);
+    }
+    if ('hyperlink' in value) {
+      return this.convertCell(workbook, cell, value.text, options);
+    }
+    return null;
+  }
+
+  /**
+   * Convert an Excel serial date to an ISO 8601 date, time or date and time
+   */
+  private convertSerialDate(serial: number, kind: DateKind, date1904: boolean): string | number {
+    // The 1900 date system counts a 29 February 1900 that never happened
+    const days = date1904 ? serial + DATE_1904_OFFSET_DAYS : serial < 60 ? serial + 1 : serial;
+    const date = new Date(Math.round((days - UNIX_EPOCH_SERIAL) * MILLISECONDS_PER_DAY));
+    if (Number.isNaN(date.getTime())) {
+      return serial;
+    }
+
+    const iso = date.toISOString();
+    if (kind === 'time' && serial >= 0 && serial < 1) {
+      return iso.slice(11, date.getUTCMilliseconds() === 0 ? 19 : 23);
+    }
+    if (kind === 'date' && Number.isInteger(serial)) {
+      return iso.slice(0, 10);
+    }
+    return iso;
+  }
+
+  /**
+   * Tell whether a number format code shows a date, a time, both or neither
+   * Quoted text, escaped characters and bracketed colors and locales are ignored
+   */
+  private getFormatDateKind(formatCode: string): DateKind | null {
+    // Only the first section applies to positive numbers
+    const section = formatCode.split(';')[0]!
+      .replace(/"[^"]*"/g, '')
+      .replace(/\\./g, '')
+      .replace(/\[(?![hms]+\])[^\]]*\]/gi, '')
+      .replace(/General/gi, '');
+
+    const hasDate = /[yd]/i.test(section) || (/m/i.test(section) && !/[hs]/i.test(section));
+    const hasTime = /[hs]/i.test(section);
+    return hasDate && hasTime ? 'datetime' : hasDate ? 'date' : hasTime ? 'time' : null;
+  }
+
+  /**
+   * Check whether a row holds nothing but the first cell of a merged range spanning several columns
+   */
+  private isMergedRow(row: XlsxRow): boolean {
+    return row.mergedColumns.has(row.cells.findIndex(value => value !== null));
+  }
+
+  /**
+   * Pick the header among the first rows: the first row of text cells that fills
+   * at least half the columns of the widest row, or the first row when none does
+   */
+  private detectHeaderRow(rows: XlsxRow[]): number {
+    const filledCounts = rows.map(row => row.cells.filter(value => value !== null).length);
+    const widest = Math.max(...filledCounts);
+
+    const index = rows.findIndex((row, i) =>
+      filledCounts[i]! * 2 >= widest && row.cells.every(value => value === null || typeof value === 'string'));
+    return index === -1 ? 0 : index;
+  }
+
+  /**
+   * Turn a header row into unique column names
+   */
+  private buildHeader(row: XlsxRow): string[] {
+    return this.csvParser.buildHeader(row.cells.map(value => (value === null ? '' : String(value))));
+  }
+}
@@ -0,0 +1,190 @@
+import { StringDecoder } from 'string_decoder';
+import { SaxesParser } from 'saxes';
+
+export type XmlRecordValue = string | null | XmlRecordValue[] | { [key: string]: XmlRecordValue };
+
+// A record read from an XML document with the line its element starts on
+export interface XmlRecord {
+  record: { [key: string]: XmlRecordValue };
+  line: number;
+}
+
+// An element of a record being read
+interface XmlElement {
+  name: string;                              // Local name
+  fields: { [key: string]: XmlRecordValue }; // Attributes and child elements so far
+  text: string;
+}
+
+// Record elements when no path is given: the children of the root element
+export const DEFAULT_XML_RECORD_PATH = '/*/*';
+
+// Prefix of the fields holding an element's attributes
+const ATTRIBUTE_PREFIX = '@';
+
+// Field holding the text of an element that also has attributes or child elements
+const TEXT_FIELD = '#text';
+
+/**
+ * XmlRecordReader turns the repeating elements of an XML document into records.
+ * The record path names the elements from the root, such as `/feed/entry`, where `*` matches
+ * any element and a leading `//` matches the path at any depth. Attributes become `@name`
+ * fields, child elements become nested fields or arrays when repeated, and text-only elements
+ * become their text. Names lose their namespace prefixes; values are kept as text.
+ * Documents are read with the saxes parser, which rejects documents that are not well-formed.
+ */
+export class XmlRecordReader {
+  readonly recordPath: string;
+  private segments: string[];
+  private anyDepth: boolean;
+
+  constructor(recordPath: string = DEFAULT_XML_RECORD_PATH) {
+    const trimmed = recordPath.trim();
+    this.anyDepth = trimmed.startsWith('//');
+    this.segments = trimmed.slice(this.anyDepth ? 2 : 1).split('/');
+
+    if (!trimmed.startsWith('/') || this.segments.some(segment => !/^[^\s/<>&"'=]+$/.test(segment))) {
+      throw new Error(`Invalid XML record path "${recordPath}": use element names separated by /, such as /feed/entry`);
+    }
+    this.recordPath = trimmed;
+  }
+
+  /**
+   * Read the records of an XML document as its elements stream in
+   * Only the element being read is held in memory; elements inside a record are never records themselves
+   */
+  async *readRecords(stream: AsyncIterable<string | Buffer> | Iterable<string | Buffer>): AsyncGenerator<XmlRecord> {
+    const parser = new SaxesParser();
+    const decoder = new StringDecoder('utf8');
+    const records: XmlRecord[] = [];          // Records completed by the chunk being parsed
+    const openNames: string[] = [];           // Names of the open elements above the current record
+    const recordElements: XmlElement[] = [];  // The record element and its open descendants
+    let recordLine = 0;
+    let tagLine = 1;
+
+    const addText = (text: string): void => {
+      const element = recordElements[recordElements.length - 1];
+      if (element) element.text += text;
+    };
+
+    parser.on('opentagstart', () => {
+      tagLine = parser.line;
+    });
+
+    parser.on('opentag', tag => {
+      if (recordElements.length === 0) {
+        openNames.push(tag.name);
+        if (!this.matchesPath(openNames)) return;
+        recordLine = tagLine;
+      }
+
+      const fields: { [key: string]: XmlRecordValue } = {};
+      for (const [name, value] of Object.entries(tag.attributes)) {
+        // Namespace declarations are not data
+        if (name === 'xmlns' || name.startsWith('xmlns:')) continue;
+        this.addField(fields, ATTRIBUTE_PREFIX + this.getLocalName(name), value);
+      }
+      recordElements.push({ name: this.getLocalName(tag.name), fields, text: '' });
+    });
+
+    // Close the innermost element, completing the record when it was the record element
+    parser.on('closetag', () => {
+      if (recordElements.length === 0) {
+        openNames.pop();
+        return;
+      }
+
+      const element = recordElements.pop()!;
+      const value = this.toValue(element);
+      const parent = recordElements[recordElements.length - 1];
+
+      if (parent) {
+        this.addField(parent.fields, element.name, value);
+        return;
+      }
+      openNames.pop();
+      const record = value !== null && typeof value === 'object' && !Array.isArray(value)
+        ? value
+        : value === null ? {} : { [TEXT_FIELD]: value };
+      records.push({ record, line: recordLine });
+    });
+
+    parser.on('text', addText);
+    parser.on('cdata', addText);
+
+    const parse = (text: string | null): void => {
+      try {
+        if (text === null) {
+          parser.close();
+        } else {
+          parser.write(text);
+        }
+      } catch (error) {
+        throw new Error(`Invalid XML: ${(error as Error).message}`);
+      }
+    };
+
+    for await (const chunk of stream) {
+      parse(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+      yield* records.splice(0);
+    }
+    parse(decoder.end());
+    parse(null);
+    yield* records.splice(0);
+  }
+
+  /**
+   * Check whether the path of open elements matches the record path
+   */
+  private matchesPath(names: string[]): boolean {
+    const { segments } = this;
+    if (this.anyDepth ? names.length < segments.length : names.length !== segments.length) {
+      return false;
+    }
+
+    const start = names.length - segments.length;
+    return segments.every((segment, i) => {
+      const name = names[start + i]!;
+      // Segments without a prefix match elements by their local name
+      return segment === '*' || segment === name || (!segment.includes(':') && segment === this.getLocalName(name));
+    });
+  }
+
+  /**
+   * Get the value of a closed element: its text when it has nothing else, or an object of its fields
+   */
+  private toValue(element: XmlElement): XmlRecordValue {
+    const text = element.text.trim();
+    if (Object.keys(element.fields).length === 0) {
+      return text === '' ? null : text;
+    }
+    if (text !== '') {
+      this.addField(element.fields, TEXT_FIELD, text);
+    }
+    return element.fields;
+  }
+
+  /**
+   * Add a field, collecting the values of repeated elements into an array
+   */
+  private addField(fields: { [key: string]: XmlRecordValue }, name: string, value: XmlRecordValue): void {
+    if (!Object.prototype.hasOwnProperty.call(fields, name)) {
+      Object.defineProperty(fields, name, { value, enumerable: true, writable: true, configurable: true });
+      return;
+    }
+
+    const existing = fields[name]!;
+    if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      fields[name] = [existing, value];
+    }
+  }
+
+  /**
+   * Get the name of an element or attribute without its namespace prefix
+   */
+  private getLocalName(name: string): string {
+    return name.slice(name.indexOf(':') + 1);
+  }
+}
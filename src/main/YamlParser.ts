@@ -0,0 +1,159 @@
+import { isNode, isSeq, LineCounter, parseDocument } from 'yaml';
+import { SourceLine } from './SourceFileReader';
+import { ColumnValueConverter } from './ColumnValueConverter';
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+// The lines of one document of a YAML stream
+export interface YamlDocumentSource {
+  lines: SourceLine[];
+  line: number;         // 1-based line its content starts on
+}
+
+export interface YamlDocument {
+  value: YamlValue;
+  itemLines: number[];  // Lines the items of a top-level block sequence start on; empty for other documents
+}
+
+interface YamlStreamState {
+  lines: SourceLine[];
+  started: boolean;     // A document marker or content was seen, so % lines are no longer directives
+  hasContent: boolean;
+}
+
+/**
+ * YamlParser splits YAML streams into documents as their lines arrive and reads each document
+ * into plain values with the yaml library. Scalars resolve by the YAML 1.2 core schema, so
+ * timestamps stay text, and merge keys are applied. Integers beyond 2^53 are kept as their text.
+ */
+export class YamlParser {
+  private converter = new ColumnValueConverter();
+
+  /**
+   * Split a stream of lines into documents at `---` and `...` markers, yielding each document
+   * as it completes; documents without content are left out
+   */
+  async *readDocuments(lines: AsyncIterable<SourceLine>): AsyncGenerator<YamlDocumentSource> {
+    const state: YamlStreamState = { lines: [], started: false, hasContent: false };
+    for await (const line of lines) {
+      const document = this.addLine(state, line);
+      if (document) yield document;
+    }
+
+    const last = this.finishDocument(state);
+    if (last) yield last;
+  }
+
+  /**
+   * Parse the documents of a YAML text
+   */
+  parse(text: string): YamlValue[] {
+    const state: YamlStreamState = { lines: [], started: false, hasContent: false };
+    const documents: YamlDocumentSource[] = [];
+    let offset = 0;
+
+    for (const [index, lineText] of text.split('\n').entries()) {
+      const line = { text: lineText.endsWith('\r') ? lineText.slice(0, -1) : lineText, line: index + 1, offset };
+      offset += Buffer.byteLength(lineText) + 1;
+      const document = this.addLine(state, line);
+      if (document) documents.push(document);
+    }
+
+    const last = this.finishDocument(state);
+    if (last) documents.push(last);
+    return documents.map(document => this.parseDocument(document).value);
+  }
+
+  /**
+   * Parse one document of a stream
+   */
+  parseDocument(source: YamlDocumentSource): YamlDocument {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(source.lines.map(line => line.text).join('\n'), {
+      lineCounter,
+      intAsBigInt: true,
+      merge: true,
+      prettyErrors: false
+    });
+    // The lines of a document follow one another, so the nth line of its text is the nth source line
+    const getLine = (position: number) => source.lines[lineCounter.linePos(position).line - 1]?.line ?? source.line;
+
+    const error = document.errors[0];
+    if (error) {
+      throw this.syntaxError(error.message, getLine(error.pos[0]));
+    }
+
+    let value: YamlValue;
+    try {
+      value = document.toJS({ reviver: (_key, item) => (typeof item === 'bigint' ? this.converter.toInteger(item) : item) });
+    } catch (aliasError) {
+      // Aliases resolve as the document is converted, so an unknown alias only shows up here
+      throw this.syntaxError((aliasError as Error).message, source.line);
+    }
+
+    const { contents } = document;
+    const itemLines = isSeq(contents) && !contents.flow
+      ? contents.items.map(item => (isNode(item) && item.range ? getLine(item.range[0]) : source.line))
+      : [];
+    return { value, itemLines };
+  }
+
+  /**
+   * Add a line to the document being collected, returning the previous document when a marker ends it
+   */
+  private addLine(state: YamlStreamState, line: SourceLine): YamlDocumentSource | null {
+    const marker = /^(---|\.\.\.)(?=\s|$)/.exec(line.text)?.[1];
+    if (marker) {
+      const document = this.finishDocument(state);
+      state.started = marker === '---';
+
+      // Content may follow the start marker, as in `--- |` or `--- {a: 1}`
+      const rest = line.text.slice(3);
+      if (marker === '---' && !this.isBlank(rest)) {
+        state.lines.push({ ...line, text: `   ${rest}` });
+        state.hasContent = true;
+      }
+      return document;
+    }
+
+    if (!state.started && line.text.startsWith('%')) {
+      // Directives such as %YAML 1.2 come before the document
+      return null;
+    }
+
+    state.lines.push(line);
+    if (!this.isBlank(line.text)) {
+      state.started = true;
+      state.hasContent = true;
+    }
+    return null;
+  }
+
+  /**
+   * Take the collected document, or null when it has no content
+   */
+  private finishDocument(state: YamlStreamState): YamlDocumentSource | null {
+    const { lines, hasContent } = state;
+    state.lines = [];
+    state.hasContent = false;
+    state.started = false;
+
+    if (!hasContent) {
+      return null;
+    }
+    const first = lines.find(line => !this.isBlank(line.text))!;
+    return { lines, line: first.line };
+  }
+
+  /**
+   * Check whether text is empty apart from whitespace and a comment
+   */
+  private isBlank(text: string): boolean {
+    const trimmed = text.trim();
+    return trimmed === '' || trimmed.startsWith('#');
+  }
+
+  private syntaxError(message: string, lineNumber: number): Error {
+    return new Error(`Invalid YAML: ${message} on line ${lineNumber}`);
+  }
+}
@@ -34,8 +34,8 @@ contextBridge.exposeInMainWorld(
   },
 
     // Source folder operations
-    addSourceFolder: (projectId: string, folderPath: string) => {
-      ipcRenderer.send('add-source-folder', { projectId, folderPath });
+    addSourceFolder: (projectId: string, folderPath: string, settings?: any) => {
+      ipcRenderer.send('add-source-folder', { projectId, folderPath, settings });
     },
     onSourceFolderAdded: (callback: (data: { projectId: string, folder: any }) => void) => {
       ipcRenderer.on('source-folder-added', (_event, data) => callback(data));
@@ -46,6 +46,36 @@ contextBridge.exposeInMainWorld(
     onSourceFolderRemoved: (callback: (data: { projectId: string, folderId: string }) => void) => {
       ipcRenderer.on('source-folder-removed', (_event, data) => callback(data));
     },
+    updateScanSettings: (projectId: string, scanSettings: any) => {
+      ipcRenderer.send('update-scan-settings', { projectId, scanSettings });
+    },
+    onScanSettingsUpdated: (callback: (data: { projectId: string, scanSettings: any }) => void) => {
+      ipcRenderer.on('scan-settings-updated', (_event, data) => callback(data));
+    },
+    updateWatchSettings: (projectId: string, watchSettings: any) => {
+      ipcRenderer.send('update-watch-settings', { projectId, watchSettings });
+    },
+    onWatchSettingsUpdated: (callback: (data: { projectId: string, watchSettings: any }) => void) => {
+      ipcRenderer.on('watch-settings-updated', (_event, data) => callback(data));
+    },
+    onWatchStatusChanged: (callback: (data: { projectId: string, watchStatus: any }) => void) => {
+      ipcRenderer.on('watch-status-changed', (_event, data) => callback(data));
+    },
+    updateScanSchedule: (projectId: string, scanSchedule: any) => {
+      ipcRenderer.send('update-scan-schedule', { projectId, scanSchedule });
+    },
+    onScanScheduleUpdated: (callback: (data: { projectId: string, scanSchedule: any }) => void) => {
+      ipcRenderer.on('scan-schedule-updated', (_event, data) => callback(data));
+    },
+    onScheduleStatusChanged: (callback: (data: { projectId: string, scheduleStatus: any }) => void) => {
+      ipcRenderer.on('schedule-status-changed', (_event, data) => callback(data));
+    },
+    previewSourceFiles: (projectId: string, folderPath: string, settings?: any) => {
+      ipcRenderer.send('preview-source-files', { projectId, folderPath, settings });
+    },
+    onSourceFilesPreviewed: (callback: (data: { folderPath: string, files: string[], totalFiles: number, errors: any[] }) => void) => {
+      ipcRenderer.on('source-files-previewed', (_event, data) => callback(data));
+    },
     openFolder: (folderPath: string) => {
       ipcRenderer.send('open-folder', folderPath);
     },
@@ -58,9 +88,27 @@ contextBridge.exposeInMainWorld(
     onScanProgress: (callback: (progress: { projectId: string, current: number, total: number, message: string }) => void) => {
       ipcRenderer.on('scan-progress', (_event, progress) => callback(progress));
     },
-    onScanComplete: (callback: (result: { projectId: string, processedFiles: number, extractedObjects: number }) => void) => {
+    onScanComplete: (callback: (result: { projectId: string, processedFiles: number, extractedObjects: number, addedFiles?: number, modifiedFiles?: number, removedFiles?: number, unchangedFiles?: number, errorCount?: number }) => void) => {
       ipcRenderer.on('scan-complete', (_event, result) => callback(result));
     },
+    pauseScan: (projectId: string) => {
+      ipcRenderer.send('pause-scan', projectId);
+    },
+    onScanPaused: (callback: (data: { projectId: string }) => void) => {
+      ipcRenderer.on('scan-paused', (_event, data) => callback(data));
+    },
+    resumeScan: (projectId: string) => {
+      ipcRenderer.send('resume-scan', projectId);
+    },
+    onScanResumed: (callback: (data: { projectId: string }) => void) => {
+      ipcRenderer.on('scan-resumed', (_event, data) => callback(data));
+    },
+    cancelScan: (projectId: string) => {
+      ipcRenderer.send('cancel-scan', projectId);
+    },
+    onScanCancelled: (callback: (data: { projectId: string, message: string }) => void) => {
+      ipcRenderer.on('scan-cancelled', (_event, data) => callback(data));
+    },
 
     // View operations
     createView: (projectId: string, viewName: string) => {
@@ -110,6 +158,36 @@ contextBridge.exposeInMainWorld(
     onViewSchemaLoaded: (callback: (data: { projectId: string, viewId: string, schema: any }) => void) => {
       ipcRenderer.on('view-schema-loaded', (_event, data) => callback(data));
     },
+    getRecordSource: (projectId: string, filePath: string, offset: number) => {
+      ipcRenderer.send('get-record-source', { projectId, filePath, offset });
+    },
+    onRecordSourceLoaded: (callback: (data: { filePath: string, offset: number, text: string, truncated: boolean }) => void) => {
+      ipcRenderer.on('record-source-loaded', (_event, data) => callback(data));
+    },
+    getScanErrors: (projectId: string) => {
+      ipcRenderer.send('get-scan-errors', projectId);
+    },
+    onScanErrorsLoaded: (callback: (data: { projectId: string, scanId: string | null, errors: any[] }) => void) => {
+      ipcRenderer.on('scan-errors-loaded', (_event, data) => callback(data));
+    },
+    getScanRuns: (projectId: string) => {
+      ipcRenderer.send('get-scan-runs', projectId);
+    },
+    onScanRunsLoaded: (callback: (data: { projectId: string, runs: any[] }) => void) => {
+      ipcRenderer.on('scan-runs-loaded', (_event, data) => callback(data));
+    },
+    compareScanRuns: (projectId: string, fromScanId: string, toScanId: string) => {
+      ipcRenderer.send('compare-scan-runs', { projectId, fromScanId, toScanId });
+    },
+    onScanRunsCompared: (callback: (data: { projectId: string, fromScanId: string, toScanId: string, changes: any[] }) => void) => {
+      ipcRenderer.on('scan-runs-compared', (_event, data) => callback(data));
+    },
+    getProjectSchema: (projectId: string) => {
+      ipcRenderer.send('get-project-schema', projectId);
+    },
+    onProjectSchemaLoaded: (callback: (data: { projectId: string, tables: any[] }) => void) => {
+      ipcRenderer.on('project-schema-loaded', (_event, data) => callback(data));
+    },
     checkViewData: (projectId: string, viewId: string) => {
       ipcRenderer.send('check-view-data', { projectId, viewId });
     },
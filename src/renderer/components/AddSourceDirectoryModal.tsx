@@ -1,17 +1,155 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useMainProcess } from '../context/MainProcessContext';
+import { FileRule, RecordSelector, SourceFolderSettings } from '../types/mainProcessTypes';
 
 interface AddSourceDirectoryModalProps {
+  projectId: string;     // Project whose scan settings and parsers the preview applies
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (folderPath: string) => void;
+  onSubmit: (folderPath: string, settings: SourceFolderSettings) => void;
 }
 
-const AddSourceDirectoryModal: React.FC<AddSourceDirectoryModalProps> = ({ isOpen, onClose, onSubmit }) => {
+// Delimiter choices for CSV/TSV files; an empty value detects the delimiter from each file
+const DELIMITER_OPTIONS = [
+  { value: '', label: 'Auto-detect' },
+  { value: ',', label: 'Comma (,)' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+// A record selector as edited in the form, with parent fields as comma-separated text
+interface RecordSelectorRow {
+  pattern: string;
+  path: string;
+  parentFields: string;
+}
+
+const EMPTY_SELECTOR_ROW: RecordSelectorRow = { pattern: '', path: '', parentFields: '' };
+
+// Files a scan would pick up, as listed by the preview
+interface FilePreview {
+  files: string[];
+  totalFiles: number;
+  errors: { file: string, error: string }[];
+}
+
+const AddSourceDirectoryModal: React.FC<AddSourceDirectoryModalProps> = ({ projectId, isOpen, onClose, onSubmit }) => {
   const [folderPath, setFolderPath] = useState('');
+  const [delimiter, setDelimiter] = useState('');
+  const [quote, setQuote] = useState('"');
+  const [noHeader, setNoHeader] = useState(false);
+  const [sheets, setSheets] = useState('');
+  const [headerRow, setHeaderRow] = useState('');
+  const [sheetsNoHeader, setSheetsNoHeader] = useState(false);
+  const [keepMergedRows, setKeepMergedRows] = useState(false);
+  const [keepBlankRows, setKeepBlankRows] = useState(false);
+  const [rawDates, setRawDates] = useState(false);
+  const [xmlRecordPath, setXmlRecordPath] = useState('');
+  const [selectorRows, setSelectorRows] = useState<RecordSelectorRow[]>([]);
+  const [childTables, setChildTables] = useState('');
+  const [mongoExport, setMongoExport] = useState(false);
+  const [fileRules, setFileRules] = useState<FileRule[]>([]);
+  const [maxDepth, setMaxDepth] = useState('');
+  const [followSymlinks, setFollowSymlinks] = useState(true);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const api = useMainProcess();
 
+  useEffect(() => {
+    if (!api || !isOpen) return;
+
+    api.onSourceFilesPreviewed((data) => {
+      setPreview({ files: data.files, totalFiles: data.totalFiles, errors: data.errors });
+      setIsPreviewing(false);
+    });
+
+    return () => {
+      if (api.removeAllListeners) {
+        api.removeAllListeners('source-files-previewed');
+      }
+    };
+  }, [api, isOpen]);
+
+  /**
+   * Collect the settings entered in the form, or report the first invalid value and return null
+   */
+  const buildSettings = (): SourceFolderSettings | null => {
+    // Rows without a JSONPath are ignored
+    const recordSelectors: RecordSelector[] = [];
+    for (const row of selectorRows) {
+      const selectorPath = row.path.trim();
+      if (!selectorPath) continue;
+
+      const parentFields = row.parentFields.split(',').map(field => field.trim()).filter(field => field);
+      if (!selectorPath.startsWith('$') || parentFields.some(field => !field.startsWith('$'))) {
+        setError('JSONPath expressions must start with $');
+        return null;
+      }
+
+      recordSelectors.push({
+        ...(row.pattern.trim() ? { pattern: row.pattern.trim() } : {}),
+        path: selectorPath,
+        ...(parentFields.length > 0 ? { parentFields } : {})
+      });
+    }
+
+    const childTablePaths = childTables.split(',').map(field => field.trim()).filter(field => field);
+
+    // Only store the CSV options that differ from the defaults
+    const csvOptions = {
+      ...(delimiter ? { delimiter } : {}),
+      ...(quote && quote !== '"' ? { quote } : {}),
+      ...(noHeader ? { noHeader } : {})
+    };
+
+    // Only store the Excel options that differ from the defaults
+    const sheetPatterns = sheets.split(',').map(sheet => sheet.trim()).filter(sheet => sheet);
+    const sheetHeaderRow = headerRow.trim() ? Number(headerRow) : undefined;
+    if (sheetHeaderRow !== undefined && (!Number.isInteger(sheetHeaderRow) || sheetHeaderRow < 1)) {
+      setError('Header row must be a whole number of 1 or more');
+      return null;
+    }
+    const excelOptions = {
+      ...(sheetPatterns.length > 0 ? { sheets: sheetPatterns } : {}),
+      ...(sheetHeaderRow !== undefined && !sheetsNoHeader ? { headerRow: sheetHeaderRow } : {}),
+      ...(sheetsNoHeader ? { noHeader: true } : {}),
+      ...(keepMergedRows ? { keepMergedRows } : {}),
+      ...(keepBlankRows ? { keepBlankRows } : {}),
+      ...(rawDates ? { rawDates } : {})
+    };
+
+    const recordPath = xmlRecordPath.trim();
+    if (recordPath && !recordPath.startsWith('/')) {
+      setError('XML record paths must start with /');
+      return null;
+    }
+
+    // Rules without a pattern are ignored
+    const rules = fileRules
+      .map(rule => ({ type: rule.type, pattern: rule.pattern.trim() }))
+      .filter(rule => rule.pattern);
+
+    const depth = maxDepth.trim() ? Number(maxDepth) : undefined;
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+      setError('Max depth must be a whole number of 0 or more');
+      return null;
+    }
+
+    return {
+      ...(Object.keys(csvOptions).length > 0 ? { csvOptions } : {}),
+      ...(Object.keys(excelOptions).length > 0 ? { excelOptions } : {}),
+      ...(recordPath ? { xmlOptions: { recordPath } } : {}),
+      ...(recordSelectors.length > 0 ? { recordSelectors } : {}),
+      ...(childTablePaths.length > 0 ? { childTables: childTablePaths } : {}),
+      ...(mongoExport ? { mongoExport } : {}),
+      ...(rules.length > 0 ? { fileRules: rules } : {}),
+      ...(depth !== undefined ? { maxDepth: depth } : {}),
+      ...(!followSymlinks ? { followSymlinks } : {})
+    };
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -20,11 +158,54 @@ const AddSourceDirectoryModal: React.FC<AddSourceDirectoryModalProps> = ({ isOpe
       setError('Folder path is required');
       return;
     }
-    
-    onSubmit(folderPath);
+
+    const settings = buildSettings();
+    if (!settings) return;
+
+    onSubmit(folderPath, settings);
     // Reset form
     setFolderPath('');
+    setDelimiter('');
+    setQuote('"');
+    setNoHeader(false);
+    setSheets('');
+    setHeaderRow('');
+    setSheetsNoHeader(false);
+    setKeepMergedRows(false);
+    setKeepBlankRows(false);
+    setRawDates(false);
+    setXmlRecordPath('');
+    setSelectorRows([]);
+    setChildTables('');
+    setMongoExport(false);
+    setFileRules([]);
+    setMaxDepth('');
+    setFollowSymlinks(true);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePreview = () => {
+    if (!api) return;
+    if (!folderPath.trim()) {
+      setError('Folder path is required');
+      return;
+    }
+
+    const settings = buildSettings();
+    if (!settings) return;
+
     setError(null);
+    setIsPreviewing(true);
+    api.previewSourceFiles(projectId, folderPath, settings);
+  };
+
+  const updateFileRule = (index: number, changes: Partial<FileRule>) => {
+    setFileRules(rules => rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const updateSelectorRow = (index: number, changes: Partial<RecordSelectorRow>) => {
+    setSelectorRows(rows => rows.map((row, i) => i === index ? { ...row, ...changes } : row));
   };
 
   const handleSelectFolder = () => {
@@ -57,6 +238,266 @@ const AddSourceDirectoryModal: React.FC<AddSourceDirectoryModalProps> = ({ isOpe
               <button type="button" onClick={handleSelectFolder}>Browse...</button>
             </div>
           </div>
+
+          <fieldset className="csv-options">
+            <legend>CSV/TSV Options</legend>
+            <div className="csv-option-row">
+              <div className="form-group">
+                <label htmlFor="csvDelimiter">Delimiter:</label>
+                <select
+                  id="csvDelimiter"
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value)}
+                >
+                  {DELIMITER_OPTIONS.map(option => (
+                    <option key={option.label} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="csvQuote">Quote Character:</label>
+                <input
+                  type="text"
+                  id="csvQuote"
+                  value={quote}
+                  maxLength={1}
+                  onChange={(e) => setQuote(e.target.value)}
+                />
+              </div>
+            </div>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={noHeader}
+                onChange={(e) => setNoHeader(e.target.checked)}
+              />
+              Files have no header row
+            </label>
+          </fieldset>
+
+          <fieldset className="csv-options">
+            <legend>Excel Workbooks</legend>
+            <p className="option-hint">
+              Each selected sheet is read as rows, e.g. <code>Sales, Q*</code>; leave empty to read every visible
+              sheet. The header row is detected unless it is given.
+            </p>
+            <div className="csv-option-row">
+              <div className="form-group">
+                <label htmlFor="excelSheets">Sheets:</label>
+                <input
+                  type="text"
+                  id="excelSheets"
+                  value={sheets}
+                  onChange={(e) => setSheets(e.target.value)}
+                  placeholder="All visible sheets"
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="excelHeaderRow">Header Row:</label>
+                <input
+                  type="number"
+                  id="excelHeaderRow"
+                  min={1}
+                  value={headerRow}
+                  disabled={sheetsNoHeader}
+                  onChange={(e) => setHeaderRow(e.target.value)}
+                  placeholder="Detect"
+                />
+              </div>
+            </div>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={sheetsNoHeader}
+                onChange={(e) => setSheetsNoHeader(e.target.checked)}
+              />
+              Sheets have no header row
+            </label>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={keepMergedRows}
+                onChange={(e) => setKeepMergedRows(e.target.checked)}
+              />
+              Keep rows made of one merged cell
+            </label>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={keepBlankRows}
+                onChange={(e) => setKeepBlankRows(e.target.checked)}
+              />
+              Keep blank rows
+            </label>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={rawDates}
+                onChange={(e) => setRawDates(e.target.checked)}
+              />
+              Keep dates as Excel serial numbers
+            </label>
+          </fieldset>
+
+          <fieldset className="csv-options">
+            <legend>XML Files</legend>
+            <p className="option-hint">
+              Each repeating element becomes a row, e.g. <code>/feed/entry</code> or <code>//item</code> at any depth.
+              Attributes become <code>@name</code> columns.
+            </p>
+            <div className="form-group">
+              <label htmlFor="xmlRecordPath">Record Element Path:</label>
+              <input
+                type="text"
+                id="xmlRecordPath"
+                value={xmlRecordPath}
+                onChange={(e) => setXmlRecordPath(e.target.value)}
+                placeholder="Children of the root element"
+              />
+            </div>
+          </fieldset>
+
+          <fieldset className="csv-options">
+            <legend>JSON Record Selectors</legend>
+            <p className="option-hint">
+              Turn nested arrays into rows, e.g. <code>$.data.items[*]</code>. The first selector whose file
+              pattern matches is used; leave the pattern empty to match every file.
+            </p>
+            {selectorRows.map((row, index) => (
+              <div className="selector-row" key={index}>
+                <input
+                  type="text"
+                  aria-label="File pattern"
+                  value={row.pattern}
+                  onChange={(e) => updateSelectorRow(index, { pattern: e.target.value })}
+                  placeholder="File pattern (e.g. api/*.json)"
+                />
+                <input
+                  type="text"
+                  aria-label="Record path"
+                  value={row.path}
+                  onChange={(e) => updateSelectorRow(index, { path: e.target.value })}
+                  placeholder="$.data.items[*]"
+                />
+                <input
+                  type="text"
+                  aria-label="Parent fields"
+                  value={row.parentFields}
+                  onChange={(e) => updateSelectorRow(index, { parentFields: e.target.value })}
+                  placeholder="Parent fields (e.g. $.meta.requestId)"
+                />
+                <button
+                  type="button"
+                  onClick={() => setSelectorRows(rows => rows.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button type="button" onClick={() => setSelectorRows(rows => [...rows, { ...EMPTY_SELECTOR_ROW }])}>
+              Add Selector
+            </button>
+            <div className="form-group child-tables">
+              <label htmlFor="childTables">Child Tables:</label>
+              <input
+                type="text"
+                id="childTables"
+                value={childTables}
+                onChange={(e) => setChildTables(e.target.value)}
+                placeholder="Array fields, e.g. items, order.lines"
+              />
+              <p className="option-hint">
+                Each listed array is stored in its own table, e.g. <code>data__items</code>, linked to the
+                record by <code>_parent_id</code>.
+              </p>
+            </div>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={mongoExport}
+                onChange={(e) => setMongoExport(e.target.checked)}
+              />
+              MongoDB exports (convert Extended JSON and keep <code>_id</code> as <code>document_id</code>)
+            </label>
+            <p className="option-hint">
+              Files whose first document holds Extended JSON values such as <code>$oid</code> are detected
+              as exports without this.
+            </p>
+          </fieldset>
+
+          <fieldset className="csv-options">
+            <legend>File Selection</legend>
+            <p className="option-hint">
+              Globs are relative to the folder, e.g. <code>raw/**</code> or <code>*.tmp.json</code>. The last
+              matching rule decides; when the first rule is an include, files no rule matches are skipped.
+            </p>
+            {fileRules.map((rule, index) => (
+              <div className="selector-row" key={index}>
+                <select
+                  aria-label="Rule type"
+                  value={rule.type}
+                  onChange={(e) => updateFileRule(index, { type: e.target.value as FileRule['type'] })}
+                >
+                  <option value="include">Include</option>
+                  <option value="exclude">Exclude</option>
+                </select>
+                <input
+                  type="text"
+                  aria-label="Rule pattern"
+                  value={rule.pattern}
+                  onChange={(e) => updateFileRule(index, { pattern: e.target.value })}
+                  placeholder="Glob (e.g. archive/**)"
+                />
+                <button
+                  type="button"
+                  onClick={() => setFileRules(rules => rules.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button type="button" onClick={() => setFileRules(rules => [...rules, { type: 'exclude', pattern: '' }])}>
+              Add Rule
+            </button>
+            <div className="csv-option-row file-selection-row">
+              <div className="form-group">
+                <label htmlFor="maxDepth">Max Depth:</label>
+                <input
+                  type="number"
+                  id="maxDepth"
+                  min={0}
+                  value={maxDepth}
+                  onChange={(e) => setMaxDepth(e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={followSymlinks}
+                  onChange={(e) => setFollowSymlinks(e.target.checked)}
+                />
+                Follow symbolic links
+              </label>
+            </div>
+            <button type="button" onClick={handlePreview} disabled={isPreviewing}>
+              {isPreviewing ? 'Listing Files...' : 'Preview Matched Files'}
+            </button>
+            {preview && (
+              <div className="file-preview">
+                <p className="option-hint">
+                  {preview.totalFiles} file{preview.totalFiles === 1 ? '' : 's'} would be scanned
+                  {preview.files.length < preview.totalFiles ? ` (showing the first ${preview.files.length})` : ''}
+                </p>
+                <ul>
+                  {preview.files.map(file => <li key={file}>{file}</li>)}
+                </ul>
+                {preview.errors.map((previewError, index) => (
+                  <div className="error-message" key={index}>{previewError.file}: {previewError.error}</div>
+                ))}
+              </div>
+            )}
+          </fieldset>
           
           {error && <div className="error-message">{error}</div>}
           
@@ -99,7 +540,8 @@ const AddSourceDirectoryModal: React.FC<AddSourceDirectoryModalProps> = ({ isOpe
           font-weight: bold;
         }
         
-        .form-group input {
+        .form-group input,
+        .form-group select {
           width: 100%;
           padding: 8px;
           border: 1px solid #ccc;
@@ -115,6 +557,81 @@ const AddSourceDirectoryModal: React.FC<AddSourceDirectoryModalProps> = ({ isOpe
           flex-grow: 1;
         }
         
+        .csv-options {
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          padding: 10px 15px;
+          margin-bottom: 15px;
+        }
+
+        .csv-options legend {
+          font-weight: bold;
+          padding: 0 5px;
+        }
+
+        .csv-option-row {
+          display: flex;
+          gap: 15px;
+        }
+
+        .csv-option-row .form-group {
+          flex: 1;
+        }
+
+        .option-hint {
+          margin: 0 0 10px;
+          color: #666;
+          font-size: 0.9em;
+        }
+
+        .selector-row {
+          display: flex;
+          gap: 5px;
+          margin-bottom: 8px;
+        }
+
+        .selector-row input {
+          flex: 1;
+          min-width: 0;
+          padding: 6px;
+          border: 1px solid #ccc;
+          border-radius: 4px;
+        }
+
+        .child-tables {
+          margin: 15px 0 0;
+        }
+
+        .selector-row select {
+          padding: 6px;
+          border: 1px solid #ccc;
+          border-radius: 4px;
+        }
+
+        .file-selection-row {
+          align-items: center;
+          margin-top: 10px;
+        }
+
+        .file-preview ul {
+          max-height: 150px;
+          overflow-y: auto;
+          margin: 0 0 10px;
+          padding-left: 20px;
+          font-family: monospace;
+          font-size: 0.85em;
+        }
+
+        .child-tables .option-hint {
+          margin: 5px 0 0;
+        }
+
+        .checkbox-label {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
         .error-message {
           color: red;
           margin-bottom: 15px;
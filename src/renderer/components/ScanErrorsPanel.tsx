@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { useMainProcess } from '../context/MainProcessContext';
+import { RecordedScanError } from '../types/mainProcessTypes';
+
+interface ScanErrorsPanelProps {
+  projectId: string;
+  refreshKey: number;   // Changes when a scan completes so the errors are loaded again
+}
+
+/**
+ * Quote a value for a CSV file
+ */
+const toCsvValue = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Path to open for a source file; archive entries are opened through their archive
+ */
+const openablePath = (filePath: string): string => filePath.replace(/(\.zip)!\/.*$/i, '$1');
+
+const ScanErrorsPanel: React.FC<ScanErrorsPanelProps> = ({ projectId, refreshKey }) => {
+  const [errors, setErrors] = useState<RecordedScanError[]>([]);
+  const [filter, setFilter] = useState('');
+  const api = useMainProcess();
+
+  useEffect(() => {
+    if (!api || !projectId) return;
+
+    api.onScanErrorsLoaded((data) => {
+      if (data.projectId === projectId) {
+        setErrors(data.errors);
+      }
+    });
+    api.getScanErrors(projectId);
+
+    return () => {
+      if (api.removeAllListeners) {
+        api.removeAllListeners('scan-errors-loaded');
+      }
+    };
+  }, [api, projectId, refreshKey]);
+
+  const filterText = filter.trim().toLowerCase();
+  const visibleErrors = filterText
+    ? errors.filter(error =>
+      [error.file, error.error, error.snippet ?? ''].some(value => value.toLowerCase().includes(filterText)))
+    : errors;
+
+  const handleExport = () => {
+    const lines = [
+      'file,line,error,snippet',
+      ...visibleErrors.map(error => [error.file, error.line, error.error, error.snippet].map(toCsvValue).join(','))
+    ];
+    const url = URL.createObjectURL(new Blob([lines.join('\n') + '\n'], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'scan-errors.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ marginBottom: '20px', border: '1px solid #f5c6cb', borderRadius: '4px', padding: '10px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', gap: '10px' }}>
+        <strong>Errors ({visibleErrors.length === errors.length ? errors.length : `${visibleErrors.length} of ${errors.length}`})</strong>
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by file or message"
+            aria-label="Filter errors"
+          />
+          <button onClick={handleExport} disabled={visibleErrors.length === 0}>
+            Export CSV
+          </button>
+        </div>
+      </div>
+      <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f5f5f5', textAlign: 'left' }}>
+              <th style={{ padding: '6px' }}>File</th>
+              <th style={{ padding: '6px' }}>Line</th>
+              <th style={{ padding: '6px' }}>Error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleErrors.map(error => (
+              <tr key={error.id} style={{ borderTop: '1px solid #eee', verticalAlign: 'top' }}>
+                <td style={{ padding: '6px', wordBreak: 'break-all' }}>
+                  <a
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      api?.openFolder(openablePath(error.file));
+                    }}
+                    title="Open file"
+                  >
+                    {error.file}
+                  </a>
+                </td>
+                <td style={{ padding: '6px' }}>{error.line ?? ''}</td>
+                <td style={{ padding: '6px' }}>
+                  {error.error}
+                  {error.snippet && (
+                    <pre style={{ margin: '4px 0 0', padding: '4px', backgroundColor: '#f7f7f7', whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+                      {error.snippet}
+                    </pre>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ScanErrorsPanel;
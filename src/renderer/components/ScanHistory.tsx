@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { useMainProcess } from '../context/MainProcessContext';
+import { ScanRun, SchemaChange } from '../types/mainProcessTypes';
+
+interface ScanHistoryProps {
+  projectId: string;
+  refreshKey: number;   // Changes when a scan completes so the history is loaded again
+}
+
+/**
+ * Format a duration in milliseconds for display
+ */
+const formatDuration = (durationMs: number): string => {
+  if (durationMs < 1000) return `${durationMs} ms`;
+  const seconds = durationMs / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+  return `${Math.floor(seconds / 60)} min ${Math.round(seconds % 60)} s`;
+};
+
+const formatDate = (date: Date): string => new Date(date).toLocaleString();
+
+const CHANGE_LABELS: Record<SchemaChange['change'], string> = {
+  'added': 'Added',
+  'removed': 'Removed',
+  'type-changed': 'Type changed'
+};
+
+const ScanHistory: React.FC<ScanHistoryProps> = ({ projectId, refreshKey }) => {
+  const [runs, setRuns] = useState<ScanRun[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [fromScanId, setFromScanId] = useState<string>('');
+  const [toScanId, setToScanId] = useState<string>('');
+  const [changes, setChanges] = useState<SchemaChange[] | null>(null);
+  const api = useMainProcess();
+
+  useEffect(() => {
+    if (!api || !projectId) return;
+
+    api.onScanRunsLoaded((data) => {
+      if (data.projectId !== projectId) return;
+      setRuns(data.runs);
+      setIsLoading(false);
+      // Compare the two most recent runs until the user picks others
+      setToScanId(data.runs[0]?.id ?? '');
+      setFromScanId(data.runs[1]?.id ?? '');
+    });
+    api.onScanRunsCompared((data) => {
+      if (data.projectId === projectId) {
+        setChanges(data.changes);
+      }
+    });
+    api.getScanRuns(projectId);
+
+    return () => {
+      if (api.removeAllListeners) {
+        api.removeAllListeners('scan-runs-loaded');
+        api.removeAllListeners('scan-runs-compared');
+      }
+    };
+  }, [api, projectId, refreshKey]);
+
+  useEffect(() => {
+    setChanges(null);
+    if (api && fromScanId && toScanId && fromScanId !== toScanId) {
+      api.compareScanRuns(projectId, fromScanId, toScanId);
+    }
+  }, [api, projectId, fromScanId, toScanId]);
+
+  if (isLoading) {
+    return <p>Loading scan history...</p>;
+  }
+
+  if (runs.length === 0) {
+    return <p>No scans have completed yet.</p>;
+  }
+
+  const runOptions = runs.map(run => (
+    <option key={run.id} value={run.id}>{formatDate(run.completedDate)}</option>
+  ));
+
+  return (
+    <div>
+      <h3>Scan History</h3>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px', marginBottom: '20px' }}>
+        <thead>
+          <tr style={{ backgroundColor: '#f5f5f5', textAlign: 'left' }}>
+            <th style={{ padding: '6px' }}>Completed</th>
+            <th style={{ padding: '6px' }}>Duration</th>
+            <th style={{ padding: '6px' }}>Files</th>
+            <th style={{ padding: '6px' }}>Added</th>
+            <th style={{ padding: '6px' }}>Modified</th>
+            <th style={{ padding: '6px' }}>Removed</th>
+            <th style={{ padding: '6px' }}>Records</th>
+            <th style={{ padding: '6px' }}>Errors</th>
+            <th style={{ padding: '6px' }}>Columns</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map(run => (
+            <tr key={run.id} style={{ borderTop: '1px solid #eee' }}>
+              <td style={{ padding: '6px' }} title={`Started ${formatDate(run.startedDate)}`}>
+                {formatDate(run.completedDate)}{run.fullRebuild ? ' (full rebuild)' : ''}
+              </td>
+              <td style={{ padding: '6px' }}>{formatDuration(run.durationMs)}</td>
+              <td style={{ padding: '6px' }}>{run.totalFiles}</td>
+              <td style={{ padding: '6px' }}>{run.addedFiles}</td>
+              <td style={{ padding: '6px' }}>{run.modifiedFiles}</td>
+              <td style={{ padding: '6px' }}>{run.removedFiles}</td>
+              <td style={{ padding: '6px' }}>{run.insertedRecords}</td>
+              <td style={{ padding: '6px' }}>{run.errorCount}</td>
+              <td style={{ padding: '6px' }}>{run.schema.length}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {runs.length > 1 && (
+        <div>
+          <h4>Schema Changes</h4>
+          <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '10px' }}>
+            <label>
+              From{' '}
+              <select value={fromScanId} onChange={(e) => setFromScanId(e.target.value)}>{runOptions}</select>
+            </label>
+            <label>
+              To{' '}
+              <select value={toScanId} onChange={(e) => setToScanId(e.target.value)}>{runOptions}</select>
+            </label>
+          </div>
+          {fromScanId === toScanId ? (
+            <p>Choose two different scans to compare.</p>
+          ) : changes === null ? (
+            <p>Comparing schemas...</p>
+          ) : changes.length === 0 ? (
+            <p>The schema did not change between these scans.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f5f5f5', textAlign: 'left' }}>
+                  <th style={{ padding: '6px' }}>Table</th>
+                  <th style={{ padding: '6px' }}>Column</th>
+                  <th style={{ padding: '6px' }}>Change</th>
+                  <th style={{ padding: '6px' }}>Type</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(change => (
+                  <tr key={`${change.table}.${change.column}`} style={{ borderTop: '1px solid #eee' }}>
+                    <td style={{ padding: '6px' }}>{change.table}</td>
+                    <td style={{ padding: '6px' }}>{change.column}</td>
+                    <td style={{ padding: '6px' }}>{CHANGE_LABELS[change.change]}</td>
+                    <td style={{ padding: '6px' }}>
+                      {change.change === 'type-changed' ? `${change.fromType} → ${change.toType}` : change.toType ?? change.fromType}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanHistory;
@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { NavLink, useLocation, useNavigate } from 'react-router-dom';
 import { useMainProcess } from '../context/MainProcessContext';
+import { WatchStatus } from '../types/mainProcessTypes';
 
 interface Project {
   id: string;
   name: string;
+  watchStatus?: WatchStatus | undefined;
 }
 
 const MIN_SIDEBAR_WIDTH = 200; // Minimum width in pixels
@@ -12,6 +14,7 @@ const DEFAULT_SIDEBAR_WIDTH = 250; // Default width in pixels
 
 const Sidebar: React.FC = () => {
   const [projects, setProjects] = useState<Project[]>([]);
+  const [watchStatuses, setWatchStatuses] = useState<Record<string, WatchStatus>>({});
   const [isProjectsExpanded, setIsProjectsExpanded] = useState(false);
   const [sidebarWidth, setSidebarWidth] = useState(DEFAULT_SIDEBAR_WIDTH);
   const [isSidebarVisible, setIsSidebarVisible] = useState(true);
@@ -102,8 +105,16 @@ const Sidebar: React.FC = () => {
     const handleProjectsLoaded = (loadedProjects: Project[]) => {
       console.log('Projects loaded in Sidebar:', loadedProjects.length);
       setProjects(loadedProjects);
+      setWatchStatuses(Object.fromEntries(loadedProjects
+        .filter(project => project.watchStatus)
+        .map(project => [project.id, project.watchStatus!])));
     };
     api.onProjectsLoaded(handleProjectsLoaded);
+
+    // Keep the watch indicators up to date
+    api.onWatchStatusChanged((data) => {
+      setWatchStatuses(statuses => ({ ...statuses, [data.projectId]: data.watchStatus }));
+    });
     
     // Set up event listener for when a project is created
     api.onProjectCreated((project: Project) => {
@@ -139,6 +150,7 @@ const Sidebar: React.FC = () => {
         api.removeAllListeners('projects-loaded');
         api.removeAllListeners('project-created');
         api.removeAllListeners('project-deleted');
+        api.removeAllListeners('watch-status-changed');
       }
     };
   }, [api, location.pathname, navigate]);
@@ -165,6 +177,27 @@ const Sidebar: React.FC = () => {
     fontSize: '0.9em'
   });
 
+  // Show whether a project is watched and whether changes are waiting to be scanned
+  const renderWatchIndicator = (status: WatchStatus | undefined) => {
+    if (!status || (!status.isWatching && status.pendingChanges === 0)) {
+      return null;
+    }
+
+    const hasPendingChanges = status.pendingChanges > 0;
+    const title = hasPendingChanges
+      ? `${status.pendingChanges} ${status.pendingChanges === 1 ? 'change' : 'changes'} waiting to be scanned`
+      : `Watching for changes${status.isPolling ? ' (checked periodically)' : ''}`;
+
+    return (
+      <span
+        title={title}
+        style={{ marginLeft: '6px', color: hasPendingChanges ? '#e67e22' : '#27ae60', fontSize: '0.8em' }}
+      >
+        {hasPendingChanges ? `● ${status.pendingChanges}` : '●'}
+      </span>
+    );
+  };
+
   return (
     <div style={{ display: 'flex' }}>
       {/* Toggle Button (always visible) */}
@@ -254,6 +287,7 @@ const Sidebar: React.FC = () => {
                         style={getProjectLinkStyle}
                       >
                         {project.name}
+                        {renderWatchIndicator(watchStatuses[project.id])}
                       </NavLink>
                     </li>
                   ))}
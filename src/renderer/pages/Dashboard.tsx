@@ -1,15 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useMainProcess } from '../context/MainProcessContext';
-import { Project } from '../types/mainProcessTypes';
+import { Project, ScheduleStatus } from '../types/mainProcessTypes';
 import CreateProjectDialog from '../components/CreateProjectDialog';
 
 interface ProjectSummary {
   id: string;
   name: string;
   lastOpened: Date;
+  isScheduled: boolean;
+  nextRunDate: Date | null;
+  lastRunDate: Date | null;
 }
 
+const toDate = (value: Date | string | null | undefined): Date | null => value ? new Date(value) : null;
+
 const Dashboard: React.FC = () => {
   const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -29,7 +34,10 @@ const Dashboard: React.FC = () => {
       const projectSummaries: ProjectSummary[] = projects.map(project => ({
         id: project.id,
         name: project.name,
-        lastOpened: project.lastOpened ? new Date(project.lastOpened) : new Date()
+        lastOpened: project.lastOpened ? new Date(project.lastOpened) : new Date(),
+        isScheduled: !!project.scanSchedule,
+        nextRunDate: toDate(project.scheduleStatus?.nextRunDate),
+        lastRunDate: toDate(project.scheduleStatus?.lastRunDate ?? project.scanStatus?.lastScanResult?.completedDate)
       }));
       
       setRecentProjects(projectSummaries);
@@ -42,9 +50,19 @@ const Dashboard: React.FC = () => {
       api.loadProjects();
     };
 
+    // Keep the next and last runs up to date as schedules fire
+    const handleScheduleStatusChanged = (data: { projectId: string, scheduleStatus: ScheduleStatus }) => {
+      setRecentProjects(projects => projects.map(project => project.id === data.projectId ? {
+        ...project,
+        nextRunDate: toDate(data.scheduleStatus.nextRunDate),
+        lastRunDate: toDate(data.scheduleStatus.lastRunDate) ?? project.lastRunDate
+      } : project));
+    };
+
     // Register the event listeners
     api.onProjectsLoaded(handleProjectsLoaded);
     api.onProjectCreated(handleProjectCreated);
+    api.onScheduleStatusChanged(handleScheduleStatusChanged);
 
     // Request to load projects
     api.loadProjects();
@@ -53,6 +71,7 @@ const Dashboard: React.FC = () => {
     return () => {
       api.removeAllListeners('projects-loaded');
       api.removeAllListeners('project-created');
+      api.removeAllListeners('schedule-status-changed');
     };
   }, [api]);
 
@@ -105,6 +124,11 @@ const Dashboard: React.FC = () => {
               <div className="sub-text">
                 Last opened: {project.lastOpened.toLocaleDateString()}
               </div>
+              <div className="sub-text">
+                Last scan: {project.lastRunDate ? project.lastRunDate.toLocaleString() : 'Never'}
+                {' · '}
+                Next scan: {project.isScheduled && project.nextRunDate ? project.nextRunDate.toLocaleString() : 'Not scheduled'}
+              </div>
             </div>
           ))}
         </div>
@@ -3,9 +3,43 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { useMainProcess } from '../context/MainProcessContext';
 import AddSourceDirectoryModal from '../components/AddSourceDirectoryModal';
 import RemoveProjectDialog from '../components/RemoveProjectDialog';
-import { Project, ScanStatus } from '../types/mainProcessTypes';
+import ScanErrorsPanel from '../components/ScanErrorsPanel';
+import ScanHistory from '../components/ScanHistory';
+import {
+  Project, ScanStatus, ScanSettings, WatchSettings, ScanSchedule, ScanScheduleFrequency, FlattenSeparator, ColumnCollisionStrategy,
+  SourceFolderSettings, LogFormat, LogFormatPreset, TableRule, DetectedFileFormat
+} from '../types/mainProcessTypes';
 import findIcon from '../../assets/Find.png';
 
+// Defaults applied by the scanner when a project has no scan settings
+const DEFAULT_SCAN_SETTINGS: Required<Omit<ScanSettings, 'logFormats' | 'tableRules'>> = {
+  flattenDepth: 2,
+  separator: '_',
+  collisionStrategy: 'suffix'
+};
+
+const EMPTY_LOG_FORMAT: LogFormat = { pattern: '*.log', preset: 'combined' };
+
+const EMPTY_TABLE_RULE: TableRule = { table: '', pattern: '' };
+
+// Files listed by name when a scan reports the formats it detected from file contents
+const DETECTED_FORMAT_LIST_LIMIT = 10;
+
+// Values of the schedule form; manual leaves the project without a schedule
+interface ScheduleForm {
+  frequency: 'manual' | ScanScheduleFrequency;
+  minute: number;
+  time: string;
+  cron: string;
+}
+
+const DEFAULT_SCHEDULE_FORM: ScheduleForm = {
+  frequency: 'manual',
+  minute: 0,
+  time: '06:00',
+  cron: '0 * * * *'
+};
+
 // Import ScanProgress interface
 interface ScanProgress {
   projectId?: string;
@@ -19,15 +53,28 @@ const ProjectDetail: React.FC = () => {
   const navigate = useNavigate();
   const [project, setProject] = useState<Project | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [activeTab, setActiveTab] = useState<'details' | 'files' | 'query'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'files' | 'query' | 'history'>('details');
   const [isAddSourceModalOpen, setIsAddSourceModalOpen] = useState<boolean>(false);
   const [isRemoveDialogOpen, setIsRemoveDialogOpen] = useState<boolean>(false);
   const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
   const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [isScanPaused, setIsScanPaused] = useState<boolean>(false);
+  const [scanCancelledMessage, setScanCancelledMessage] = useState<string | null>(null);
   const [scanComplete, setScanComplete] = useState<{
     processedFiles: number;
     extractedObjects: number;
+    removedFiles?: number | undefined;
+    unchangedFiles?: number | undefined;
+    errorCount?: number | undefined;
+    detectedFormats?: DetectedFileFormat[] | undefined;
   } | null>(null);
+  const [scanSettings, setScanSettings] = useState<Required<Omit<ScanSettings, 'logFormats' | 'tableRules'>>>(DEFAULT_SCAN_SETTINGS);
+  const [logFormats, setLogFormats] = useState<LogFormat[]>([]);
+  const [tableRules, setTableRules] = useState<TableRule[]>([]);
+  const [scanSettingsMessage, setScanSettingsMessage] = useState<string | null>(null);
+  const [completedScans, setCompletedScans] = useState<number>(0);
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm>(DEFAULT_SCHEDULE_FORM);
+  const [scheduleMessage, setScheduleMessage] = useState<string | null>(null);
   const api = useMainProcess();
 
   // Function to load a single project
@@ -40,11 +87,22 @@ const ProjectDetail: React.FC = () => {
       // Use the getProject method to fetch only the specific project
       const projectData = await api.getProject(id);
       setProject(projectData);
+      const { logFormats: savedLogFormats, tableRules: savedTableRules, ...savedScanSettings } = projectData.scanSettings ?? {};
+      setScanSettings({ ...DEFAULT_SCAN_SETTINGS, ...savedScanSettings });
+      setLogFormats(savedLogFormats ?? []);
+      setTableRules(savedTableRules ?? []);
+      setScheduleForm(projectData.scanSchedule ? {
+        frequency: projectData.scanSchedule.frequency,
+        minute: projectData.scanSchedule.minute ?? DEFAULT_SCHEDULE_FORM.minute,
+        time: projectData.scanSchedule.time ?? DEFAULT_SCHEDULE_FORM.time,
+        cron: projectData.scanSchedule.cron ?? DEFAULT_SCHEDULE_FORM.cron
+      } : DEFAULT_SCHEDULE_FORM);
       
       // Initialize scan status from project data if available
       if (projectData.scanStatus) {
         // Set scanning state
         setIsScanning(projectData.scanStatus.isScanning);
+        setIsScanPaused(projectData.scanStatus.isScanning && !!projectData.scanStatus.isPaused);
         
         // Set progress if available
         if (projectData.scanStatus.progress) {
@@ -104,10 +162,35 @@ const ProjectDetail: React.FC = () => {
       }
     });
     
+    // Listen for scan settings updated events
+    api.onScanSettingsUpdated((data) => {
+      if (data.projectId === id) {
+        setScanSettingsMessage('Scan settings saved. Files will be parsed again on the next scan.');
+        loadProject();
+      }
+    });
+    
+    // Listen for scan schedule updated events
+    api.onScanScheduleUpdated((data) => {
+      if (data.projectId === id) {
+        setScheduleMessage(data.scanSchedule ? 'Scan schedule saved.' : 'Scan schedule removed. Scans will only run when started.');
+        loadProject();
+      }
+    });
+    
+    // Listen for watch settings updated events
+    api.onWatchSettingsUpdated((data) => {
+      if (data.projectId === id) {
+        loadProject();
+      }
+    });
+    
     // Listen for scan started events
     api.onScanStarted((data) => {
       if (data.projectId === id) {
         setIsScanning(true);
+        setIsScanPaused(false);
+        setScanCancelledMessage(null);
         setScanProgress({
           projectId: id,
           current: 0,
@@ -137,8 +220,13 @@ const ProjectDetail: React.FC = () => {
       if (result.projectId === id) {
         setScanComplete({
           processedFiles: result.processedFiles,
-          extractedObjects: result.extractedObjects
+          extractedObjects: result.extractedObjects,
+          removedFiles: result.removedFiles,
+          unchangedFiles: result.unchangedFiles,
+          errorCount: result.errorCount,
+          detectedFormats: result.detectedFormats
         });
+        setCompletedScans(count => count + 1);
         
         // Reset scan complete after a delay
         setTimeout(() => {
@@ -147,6 +235,33 @@ const ProjectDetail: React.FC = () => {
       }
     });
     
+    // Listen for scan pause, resume and cancel events
+    api.onScanPaused((data) => {
+      if (data.projectId === id) {
+        setIsScanPaused(true);
+      }
+    });
+
+    api.onScanResumed((data) => {
+      if (data.projectId === id) {
+        setIsScanPaused(false);
+      }
+    });
+
+    api.onScanCancelled((data) => {
+      if (data.projectId === id) {
+        setIsScanning(false);
+        setIsScanPaused(false);
+        setScanProgress(null);
+        setScanCancelledMessage(data.message);
+
+        // Reset the cancellation message after a delay
+        setTimeout(() => {
+          setScanCancelledMessage(null);
+        }, 10000);
+      }
+    });
+    
     api.onError((error) => {
       // Only handle non-SQL query errors at this level
       // SQL query errors should be handled by the Query component
@@ -165,9 +280,15 @@ const ProjectDetail: React.FC = () => {
       if (api.removeAllListeners) {
         api.removeAllListeners('source-folder-added');
         api.removeAllListeners('source-folder-removed');
+        api.removeAllListeners('scan-settings-updated');
+        api.removeAllListeners('watch-settings-updated');
+        api.removeAllListeners('scan-schedule-updated');
         api.removeAllListeners('scan-started');
         api.removeAllListeners('scan-progress');
         api.removeAllListeners('scan-complete');
+        api.removeAllListeners('scan-paused');
+        api.removeAllListeners('scan-resumed');
+        api.removeAllListeners('scan-cancelled');
         api.removeAllListeners('error');
       }
     };
@@ -177,13 +298,59 @@ const ProjectDetail: React.FC = () => {
     setIsAddSourceModalOpen(true);
   };
 
-  const handleSourceDirectorySubmit = (folderPath: string) => {
+  const handleSourceDirectorySubmit = (folderPath: string, settings: SourceFolderSettings) => {
     if (api && project && id) {
-      api.addSourceFolder(id, folderPath);
+      api.addSourceFolder(id, folderPath, settings);
       setIsAddSourceModalOpen(false);
     }
   };
 
+  const handleSaveScanSettings = () => {
+    if (api && id) {
+      setScanSettingsMessage(null);
+      // Empty fields fall back to the preset's defaults
+      const formats = logFormats.map(format => Object.fromEntries(
+        Object.entries(format).filter(([, value]) => value !== '' && value !== undefined)
+      ) as LogFormat);
+      // Empty criteria match any folder, file or record
+      const rules = tableRules.map(rule => Object.fromEntries(
+        Object.entries(rule).filter(([, value]) => value !== '' && value !== undefined)
+      ) as TableRule);
+      api.updateScanSettings(id, { ...scanSettings, logFormats: formats, tableRules: rules });
+    }
+  };
+
+  const updateLogFormat = (index: number, changes: Partial<LogFormat>) => {
+    setLogFormats(formats => formats.map((format, i) => i === index ? { ...format, ...changes } : format));
+  };
+
+  const updateTableRule = (index: number, changes: Partial<TableRule>) => {
+    setTableRules(rules => rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const handleSaveSchedule = () => {
+    if (!api || !id) return;
+
+    const { frequency, minute, time, cron } = scheduleForm;
+    let schedule: ScanSchedule | null = null;
+    if (frequency === 'hourly') {
+      schedule = { frequency, minute };
+    } else if (frequency === 'daily') {
+      schedule = { frequency, time };
+    } else if (frequency === 'cron') {
+      schedule = { frequency, cron };
+    }
+
+    setScheduleMessage(null);
+    api.updateScanSchedule(id, schedule);
+  };
+
+  const handleUpdateWatchSettings = (changes: Partial<WatchSettings>) => {
+    if (api && project && id) {
+      api.updateWatchSettings(id, { enabled: false, ...project.watchSettings, ...changes });
+    }
+  };
+
   const handleRevealFolder = (folderPath: string) => {
     if (api) {
       api.openFolder(folderPath);
@@ -219,6 +386,11 @@ const ProjectDetail: React.FC = () => {
   const renderTabContent = () => {
     if (!project) return null;
 
+    // Incremental scans may have nothing to process, so guard against a zero total
+    const scanPercent = scanProgress && scanProgress.total > 0
+      ? Math.round((scanProgress.current / scanProgress.total) * 100)
+      : 0;
+
     switch (activeTab) {
       case 'details':
         return (
@@ -255,6 +427,243 @@ const ProjectDetail: React.FC = () => {
                 readOnly 
               />
             </div>
+
+            <h3>Scan Settings</h3>
+            <div className="form-group">
+              <label htmlFor="flattenDepth">Flatten Depth</label>
+              <input
+                type="number"
+                id="flattenDepth"
+                min={0}
+                max={10}
+                value={scanSettings.flattenDepth}
+                onChange={(e) => setScanSettings({ ...scanSettings, flattenDepth: parseInt(e.target.value, 10) || 0 })}
+              />
+              <small>Levels of nested objects turned into columns; deeper objects are stored as JSON text.</small>
+            </div>
+            <div className="form-group">
+              <label htmlFor="flattenSeparator">Column Name Separator</label>
+              <select
+                id="flattenSeparator"
+                value={scanSettings.separator}
+                onChange={(e) => setScanSettings({ ...scanSettings, separator: e.target.value as FlattenSeparator })}
+              >
+                <option value="_">Underscore (a_b)</option>
+                <option value=".">Dot (a.b)</option>
+                <option value="__">Double underscore (a__b)</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="collisionStrategy">When Column Names Collide</label>
+              <select
+                id="collisionStrategy"
+                value={scanSettings.collisionStrategy}
+                onChange={(e) => setScanSettings({ ...scanSettings, collisionStrategy: e.target.value as ColumnCollisionStrategy })}
+              >
+                <option value="suffix">Store later values in a numbered column (a_b_2)</option>
+                <option value="keep-first">Keep the first value</option>
+                <option value="overwrite">Keep the last value</option>
+              </select>
+              <small>Collisions are listed in the scan errors whichever option is chosen.</small>
+            </div>
+            <fieldset className="csv-options">
+              <legend>Log Formats</legend>
+              <p className="option-hint">
+                Read plain-text log files matching a file pattern, one row per entry. Named groups of the regex such
+                as <code>(?&lt;level&gt;\w+)</code> become columns; lines that do not match are listed in the scan errors.
+              </p>
+              {logFormats.map((format, index) => (
+                <div className="selector-row" key={index}>
+                  <input
+                    type="text"
+                    aria-label="Log file pattern"
+                    value={format.pattern}
+                    onChange={(e) => updateLogFormat(index, { pattern: e.target.value })}
+                    placeholder="File pattern (e.g. logs/*.log)"
+                  />
+                  <select
+                    aria-label="Log format preset"
+                    value={format.preset ?? ''}
+                    onChange={(e) => updateLogFormat(index, { preset: (e.target.value || undefined) as LogFormatPreset | undefined })}
+                  >
+                    <option value="">Custom regex</option>
+                    <option value="combined">Apache/nginx combined</option>
+                    <option value="common">Apache/nginx common</option>
+                    <option value="syslog">Syslog</option>
+                    <option value="logfmt">logfmt</option>
+                  </select>
+                  <input
+                    type="text"
+                    aria-label="Log entry regex"
+                    value={format.regex ?? ''}
+                    onChange={(e) => updateLogFormat(index, { regex: e.target.value })}
+                    placeholder="(?<time>\S+) (?<level>\w+) (?<message>.*)"
+                  />
+                  <input
+                    type="text"
+                    aria-label="Multiline continuation pattern"
+                    value={format.multilinePattern ?? ''}
+                    onChange={(e) => updateLogFormat(index, { multilinePattern: e.target.value })}
+                    placeholder="Continuation lines (e.g. ^\s)"
+                  />
+                  <input
+                    type="text"
+                    aria-label="Timestamp field"
+                    value={format.timestampField ?? ''}
+                    onChange={(e) => updateLogFormat(index, { timestampField: e.target.value })}
+                    placeholder="Timestamp field"
+                  />
+                  <input
+                    type="text"
+                    aria-label="Timestamp format"
+                    value={format.timestampFormat ?? ''}
+                    onChange={(e) => updateLogFormat(index, { timestampFormat: e.target.value })}
+                    placeholder="Timestamp format (e.g. yyyy-MM-dd HH:mm:ss)"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setLogFormats(formats => formats.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setLogFormats(formats => [...formats, { ...EMPTY_LOG_FORMAT }])}
+              >
+                Add Log Format
+              </button>
+            </fieldset>
+            <fieldset className="csv-options">
+              <legend>Tables</legend>
+              <p className="option-hint">
+                Store the records of a source folder, of files matching a pattern, or holding a value in a field such
+                as <code>type</code> in their own table instead of <code>data</code>. Each table gets its own columns;
+                the first matching rule applies.
+              </p>
+              {tableRules.map((rule, index) => (
+                <div className="selector-row" key={index}>
+                  <input
+                    type="text"
+                    aria-label="Table name"
+                    value={rule.table}
+                    onChange={(e) => updateTableRule(index, { table: e.target.value })}
+                    placeholder="Table (e.g. orders)"
+                  />
+                  <select
+                    aria-label="Table source folder"
+                    value={rule.sourceFolder ?? ''}
+                    onChange={(e) => updateTableRule(index, { sourceFolder: e.target.value || undefined })}
+                  >
+                    <option value="">Any source folder</option>
+                    {(project.sourceFolders || []).map(folder => (
+                      <option key={folder.id} value={folder.path}>{folder.path}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    aria-label="Table file pattern"
+                    value={rule.pattern ?? ''}
+                    onChange={(e) => updateTableRule(index, { pattern: e.target.value })}
+                    placeholder="File pattern (e.g. orders/*.csv)"
+                  />
+                  <input
+                    type="text"
+                    aria-label="Discriminator field"
+                    value={rule.field ?? ''}
+                    onChange={(e) => updateTableRule(index, { field: e.target.value })}
+                    placeholder="Field (e.g. type)"
+                  />
+                  <input
+                    type="text"
+                    aria-label="Discriminator value"
+                    value={rule.value ?? ''}
+                    onChange={(e) => updateTableRule(index, { value: e.target.value })}
+                    placeholder="Value (e.g. order)"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setTableRules(rules => rules.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setTableRules(rules => [...rules, { ...EMPTY_TABLE_RULE }])}
+              >
+                Add Table Rule
+              </button>
+            </fieldset>
+            <button onClick={handleSaveScanSettings} disabled={isScanning}>
+              Save Scan Settings
+            </button>
+            {scanSettingsMessage && (
+              <p style={{ color: '#2e7d32' }}>{scanSettingsMessage}</p>
+            )}
+
+            <h3>Scan Schedule</h3>
+            <div className="form-group">
+              <label htmlFor="scheduleFrequency">Rescan</label>
+              <select
+                id="scheduleFrequency"
+                value={scheduleForm.frequency}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, frequency: e.target.value as ScheduleForm['frequency'] })}
+              >
+                <option value="manual">Only when started</option>
+                <option value="hourly">Every hour</option>
+                <option value="daily">Every day</option>
+                <option value="cron">On a cron schedule</option>
+              </select>
+            </div>
+            {scheduleForm.frequency === 'hourly' && (
+              <div className="form-group">
+                <label htmlFor="scheduleMinute">Minutes Past the Hour</label>
+                <input
+                  type="number"
+                  id="scheduleMinute"
+                  min={0}
+                  max={59}
+                  value={scheduleForm.minute}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, minute: parseInt(e.target.value, 10) || 0 })}
+                />
+              </div>
+            )}
+            {scheduleForm.frequency === 'daily' && (
+              <div className="form-group">
+                <label htmlFor="scheduleTime">Time</label>
+                <input
+                  type="time"
+                  id="scheduleTime"
+                  value={scheduleForm.time}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, time: e.target.value })}
+                />
+              </div>
+            )}
+            {scheduleForm.frequency === 'cron' && (
+              <div className="form-group">
+                <label htmlFor="scheduleCron">Cron Expression</label>
+                <input
+                  type="text"
+                  id="scheduleCron"
+                  value={scheduleForm.cron}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, cron: e.target.value })}
+                  placeholder="minute hour day-of-month month day-of-week"
+                />
+                <small>For example 30 2 * * 1-5 scans at 2:30 on weekdays.</small>
+              </div>
+            )}
+            <button onClick={handleSaveSchedule}>
+              Save Scan Schedule
+            </button>
+            {scheduleMessage && (
+              <p style={{ color: '#2e7d32' }}>{scheduleMessage}</p>
+            )}
+            {project.scheduleStatus?.nextRunDate && (
+              <p className="sub-text">Next scheduled scan: {new Date(project.scheduleStatus.nextRunDate).toLocaleString()}</p>
+            )}
           </div>
         );
       case 'files':
@@ -281,14 +690,59 @@ const ProjectDetail: React.FC = () => {
                 </button>
               </div>
             </div>
+
+            <div style={{ marginBottom: '20px', display: 'flex', gap: '20px', alignItems: 'center' }}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={!!project.watchSettings?.enabled}
+                  onChange={(e) => handleUpdateWatchSettings({ enabled: e.target.checked })}
+                />
+                {' '}Watch source directories and rescan changed files automatically
+              </label>
+              <label title="Use for network drives and other folders that do not report changes">
+                <input
+                  type="checkbox"
+                  checked={!!project.watchSettings?.usePolling}
+                  disabled={!project.watchSettings?.enabled}
+                  onChange={(e) => handleUpdateWatchSettings({ usePolling: e.target.checked })}
+                />
+                {' '}Check for changes periodically
+              </label>
+            </div>
             
             {/* Scan Progress Bar */}
             {isScanning && scanProgress && (
               <div style={{ marginBottom: '20px' }}>
                 <div style={{ marginBottom: '10px' }}>
-                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                    <span>Scanning files...</span>
-                    <span>{Math.round((scanProgress.current / scanProgress.total) * 100)}%</span>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <span>{isScanPaused ? 'Scan paused' : 'Scanning files...'}</span>
+                    <div style={{ display: 'flex', alignItems: 'center' }}>
+                      <span style={{ marginRight: '10px' }}>{scanPercent}%</span>
+                      <button 
+                        onClick={() => {
+                          if (api && project) {
+                            if (isScanPaused) {
+                              api.resumeScan(project.id);
+                            } else {
+                              api.pauseScan(project.id);
+                            }
+                          }
+                        }}
+                        style={{ marginRight: '10px' }}
+                      >
+                        {isScanPaused ? 'Resume' : 'Pause'}
+                      </button>
+                      <button 
+                        onClick={() => {
+                          if (api && project) {
+                            api.cancelScan(project.id);
+                          }
+                        }}
+                      >
+                        Cancel
+                      </button>
+                    </div>
                   </div>
                   <div style={{ 
                     width: '100%', 
@@ -298,9 +752,9 @@ const ProjectDetail: React.FC = () => {
                     overflow: 'hidden'
                   }}>
                     <div style={{ 
-                      width: `${(scanProgress.current / scanProgress.total) * 100}%`, 
+                      width: `${scanPercent}%`, 
                       height: '100%', 
-                      backgroundColor: '#4CAF50',
+                      backgroundColor: isScanPaused ? '#FFA726' : '#4CAF50',
                       borderRadius: '5px',
                       transition: 'width 0.3s ease'
                     }}></div>
@@ -312,6 +766,21 @@ const ProjectDetail: React.FC = () => {
               </div>
             )}
             
+            {/* Scan Cancelled Message */}
+            {!isScanning && scanCancelledMessage && (
+              <div style={{ 
+                marginBottom: '20px', 
+                padding: '10px', 
+                backgroundColor: '#fff3e0', 
+                borderRadius: '4px',
+                border: '1px solid #ffe0b2'
+              }}>
+                <p style={{ margin: 0, color: '#e65100' }}>
+                  {scanCancelledMessage}
+                </p>
+              </div>
+            )}
+            
             {/* Scan Complete Message */}
             {!isScanning && scanComplete && (
               <div style={{ 
@@ -323,9 +792,28 @@ const ProjectDetail: React.FC = () => {
               }}>
                 <p style={{ margin: 0, color: '#2e7d32' }}>
                   <strong>Scan completed successfully!</strong> Processed {scanComplete.processedFiles} files and extracted {scanComplete.extractedObjects} objects.
+                  {scanComplete.removedFiles ? ` Removed rows from ${scanComplete.removedFiles} deleted files.` : ''}
+                  {scanComplete.unchangedFiles ? ` Skipped ${scanComplete.unchangedFiles} unchanged files.` : ''}
+                  {scanComplete.errorCount ? ` ${scanComplete.errorCount} errors are listed below.` : ''}
                 </p>
+                {scanComplete.detectedFormats && scanComplete.detectedFormats.length > 0 && (
+                  <div style={{ marginTop: '6px', color: '#2e7d32', fontSize: '13px' }}>
+                    Detected the format of {scanComplete.detectedFormats.length} files from their content:
+                    <ul style={{ margin: '4px 0 0', paddingLeft: '20px' }}>
+                      {scanComplete.detectedFormats.slice(0, DETECTED_FORMAT_LIST_LIMIT).map(detected => (
+                        <li key={detected.file}>
+                          {detected.file}: {detected.format}{detected.compression ? `, ${detected.compression} compressed` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                    {scanComplete.detectedFormats.length > DETECTED_FORMAT_LIST_LIMIT &&
+                      `and ${scanComplete.detectedFormats.length - DETECTED_FORMAT_LIST_LIMIT} more`}
+                  </div>
+                )}
               </div>
             )}
+
+            <ScanErrorsPanel projectId={project.id} refreshKey={completedScans} />
             
             {project.sourceFolders && project.sourceFolders.length > 0 ? (
               <ul style={{ listStyle: 'none', padding: 0 }}>
@@ -393,6 +881,8 @@ const ProjectDetail: React.FC = () => {
             {React.createElement(require('../pages/Query').default, { projectId: project.id })}
           </div>
         );
+      case 'history':
+        return <ScanHistory projectId={project.id} refreshKey={completedScans} />;
       default:
         return null;
     }
@@ -412,7 +902,7 @@ const ProjectDetail: React.FC = () => {
       
       <div style={{ marginBottom: '20px', borderBottom: '1px solid #ddd' }}>
         <div style={{ display: 'flex' }}>
-          {(['details', 'files', 'query'] as const).map(tab => (
+          {(['details', 'files', 'query', 'history'] as const).map(tab => (
             <div
               key={tab}
               style={{
@@ -434,6 +924,7 @@ const ProjectDetail: React.FC = () => {
       </div>
       
       <AddSourceDirectoryModal 
+        projectId={id || ''}
         isOpen={isAddSourceModalOpen}
         onClose={() => setIsAddSourceModalOpen(false)}
         onSubmit={handleSourceDirectorySubmit}
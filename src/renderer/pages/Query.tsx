@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useMainProcess } from '../context/MainProcessContext';
+import { TableSchema } from '../types/mainProcessTypes';
 
 interface QueryResult {
   columns: string[];
@@ -11,6 +12,16 @@ interface QueryProps {
   projectId: string;
 }
 
+// A result row's record as read back from its source file
+interface RevealedRecord {
+  filePath: string;
+  line: number | null;
+  offset: number;
+  text: string | null;    // Null while the text is loading
+  truncated: boolean;
+  error: string | null;
+}
+
 const Query: React.FC<QueryProps> = ({ projectId }) => {
   const [sqlQuery, setSqlQuery] = useState<string>('');
   const [isExecuting, setIsExecuting] = useState<boolean>(false);
@@ -18,9 +29,30 @@ const Query: React.FC<QueryProps> = ({ projectId }) => {
   const [results, setResults] = useState<QueryResult | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [rowsPerPage, setRowsPerPage] = useState<number>(10);
+  const [tables, setTables] = useState<TableSchema[]>([]);
+  const [expandedTable, setExpandedTable] = useState<string | null>(null);
+  const [revealedRecord, setRevealedRecord] = useState<RevealedRecord | null>(null);
   
   const api = useMainProcess();
 
+  // Load the tables for the schema browser
+  useEffect(() => {
+    if (!api || !projectId) return;
+
+    api.onProjectSchemaLoaded((data) => {
+      if (data.projectId === projectId) {
+        setTables(data.tables);
+      }
+    });
+    api.getProjectSchema(projectId);
+
+    return () => {
+      if (api.removeAllListeners) {
+        api.removeAllListeners('project-schema-loaded');
+      }
+    };
+  }, [api, projectId]);
+
   const handleQueryChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setSqlQuery(e.target.value);
   };
@@ -156,6 +188,38 @@ const Query: React.FC<QueryProps> = ({ projectId }) => {
     // In a real implementation, this would re-execute the query with the new rows per page
   };
 
+  const handleRevealRecord = (filePath: string, offset: number, line: number | null) => {
+    if (!api) return;
+
+    setRevealedRecord({ filePath, line, offset, text: null, truncated: false, error: null });
+
+    const removeListeners = () => {
+      if (api.removeAllListeners) {
+        api.removeAllListeners('record-source-loaded');
+        api.removeAllListeners('error');
+      }
+    };
+
+    api.onRecordSourceLoaded((data) => {
+      removeListeners();
+      setRevealedRecord(current => current && current.filePath === data.filePath && current.offset === data.offset
+        ? { ...current, text: data.text, truncated: data.truncated }
+        : current);
+    });
+    api.onError((revealError) => {
+      removeListeners();
+      setRevealedRecord(current => current ? { ...current, error: revealError.details || revealError.message } : current);
+    });
+
+    api.getRecordSource(projectId, filePath, offset);
+  };
+
+  // Rows can be revealed in their source when the results include the data table's position columns
+  const sourceFileColumn = results ? results.columns.indexOf('_source_file') : -1;
+  const sourceOffsetColumn = results ? results.columns.indexOf('_source_offset') : -1;
+  const sourceLineColumn = results ? results.columns.indexOf('_source_line') : -1;
+  const canReveal = sourceFileColumn !== -1 && sourceOffsetColumn !== -1;
+
   // Calculate pagination values
   const totalPages = results ? Math.ceil(results.totalRows / rowsPerPage) : 0;
   const startRow = (currentPage - 1) * rowsPerPage + 1;
@@ -171,6 +235,50 @@ const Query: React.FC<QueryProps> = ({ projectId }) => {
       {/* Fixed query section that stays in view */}
       <div style={{ flex: '0 0 auto' }}>
         <h2>SQL Query</h2>
+
+        {tables.length > 0 && (
+          <div style={{
+            marginBottom: '15px',
+            padding: '10px',
+            border: '1px solid #ddd',
+            borderRadius: '4px',
+            backgroundColor: '#fafafa',
+            maxHeight: '200px',
+            overflowY: 'auto'
+          }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>Tables</div>
+            {tables.map(table => (
+              <div key={table.name} style={{ marginLeft: table.parentTable ? '20px' : 0 }}>
+                <button
+                  onClick={() => setExpandedTable(expandedTable === table.name ? null : table.name)}
+                  style={{ background: 'none', border: 'none', padding: '2px 0', cursor: 'pointer', fontFamily: 'monospace' }}
+                >
+                  {expandedTable === table.name ? '▾' : '▸'} {table.name}
+                </button>
+                {table.parentTable && (
+                  <span style={{ marginLeft: '8px', color: '#666', fontSize: '12px' }}>
+                    _parent_id → {table.parentTable}._id
+                  </span>
+                )}
+                <button
+                  onClick={() => setSqlQuery(`SELECT * FROM "${table.name}"`)}
+                  style={{ marginLeft: '8px', fontSize: '12px', cursor: 'pointer' }}
+                >
+                  Query
+                </button>
+                {expandedTable === table.name && (
+                  <ul style={{ margin: '2px 0 6px', paddingLeft: '30px', fontFamily: 'monospace', fontSize: '13px' }}>
+                    {table.columns.map(column => (
+                      <li key={column.name}>
+                        {column.name} <span style={{ color: '#666' }}>{column.type}{column.nullable ? '' : ' NOT NULL'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
         
         <div style={{ marginBottom: '20px' }}>
           <textarea
@@ -379,57 +487,127 @@ const Query: React.FC<QueryProps> = ({ projectId }) => {
             </div>
           )}
           
-          <div style={{ 
-            overflowY: 'auto',
-            overflowX: 'auto',
-            flex: '1 1 auto',
-            border: '1px solid #ddd',
-            borderRadius: '4px'
-          }}>
-            <table style={{ 
-              width: '100%', 
-              borderCollapse: 'collapse',
-              border: '1px solid #ddd'
+          <div style={{ display: 'flex', gap: '10px', flex: '1 1 auto', minHeight: 0 }}>
+            <div style={{ 
+              overflowY: 'auto',
+              overflowX: 'auto',
+              flex: '1 1 auto',
+              border: '1px solid #ddd',
+              borderRadius: '4px'
             }}>
-              <thead>
-                <tr style={{ backgroundColor: '#f5f5f5' }}>
-                  {results.columns.map((column, index) => (
-                    <th 
-                      key={index}
-                      style={{ 
-                        padding: '10px', 
-                        textAlign: 'left',
-                        borderBottom: '2px solid #ddd'
-                      }}
-                    >
-                      {column}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {results.rows.map((row, rowIndex) => (
-                  <tr 
-                    key={rowIndex}
-                    style={{ 
-                      backgroundColor: rowIndex % 2 === 0 ? 'white' : '#f9f9f9'
-                    }}
-                  >
-                    {row.map((cell, cellIndex) => (
-                      <td 
-                        key={cellIndex}
+              <table style={{ 
+                width: '100%', 
+                borderCollapse: 'collapse',
+                border: '1px solid #ddd'
+              }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f5f5f5' }}>
+                    {canReveal && <th style={{ padding: '10px', borderBottom: '2px solid #ddd' }} />}
+                    {results.columns.map((column, index) => (
+                      <th 
+                        key={index}
                         style={{ 
-                          padding: '8px 10px',
-                          borderBottom: '1px solid #ddd'
+                          padding: '10px', 
+                          textAlign: 'left',
+                          borderBottom: '2px solid #ddd'
                         }}
                       >
-                        {cell}
-                      </td>
+                        {column}
+                      </th>
                     ))}
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody>
+                  {results.rows.map((row, rowIndex) => (
+                    <tr 
+                      key={rowIndex}
+                      style={{ 
+                        backgroundColor: rowIndex % 2 === 0 ? 'white' : '#f9f9f9'
+                      }}
+                    >
+                      {canReveal && (
+                        <td style={{ padding: '8px 10px', borderBottom: '1px solid #ddd', whiteSpace: 'nowrap' }}>
+                          {row[sourceFileColumn] && row[sourceOffsetColumn] !== null && row[sourceOffsetColumn] !== undefined && (
+                            <button
+                              onClick={() => handleRevealRecord(row[sourceFileColumn], Number(row[sourceOffsetColumn]), sourceLineColumn !== -1 ? row[sourceLineColumn] : null)}
+                              title="Reveal record in source"
+                              style={{ fontSize: '12px', cursor: 'pointer' }}
+                            >
+                              Reveal
+                            </button>
+                          )}
+                        </td>
+                      )}
+                      {row.map((cell, cellIndex) => (
+                        <td 
+                          key={cellIndex}
+                          style={{ 
+                            padding: '8px 10px',
+                            borderBottom: '1px solid #ddd'
+                          }}
+                        >
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {revealedRecord && (
+              <div style={{
+                flex: '0 0 40%',
+                display: 'flex',
+                flexDirection: 'column',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                padding: '10px',
+                overflow: 'hidden'
+              }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '8px' }}>
+                  <div style={{ wordBreak: 'break-all' }}>
+                    <div style={{ fontWeight: 'bold' }}>Record Source</div>
+                    <div style={{ color: '#666', fontSize: '12px' }}>
+                      {revealedRecord.filePath}
+                      {revealedRecord.line !== null ? `, line ${revealedRecord.line}` : ''} (byte {revealedRecord.offset})
+                    </div>
+                  </div>
+                  <div style={{ display: 'flex', gap: '5px', flexShrink: 0 }}>
+                    <button
+                      // Archive entries are opened through the archive that contains them
+                      onClick={() => api?.openFolder(revealedRecord.filePath.replace(/(\.zip)!\/.*$/i, '$1'))}
+                      style={{ fontSize: '12px', cursor: 'pointer' }}
+                    >
+                      Open File
+                    </button>
+                    <button onClick={() => setRevealedRecord(null)} style={{ fontSize: '12px', cursor: 'pointer' }}>
+                      Close
+                    </button>
+                  </div>
+                </div>
+                {revealedRecord.error ? (
+                  <div style={{ color: '#721c24' }}>{revealedRecord.error}</div>
+                ) : revealedRecord.text === null ? (
+                  <div>Loading record...</div>
+                ) : (
+                  <pre style={{
+                    flex: '1 1 auto',
+                    overflow: 'auto',
+                    margin: 0,
+                    padding: '8px',
+                    backgroundColor: '#f7f7f7',
+                    borderRadius: '3px',
+                    fontSize: '13px',
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-word'
+                  }}>
+                    {revealedRecord.text}
+                    {revealedRecord.truncated ? '\n… (truncated)' : ''}
+                  </pre>
+                )}
+              </div>
+            )}
           </div>
 
         </div>
@@ -8,6 +8,7 @@ export interface ProjectSummary {
 
 export interface ScanStatus {
   isScanning: boolean;  // Whether a scan is currently in progress
+  isPaused?: boolean | undefined;  // Whether the running scan is paused
   progress?: {          // Current progress of the scan (if in progress)
     current: number;
     total: number;
@@ -17,6 +18,8 @@ export interface ScanStatus {
     processedFiles: number;
     extractedObjects: number;
     completedDate: Date;
+    scanId?: string | undefined;
+    errorCount?: number | undefined;
   } | undefined;
 }
 
@@ -29,11 +32,125 @@ export interface Project {
   created: Date;
   lastOpened: Date;
   scanStatus?: ScanStatus;  // Current scan status and progress
+  scanSettings?: ScanSettings | undefined;
+  watchSettings?: WatchSettings | undefined;
+  watchStatus?: WatchStatus | undefined;
+  scanSchedule?: ScanSchedule | undefined;
+  scheduleStatus?: ScheduleStatus | undefined;
+}
+
+export type ScanScheduleFrequency = 'hourly' | 'daily' | 'cron';
+
+export interface ScanSchedule {
+  frequency: ScanScheduleFrequency;
+  minute?: number | undefined;    // Minute past the hour of hourly scans
+  time?: string | undefined;      // Local time of daily scans as HH:MM
+  cron?: string | undefined;      // Five-field cron expression
+  updatedDate?: Date | undefined;
+}
+
+export interface ScheduleStatus {
+  nextRunDate: Date | null;
+  lastRunDate: Date | null;
+}
+
+export interface WatchSettings {
+  enabled: boolean;
+  usePolling?: boolean | undefined;   // Check the folders periodically instead of using file system events
+  debounceMs?: number | undefined;
+}
+
+export interface WatchStatus {
+  isWatching: boolean;
+  isPolling: boolean;
+  pendingChanges: number;   // Changed files and directories that have not been scanned yet
+}
+
+export type FlattenSeparator = '_' | '.' | '__';
+
+export type ColumnCollisionStrategy = 'suffix' | 'keep-first' | 'overwrite';
+
+export type LogFormatPreset = 'combined' | 'common' | 'syslog' | 'logfmt';
+
+export interface LogFormat {
+  pattern: string;                        // Glob of the log files within their source folder
+  preset?: LogFormatPreset | undefined;
+  regex?: string | undefined;             // Regular expression with named capture groups
+  multilinePattern?: string | undefined;  // Lines matching this regex continue the previous entry
+  timestampField?: string | undefined;
+  timestampFormat?: string | undefined;
+}
+
+export interface TableRule {
+  table: string;                        // Table the records are stored in instead of the data table
+  sourceFolder?: string | undefined;    // Path of the source folder whose files it applies to
+  pattern?: string | undefined;         // Glob of files within their source folder
+  field?: string | undefined;           // Dotted path of a discriminator field of the records
+  value?: string | undefined;           // Value the discriminator field must hold
+}
+
+export interface ScanSettings {
+  flattenDepth?: number | undefined;    // Levels of nested objects flattened into columns
+  separator?: FlattenSeparator | undefined;
+  collisionStrategy?: ColumnCollisionStrategy | undefined;
+  logFormats?: LogFormat[] | undefined;
+  tableRules?: TableRule[] | undefined; // Tables records are routed to instead of the data table
+}
+
+export interface CsvOptions {
+  delimiter?: string | undefined;   // Field delimiter; detected from the file when omitted
+  quote?: string | undefined;       // Quote character, defaults to a double quote
+  noHeader?: boolean | undefined;   // Treat the first row as data
+}
+
+export interface ExcelOptions {
+  sheets?: string[] | undefined;          // Sheet names or patterns; every visible sheet when omitted
+  headerRow?: number | undefined;         // 1-based header row; detected when omitted
+  noHeader?: boolean | undefined;
+  keepMergedRows?: boolean | undefined;
+  keepBlankRows?: boolean | undefined;
+  rawDates?: boolean | undefined;
+}
+
+export interface XmlOptions {
+  recordPath?: string | undefined;        // Path of the repeating element, e.g. /feed/entry; children of the root when omitted
+}
+
+export interface RecordSelector {
+  pattern?: string | undefined;         // Glob of files within the folder; all files when omitted
+  path: string;                         // JSONPath of the records, e.g. $.data.items[*]
+  parentFields?: string[] | undefined;  // JSONPaths of document fields copied onto every record
+}
+
+export interface FileRule {
+  type: 'include' | 'exclude';
+  pattern: string;                      // Glob relative to the source folder
 }
 
 export interface SourceFolder {
   id: string;
   path: string;
+  csvOptions?: CsvOptions | undefined;
+  excelOptions?: ExcelOptions | undefined;
+  xmlOptions?: XmlOptions | undefined;
+  recordSelectors?: RecordSelector[] | undefined;
+  childTables?: string[] | undefined;
+  mongoExport?: boolean | undefined;
+  fileRules?: FileRule[] | undefined;
+  maxDepth?: number | undefined;
+  followSymlinks?: boolean | undefined;
+}
+
+export interface SourceFolderSettings {
+  csvOptions?: CsvOptions | undefined;
+  excelOptions?: ExcelOptions | undefined;
+  xmlOptions?: XmlOptions | undefined;
+  recordSelectors?: RecordSelector[] | undefined;
+  childTables?: string[] | undefined;   // Array fields stored in linked child tables
+  mongoExport?: boolean | undefined;    // Read JSON files as mongoexport output; detected when omitted
+  fileRules?: FileRule[] | undefined;   // Ordered include/exclude globs; the last matching rule decides
+  maxDepth?: number | undefined;        // Levels of subdirectories scanned; unlimited when omitted
+  followSymlinks?: boolean | undefined; // Follow symbolic links; defaults to true
 }
 
 export interface View {
@@ -50,6 +167,57 @@ export interface ScanProgress {
   message: string;
 }
 
+// A column of a scanned table as it was after a scan run
+export interface ScanRunColumn {
+  table: string;
+  name: string;
+  dataType: 'TEXT' | 'INTEGER' | 'REAL';
+  nullable: boolean;
+}
+
+// Statistics of a completed scan run
+export interface ScanRun {
+  id: string;
+  startedDate: Date;
+  completedDate: Date;
+  durationMs: number;
+  totalFiles: number;
+  addedFiles: number;
+  modifiedFiles: number;
+  removedFiles: number;
+  unchangedFiles: number;
+  insertedRecords: number;
+  errorCount: number;
+  fullRebuild: boolean;
+  schema: ScanRunColumn[];
+}
+
+// A difference between the schemas of two scan runs
+export interface SchemaChange {
+  table: string;
+  column: string;
+  change: 'added' | 'removed' | 'type-changed';
+  fromType?: 'TEXT' | 'INTEGER' | 'REAL' | undefined;
+  toType?: 'TEXT' | 'INTEGER' | 'REAL' | undefined;
+}
+
+// The format a file was read as when its extension was missing or ambiguous and its content was sniffed
+export interface DetectedFileFormat {
+  file: string;
+  format: string;
+  compression?: string | undefined;
+}
+
+// A scan error as recorded in the project database
+export interface RecordedScanError {
+  id: number;
+  scanId: string;
+  file: string;
+  error: string;
+  line?: number | undefined;
+  snippet?: string | undefined;
+}
+
 export interface ScanResults {
   viewId: string;
   processedFiles: number;
@@ -63,30 +231,38 @@ export interface ColumnDefinition {
   path: string;
 }
 
-export interface QueryModel {
-  viewId: string;
-  columns: string[];
-  filters: FilterCondition[];
-  sort: SortDefinition[];
-  limit?: number;
-  offset?: number;
+export interface TableSchema {
+  name: string;
+  parentTable?: string | undefined;   // Set for child tables, whose _parent_id refers to the parent's _id
+  columns: {
+    name: string;
+    type: string;
+    nullable: boolean;
+  }[];
 }
 
+export type QueryOperator = 'equals' | 'contains' | 'greater' | 'less' | 'like';
+
 export interface FilterCondition {
   column: string;
-  operator: string;
+  operator: QueryOperator;
   value: any;
+  dataType: 'TEXT' | 'INTEGER' | 'REAL';
 }
 
-export interface SortDefinition {
-  column: string;
-  direction: 'asc' | 'desc';
+export interface QueryModel {
+  viewId: string;
+  filters: FilterCondition[];
+  sortBy?: string;
+  sortDirection?: 'ASC' | 'DESC';
+  limit?: number;
+  offset?: number;
 }
 
 export interface QueryResult {
   data: any[];
   totalCount: number;
-  columns: ColumnDefinition[];
+  columns: string[];
 }
 
 export interface MainProcessAPI {
@@ -106,15 +282,31 @@ export interface MainProcessAPI {
   selectFolder: (callback: (selectedPath: string | null) => void) => void;
 
   // Source folder operations
-  addSourceFolder: (projectId: string, folderPath: string) => void;
+  addSourceFolder: (projectId: string, folderPath: string, settings?: SourceFolderSettings) => void;
   onSourceFolderAdded: (callback: (data: { projectId: string, folder: SourceFolder }) => void) => void;
   removeSourceFolder: (projectId: string, folderId: string) => void;
   onSourceFolderRemoved: (callback: (data: { projectId: string, folderId: string }) => void) => void;
+  updateScanSettings: (projectId: string, scanSettings: ScanSettings) => void;
+  onScanSettingsUpdated: (callback: (data: { projectId: string, scanSettings: ScanSettings }) => void) => void;
+  updateWatchSettings: (projectId: string, watchSettings: WatchSettings) => void;
+  onWatchSettingsUpdated: (callback: (data: { projectId: string, watchSettings: WatchSettings }) => void) => void;
+  onWatchStatusChanged: (callback: (data: { projectId: string, watchStatus: WatchStatus }) => void) => void;
+  updateScanSchedule: (projectId: string, scanSchedule: ScanSchedule | null) => void;
+  onScanScheduleUpdated: (callback: (data: { projectId: string, scanSchedule: ScanSchedule | null }) => void) => void;
+  onScheduleStatusChanged: (callback: (data: { projectId: string, scheduleStatus: ScheduleStatus }) => void) => void;
+  previewSourceFiles: (projectId: string, folderPath: string, settings?: SourceFolderSettings) => void;
+  onSourceFilesPreviewed: (callback: (data: { folderPath: string, files: string[], totalFiles: number, errors: { file: string, error: string }[] }) => void) => void;
   openFolder: (folderPath: string) => void;
   scanSourceDirectories: (projectId: string) => void;
   onScanStarted: (callback: (data: { projectId: string, message: string }) => void) => void;
   onScanProgress: (callback: (progress: { projectId: string, current: number, total: number, message: string }) => void) => void;
-  onScanComplete: (callback: (result: { projectId: string, processedFiles: number, extractedObjects: number }) => void) => void;
+  onScanComplete: (callback: (result: { projectId: string, processedFiles: number, extractedObjects: number, addedFiles?: number, modifiedFiles?: number, removedFiles?: number, unchangedFiles?: number, errorCount?: number, detectedFormats?: DetectedFileFormat[] }) => void) => void;
+  pauseScan: (projectId: string) => void;
+  onScanPaused: (callback: (data: { projectId: string }) => void) => void;
+  resumeScan: (projectId: string) => void;
+  onScanResumed: (callback: (data: { projectId: string }) => void) => void;
+  cancelScan: (projectId: string) => void;
+  onScanCancelled: (callback: (data: { projectId: string, message: string }) => void) => void;
 
   // View operations
   createView: (projectId: string, viewName: string) => void;
@@ -134,6 +326,16 @@ export interface MainProcessAPI {
   onSqlQueryResults: (callback: (results: any) => void) => void;
   getViewSchema: (projectId: string, viewId: string) => void;
   onViewSchemaLoaded: (callback: (data: { projectId: string, viewId: string, schema: ColumnDefinition[] }) => void) => void;
+  getRecordSource: (projectId: string, filePath: string, offset: number) => void;
+  onRecordSourceLoaded: (callback: (data: { filePath: string, offset: number, text: string, truncated: boolean }) => void) => void;
+  getScanErrors: (projectId: string) => void;
+  onScanErrorsLoaded: (callback: (data: { projectId: string, scanId: string | null, errors: RecordedScanError[] }) => void) => void;
+  getScanRuns: (projectId: string) => void;
+  onScanRunsLoaded: (callback: (data: { projectId: string, runs: ScanRun[] }) => void) => void;
+  compareScanRuns: (projectId: string, fromScanId: string, toScanId: string) => void;
+  onScanRunsCompared: (callback: (data: { projectId: string, fromScanId: string, toScanId: string, changes: SchemaChange[] }) => void) => void;
+  getProjectSchema: (projectId: string) => void;
+  onProjectSchemaLoaded: (callback: (data: { projectId: string, tables: TableSchema[] }) => void) => void;
   checkViewData: (projectId: string, viewId: string) => void;
   onViewDataStatus: (callback: (data: { projectId: string, viewId: string, hasData: boolean }) => void) => void;
 
@@ -8,6 +8,7 @@
  */
 export const PROJECT_CONFIG_FOLDER = '.dyvr';
 export const PROJECT_CONFIG_FILE = 'project.json';
+export const PROJECT_PARSERS_FOLDER = 'parsers';  // Folder of the project config folder holding the project's parser modules
 
 /**
  * Global configuration constants
@@ -19,11 +20,48 @@ export const CONFIG_FOLDER = '.dyvr';
  * Database constants
  */
 export const DATABASE_FILENAME = 'project.db';
+export const PROJECT_DATA_TABLE = 'data';
+export const DEFAULT_VIEW_ID = 'default';
+export const FILE_MANIFEST_TABLE = 'file_manifest';
+export const DATA_SCHEMA_TABLE = 'data_schema';
+export const SCAN_ERRORS_TABLE = 'scan_errors';
+export const SCAN_RUNS_TABLE = 'scan_runs';
+export const DATA_TABLES_TABLE = 'data_tables';  // Lists the tables that table rules route records to, besides the data table
+export const CHILD_TABLE_SEPARATOR = '__';  // Joins a parent table and an array field, e.g. data__items
+export const DATABASE_BUSY_TIMEOUT_MS = 5000;
+
+/**
+ * Flattening constants
+ */
+export const FLATTEN_SEPARATORS = ['_', '.', '__'] as const;
+export const COLUMN_COLLISION_STRATEGIES = ['suffix', 'keep-first', 'overwrite'] as const;
+export const DEFAULT_FLATTEN_DEPTH = 2;
+export const MAX_FLATTEN_DEPTH = 10;
 
 /**
  * File format constants
  */
-export const SUPPORTED_FILE_EXTENSIONS = ['.json', '.jsonl', '.jsonddb'];
+export const PARSER_MODULE_EXTENSIONS = ['.js', '.cjs'];
+export const COMPRESSED_FILE_EXTENSIONS = ['.gz', '.bz2'];
+export const ARCHIVE_FILE_EXTENSIONS = ['.zip'];
+export const ARCHIVE_ENTRY_SEPARATOR = '!/';
+export const WORKSHEET_SEPARATOR = '#';  // Joins a workbook's path and a sheet name in _source_file, e.g. sales.xlsx#Q1
+
+/**
+ * Log file constants
+ */
+export const LOG_FORMAT_PRESETS = ['combined', 'common', 'syslog', 'logfmt'] as const;
+
+/**
+ * Watch mode constants
+ */
+export const WATCH_DEBOUNCE_MS = 2000;        // Quiet time after the last change before a watched project is rescanned
+export const WATCH_POLL_INTERVAL_MS = 5000;   // How often folders are checked when file system events are unavailable
+
+/**
+ * Scan schedule constants
+ */
+export const SCAN_SCHEDULE_FREQUENCIES = ['hourly', 'daily', 'cron'] as const;
 
 /**
  * Application name and version
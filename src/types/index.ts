@@ -2,6 +2,7 @@
 
 // Export constants
 export * from './constants';
+import { FLATTEN_SEPARATORS, COLUMN_COLLISION_STRATEGIES, SCAN_SCHEDULE_FREQUENCIES, LOG_FORMAT_PRESETS } from './constants';
 
 // Config interface for storing project paths and application settings in the user's home directory
 export interface Config {
@@ -13,14 +14,142 @@ export interface Config {
   };
 }
 
+// Overrides for reading CSV and TSV files in a source folder
+export interface CsvOptions {
+  delimiter?: string | undefined;   // Field delimiter; detected from the file when omitted
+  quote?: string | undefined;       // Quote character, defaults to a double quote
+  noHeader?: boolean | undefined;   // Treat the first row as data and name columns column_1..N
+}
+
+// How the worksheets of Excel workbooks in a source folder are read
+export interface ExcelOptions {
+  sheets?: string[] | undefined;          // Sheet names or patterns such as Sales*; every visible sheet when omitted
+  headerRow?: number | undefined;         // 1-based row holding the column names; detected when omitted
+  noHeader?: boolean | undefined;         // Sheets have no header row and columns are named column_1..N
+  keepMergedRows?: boolean | undefined;   // Keep rows made of one merged cell, such as titles between tables
+  keepBlankRows?: boolean | undefined;    // Keep rows without values as records of nulls
+  rawDates?: boolean | undefined;         // Keep dates as Excel serial numbers instead of ISO dates
+}
+
+// How the records of XML files in a source folder are found
+export interface XmlOptions {
+  recordPath?: string | undefined;        // Path of the repeating element, e.g. /feed/entry or //item; children of the root when omitted
+}
+
+// Selects the records of JSON documents that hold them in a nested array
+export interface RecordSelector {
+  pattern?: string | undefined;         // Glob of files within the folder it applies to; all files when omitted
+  path: string;                         // JSONPath of the records, e.g. $.data.items[*]
+  parentFields?: string[] | undefined;  // JSONPaths of document fields copied onto every record, e.g. $.meta.requestId
+}
+
+// Includes or excludes the files of a source folder matching a glob; the last matching rule decides,
+// and unmatched files are scanned unless the first rule is an include
+export interface FileRule {
+  type: 'include' | 'exclude';
+  pattern: string;                      // Glob relative to the source folder, e.g. raw/** or *.tmp.json
+}
+
 export interface SourceFolder {
   id: string;
   path: string;
   addedDate: Date;
+  csvOptions?: CsvOptions | undefined;  // CSV/TSV dialect overrides for files in this folder
+  excelOptions?: ExcelOptions | undefined;  // Sheet selection and row handling for Excel workbooks in this folder
+  xmlOptions?: XmlOptions | undefined;  // Repeating element read as records from XML files in this folder
+  recordSelectors?: RecordSelector[] | undefined;  // Record selectors for JSON files; the first matching pattern applies
+  childTables?: string[] | undefined;   // Array fields of JSON records stored in linked child tables, e.g. items or order.lines
+  mongoExport?: boolean | undefined;    // Read JSON files as mongoexport output; otherwise detected from each file's first document
+  fileRules?: FileRule[] | undefined;   // Ordered include/exclude globs choosing the files that are scanned
+  maxDepth?: number | undefined;        // Levels of subdirectories to descend into; unlimited when omitted
+  followSymlinks?: boolean | undefined; // Follow symbolic links to files and directories; defaults to true
+}
+
+// Per-folder settings chosen when a source folder is added
+export type SourceFolderSettings = Omit<SourceFolder, 'id' | 'path' | 'addedDate'>;
+
+// A table of the project database as listed in the schema browser
+export interface TableSchema {
+  name: string;
+  parentTable?: string | undefined;   // Table whose _id the rows' _parent_id refers to, for child tables
+  columns: {
+    name: string;
+    type: string;
+    nullable: boolean;
+  }[];
+}
+
+export type FlattenSeparator = typeof FLATTEN_SEPARATORS[number];
+
+// What happens when two keys of a record flatten to the same column name, e.g. {a: {b: 1}} and a_b
+// suffix stores the later value in a_b_2, keep-first drops it and overwrite replaces the earlier value
+export type ColumnCollisionStrategy = typeof COLUMN_COLLISION_STRATEGIES[number];
+
+// Built-in log formats: combined and common are the access logs of Apache and nginx, syslog is
+// RFC 3164 (BSD) syslog and logfmt is space-separated key=value pairs
+export type LogFormatPreset = typeof LOG_FORMAT_PRESETS[number];
+
+// Turns the entries of plain-text log files into records, one column per named capture group
+export interface LogFormat {
+  pattern: string;                        // Glob of the log files within their source folder, e.g. *.log or logs/**/*.txt
+  preset?: LogFormatPreset | undefined;   // Built-in format used when no regex is given
+  regex?: string | undefined;             // Regular expression with named capture groups, matched against each entry
+  multilinePattern?: string | undefined;  // Lines matching this regex continue the previous entry, e.g. ^\s for stack traces
+  timestampField?: string | undefined;    // Capture group holding the entry's time, defaults to timestamp (time for logfmt)
+  timestampFormat?: string | undefined;   // e.g. dd/MMM/yyyy:HH:mm:ss Z, epoch or epoch_millis; the captured text is kept when omitted
+}
+
+// Routes records to a named table instead of the data table, by source folder, file pattern or discriminator field;
+// every criterion given must match, the first matching rule applies and records no rule matches stay in the data table
+export interface TableRule {
+  table: string;                        // Table the records are stored in, e.g. orders
+  sourceFolder?: string | undefined;    // Path of the source folder whose files it applies to; all folders when omitted
+  pattern?: string | undefined;         // Glob of files within their source folder, e.g. orders/*.csv; all files when omitted
+  field?: string | undefined;           // Dotted path of a discriminator field of the records, e.g. type or meta.kind
+  value?: string | undefined;           // Value the discriminator field must hold, e.g. order; required with field
+}
+
+// Project-wide settings for turning records into columns
+export interface ScanSettings {
+  flattenDepth?: number | undefined;    // Levels of nested objects flattened into columns; deeper objects are stored as JSON text
+  separator?: FlattenSeparator | undefined;   // Joins nested keys in column names, defaults to _
+  collisionStrategy?: ColumnCollisionStrategy | undefined;  // Defaults to suffix
+  logFormats?: LogFormat[] | undefined; // Formats of plain-text log files; the first whose pattern matches a file applies
+  tableRules?: TableRule[] | undefined; // Tables records are routed to instead of the data table, each with its own schema
+}
+
+// Project settings for rescanning when files in the source folders change
+export interface WatchSettings {
+  enabled: boolean;
+  usePolling?: boolean | undefined;   // Check the folders periodically instead of using file system events, e.g. for network drives
+  debounceMs?: number | undefined;    // Quiet time after the last change before rescanning, defaults to WATCH_DEBOUNCE_MS
+}
+
+export interface WatchStatus {
+  isWatching: boolean;
+  isPolling: boolean;       // Whether any folder is polled because file system events are unavailable
+  pendingChanges: number;   // Changed files and directories that have not been scanned yet
+}
+
+export type ScanScheduleFrequency = typeof SCAN_SCHEDULE_FREQUENCIES[number];
+
+// When a project is rescanned automatically while the application is open
+export interface ScanSchedule {
+  frequency: ScanScheduleFrequency;
+  minute?: number | undefined;    // Minute past the hour of hourly scans, defaults to 0
+  time?: string | undefined;      // Local time of daily scans as HH:MM
+  cron?: string | undefined;      // Five-field cron expression of cron scans
+  updatedDate?: Date | undefined; // When the schedule was saved; runs due before then are not caught up on launch
+}
+
+export interface ScheduleStatus {
+  nextRunDate: Date | null;       // When the schedule next fires
+  lastRunDate: Date | null;       // When the last scan of the project completed, scheduled or not
 }
 
 export interface ScanStatus {
   isScanning: boolean;  // Whether a scan is currently in progress
+  isPaused?: boolean | undefined;  // Whether the running scan is paused
   progress?: {          // Current progress of the scan (if in progress)
     current: number;
     total: number;
@@ -30,6 +159,8 @@ export interface ScanStatus {
     processedFiles: number;
     extractedObjects: number;
     completedDate: Date;
+    scanId?: string | undefined;    // Identifies the scan's errors in the scan_errors table
+    errorCount?: number | undefined;
   } | undefined;
 }
 
@@ -41,6 +172,11 @@ export interface Project {
   createdDate: Date;
   lastModified: Date;
   scanStatus?: ScanStatus | undefined;  // Current scan status and progress
+  scanSettings?: ScanSettings | undefined;  // How records are flattened into columns and log files are read
+  watchSettings?: WatchSettings | undefined;  // Whether the source folders are watched for changes
+  watchStatus?: WatchStatus | undefined;  // Current state of the watch, not saved
+  scanSchedule?: ScanSchedule | undefined;  // Automatic rescans, scanned manually only when missing
+  scheduleStatus?: ScheduleStatus | undefined;  // Next and last run of the schedule, not saved
 }
 
 export interface ColumnSchema {
@@ -62,6 +198,55 @@ export interface View {
 export interface ScanError {
   file: string;
   error: string;
+  line?: number | undefined;      // Line of the file the error is about, for lines that could not be parsed
+  snippet?: string | undefined;   // Start of the raw text of that line
+}
+
+// The format a file was read as when its extension was missing or ambiguous and its content was sniffed
+export interface DetectedFileFormat {
+  file: string;
+  format: string;                     // Name of the parser that read the file, e.g. jsonl or csv
+  compression?: string | undefined;   // gzip or bzip2 when the file was compressed without a compression extension
+}
+
+// A scan error as recorded in the project database
+export interface RecordedScanError extends ScanError {
+  id: number;
+  scanId: string;       // Scan run the error was reported by
+}
+
+// A column of a scanned table as it was after a scan run
+export interface ScanRunColumn {
+  table: string;        // Data table or child table the column belongs to
+  name: string;
+  dataType: ColumnSchema['dataType'];
+  nullable: boolean;
+}
+
+// Statistics of a completed scan run, as recorded in the project database
+export interface ScanRun {
+  id: string;               // Scan ID, shared with the run's recorded errors
+  startedDate: Date;
+  completedDate: Date;
+  durationMs: number;
+  totalFiles: number;       // Files found in the source folders
+  addedFiles: number;
+  modifiedFiles: number;
+  removedFiles: number;
+  unchangedFiles: number;
+  insertedRecords: number;  // Records read from added and modified files
+  errorCount: number;
+  fullRebuild: boolean;     // Whether the data table was rebuilt from scratch
+  schema: ScanRunColumn[];  // Schema of the scanned tables after the run
+}
+
+// A difference between the schemas of two scan runs
+export interface SchemaChange {
+  table: string;
+  column: string;
+  change: 'added' | 'removed' | 'type-changed';
+  fromType?: ColumnSchema['dataType'] | undefined;  // Type in the earlier run, for removed and retyped columns
+  toType?: ColumnSchema['dataType'] | undefined;    // Type in the later run, for added and retyped columns
 }
 
 export interface ScanColumn {
@@ -78,6 +263,7 @@ export interface ScanResults {
   totalRecords: number; // Total records inserted
   columns: ScanColumn[];  // Discovered column schema
   errors: ScanError[];  // Processing errors
+  detectedFormats: DetectedFileFormat[];  // Files read as the format detected from their content
   scanDate: Date;
 }
 
@@ -113,6 +299,17 @@ export interface IPCEvents {
   'project-deleted': string; // projectId
   'source-folder-added': { projectId: string; folder: SourceFolder };
   'source-folder-removed': { projectId: string; folderId: string };
+  'project-schema-loaded': { projectId: string; tables: TableSchema[] };
+  'scan-settings-updated': { projectId: string; scanSettings: ScanSettings };
+  'source-files-previewed': { folderPath: string; files: string[]; totalFiles: number; errors: ScanError[] };
+  'record-source-loaded': { filePath: string; offset: number; text: string; truncated: boolean };
+  'scan-errors-loaded': { projectId: string; scanId: string | null; errors: RecordedScanError[] };
+  'watch-settings-updated': { projectId: string; watchSettings: WatchSettings };
+  'watch-status-changed': { projectId: string; watchStatus: WatchStatus };
+  'scan-schedule-updated': { projectId: string; scanSchedule: ScanSchedule | null };
+  'schedule-status-changed': { projectId: string; scheduleStatus: ScheduleStatus };
+  'scan-runs-loaded': { projectId: string; runs: ScanRun[] };
+  'scan-runs-compared': { projectId: string; fromScanId: string; toScanId: string; changes: SchemaChange[] };
   'view-created': View;
   'view-deleted': { projectId: string; viewId: string };
   'data-scanned': ScanResults;
@@ -124,7 +321,16 @@ export interface IPCEvents {
   'load-projects': void;
   'create-project': { name: string; workingDirectory: string };
   'delete-project': string; // projectId
-  'add-source-folder': { projectId: string; folderPath: string };
+  'add-source-folder': { projectId: string; folderPath: string; settings?: SourceFolderSettings };
+  'get-project-schema': string; // projectId
+  'update-scan-settings': { projectId: string; scanSettings: ScanSettings };
+  'preview-source-files': { projectId: string; folderPath: string; settings?: SourceFolderSettings };
+  'get-record-source': { projectId: string; filePath: string; offset: number };
+  'get-scan-errors': string; // projectId
+  'get-scan-runs': string; // projectId
+  'update-watch-settings': { projectId: string; watchSettings: WatchSettings };
+  'update-scan-schedule': { projectId: string; scanSchedule: ScanSchedule | null };
+  'compare-scan-runs': { projectId: string; fromScanId: string; toScanId: string };
   'remove-source-folder': { projectId: string; folderId: string };
   'create-view': { projectId: string; viewName: string };
   'delete-view': { projectId: string; viewId: string };
@@ -0,0 +1,94 @@
+import {
+  Binary, Bool, DateDay, Decimal, Dictionary, Field, Float64, Int32, Int64, List, Struct, Table, tableToIPC, TimestampMillisecond, Uint64, Utf8, vectorFromArray
+} from 'apache-arrow';
+import { ArrowReader } from '../src/main/ArrowReader';
+import { RandomAccessFile } from '../src/main/SourceFileReader';
+
+describe('ArrowReader', () => {
+  const openBuffer = (buffer: Buffer): RandomAccessFile => ({
+    size: buffer.length,
+    read: async (position, length) => buffer.subarray(position, position + length),
+    close: async () => {}
+  });
+
+  const readAll = async (buffer: Buffer) => {
+    const reader = new ArrowReader();
+    const metadata = await reader.readMetadata(openBuffer(buffer));
+    const batches: Record<string, any>[][] = [];
+    for await (const rows of reader.readRecordBatches(metadata)) {
+      batches.push(rows);
+    }
+    return { rows: batches.flat(), batches, types: reader.getDeclaredTypes(metadata) };
+  };
+
+  test('should read the file and stream formats one batch at a time', async () => {
+    const createBatch = (ids: bigint[], names: (string | null)[], scores: (number | null)[], active: (boolean | null)[]) => new Table({
+      id: vectorFromArray(ids, new Int64()),
+      name: vectorFromArray(names, new Utf8()),
+      score: vectorFromArray(scores, new Float64()),
+      active: vectorFromArray(active, new Bool())
+    });
+    const table = createBatch([1n, 2n], ['Ada', null], [1.5, 2], [true, false])
+      .concat(createBatch([9007199254740993n], ['Grace'], [null], [null]));
+
+    for (const format of ['file', 'stream'] as const) {
+      const result = await readAll(Buffer.from(tableToIPC(table, format)));
+
+      expect(result.batches).toEqual([
+        [{ id: 1, name: 'Ada', score: 1.5, active: true }, { id: 2, name: null, score: 2, active: false }],
+        [{ id: '9007199254740993', name: 'Grace', score: null, active: null }]
+      ]);
+      expect(result.types).toEqual({ id: 'integer', name: 'text', score: 'real', active: 'boolean' });
+    }
+  });
+
+  test('should convert temporal, decimal and binary values', async () => {
+    const table = new Table({
+      day: vectorFromArray([new Date(Date.UTC(2020, 0, 1))], new DateDay()),
+      created: vectorFromArray([1577836800123], new TimestampMillisecond()),
+      price: vectorFromArray([new Uint32Array([-12345 >>> 0, 0xffffffff, 0xffffffff, 0xffffffff])], new Decimal(2, 9, 128)),
+      total: vectorFromArray([new Uint32Array([0x40000000, 0x4674edea, 0x9f2c9cd0, 0xc])], new Decimal(0, 38, 128)),
+      raw: vectorFromArray([Buffer.from('hello')], new Binary()),
+      big: vectorFromArray([18446744073709551615n], new Uint64())
+    });
+
+    const { rows, types } = await readAll(Buffer.from(tableToIPC(table, 'file')));
+
+    expect(rows).toEqual([{
+      day: '2020-01-01',
+      created: '2020-01-01T00:00:00.123Z',
+      price: '-123.45',
+      total: `1${'0'.repeat(30)}`,
+      raw: 'aGVsbG8=',
+      big: '18446744073709551615'
+    }]);
+    expect(types).toEqual({ day: 'text', created: 'text', price: 'real', total: 'text', raw: 'text', big: 'text' });
+  });
+
+  test('should read nested and dictionary-encoded fields', async () => {
+    const table = new Table({
+      city: vectorFromArray(['Oslo', null, 'Oslo'], new Dictionary(new Utf8(), new Int32())),
+      address: vectorFromArray(
+        [{ street: 'Main', zip: 150 }, null, { street: null, zip: 10 }],
+        new Struct([new Field('street', new Utf8(), true), new Field('zip', new Int32(), true)])
+      ),
+      tags: vectorFromArray([['a', 'b'], [], null], new List(new Field('item', new Utf8(), true)))
+    });
+
+    const { rows, types } = await readAll(Buffer.from(tableToIPC(table, 'stream')));
+
+    expect(rows).toEqual([
+      { city: 'Oslo', address: { street: 'Main', zip: 150 }, tags: ['a', 'b'] },
+      { city: null, address: null, tags: [] },
+      { city: 'Oslo', address: { street: null, zip: 10 }, tags: null }
+    ]);
+    expect(types).toEqual({ city: 'text', address: { street: 'text', zip: 'integer' }, tags: 'text' });
+  });
+
+  test('should reject files that are not Arrow', async () => {
+    const reader = new ArrowReader();
+
+    await expect(reader.readMetadata(openBuffer(Buffer.from('FEA1 old feather file')))).rejects.toThrow('Feather version 1 files are not supported');
+    await expect(reader.readMetadata(openBuffer(Buffer.from('id,name\n1,Ada\n')))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,89 @@
+import { BsonParser } from '../src/main/BsonParser';
+import { encodeTestBson } from './fixtures/bson';
+
+describe('BsonParser', () => {
+  const parseAll = async (chunks: Buffer[]): Promise<any[]> => {
+    const documents: any[] = [];
+    for await (const document of new BsonParser().parse(chunks)) {
+      documents.push(document);
+    }
+    return documents;
+  };
+
+  // Encode a document holding a single decimal128 value given as its raw words
+  const encodeDecimal = (high: bigint, low: bigint): Buffer => {
+    const value = Buffer.alloc(16);
+    value.writeBigUInt64LE(low, 0);
+    value.writeBigUInt64LE(high, 8);
+    const body = Buffer.concat([Buffer.from([0x13]), Buffer.from('d\0'), value, Buffer.from([0])]);
+    const length = Buffer.alloc(4);
+    length.writeInt32LE(body.length + 4);
+    return Buffer.concat([length, body]);
+  };
+
+  test('should decode the JSON types of a document', async () => {
+    const document = { name: 'Widget', count: 3, price: 12.5, active: true, missing: null, tags: ['a', 1], meta: { owner: 'ops' } };
+
+    expect(await parseAll([encodeTestBson(document)])).toEqual([{ document, offset: 0 }]);
+  });
+
+  test('should decode MongoDB types as Extended JSON', async () => {
+    const buffer = encodeTestBson({
+      _id: { $oid: '507f1f77bcf86cd799439011' },
+      created: { $date: 1577836800000 },
+      views: { $numberLong: '9007199254740993' },
+      total: { $numberDecimal: '-12.345' },
+      data: { $binary: { base64: 'aGVsbG8=', subType: '00' } }
+    });
+
+    const [{ document }] = await parseAll([buffer]);
+
+    expect(document).toEqual({
+      _id: { $oid: '507f1f77bcf86cd799439011' },
+      created: { $date: { $numberLong: '1577836800000' } },
+      views: { $numberLong: '9007199254740993' },
+      total: { $numberDecimal: '-12.345' },
+      data: { $binary: { base64: 'aGVsbG8=', subType: '00' } }
+    });
+  });
+
+  test('should print decimal128 values as MongoDB does', () => {
+    const parser = new BsonParser();
+    const decode = (high: bigint, low: bigint) => parser.decodeDocument(encodeDecimal(high, low))['d'].$numberDecimal;
+
+    expect(decode(6176n << 49n, 0n)).toBe('0');
+    expect(decode(6174n << 49n, 1n)).toBe('0.01');
+    expect(decode(6179n << 49n, 5n)).toBe('5E+3');
+    expect(decode(6160n << 49n, 12n)).toBe('1.2E-15');
+    expect(decode(0x7cn << 56n, 0n)).toBe('NaN');
+    expect(decode(0xf8n << 56n, 0n)).toBe('-Infinity');
+  });
+
+  test('should read documents split across chunks and report their offsets', async () => {
+    const first = encodeTestBson({ id: 1 });
+    const second = encodeTestBson({ id: 2, text: 'second' });
+    const bytes = Buffer.concat([first, second]);
+
+    for (const size of [1, 3, 7, 64]) {
+      const chunks: Buffer[] = [];
+      for (let i = 0; i < bytes.length; i += size) {
+        chunks.push(bytes.subarray(i, i + size));
+      }
+      expect(await parseAll(chunks)).toEqual([
+        { document: { id: 1 }, offset: 0 },
+        { document: { id: 2, text: 'second' }, offset: first.length }
+      ]);
+    }
+  });
+
+  test('should reject truncated and malformed documents', async () => {
+    const document = encodeTestBson({ id: 1 });
+
+    await expect(parseAll([document.subarray(0, document.length - 2)])).rejects.toThrow('Unexpected end of input');
+    await expect(parseAll([Buffer.from([1, 0, 0, 0])])).rejects.toThrow('Invalid BSON document length 1 at byte 0');
+
+    const unknownType = Buffer.from(document);
+    unknownType[4] = 0x42;
+    await expect(parseAll([unknownType])).rejects.toThrow('unknown element type 0x42');
+  });
+});
@@ -0,0 +1,48 @@
+import { CronExpression } from '../src/main/CronExpression';
+
+describe('CronExpression', () => {
+  // Dates are local times, as cron expressions are
+  const at = (year: number, month: number, day: number, hour: number, minute: number) => new Date(year, month - 1, day, hour, minute);
+
+  test('should find the next matching minute', () => {
+    const expression = new CronExpression('*/15 9-17 * * *');
+
+    expect(expression.next(at(2024, 3, 4, 9, 7))).toEqual(at(2024, 3, 4, 9, 15));
+    expect(expression.next(at(2024, 3, 4, 9, 15))).toEqual(at(2024, 3, 4, 9, 30));
+    expect(expression.next(at(2024, 3, 4, 17, 50))).toEqual(at(2024, 3, 5, 9, 0));
+  });
+
+  test('should move across months and years', () => {
+    const expression = new CronExpression('0 0 1 1,7 *');
+
+    expect(expression.next(at(2024, 3, 4, 12, 0))).toEqual(at(2024, 7, 1, 0, 0));
+    expect(expression.next(at(2024, 7, 1, 0, 0))).toEqual(at(2025, 1, 1, 0, 0));
+  });
+
+  test('should match either day field when both are restricted', () => {
+    // The 13th of each month and every Friday
+    const expression = new CronExpression('0 12 13 * 5');
+
+    // 2024-09-10 is a Tuesday; the next Friday is the 13th, then the 20th
+    expect(expression.next(at(2024, 9, 10, 0, 0))).toEqual(at(2024, 9, 13, 12, 0));
+    expect(expression.next(at(2024, 9, 13, 12, 0))).toEqual(at(2024, 9, 20, 12, 0));
+    expect(new CronExpression('0 12 * * 1-5').matches(at(2024, 9, 14, 12, 0))).toBe(false);
+    expect(new CronExpression('0 12 * * 7').matches(at(2024, 9, 15, 12, 0))).toBe(true);
+  });
+
+  test('should find the previous matching minute', () => {
+    const expression = new CronExpression('30 6 * * *');
+
+    expect(expression.previous(at(2024, 3, 4, 6, 30))).toEqual(at(2024, 3, 4, 6, 30));
+    expect(expression.previous(at(2024, 3, 4, 6, 29))).toEqual(at(2024, 3, 3, 6, 30));
+    expect(new CronExpression('0 0 1 1 *').previous(at(2024, 3, 4, 0, 0))).toEqual(at(2024, 1, 1, 0, 0));
+  });
+
+  test('should reject invalid expressions', () => {
+    expect(() => new CronExpression('* * * *')).toThrow('Cron expression must have 5 fields');
+    expect(() => new CronExpression('60 * * * *')).toThrow('Invalid minute field in cron expression: "60" must be within 0-59');
+    expect(() => new CronExpression('* * * jan *')).toThrow('Invalid month field');
+    expect(() => new CronExpression('*/0 * * * *')).toThrow('step must be at least 1');
+    expect(() => new CronExpression('0 0 30 2 *').next(at(2024, 1, 1, 0, 0))).toThrow('never matches');
+  });
+});
@@ -0,0 +1,189 @@
+import { CsvParser } from '../src/main/CsvParser';
+
+describe('CsvParser', () => {
+  let parser: CsvParser;
+
+  beforeEach(() => {
+    parser = new CsvParser();
+  });
+
+  describe('parseRows', () => {
+    test('should split rows and fields', () => {
+      expect(parser.parseRows('a,b\n1,2\n', ',')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    test('should handle quoted fields with delimiters, escaped quotes and newlines', () => {
+      const content = 'id,text\n1,"Hello, ""world"""\n2,"line one\nline two"\n';
+
+      expect(parser.parseRows(content, ',')).toEqual([
+        ['id', 'text'],
+        ['1', 'Hello, "world"'],
+        ['2', 'line one\nline two']
+      ]);
+    });
+
+    test('should handle CRLF line endings and a missing final newline', () => {
+      expect(parser.parseRows('a,b\r\n1,2\r\n3,4', ',')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+    });
+
+    test('should skip blank lines but keep rows of empty fields', () => {
+      expect(parser.parseRows('a,b\n\n,\n""\n', ',')).toEqual([['a', 'b'], ['', ''], ['']]);
+    });
+
+    test('should stop after the requested number of rows', () => {
+      expect(parser.parseRows('a\nb\nc\n', ',', '"', 2)).toEqual([['a'], ['b']]);
+    });
+
+    test('should throw for an unterminated quoted field', () => {
+      expect(() => parser.parseRows('a,b\n1,"open\n2,3\n', ','))
+        .toThrow('Unterminated quoted field starting on line 2');
+    });
+  });
+
+  describe('sniffDelimiter', () => {
+    test('should detect common delimiters', () => {
+      expect(parser.sniffDelimiter('a,b,c\n1,2,3\n')).toBe(',');
+      expect(parser.sniffDelimiter('a\tb\tc\n1\t2\t3\n')).toBe('\t');
+      expect(parser.sniffDelimiter('a;b;c\n1;2;3\n')).toBe(';');
+      expect(parser.sniffDelimiter('a|b|c\n1|2|3\n')).toBe('|');
+    });
+
+    test('should prefer the delimiter that splits rows consistently', () => {
+      const content = 'name;amount\n"Smith, John";1,5\n"Doe, Jane";2,75\n';
+
+      expect(parser.sniffDelimiter(content)).toBe(';');
+    });
+
+    test('should fall back to comma for a single column', () => {
+      expect(parser.sniffDelimiter('value\n1\n2\n')).toBe(',');
+    });
+  });
+
+  describe('parse', () => {
+    test('should map rows to records using the header row', () => {
+      expect(parser.parse('id,name\n1,John\n2,\n')).toEqual([
+        { id: '1', name: 'John' },
+        { id: '2', name: null }
+      ]);
+    });
+
+    test('should strip a byte order mark', () => {
+      expect(parser.parse('﻿id,name\n1,John\n')).toEqual([{ id: '1', name: 'John' }]);
+    });
+
+    test('should name blank and duplicate headers', () => {
+      expect(parser.parse('id,,id,ID\n1,2,3,4\n')).toEqual([
+        { id: '1', column_2: '2', id_2: '3', ID_3: '4' }
+      ]);
+    });
+
+    test('should fill short rows with null and name extra fields', () => {
+      expect(parser.parse('a,b\n1\n1,2,3\n')).toEqual([
+        { a: '1', b: null },
+        { a: '1', b: '2', column_3: '3' }
+      ]);
+    });
+
+    test('should name columns by position without a header row', () => {
+      expect(parser.parse('1,John\n2,Jane\n', { noHeader: true })).toEqual([
+        { column_1: '1', column_2: 'John' },
+        { column_1: '2', column_2: 'Jane' }
+      ]);
+    });
+
+    test('should use the default delimiter instead of detection', () => {
+      expect(parser.parse('a,b\tc\n1,2\t3\n', { defaultDelimiter: '\t' })).toEqual([
+        { 'a,b': '1,2', c: '3' }
+      ]);
+    });
+
+    test('should use a custom quote character', () => {
+      expect(parser.parse("id,text\n1,'a,b'\n", { quote: "'" })).toEqual([{ id: '1', text: 'a,b' }]);
+    });
+
+    test('should return no records for a header-only file', () => {
+      expect(parser.parse('id,name\n')).toEqual([]);
+    });
+
+    test('should reject invalid dialects', () => {
+      expect(() => parser.parse('a,b\n', { delimiter: ',,' })).toThrow('Delimiter and quote must be single characters');
+      expect(() => parser.parse('a,b\n', { delimiter: '"' })).toThrow('Delimiter and quote character must be different');
+    });
+  });
+
+  describe('parseStream', () => {
+    const parseAll = async (chunks: (string | Buffer)[], options = {}): Promise<any[]> => {
+      const records: any[] = [];
+      for await (const record of parser.parseStream(chunks, options)) {
+        records.push(record);
+      }
+      return records;
+    };
+
+    // Split text into chunks of the given size to exercise chunk boundaries
+    const splitText = (text: string, size: number): string[] => {
+      const chunks: string[] = [];
+      for (let i = 0; i < text.length; i += size) {
+        chunks.push(text.slice(i, i + size));
+      }
+      return chunks;
+    };
+
+    test('should read the same records as parse whatever the chunk size', async () => {
+      const content = '﻿id;text\r\n1;"Hello; ""world"""\r\n\r\n2;"line one\nline two"\r\n3;';
+
+      for (const size of [1, 2, 3, 7, content.length]) {
+        expect(await parseAll(splitText(content, size))).toEqual(parser.parse(content));
+      }
+      expect(parser.parse(content)).toEqual([
+        { id: '1', text: 'Hello; "world"' },
+        { id: '2', text: 'line one\nline two' },
+        { id: '3', text: null }
+      ]);
+    });
+
+    test('should decode characters split across buffers', async () => {
+      const bytes = Buffer.from('name\ncafé\n');
+      const split = bytes.indexOf(0xa9);
+
+      expect(await parseAll([bytes.subarray(0, split), bytes.subarray(split)])).toEqual([{ name: 'café' }]);
+    });
+
+    test('should detect the delimiter from the start of a long stream', async () => {
+      const rows = Array.from({ length: 10000 }, (_, i) => `${i}|name ${i}\n`);
+      const records = await parseAll(['id|name\n', ...rows]);
+
+      expect(records).toHaveLength(10000);
+      expect(records[9999]).toEqual({ id: '9999', name: 'name 9999' });
+    });
+
+    test('should yield records without reading the rest of the stream', async () => {
+      // Rows are generated as they are read, so only the chunks pulled before the first record exist
+      let pulledChunks = 0;
+      const chunks = function* () {
+        yield 'id,name\n';
+        for (let i = 0; i < 100000; i++) {
+          pulledChunks++;
+          yield Array.from({ length: 50 }, (_, row) => `${i * 50 + row},name ${row}\n`).join('');
+        }
+      };
+
+      for await (const record of parser.parseStream(chunks())) {
+        expect(record).toEqual({ id: '0', name: 'name 0' });
+        break;
+      }
+
+      // The start of the stream is buffered to detect the delimiter, and no more
+      expect(pulledChunks).toBeLessThan(200);
+    });
+
+    test('should apply dialect options', async () => {
+      expect(await parseAll(["1,'a,b'\n"], { quote: "'", noHeader: true })).toEqual([{ column_1: '1', column_2: 'a,b' }]);
+    });
+
+    test('should throw for empty input and unterminated quotes', async () => {
+      await expect(parseAll(['  ', '\n'])).rejects.toThrow('File is empty');
+      await expect(parseAll(['id\n"open'])).rejects.toThrow('Unterminated quoted field starting on line 2');
+    });
+  });
+});
@@ -0,0 +1,868 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { DataIngestor } from '../src/main/DataIngestor';
+import { DatabaseManager } from '../src/main/DatabaseManager';
+import { FileScanner } from '../src/main/FileScanner';
+import { FileManifest } from '../src/main/FileManifest';
+import { ScanControl } from '../src/main/ScanControl';
+import { ScanErrorLog } from '../src/main/ScanErrorLog';
+import { ScanRunLog } from '../src/main/ScanRunLog';
+import { SourceFolder, TableRule } from '../src/types';
+import { createTempTestDir, cleanupTempDir } from './setup';
+import { writeTestParquet } from './fixtures/parquet';
+import { writeTestXlsx } from './fixtures/xlsx';
+import { writeTestZip } from './fixtures/zip';
+
+describe('DataIngestor', () => {
+  let testDir: string;
+  let sourceDir: string;
+  let dbManager: DatabaseManager;
+  let fileScanner: FileScanner;
+  let sourceFolders: SourceFolder[];
+
+  const writeJson = (fileName: string, data: any): string => {
+    const filePath = path.join(sourceDir, fileName);
+    fs.writeFileSync(filePath, JSON.stringify(data));
+    return filePath;
+  };
+
+  const ingest = async () => new DataIngestor(dbManager, fileScanner).ingest(sourceFolders);
+
+  const rowsByFile = async (): Promise<Record<string, string[]>> => {
+    const rows = await dbManager.executeQuery('SELECT _source_file, name FROM data ORDER BY _id');
+    const result: Record<string, string[]> = {};
+    for (const row of rows) {
+      const fileName = path.basename(row._source_file);
+      result[fileName] = [...(result[fileName] || []), row.name];
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    testDir = createTempTestDir();
+    sourceDir = path.join(testDir, 'source');
+    fs.mkdirSync(sourceDir, { recursive: true });
+
+    const projectDir = path.join(testDir, 'project');
+    fs.mkdirSync(projectDir, { recursive: true });
+    dbManager = new DatabaseManager(projectDir);
+    await dbManager.initializeProjectDatabase('test-project', 'Test Project', projectDir);
+
+    fileScanner = new FileScanner();
+    sourceFolders = [{ id: 'folder-1', path: sourceDir, addedDate: new Date() }];
+
+    writeJson('a.json', [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }]);
+    writeJson('b.json', [{ id: 1, name: 'Carol' }]);
+  });
+
+  afterEach(async () => {
+    if (dbManager && dbManager.isConnected()) {
+      await dbManager.closeProjectDatabase();
+    }
+    cleanupTempDir(testDir);
+  });
+
+  test('should ingest all files on the first scan', async () => {
+    const results = await ingest();
+
+    expect(results.fullRebuild).toBe(true);
+    expect(results.totalFiles).toBe(2);
+    expect(results.processedFiles).toBe(2);
+    expect(results.extractedObjects).toBe(3);
+    expect(results.addedFiles).toBe(2);
+    expect(results.errors).toHaveLength(0);
+
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'] });
+  });
+
+  test('should keep user id fields separate from the row id', async () => {
+    await ingest();
+
+    const rows = await dbManager.executeQuery('SELECT _id, id FROM data ORDER BY _id');
+    expect(rows.map(row => row.id)).toEqual([1, 2, 1]);
+    expect(new Set(rows.map(row => row._id)).size).toBe(3);
+  });
+
+  test('should skip unchanged files on rescan', async () => {
+    await ingest();
+    const before = await dbManager.executeQuery('SELECT _id FROM data ORDER BY _id');
+
+    const results = await ingest();
+
+    expect(results.fullRebuild).toBe(false);
+    expect(results.processedFiles).toBe(0);
+    expect(results.unchangedFiles).toBe(2);
+    expect(await dbManager.executeQuery('SELECT _id FROM data ORDER BY _id')).toEqual(before);
+  });
+
+  test('should insert rows from new files only', async () => {
+    await ingest();
+    writeJson('c.json', [{ name: 'Dave', team: 'blue' }]);
+
+    const results = await ingest();
+
+    expect(results.addedFiles).toBe(1);
+    expect(results.processedFiles).toBe(1);
+    expect(results.unchangedFiles).toBe(2);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'], 'c.json': ['Dave'] });
+
+    const team = await dbManager.executeQuery('SELECT team FROM data WHERE name = ?', ['Dave']);
+    expect(team[0].team).toBe('blue');
+  });
+
+  test('should replace rows from modified files', async () => {
+    await ingest();
+    const filePath = writeJson('a.json', [{ id: 1, name: 'Alicia' }]);
+    const future = new Date(Date.now() + 60000);
+    fs.utimesSync(filePath, future, future);
+
+    const results = await ingest();
+
+    expect(results.modifiedFiles).toBe(1);
+    expect(results.extractedObjects).toBe(1);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alicia'], 'b.json': ['Carol'] });
+  });
+
+  test('should not reprocess files that were touched without content changes', async () => {
+    await ingest();
+    const future = new Date(Date.now() + 60000);
+    fs.utimesSync(path.join(sourceDir, 'a.json'), future, future);
+
+    const results = await ingest();
+
+    expect(results.modifiedFiles).toBe(0);
+    expect(results.unchangedFiles).toBe(2);
+
+    const entries = await new FileManifest(dbManager).getEntries();
+    expect(entries.get(path.join(sourceDir, 'a.json'))!.mtime).toBe(fs.statSync(path.join(sourceDir, 'a.json')).mtimeMs);
+  });
+
+  test('should delete rows from removed files', async () => {
+    await ingest();
+    fs.unlinkSync(path.join(sourceDir, 'b.json'));
+
+    const results = await ingest();
+
+    expect(results.removedFiles).toBe(1);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'] });
+
+    const entries = await new FileManifest(dbManager).getEntries();
+    expect(Array.from(entries.keys())).toEqual([path.join(sourceDir, 'a.json')]);
+  });
+
+  test('should treat files deleted after they were listed as removed', async () => {
+    await ingest();
+
+    // b.json disappears between listing the folder and comparing it with the manifest, as rotated files do
+    const findJsonFiles = fileScanner.findJsonFiles.bind(fileScanner);
+    jest.spyOn(fileScanner, 'findJsonFiles').mockImplementation(async (...args) => {
+      const files = await findJsonFiles(...args);
+      fs.unlinkSync(path.join(sourceDir, 'b.json'));
+      return files;
+    });
+    const results = await ingest();
+
+    expect(results.removedFiles).toBe(1);
+    expect(results.errors).toHaveLength(0);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'] });
+  });
+
+  test('should keep rows from a source folder that is temporarily unavailable', async () => {
+    await ingest();
+    const movedDir = path.join(testDir, 'moved');
+    fs.renameSync(sourceDir, movedDir);
+
+    const results = await ingest();
+
+    expect(results.removedFiles).toBe(0);
+    expect(results.errors).toEqual([{ file: sourceDir, error: 'Source folder does not exist' }]);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'] });
+  });
+
+  test('should drop stale rows and retry files that become invalid', async () => {
+    await ingest();
+    const filePath = path.join(sourceDir, 'b.json');
+    fs.writeFileSync(filePath, '{ invalid json');
+
+    const results = await ingest();
+
+    expect(results.errors).toHaveLength(1);
+    expect(results.errors[0]!.file).toBe(filePath);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'] });
+
+    writeJson('b.json', [{ name: 'Carol' }]);
+    const retry = await ingest();
+
+    expect(retry.addedFiles).toBe(1);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'] });
+  });
+
+  test('should not keep rows from a file that fails part way through', async () => {
+    const records = Array.from({ length: 120 }, (_value, index) => JSON.stringify({ name: `Row ${index}` }));
+    fs.writeFileSync(path.join(sourceDir, 'c.json'), `[${records.join(',')}, {broken]`);
+
+    const results = await ingest();
+
+    expect(results.errors).toHaveLength(1);
+    expect(results.errors[0]!.error).toContain("unexpected ']' in array element 120");
+    expect(Object.keys(await rowsByFile())).toEqual(['a.json', 'b.json']);
+  });
+
+  test('should rebuild a data table that uses the legacy layout', async () => {
+    await dbManager.executeNonQuery(`
+      CREATE TABLE data (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        _source_file TEXT,
+        _scan_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        "name" TEXT
+      )
+    `);
+    await dbManager.executeNonQuery('INSERT INTO data (_source_file, name) VALUES (?, ?)', ['old.json', 'Stale']);
+
+    const results = await ingest();
+
+    expect(results.fullRebuild).toBe(true);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'] });
+  });
+
+  test('should report progress for processed files', async () => {
+    const progressCallback = jest.fn();
+
+    await new DataIngestor(dbManager, fileScanner).ingest(sourceFolders, { progressCallback });
+
+    expect(progressCallback).toHaveBeenCalledTimes(2);
+    expect(progressCallback).toHaveBeenCalledWith(expect.objectContaining({ current: 0, total: 2 }));
+  });
+
+  test('should ingest CSV files with the dialect of their source folder', async () => {
+    const csvDir = path.join(testDir, 'csv');
+    fs.mkdirSync(csvDir);
+    fs.writeFileSync(path.join(csvDir, 'people.csv'), '4;Dave\n5;Eve\n');
+    sourceFolders.push({ id: 'folder-2', path: csvDir, addedDate: new Date(), csvOptions: { noHeader: true } });
+
+    const results = await ingest();
+
+    expect(results.extractedObjects).toBe(5);
+    const rows = await dbManager.executeQuery('SELECT column_1, column_2 FROM data WHERE column_1 IS NOT NULL ORDER BY column_1');
+    expect(rows).toEqual([
+      { column_1: 4, column_2: 'Dave' },
+      { column_1: 5, column_2: 'Eve' }
+    ]);
+  });
+
+  test('should keep the leading zeros of codes read from CSV files', async () => {
+    fs.writeFileSync(path.join(sourceDir, 'zips.csv'), 'zip,count\n00501,3\n10001,4\n');
+
+    await ingest();
+
+    const rows = await dbManager.executeQuery('SELECT zip, count FROM data WHERE zip IS NOT NULL ORDER BY count');
+    expect(rows).toEqual([{ zip: '00501', count: 3 }, { zip: '10001', count: 4 }]);
+    const schema = await dbManager.executeQuery("SELECT data_type FROM data_schema WHERE table_name = 'data' AND column_name = 'zip'");
+    expect(schema).toEqual([{ data_type: 'TEXT' }]);
+  });
+
+  test('should ingest nested records selected by their source folder', async () => {
+    const apiDir = path.join(testDir, 'api');
+    fs.mkdirSync(apiDir);
+    fs.writeFileSync(path.join(apiDir, 'page.json'), JSON.stringify({
+      meta: { requestId: 'req-7' },
+      data: { items: [{ name: 'Dave' }, { name: 'Eve' }] }
+    }));
+    sourceFolders.push({
+      id: 'folder-2',
+      path: apiDir,
+      addedDate: new Date(),
+      recordSelectors: [{ path: '$.data.items[*]', parentFields: ['$.meta.requestId'] }]
+    });
+
+    const results = await ingest();
+
+    expect(results.extractedObjects).toBe(5);
+    const rows = await dbManager.executeQuery('SELECT name, meta_requestId FROM data WHERE meta_requestId IS NOT NULL ORDER BY name');
+    expect(rows).toEqual([
+      { name: 'Dave', meta_requestId: 'req-7' },
+      { name: 'Eve', meta_requestId: 'req-7' }
+    ]);
+  });
+
+  test('should ingest compressed files and zip archive entries', async () => {
+    fs.writeFileSync(path.join(sourceDir, 'c.jsonl.gz'), zlib.gzipSync('{"name":"Dave"}\n'));
+    const zipPath = path.join(sourceDir, 'bundle.zip');
+    writeTestZip(zipPath, [
+      { name: 'inner/d.json', content: JSON.stringify([{ name: 'Eve' }]) },
+      { name: 'notes.txt', content: 'ignored' }
+    ]);
+
+    const results = await ingest();
+
+    expect(results.processedFiles).toBe(4);
+    expect(await rowsByFile()).toEqual({
+      'a.json': ['Alice', 'Bob'],
+      'b.json': ['Carol'],
+      'c.jsonl.gz': ['Dave'],
+      'd.json': ['Eve']
+    });
+    const rows = await dbManager.executeQuery("SELECT _source_file FROM data WHERE name = 'Eve'");
+    expect(rows[0]._source_file).toBe(`${zipPath}!/inner/d.json`);
+  });
+
+  test('should report the formats of files detected from their content', async () => {
+    fs.writeFileSync(path.join(sourceDir, 'c.txt'), '{"name":"Dave"}\n{"name":"Eve"}\n');
+
+    const results = await ingest();
+
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'], 'c.txt': ['Dave', 'Eve'] });
+    expect(results.detectedFormats.sort((a, b) => a.file.localeCompare(b.file))).toEqual([
+      { file: path.join(sourceDir, 'a.json'), format: 'json-array', compression: undefined },
+      { file: path.join(sourceDir, 'b.json'), format: 'json-array', compression: undefined },
+      { file: path.join(sourceDir, 'c.txt'), format: 'jsonl', compression: undefined }
+    ]);
+
+    // Unchanged files are not read again, so their formats are not detected again
+    fs.writeFileSync(path.join(sourceDir, 'c.txt'), '{"name":"Dave"}\n');
+    expect((await ingest()).detectedFormats).toEqual([
+      { file: path.join(sourceDir, 'c.txt'), format: 'json-object', compression: undefined }
+    ]);
+  });
+
+  test('should remove rows of archive entries when the archive is deleted', async () => {
+    const zipPath = path.join(sourceDir, 'bundle.zip');
+    writeTestZip(zipPath, [{ name: 'd.json', content: JSON.stringify([{ name: 'Eve' }]) }]);
+    await ingest();
+
+    const rescan = await ingest();
+    expect(rescan.unchangedFiles).toBe(3);
+
+    fs.unlinkSync(zipPath);
+    const results = await ingest();
+
+    expect(results.removedFiles).toBe(1);
+    expect(Object.keys(await rowsByFile())).toEqual(['a.json', 'b.json']);
+  });
+
+  test('should report column name collisions as scan errors', async () => {
+    writeJson('b.json', [{ name: 'Carol', user: { id: 5 }, user_id: 6 }]);
+
+    const results = await ingest();
+
+    expect(results.processedFiles).toBe(2);
+    expect(results.errors).toEqual([{
+      file: path.join(sourceDir, 'b.json'),
+      error: 'Keys collide on column "user_id"; later values were stored in "user_id_2"'
+    }]);
+    expect(await dbManager.executeQuery('SELECT user_id, user_id_2 FROM data WHERE name = ?', ['Carol']))
+      .toEqual([{ user_id: 5, user_id_2: 6 }]);
+  });
+
+  test('should parse unchanged files again when their parse settings change', async () => {
+    writeJson('b.json', [{ name: 'Carol', address: { city: 'Oslo' } }]);
+    await ingest();
+
+    const results = await new DataIngestor(dbManager, new FileScanner({ separator: '.' })).ingest(sourceFolders);
+
+    expect(results.modifiedFiles).toBe(2);
+    expect(results.unchangedFiles).toBe(0);
+    expect(await dbManager.executeQuery('SELECT "address.city" AS city FROM data WHERE name = ?', ['Carol']))
+      .toEqual([{ city: 'Oslo' }]);
+
+    const rescan = await new DataIngestor(dbManager, new FileScanner({ separator: '.' })).ingest(sourceFolders);
+    expect(rescan.unchangedFiles).toBe(2);
+  });
+
+  test('should drop the columns files no longer produce after their parse settings change', async () => {
+    writeJson('b.json', [{ name: 'Carol', address: { city: 'Oslo' } }]);
+    await ingest();
+
+    await new DataIngestor(dbManager, new FileScanner({ separator: '.' })).ingest(sourceFolders);
+
+    const columns = await dbManager.executeQuery('PRAGMA table_info(data)');
+    expect(columns.map(column => column.name)).toContain('address.city');
+    expect(columns.map(column => column.name)).not.toContain('address_city');
+    const schemaRows = await dbManager.executeQuery("SELECT column_name FROM data_schema WHERE table_name = 'data' ORDER BY column_name");
+    expect(schemaRows.map(row => row.column_name)).toEqual(['address.city', 'id', 'name']);
+  });
+
+  test('should keep columns that unchanged files still hold values in', async () => {
+    writeJson('b.json', [{ name: 'Carol', city: 'Oslo' }]);
+    await ingest();
+
+    writeJson('a.json', [{ name: 'Alice' }]);
+    await ingest();
+
+    const columns = await dbManager.executeQuery('PRAGMA table_info(data)');
+    expect(columns.map(column => column.name)).toEqual(expect.arrayContaining(['city', 'name']));
+    expect(columns.map(column => column.name)).not.toContain('id');
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice'], 'b.json': ['Carol'] });
+  });
+
+  test('should record where each row was read from', async () => {
+    const linesPath = path.join(sourceDir, 'c.jsonl');
+    fs.writeFileSync(linesPath, '{"name":"Dave"}\n\n{"name":"Erin"}\n');
+    await ingest();
+
+    const rows = await dbManager.executeQuery(
+      'SELECT _source_file, _source_line, _source_offset, _record_index, name FROM data WHERE _source_file = ? ORDER BY _id',
+      [linesPath]
+    );
+    expect(rows.map(row => [row._source_line, row._source_offset, row._record_index, row.name])).toEqual([
+      [1, 0, 0, 'Dave'],
+      [3, 17, 1, 'Erin']
+    ]);
+    expect(await fileScanner.readRecordSource(linesPath, rows[1]._source_offset)).toEqual({ text: '{"name":"Erin"}', truncated: false });
+  });
+
+  test('should record lines that could not be parsed in the scan errors table', async () => {
+    const linesPath = path.join(sourceDir, 'c.jsonl');
+    fs.writeFileSync(linesPath, '{"name":"Dave"}\n{"name":\n');
+
+    const results = await ingest();
+
+    expect(results.errors).toEqual([
+      { file: linesPath, line: 2, error: expect.stringMatching(/^Invalid JSON: /), snippet: '{"name":' }
+    ]);
+    expect(await new ScanErrorLog(dbManager).getErrors(results.scanId)).toEqual([
+      { id: expect.any(Number), scanId: results.scanId, file: linesPath, line: 2, error: results.errors[0]!.error, snippet: '{"name":' }
+    ]);
+  });
+
+  test('should ingest log files and record their unmatched lines in the scan errors', async () => {
+    fileScanner = new FileScanner({ logFormats: [{ pattern: '*.log', regex: '^(?<level>[A-Z]+) (?<name>.*)' }] });
+    const logPath = path.join(sourceDir, 'app.log');
+    fs.writeFileSync(logPath, 'INFO Dave\nstack trace\nWARN Erin\n');
+
+    const results = await ingest();
+
+    expect((await rowsByFile())['app.log']).toEqual(['Dave', 'Erin']);
+    expect(results.errors).toEqual([
+      { file: logPath, line: 2, error: 'Line does not match the log format', snippet: 'stack trace' }
+    ]);
+  });
+
+  test('should name the sheet of workbook rows in _source_file and replace them when the workbook changes', async () => {
+    const workbookPath = path.join(sourceDir, 'team.xlsx');
+    await writeTestXlsx(workbookPath, [{ name: 'Staff', rows: [['name'], ['Dave']] }, { name: 'Guests', rows: [['name'], ['Erin']] }]);
+
+    await ingest();
+
+    expect(await rowsByFile()).toMatchObject({ 'team.xlsx#Staff': ['Dave'], 'team.xlsx#Guests': ['Erin'] });
+    const rows = await dbManager.executeQuery('SELECT _source_line, _source_offset FROM data WHERE name = ?', ['Erin']);
+    expect(rows).toEqual([{ _source_line: 2, _source_offset: null }]);
+
+    await writeTestXlsx(workbookPath, [{ name: 'Staff', rows: [['name'], ['Dave'], ['Frank']] }]);
+    const future = new Date(Date.now() + 60000);
+    fs.utimesSync(workbookPath, future, future);
+    await ingest();
+
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'], 'team.xlsx#Staff': ['Dave', 'Frank'] });
+
+    fs.unlinkSync(workbookPath);
+    await ingest();
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'] });
+  });
+
+  test('should record the statistics and schema of each scan run', async () => {
+    const first = await ingest();
+    writeJson('b.json', [{ id: 1.5, name: 'Carol', city: 'Oslo' }]);
+    const second = await ingest();
+
+    const runs = await new ScanRunLog(dbManager).getRuns();
+    expect(runs.map(run => run.id)).toEqual([second.scanId, first.scanId]);
+    expect(runs[1]).toMatchObject({ totalFiles: 2, addedFiles: 2, insertedRecords: 3, errorCount: 0, fullRebuild: true });
+    expect(runs[0]).toMatchObject({ totalFiles: 2, addedFiles: 0, modifiedFiles: 1, unchangedFiles: 1, insertedRecords: 1, fullRebuild: false });
+    expect(runs[0]!.durationMs).toBe(runs[0]!.completedDate.getTime() - runs[0]!.startedDate.getTime());
+    expect(runs[1]!.schema).toEqual([
+      { table: 'data', name: 'id', dataType: 'INTEGER', nullable: false },
+      { table: 'data', name: 'name', dataType: 'TEXT', nullable: false }
+    ]);
+    expect(await new ScanRunLog(dbManager).compareRuns(first.scanId, second.scanId)).toEqual([
+      { table: 'data', column: 'id', change: 'type-changed', fromType: 'INTEGER', toType: 'REAL' },
+      { table: 'data', column: 'city', change: 'added', toType: 'TEXT' }
+    ]);
+  });
+
+  test('should only compare files under the changed paths with the previous scan', async () => {
+    await ingest();
+    writeJson('a.json', [{ id: 1, name: 'Alice2' }]);
+    const bPath = writeJson('b.json', [{ id: 1, name: 'Carol2' }]);
+
+    const results = await new DataIngestor(dbManager, fileScanner).ingest(sourceFolders, { changedPaths: [bPath] });
+
+    expect(results.modifiedFiles).toBe(1);
+    expect(results.totalFiles).toBe(2);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol2'] });
+
+    fs.unlinkSync(bPath);
+    const removal = await new DataIngestor(dbManager, fileScanner).ingest(sourceFolders, { changedPaths: [sourceDir] });
+    expect(removal.removedFiles).toBe(1);
+    expect(await rowsByFile()).toEqual({ 'a.json': ['Alice2'] });
+  });
+
+  test('should rebuild a data table without source position columns', async () => {
+    await ingest();
+    await dbManager.executeNonQuery('ALTER TABLE data DROP COLUMN _source_offset');
+
+    const results = await ingest();
+
+    expect(results.fullRebuild).toBe(true);
+    expect((await dbManager.executeQuery('SELECT _source_offset FROM data WHERE name = ?', ['Carol']))[0]._source_offset).toBe(1);
+  });
+
+  describe('child tables', () => {
+    beforeEach(() => {
+      sourceFolders[0] = { ...sourceFolders[0]!, childTables: ['items', 'order.tags'] };
+      writeJson('a.json', [
+        { name: 'Alice', items: [{ sku: 'A1', qty: 2 }, { sku: 'A2', qty: 1 }], order: { id: 7, tags: ['new', 'gift'] } },
+        { name: 'Bob', items: [] }
+      ]);
+      writeJson('b.json', [{ name: 'Carol', items: [{ sku: 'C1', qty: 5, price: { amount: 1.5 } }] }]);
+    });
+
+    test('should store exploded array elements linked to their parent rows', async () => {
+      const results = await ingest();
+
+      expect(results.extractedObjects).toBe(3);
+      const items = await dbManager.executeQuery(`
+        SELECT data.name, items._index, items.sku, items.qty, items.price_amount
+        FROM data__items items JOIN data ON data._id = items._parent_id
+        ORDER BY data.name, items._index
+      `);
+      expect(items).toEqual([
+        { name: 'Alice', _index: 0, sku: 'A1', qty: 2, price_amount: null },
+        { name: 'Alice', _index: 1, sku: 'A2', qty: 1, price_amount: null },
+        { name: 'Carol', _index: 0, sku: 'C1', qty: 5, price_amount: 1.5 }
+      ]);
+
+      const tags = await dbManager.executeQuery('SELECT _index, value FROM data__order_tags ORDER BY _index');
+      expect(tags).toEqual([{ _index: 0, value: 'new' }, { _index: 1, value: 'gift' }]);
+
+      // Exploded arrays are not also stored as JSON text on the parent
+      const columns = await dbManager.executeQuery('PRAGMA table_info(data)');
+      expect(columns.map(col => col.name)).toEqual(expect.arrayContaining(['name', 'order_id']));
+      expect(columns.map(col => col.name)).not.toContain('items');
+    });
+
+    test('should replace the child rows of modified files and remove those of deleted files', async () => {
+      await ingest();
+
+      writeJson('a.json', [{ name: 'Alice', items: [{ sku: 'A3' }] }]);
+      fs.unlinkSync(path.join(sourceDir, 'b.json'));
+      await ingest();
+
+      const items = await dbManager.executeQuery(
+        'SELECT items.sku, data.name FROM data__items items JOIN data ON data._id = items._parent_id'
+      );
+      expect(items).toEqual([{ sku: 'A3', name: 'Alice' }]);
+      expect(await dbManager.executeQuery('SELECT COUNT(*) AS count FROM data__items')).toEqual([{ count: 1 }]);
+      expect(await dbManager.executeQuery('SELECT COUNT(*) AS count FROM data__order_tags')).toEqual([{ count: 0 }]);
+    });
+
+    test('should drop child tables when the data table is rebuilt', async () => {
+      await ingest();
+      await new FileManifest(dbManager).clear();
+
+      sourceFolders[0] = { ...sourceFolders[0]!, childTables: [] };
+      await ingest();
+
+      const tables = await dbManager.getProjectTables();
+      expect(tables.map(table => table.name)).toEqual(['data']);
+    });
+
+    test('should list child tables with their parent table', async () => {
+      await ingest();
+
+      const tables = await dbManager.getProjectTables();
+      expect(tables.map(table => [table.name, table.parentTable])).toEqual([
+        ['data', undefined],
+        ['data__items', 'data'],
+        ['data__order_tags', 'data']
+      ]);
+      const itemColumns = tables.find(table => table.name === 'data__items')!.columns;
+      expect(itemColumns.map(col => col.name)).toEqual(['_id', '_parent_id', '_index', '_source_file', 'sku', 'qty', 'price_amount']);
+      expect(itemColumns.find(col => col.name === 'qty')).toEqual({ name: 'qty', type: 'INTEGER', nullable: false });
+    });
+  });
+
+  describe('table rules', () => {
+    let ordersDir: string;
+
+    beforeEach(() => {
+      ordersDir = path.join(testDir, 'orders');
+      fs.mkdirSync(ordersDir);
+      fs.writeFileSync(path.join(ordersDir, 'orders.json'), JSON.stringify([
+        { orderId: 1, total: 9.5, lines: [{ sku: 'A1' }] },
+        { orderId: 2, total: 12 }
+      ]));
+      sourceFolders.push({ id: 'folder-2', path: ordersDir, addedDate: new Date(), childTables: ['lines'] });
+
+      fs.writeFileSync(path.join(sourceDir, 'events.jsonl'), [
+        '{"type":"click","meta":{"kind":"ui"},"target":"buy"}',
+        '{"type":"view","meta":{"kind":"page"},"page":"/home"}'
+      ].join('\n'));
+      fs.writeFileSync(path.join(sourceDir, 'customers.csv'), 'customerId,name\n10,Dana\n');
+    });
+
+    const ingestWithRules = async (tableRules: TableRule[]) =>
+      new DataIngestor(dbManager, new FileScanner({ tableRules })).ingest(sourceFolders);
+
+    const rules = (): TableRule[] => [
+      { table: 'orders', sourceFolder: ordersDir },
+      { table: 'customers', pattern: '*.csv' },
+      { table: 'clicks', field: 'type', value: 'click' },
+      { table: 'page_views', field: 'meta.kind', value: 'page' }
+    ];
+
+    test('should store the records of each table rule in its own table with its own schema', async () => {
+      const results = await ingestWithRules(rules());
+
+      expect(results.errors).toHaveLength(0);
+      expect(results.extractedObjects).toBe(8);
+      expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'] });
+
+      const columnNames = async (table: string) =>
+        (await dbManager.executeQuery(`PRAGMA table_info(${table})`)).map(col => col.name).filter(name => !name.startsWith('_'));
+      expect(await columnNames('data')).toEqual(['id', 'name']);
+      expect(await columnNames('orders')).toEqual(['orderId', 'total']);
+      expect(await columnNames('customers')).toEqual(['customerId', 'name']);
+      expect(await columnNames('clicks')).toEqual(['type', 'meta_kind', 'target']);
+      expect(await columnNames('page_views')).toEqual(['type', 'meta_kind', 'page']);
+
+      const lines = await dbManager.executeQuery(
+        'SELECT orders.orderId, lines.sku FROM orders__lines lines JOIN orders ON orders._id = lines._parent_id'
+      );
+      expect(lines).toEqual([{ orderId: 1, sku: 'A1' }]);
+
+      const tables = await dbManager.getProjectTables();
+      expect(tables.map(table => [table.name, table.parentTable])).toEqual([
+        ['data', undefined],
+        ['clicks', undefined],
+        ['customers', undefined],
+        ['orders', undefined],
+        ['orders__lines', 'orders'],
+        ['page_views', undefined]
+      ]);
+      expect(tables.find(table => table.name === 'orders')!.columns.find(col => col.name === 'total'))
+        .toEqual({ name: 'total', type: 'REAL', nullable: false });
+
+      const run = (await new ScanRunLog(dbManager).getRuns())[0]!;
+      expect(run.schema.filter(column => column.table === 'orders').map(column => column.name)).toEqual(['orderId', 'total']);
+    });
+
+    test('should move rows when the rules change and drop tables left without rows', async () => {
+      await ingestWithRules(rules());
+
+      const results = await ingestWithRules(rules().filter(rule => rule.table !== 'customers' && rule.table !== 'orders'));
+
+      expect(results.modifiedFiles).toBe(2);
+      expect(results.unchangedFiles).toBe(3);
+      expect(await dbManager.executeQuery('SELECT name FROM data WHERE customerId = 10')).toEqual([{ name: 'Dana' }]);
+      expect(await dbManager.executeQuery('SELECT COUNT(*) AS count FROM data__lines')).toEqual([{ count: 1 }]);
+
+      const tables = await dbManager.getProjectTables();
+      expect(tables.map(table => table.name)).toEqual(['data', 'data__lines', 'clicks', 'page_views']);
+      expect(await dbManager.executeQuery('SELECT name FROM data_tables ORDER BY name')).toEqual([{ name: 'clicks' }, { name: 'page_views' }]);
+    });
+
+    test('should drop the routed tables when the data table is rebuilt', async () => {
+      await ingestWithRules(rules());
+      await new FileManifest(dbManager).clear();
+
+      await ingestWithRules([]);
+
+      const tables = await dbManager.getProjectTables();
+      expect(tables.map(table => table.name)).toEqual(['data', 'data__lines']);
+      expect(await dbManager.executeQuery('SELECT COUNT(*) AS count FROM data')).toEqual([{ count: 8 }]);
+    });
+  });
+
+  describe('column types', () => {
+    const columnTypes = async (): Promise<Record<string, string>> => {
+      const schema = await dbManager.getDataTableSchema('default');
+      return Object.fromEntries(schema.map(col => [col.name, col.type]));
+    };
+
+    test('should create columns with their inferred types', async () => {
+      writeJson('c.json', [{ name: 'Dave', score: 9.5, active: true }, { name: 'Eve', score: 7, active: false }]);
+
+      await ingest();
+
+      expect(await columnTypes()).toEqual({ id: 'INTEGER', name: 'TEXT', score: 'REAL', active: 'INTEGER' });
+
+      const rows = await dbManager.executeQuery('SELECT name, score, active FROM data WHERE score IS NOT NULL ORDER BY score');
+      expect(rows).toEqual([
+        { name: 'Eve', score: 7, active: 0 },
+        { name: 'Dave', score: 9.5, active: 1 }
+      ]);
+    });
+
+    test('should compare and sort numeric columns numerically', async () => {
+      writeJson('c.json', [{ name: 'Dave', id: 10 }, { name: 'Eve', id: 9 }]);
+
+      await ingest();
+
+      const rows = await dbManager.executeQuery('SELECT name FROM data WHERE id > 2 ORDER BY id DESC');
+      expect(rows.map(row => row.name)).toEqual(['Dave', 'Eve']);
+    });
+
+    test('should widen a column from INTEGER to REAL to TEXT as later files contradict it', async () => {
+      await ingest();
+      expect((await columnTypes())['id']).toBe('INTEGER');
+
+      writeJson('c.json', [{ id: 2.5, name: 'Dave' }]);
+      await ingest();
+      expect((await columnTypes())['id']).toBe('REAL');
+
+      const reals = await dbManager.executeQuery('SELECT id FROM data ORDER BY _id');
+      expect(reals.map(row => row.id)).toEqual([1, 2, 1, 2.5]);
+
+      writeJson('d.json', [{ id: 'abc', name: 'Eve' }]);
+      await ingest();
+      expect((await columnTypes())['id']).toBe('TEXT');
+
+      const texts = await dbManager.executeQuery('SELECT id FROM data ORDER BY _id');
+      expect(texts.map(row => row.id)).toEqual(['1.0', '2.0', '1.0', '2.5', 'abc']);
+    });
+
+    test('should widen a column within a single file', async () => {
+      const records = Array.from({ length: 120 }, (_, index) => ({ value: index < 100 ? index : `v${index}` }));
+      writeJson('c.json', records);
+
+      await ingest();
+
+      expect((await columnTypes())['value']).toBe('TEXT');
+      const rows = await dbManager.executeQuery('SELECT value FROM data WHERE _source_file LIKE ? ORDER BY _id', ['%c.json']);
+      expect(rows[0].value).toBe('0');
+      expect(rows[119].value).toBe('v119');
+    });
+
+    test('should give a column that only held nulls the type of its first values', async () => {
+      writeJson('c.json', [{ name: 'Dave', rating: null }]);
+      await ingest();
+
+      writeJson('d.json', [{ name: 'Eve', rating: 4 }]);
+      await ingest();
+
+      expect((await columnTypes())['rating']).toBe('INTEGER');
+    });
+
+    test('should take column types from the schema of Parquet files', async () => {
+      await writeTestParquet(
+        path.join(sourceDir, 'c.parquet'),
+        { name: { type: 'UTF8' }, code: { type: 'UTF8' }, rating: { type: 'INT32', optional: true } },
+        [{ name: 'Dave', code: '007' }, { name: 'Eve', code: '42' }]
+      );
+      writeJson('d.json', [{ name: 'Frank', zip: '0150' }]);
+
+      await ingest();
+
+      expect(await columnTypes()).toMatchObject({ name: 'TEXT', code: 'TEXT', rating: 'INTEGER', zip: 'TEXT' });
+      const rows = await dbManager.executeQuery('SELECT code FROM data WHERE code IS NOT NULL ORDER BY _id');
+      expect(rows.map(row => row.code)).toEqual(['007', '42']);
+      expect(await dbManager.executeQuery('SELECT zip FROM data WHERE zip IS NOT NULL')).toEqual([{ zip: '0150' }]);
+    });
+
+    test('should record nullability of columns', async () => {
+      writeJson('c.json', [{ id: 3 }]);
+
+      await ingest();
+
+      const schema = await dbManager.getDataTableSchema('default');
+      expect(schema.find(col => col.name === 'id').nullable).toBe(false);
+      expect(schema.find(col => col.name === 'name').nullable).toBe(true);
+    });
+
+    test('should store keys that differ only in case in one column', async () => {
+      writeJson('c.json', [{ Name: 'Dave' }]);
+
+      await ingest();
+
+      const rows = await dbManager.executeQuery('SELECT name FROM data ORDER BY _id');
+      expect(rows.map(row => row.name)).toEqual(['Alice', 'Bob', 'Carol', 'Dave']);
+    });
+
+    test('should rebuild a data table scanned without a recorded schema', async () => {
+      await ingest();
+      await dbManager.executeNonQuery('DELETE FROM data_schema');
+
+      const results = await ingest();
+
+      expect(results.fullRebuild).toBe(true);
+      expect(await columnTypes()).toEqual({ id: 'INTEGER', name: 'TEXT' });
+    });
+  });
+
+  describe('scan control', () => {
+    test('should roll back a cancelled ingest and keep the previous data', async () => {
+      await ingest();
+      writeJson('a.json', [{ id: 1, name: 'Alicia' }, { id: 2, name: 'Bobby' }, { id: 3, name: 'Chris' }]);
+      writeJson('c.json', [{ name: 'Dave' }]);
+
+      const control = new ScanControl();
+      const ingestPromise = new DataIngestor(dbManager, fileScanner).ingest(sourceFolders, {
+        control,
+        progressCallback: progress => {
+          // Cancel once the first changed file has been processed
+          if (progress.current === 1) {
+            control.cancel();
+          }
+        }
+      });
+
+      await expect(ingestPromise).rejects.toThrow('Scan cancelled');
+      expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'] });
+
+      // The manifest was rolled back too, so the next scan picks up the changes
+      const results = await ingest();
+      expect(results.modifiedFiles).toBe(1);
+      expect(results.addedFiles).toBe(1);
+    });
+
+    test('should roll back a cancelled first scan without leaving a data table', async () => {
+      const control = new ScanControl();
+      control.cancel();
+
+      await expect(new DataIngestor(dbManager, fileScanner).ingest(sourceFolders, { control }))
+        .rejects.toThrow('Scan cancelled');
+      expect(await dbManager.dataTableExists('default')).toBe(false);
+    });
+
+    test('should wait while paused and continue when resumed', async () => {
+      const control = new ScanControl();
+      control.pause();
+
+      let finished = false;
+      const ingestPromise = new DataIngestor(dbManager, fileScanner).ingest(sourceFolders, { control })
+        .then(results => {
+          finished = true;
+          return results;
+        });
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(finished).toBe(false);
+
+      control.resume();
+      const results = await ingestPromise;
+
+      expect(results.processedFiles).toBe(2);
+      expect(await rowsByFile()).toEqual({ 'a.json': ['Alice', 'Bob'], 'b.json': ['Carol'] });
+    });
+
+    test('should cancel an ingest while it is paused', async () => {
+      const control = new ScanControl();
+      control.pause();
+
+      const ingestPromise = new DataIngestor(dbManager, fileScanner).ingest(sourceFolders, { control });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      control.cancel();
+
+      await expect(ingestPromise).rejects.toThrow('Scan cancelled');
+    });
+  });
+
+  test('should require a connected database', async () => {
+    const disconnected = new DatabaseManager(testDir);
+
+    await expect(new DataIngestor(disconnected, fileScanner).ingest(sourceFolders))
+      .rejects.toThrow('DatabaseManager must be connected before ingesting data');
+  });
+});
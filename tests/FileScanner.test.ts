@@ -2,6 +2,12 @@ import { FileScanner } from '../src/main/FileScanner';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as zlib from 'zlib';
+import { Field, Int32, List, Table, tableToIPC, Utf8, vectorFromArray } from 'apache-arrow';
+import { encodeTestBson } from './fixtures/bson';
+import { writeTestParquet } from './fixtures/parquet';
+import { writeTestXlsx } from './fixtures/xlsx';
+import { writeTestZip } from './fixtures/zip';
 
 describe('JSONScanner', () => {
   let scanner: FileScanner;
@@ -239,6 +245,754 @@ describe('JSONScanner', () => {
       expect(result[0]).toEqual({ id: 1, name: 'John' });
       expect(result[1]).toEqual({ id: 3, name: 'Bob' });
     });
+
+    test('should skip a malformed first line rather than reading the file as another format', async () => {
+      const filePath = path.join(tempDir, 'test.jsonl');
+      fs.writeFileSync(filePath, ['{"id": 1, "name": ', JSON.stringify({ id: 2, name: 'Jane' }), JSON.stringify({ id: 3, name: 'Bob' })].join('\n'));
+      const skipped: any[] = [];
+      const detected: any[] = [];
+
+      const result = await scanner.parseFile(filePath, {
+        onSkippedLine: line => skipped.push(line),
+        onDetectedFormat: format => detected.push(format)
+      });
+
+      expect(result).toEqual([{ id: 2, name: 'Jane' }, { id: 3, name: 'Bob' }]);
+      expect(skipped.map(line => line.line)).toEqual([1]);
+      expect(detected).toEqual([]);
+    });
+  });
+
+  describe('DynamoDB JSON file handling', () => {
+    test('should convert every attribute type, including values nested in lists and maps', async () => {
+      const item = {
+        name: { S: 'Widget' },
+        price: { N: '12.5' },
+        count: { N: '3' },
+        active: { BOOL: true },
+        deleted: { NULL: true },
+        payload: { B: 'aGVsbG8=' },
+        tags: { SS: ['a', 'b'] },
+        sizes: { NS: ['1', '2.5'] },
+        blobs: { BS: ['AQ==', 'Ag=='] },
+        parts: { L: [{ S: 'x' }, { NULL: true }, { L: [{ N: '1' }, { SS: ['y'] }] }, { M: { depth: { NS: ['7'] } } }] },
+        meta: { M: { owner: { M: { id: { N: '42' } } } } }
+      };
+      const filePath = path.join(tempDir, 'items.jsonddb');
+      fs.writeFileSync(filePath, JSON.stringify({ Item: item }) + '\n');
+
+      // Lists, sets and maps are kept whole as JSON text when nothing is flattened
+      const [record] = await new FileScanner({ flattenDepth: 0 }).parseFile(filePath);
+
+      expect(record).toEqual({
+        name: 'Widget',
+        price: 12.5,
+        count: 3,
+        active: true,
+        deleted: null,
+        payload: 'aGVsbG8=',
+        tags: JSON.stringify(['a', 'b']),
+        sizes: JSON.stringify([1, 2.5]),
+        blobs: JSON.stringify(['AQ==', 'Ag==']),
+        parts: JSON.stringify(['x', null, [1, ['y']], { depth: [7] }]),
+        meta: JSON.stringify({ owner: { id: 42 } })
+      });
+    });
+
+    test('should keep numbers a JavaScript number cannot hold exactly as text', async () => {
+      const filePath = path.join(tempDir, 'numbers.jsonddb');
+      fs.writeFileSync(filePath, JSON.stringify({ Item: {
+        safe: { N: '9007199254740991' },
+        big: { N: '12345678901234567890' },
+        precise: { N: '3.14159265358979323846' },
+        small: { N: '-0.001' },
+        set: { NS: ['1', '98765432109876543210'] }
+      } }) + '\n');
+
+      const [record] = await new FileScanner({ flattenDepth: 0 }).parseFile(filePath);
+
+      expect(record).toEqual({
+        safe: 9007199254740991,
+        big: '12345678901234567890',
+        precise: '3.14159265358979323846',
+        small: -0.001,
+        set: JSON.stringify([1, '98765432109876543210'])
+      });
+    });
+
+    describe('exports to S3', () => {
+      const writeExport = (exportDir: string, dataFiles: Record<string, string>, listedFiles?: string[]): void => {
+        fs.mkdirSync(path.join(exportDir, 'data'), { recursive: true });
+        fs.writeFileSync(path.join(exportDir, 'manifest-summary.json'), JSON.stringify({
+          version: '2020-06-30', exportArn: 'arn:aws:dynamodb:us-east-1:123456789012:table/Orders/export/1',
+          outputFormat: 'DYNAMODB_JSON', itemCount: 2
+        }));
+        if (listedFiles) {
+          fs.writeFileSync(path.join(exportDir, 'manifest-files.json'), listedFiles.map(name => JSON.stringify({
+            itemCount: 1, dataFileS3Key: `AWSDynamoDB/1/data/${name}`
+          })).join('\n') + '\n');
+        }
+        for (const [name, content] of Object.entries(dataFiles)) {
+          fs.writeFileSync(path.join(exportDir, 'data', name), zlib.gzipSync(content));
+        }
+      };
+
+      test('should find the data files an export lists and not its manifests', async () => {
+        const exportDir = path.join(tempDir, 'AWSDynamoDB', '1');
+        writeExport(exportDir, {
+          'a.json.gz': '{"Item":{"id":{"S":"1"}}}\n',
+          'b.json.gz': '{"Item":{"id":{"S":"2"}}}\n',
+          'stale.json.gz': '{"Item":{"id":{"S":"3"}}}\n'
+        }, ['a.json.gz', 'b.json.gz', 'missing.json.gz']);
+
+        const files = await scanner.findJsonFiles(tempDir);
+
+        expect(files.map(filePath => path.relative(tempDir, filePath)).sort()).toEqual([
+          path.join('AWSDynamoDB', '1', 'data', 'a.json.gz'),
+          path.join('AWSDynamoDB', '1', 'data', 'b.json.gz')
+        ]);
+        expect(scanner.getErrors()).toEqual([{
+          file: path.join(exportDir, 'data', 'missing.json.gz'),
+          error: 'Data file listed in the DynamoDB export manifest is missing'
+        }]);
+      });
+
+      test('should read the data files of an export as DynamoDB JSON', async () => {
+        writeExport(tempDir, {
+          'a.json.gz': '{"Item":{"id":{"S":"1"},"total":{"N":"10"}}}\n{"Item":{"id":{"S":"2"},"total":{"N":"20"}}}\n',
+          'empty.json.gz': ''
+        });
+
+        const results = await scanner.scanSourceFolders([{ id: 'f1', path: tempDir, addedDate: new Date() }]);
+
+        expect(results.totalFiles).toBe(2);
+        expect(results.totalRecords).toBe(2);
+        expect(results.errors).toEqual([]);
+        expect(results.columns.map(column => column.name).sort()).toEqual(['id', 'total']);
+        expect(await scanner.parseFile(path.join(tempDir, 'data', 'a.json.gz'))).toEqual([
+          { id: '1', total: 10 },
+          { id: '2', total: 20 }
+        ]);
+        expect(await scanner.readRecordSource(path.join(tempDir, 'data', 'a.json.gz'), 0)).toEqual({
+          text: '{"Item":{"id":{"S":"1"},"total":{"N":"10"}}}', truncated: false
+        });
+      });
+
+      test('should report exports in formats other than DynamoDB JSON', async () => {
+        writeExport(tempDir, { 'a.ion.gz': '' });
+        const summaryPath = path.join(tempDir, 'manifest-summary.json');
+        fs.writeFileSync(summaryPath, JSON.stringify({ outputFormat: 'ION' }));
+
+        expect(await scanner.findJsonFiles(tempDir)).toEqual([]);
+        expect(scanner.getErrors()[0]?.error).toContain('only DYNAMODB_JSON exports can be scanned');
+      });
+    });
+  });
+
+  describe('MongoDB Extended JSON and BSON', () => {
+    test('should convert the Extended JSON of mongoexport files to plain values', async () => {
+      const filePath = path.join(tempDir, 'orders.json');
+      fs.writeFileSync(filePath, [
+        JSON.stringify({
+          _id: { $oid: '507f1f77bcf86cd799439011' },
+          created: { $date: '2020-01-01T00:00:00Z' },
+          updated: { $date: { $numberLong: '1577923200000' } },
+          views: { $numberLong: '42' },
+          total: { $numberDecimal: '12345678901234567890.12' },
+          ratio: { $numberDouble: '0.5' },
+          key: { $binary: { base64: 'EjRWeJASNFZ4kBI0VniQEg==', subType: '04' } },
+          pattern: { $regularExpression: { pattern: '^a', options: 'i' } },
+          lines: [{ sku: { $oid: '507f1f77bcf86cd799439012' }, qty: { $numberInt: '2' } }]
+        }),
+        JSON.stringify({ _id: { $oid: '507f1f77bcf86cd799439013' }, views: { $numberLong: '9007199254740993' } })
+      ].join('\n') + '\n');
+
+      const records = await new FileScanner({ flattenDepth: 0 }).parseFile(filePath);
+
+      expect(records[0]).toEqual({
+        document_id: '507f1f77bcf86cd799439011',
+        created: '2020-01-01T00:00:00.000Z',
+        updated: '2020-01-02T00:00:00.000Z',
+        views: 42,
+        total: '12345678901234567890.12',
+        ratio: 0.5,
+        key: '12345678-9012-3456-7890-123456789012',
+        pattern: '/^a/i',
+        lines: JSON.stringify([{ sku: '507f1f77bcf86cd799439012', qty: 2 }])
+      });
+      expect(records[1]).toEqual({ document_id: '507f1f77bcf86cd799439013', views: '9007199254740993' });
+
+      const columns = scanner.analyzeSchema(records);
+      expect(columns.find(column => column.name === 'document_id')?.type).toBe('TEXT');
+      expect(columns.find(column => column.name === 'total')?.type).toBe('TEXT');
+      expect(columns.find(column => column.name === 'ratio')?.type).toBe('REAL');
+    });
+
+    test('should leave JSON files that are not MongoDB exports as they are', async () => {
+      const filePath = path.join(tempDir, 'plain.jsonl');
+      fs.writeFileSync(filePath, [
+        JSON.stringify({ _id: 'a1', name: 'Ada' }),
+        JSON.stringify({ _id: 'a2', name: 'Grace', created: { $date: '2020-01-01T00:00:00Z' } })
+      ].join('\n') + '\n');
+
+      expect(await new FileScanner({ flattenDepth: 0 }).parseFile(filePath)).toEqual([
+        { _id: 'a1', name: 'Ada' },
+        { _id: 'a2', name: 'Grace', created: JSON.stringify({ $date: '2020-01-01T00:00:00Z' }) }
+      ]);
+    });
+
+    test('should read JSON files of source folders configured as MongoDB exports as exports', async () => {
+      const filePath = path.join(tempDir, 'users.json');
+      fs.writeFileSync(filePath, JSON.stringify([{ _id: 'a1', name: 'Ada' }]));
+      const options = scanner.getParseOptions({ id: 'mongo', path: tempDir, addedDate: new Date(), mongoExport: true }, filePath);
+
+      expect(await scanner.parseFile(filePath, options)).toEqual([{ document_id: 'a1', name: 'Ada' }]);
+      expect(scanner.describeParseSettings(options)).toBe(JSON.stringify({ mongoExport: true }));
+    });
+
+    test('should read the documents of BSON files and locate them by offset', async () => {
+      const first = encodeTestBson({ _id: { $oid: '507f1f77bcf86cd799439011' }, name: 'Ada', joined: { $date: 0 } });
+      const second = encodeTestBson({ _id: 7, name: 'Grace', score: { $numberDecimal: '1.5' } });
+      const filePath = path.join(tempDir, 'users.bson');
+      fs.writeFileSync(filePath, Buffer.concat([first, second]));
+
+      const records = await scanner.parseFile(filePath, { includeLocation: true });
+
+      expect(records).toEqual([
+        { document_id: '507f1f77bcf86cd799439011', name: 'Ada', joined: '1970-01-01T00:00:00.000Z', _location: { offset: 0, index: 0 } },
+        { document_id: 7, name: 'Grace', score: 1.5, _location: { offset: first.length, index: 1 } }
+      ]);
+
+      const source = await scanner.readRecordSource(filePath, first.length);
+      expect(JSON.parse(source.text)).toEqual({ _id: 7, name: 'Grace', score: { $numberDecimal: '1.5' } });
+    });
+
+    test('should scan mongodump folders without their metadata files', async () => {
+      fs.writeFileSync(path.join(tempDir, 'users.bson.gz'), zlib.gzipSync(encodeTestBson({ name: 'Ada' })));
+      fs.writeFileSync(path.join(tempDir, 'users.metadata.json.gz'), zlib.gzipSync('{"indexes":[]}'));
+      fs.writeFileSync(path.join(tempDir, 'other.metadata.json'), '{"kept":true}');
+
+      const files = await scanner.findJsonFiles(tempDir);
+
+      expect(files.map(filePath => path.basename(filePath)).sort()).toEqual(['other.metadata.json', 'users.bson.gz']);
+      expect(await scanner.parseFile(path.join(tempDir, 'users.bson.gz'))).toEqual([{ name: 'Ada' }]);
+    });
+  });
+
+  describe('Parquet and Arrow file handling', () => {
+    const writeOrdersParquet = (filePath: string) => writeTestParquet(
+      filePath,
+      {
+        code: { type: 'UTF8' },
+        discount: { type: 'INT32', optional: true },
+        customer: { fields: { name: { type: 'UTF8' }, score: { type: 'DOUBLE' } } }
+      },
+      [{ code: '00123', customer: { name: 'Ada', score: 1 } }, { code: '456', customer: { name: 'Grace', score: 2.5 } }]
+    );
+
+    test('should read and flatten the rows of Parquet files', async () => {
+      const filePath = path.join(tempDir, 'orders.parquet');
+      await writeOrdersParquet(filePath);
+
+      const records = await scanner.parseFile(filePath, { includeLocation: true });
+
+      expect(records).toEqual([
+        { code: '00123', discount: null, customer_name: 'Ada', customer_score: 1, _location: { index: 0 } },
+        { code: '456', discount: null, customer_name: 'Grace', customer_score: 2.5, _location: { index: 1 } }
+      ]);
+      await expect(scanner.readRecordSource(filePath, 0)).rejects.toThrow('Parquet and Arrow records have no source text');
+    });
+
+    test('should take column types from the schema when scanning', async () => {
+      await writeOrdersParquet(path.join(tempDir, 'orders.parquet'));
+
+      const result = await scanner.scanSourceFolders([{ id: 'parquet', path: tempDir, addedDate: new Date() }]);
+
+      const types = Object.fromEntries(result.columns.map(column => [column.name, column.type]));
+      expect(types).toEqual({ code: 'TEXT', discount: 'INTEGER', customer_name: 'TEXT', customer_score: 'REAL' });
+    });
+
+    test('should read Arrow and Feather files, including archive entries', async () => {
+      const encodeEvents = (id: number, tags: string[] | null, format: 'file' | 'stream') => Buffer.from(tableToIPC(new Table({
+        id: vectorFromArray([id], new Int32()),
+        tags: vectorFromArray([tags], new List(new Field('item', new Utf8(), true)))
+      }), format));
+      fs.writeFileSync(path.join(tempDir, 'events.feather'), encodeEvents(1, ['a', 'b'], 'file'));
+      writeTestZip(path.join(tempDir, 'export.zip'), [{ name: 'events.arrow', content: encodeEvents(2, null, 'stream') }]);
+
+      expect(await scanner.parseFile(path.join(tempDir, 'events.feather'))).toEqual([{ id: 1, tags: JSON.stringify(['a', 'b']) }]);
+      expect(await scanner.parseFile(path.join(tempDir, 'export.zip!/events.arrow'))).toEqual([{ id: 2, tags: null }]);
+      expect((await scanner.findJsonFiles(tempDir)).map(filePath => path.basename(filePath)).sort()).toEqual(['events.arrow', 'events.feather']);
+    });
+
+    test('should report files that are not valid Parquet', async () => {
+      const filePath = path.join(tempDir, 'broken.parquet');
+      fs.writeFileSync(filePath, 'id,name\n1,Ada\n');
+
+      await expect(scanner.parseFile(filePath)).rejects.toThrow(`Failed to parse file ${filePath}: Failed to parse Parquet file ${filePath}: Not a Parquet file`);
+    });
+  });
+
+  describe('CSV and TSV file handling', () => {
+    test('should parse a CSV file with a header row', async () => {
+      const filePath = path.join(tempDir, 'people.csv');
+      fs.writeFileSync(filePath, 'id,name,score\n1,John,9.5\n2,"Doe, Jane",\n');
+
+      const result = await scanner.parseFile(filePath);
+
+      expect(result).toEqual([
+        { id: '1', name: 'John', score: '9.5' },
+        { id: '2', name: 'Doe, Jane', score: null }
+      ]);
+    });
+
+    test('should parse a TSV file using tabs', async () => {
+      const filePath = path.join(tempDir, 'people.tsv');
+      fs.writeFileSync(filePath, 'id\tnote\n1\ta,b;c\n');
+
+      const result = await scanner.parseFile(filePath);
+
+      expect(result).toEqual([{ id: '1', note: 'a,b;c' }]);
+    });
+
+    test('should apply source folder CSV overrides', async () => {
+      const filePath = path.join(tempDir, 'raw.csv');
+      fs.writeFileSync(filePath, "1|'a|b'\n2|c\n");
+
+      const result = await scanner.parseFile(filePath, {
+        csvOptions: { delimiter: '|', quote: "'", noHeader: true }
+      });
+
+      expect(result).toEqual([
+        { column_1: '1', column_2: 'a|b' },
+        { column_1: '2', column_2: 'c' }
+      ]);
+    });
+
+    test('should infer column types from CSV values', async () => {
+      const sourceDir = path.join(tempDir, 'csv');
+      fs.mkdirSync(sourceDir);
+      fs.writeFileSync(path.join(sourceDir, 'data.csv'), 'count;ratio;active;label\n-3;0.5;true;x\n7;-1.25;false;y\n');
+
+      const result = await scanner.scanSourceFolders([{ id: 'csv', path: sourceDir, addedDate: new Date() }]);
+      const typeOf = (name: string) => result.columns.find(col => col.name === name)?.type;
+
+      expect(result.totalRecords).toBe(2);
+      expect(typeOf('count')).toBe('INTEGER');
+      expect(typeOf('ratio')).toBe('REAL');
+      expect(typeOf('active')).toBe('INTEGER');
+      expect(typeOf('label')).toBe('TEXT');
+    });
+
+    test('should throw error for an unterminated quoted field', async () => {
+      const filePath = path.join(tempDir, 'broken.csv');
+      fs.writeFileSync(filePath, 'id,name\n1,"John\n');
+
+      await expect(scanner.parseFile(filePath)).rejects.toThrow('Unterminated quoted field starting on line 2');
+    });
+  });
+
+  describe('YAML and XML file handling', () => {
+    test('should read each YAML document or top-level sequence item as a record', async () => {
+      const filePath = path.join(tempDir, 'config.yaml');
+      fs.writeFileSync(filePath, [
+        'service: api',
+        'limits: {cpu: 2, memory: 512Mi}',
+        '---',
+        '- service: worker',
+        '  replicas: 3',
+        '- just text',
+        '---',
+        'broken: [1',
+        '---',
+        'plain scalar'
+      ].join('\n'));
+      const skipped: any[] = [];
+
+      const records = await scanner.parseFile(filePath, { includeLocation: true, onSkippedLine: line => skipped.push(line) });
+
+      expect(records).toEqual([
+        { service: 'api', limits_cpu: 2, limits_memory: '512Mi', _location: { line: 1, index: 0 } },
+        { service: 'worker', replicas: 3, _location: { line: 4, index: 1 } }
+      ]);
+      expect(skipped).toEqual([
+        { line: 6, message: 'Sequence item 1 is not a mapping', snippet: '"just text"' },
+        { line: 8, message: 'Invalid YAML: Flow sequence in block collection must be sufficiently indented and end with a ] on line 8', snippet: 'broken: [1' },
+        { line: 10, message: 'Document is not a mapping or sequence', snippet: 'plain scalar' }
+      ]);
+    });
+
+    test('should fail YAML files without mappings', async () => {
+      const filePath = path.join(tempDir, 'list.yml');
+      fs.writeFileSync(filePath, '- 1\n- 2\n');
+
+      await expect(scanner.parseFile(filePath)).rejects.toThrow(`Failed to parse YAML file ${filePath}: No YAML mappings found`);
+    });
+
+    test('should read the repeating elements of XML files by the record path of their folder', async () => {
+      fs.writeFileSync(path.join(tempDir, 'feed.xml'), [
+        '<feed>',
+        '  <title>News</title>',
+        '  <entry id="1"><title>First</title><tag>a</tag><tag>b</tag></entry>',
+        '  <entry id="2"><title>Second</title><author><name>Ada</name></author></entry>',
+        '</feed>'
+      ].join('\n'));
+      fs.writeFileSync(path.join(tempDir, 'people.yaml'), 'name: Grace\n');
+      const folder = { id: 'feeds', path: tempDir, addedDate: new Date(), xmlOptions: { recordPath: '/feed/entry' } };
+      const filePath = path.join(tempDir, 'feed.xml');
+
+      expect(await scanner.parseFile(filePath, { ...scanner.getParseOptions(folder, filePath), includeLocation: true })).toEqual([
+        { '@id': '1', title: 'First', tag: JSON.stringify(['a', 'b']), _location: { line: 3, index: 0 } },
+        { '@id': '2', title: 'Second', author_name: 'Ada', _location: { line: 4, index: 1 } }
+      ]);
+      await expect(scanner.parseFile(filePath, { xmlOptions: { recordPath: '/feed/item' } }))
+        .rejects.toThrow(`Failed to parse XML file ${filePath}: No elements match the record path /feed/item`);
+
+      const result = await scanner.scanSourceFolders([folder]);
+      expect(result.totalRecords).toBe(3);
+      expect(result.columns.map(column => column.name).sort()).toEqual(['@id', 'author_name', 'name', 'tag', 'title']);
+    });
+  });
+
+  describe('Parser registry', () => {
+    // A project parser for key=value files, one record per line
+    const keyValueParserModule = [
+      'module.exports = {',
+      "  name: 'key-value',",
+      "  extensions: ['.kv'],",
+      "  schemaHints: { count: 'integer' },",
+      '  readRecords: async function* (context) {',
+      '    for await (const { text, line, offset } of context.source.readLines(context.filePath)) {',
+      "      if (!text.includes('=')) {",
+      "        context.reportSkipped(line, 'Line has no key=value pairs', text);",
+      '        continue;',
+      '      }',
+      "      const record = Object.fromEntries(text.split(';').map(pair => pair.split('=')));",
+      '      yield { record, location: { line, offset } };',
+      '    }',
+      '  }',
+      '};'
+    ].join('\n');
+
+    test('should read files with the parsers in the project config folder', async () => {
+      const parsersPath = path.join(tempDir, '.dyvr', 'parsers');
+      fs.mkdirSync(parsersPath, { recursive: true });
+      fs.writeFileSync(path.join(parsersPath, 'key-value.js'), keyValueParserModule);
+      const dataPath = path.join(tempDir, 'data');
+      fs.mkdirSync(dataPath);
+      const filePath = path.join(dataPath, 'counts.kv');
+      fs.writeFileSync(filePath, 'name=a;count=1\nbroken\nname=b;count=2\n');
+      fs.writeFileSync(path.join(dataPath, 'notes.txt'), 'name=c');
+
+      expect(scanner.loadProjectParsers(tempDir)).toEqual(['key-value']);
+      expect(await scanner.findJsonFiles(dataPath)).toEqual([filePath]);
+
+      const skipped: any[] = [];
+      let declaredTypes: Map<string, string> | undefined;
+      const records = await scanner.parseFile(filePath, {
+        includeLocation: true,
+        onSkippedLine: line => skipped.push(line),
+        onDeclaredTypes: types => { declaredTypes = types; }
+      });
+
+      expect(records).toEqual([
+        { name: 'a', count: '1', _location: { line: 1, offset: 0, index: 0 } },
+        { name: 'b', count: '2', _location: { line: 3, offset: 22, index: 1 } }
+      ]);
+      expect(skipped).toEqual([{ line: 2, message: 'Line has no key=value pairs', snippet: 'broken' }]);
+      expect(declaredTypes).toEqual(new Map([['count', 'integer']]));
+    });
+
+    test('should read files no parser claims by extension with a parser sniffing their content', async () => {
+      const filePath = path.join(tempDir, 'readings');
+      fs.writeFileSync(filePath, 'RDG1\n21.5\n22.0\n');
+      fs.writeFileSync(path.join(tempDir, 'other'), 'plain text');
+
+      scanner.registerParser({
+        name: 'readings',
+        sniff: header => header.subarray(0, 4).toString() === 'RDG1',
+        readRecords: async function* (context) {
+          const lines = (await context.source.readText(context.filePath)).trim().split('\n').slice(1);
+          for (const line of lines) {
+            yield { record: { reading: Number(line) } };
+          }
+        }
+      });
+
+      expect(await scanner.findJsonFiles(tempDir)).toEqual([filePath]);
+      expect(await scanner.parseFile(filePath)).toEqual([{ reading: 21.5 }, { reading: 22 }]);
+      await expect(scanner.parseFile(path.join(tempDir, 'other'))).rejects.toThrow('Unsupported file extension: ');
+    });
+
+    test('should let registered parsers replace the built-in parser of an extension', async () => {
+      const filePath = path.join(tempDir, 'data.csv');
+      fs.writeFileSync(filePath, 'id,name\n1,Ann\n');
+
+      scanner.registerParser({
+        name: 'raw-csv',
+        extensions: ['.csv'],
+        readRecords: async function* (context) {
+          yield { record: { text: await context.source.readText(context.filePath) } };
+        }
+      });
+
+      expect(await scanner.parseFile(filePath)).toEqual([{ text: 'id,name\n1,Ann\n' }]);
+    });
+  });
+
+  describe('Content-based format detection', () => {
+    const writeDataFiles = () => {
+      const jsonLines = '{"id": 1, "name": "Ann"}\n{"id": 2, "name": "Bob"}\n';
+      fs.writeFileSync(path.join(tempDir, 'events'), jsonLines);
+      fs.writeFileSync(path.join(tempDir, 'newline.json'), jsonLines);
+      fs.writeFileSync(path.join(tempDir, 'items.txt'), '{"Item": {"id": {"N": "3"}, "tags": {"SS": ["a"]}}}\n{"id": {"N": "4"}}\n');
+      fs.writeFileSync(path.join(tempDir, 'people.txt'), '\uFEFFid;name\n5;Cy\n6;Di\n');
+      fs.writeFileSync(path.join(tempDir, 'array.txt'), '  [{"id": 7}]');
+      fs.writeFileSync(path.join(tempDir, 'single'), '{\n  "id": 8\n}\n');
+      fs.writeFileSync(path.join(tempDir, 'packed'), zlib.gzipSync(jsonLines));
+      fs.writeFileSync(path.join(tempDir, 'plain.csv'), 'id,name\n9,Ed\n');
+      fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'Just some notes, nothing more');
+      fs.writeFileSync(path.join(tempDir, 'table.md'), '| id | name |\n| 1 | Ann |\n');
+      fs.writeFileSync(path.join(tempDir, 'image'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x0a]));
+    };
+
+    test('should sniff files with missing or ambiguous extensions and report the detected formats', async () => {
+      writeDataFiles();
+
+      const files = await scanner.findJsonFiles(tempDir);
+      expect(files.map(filePath => path.basename(filePath)).sort())
+        .toEqual(['array.txt', 'events', 'items.txt', 'newline.json', 'packed', 'people.txt', 'plain.csv', 'single']);
+
+      const result = await scanner.scanSourceFolders([{ id: 'folder-1', path: tempDir, addedDate: new Date() }]);
+      expect(result.errors).toEqual([]);
+      expect(result.totalRecords).toBe(13);
+      expect(result.detectedFormats.map(detected => ({ ...detected, file: path.basename(detected.file) }))
+        .sort((a, b) => a.file.localeCompare(b.file))).toEqual([
+        { file: 'array.txt', format: 'json-array', compression: undefined },
+        { file: 'events', format: 'jsonl', compression: undefined },
+        { file: 'items.txt', format: 'dynamodb-json', compression: undefined },
+        { file: 'newline.json', format: 'jsonl', compression: undefined },
+        { file: 'packed', format: 'jsonl', compression: 'gzip' },
+        { file: 'people.txt', format: 'csv', compression: undefined },
+        { file: 'single', format: 'json-object', compression: undefined }
+      ]);
+    });
+
+    test('should read sniffed files like files of their format', async () => {
+      writeDataFiles();
+
+      expect(await scanner.parseFile(path.join(tempDir, 'items.txt'))).toEqual([{ id: 3, tags: '["a"]' }, { id: 4 }]);
+      expect(await scanner.parseFile(path.join(tempDir, 'people.txt'))).toEqual([{ id: '5', name: 'Cy' }, { id: '6', name: 'Di' }]);
+      expect(await scanner.parseFile(path.join(tempDir, 'packed'), { includeLocation: true })).toEqual([
+        { id: 1, name: 'Ann', _location: { line: 1, offset: 0, index: 0 } },
+        { id: 2, name: 'Bob', _location: { line: 2, offset: 25, index: 1 } }
+      ]);
+      await expect(scanner.readRecordSource(path.join(tempDir, 'packed'), 25))
+        .resolves.toEqual({ text: '{"id": 2, "name": "Bob"}', truncated: false });
+      await expect(scanner.readRecordSource(path.join(tempDir, 'single'), 0))
+        .resolves.toEqual({ text: '{\n  "id": 8\n}', truncated: false });
+      await expect(scanner.parseFile(path.join(tempDir, 'notes.txt'))).rejects.toThrow('Unsupported file extension: .txt');
+    });
+  });
+
+  describe('Excel workbook handling', () => {
+    const writeSalesWorkbook = (filePath: string) => writeTestXlsx(filePath, [
+      { name: 'Q1', rows: [['Sales Q1'], ['region', 'total', 'closed'], ['north', 10, { serial: 45352, format: 'date' }]], merges: ['A1:C1'] },
+      { name: 'Q2', rows: [['region', 'total', 'closed'], ['south', 20.5, { serial: 45444, format: 'date' }]] },
+      { name: 'Notes', rows: [['text'], ['draft']] }
+    ]);
+
+    test('should read the rows of each sheet with their sheet in the location', async () => {
+      const filePath = path.join(tempDir, 'sales.xlsx');
+      await writeSalesWorkbook(filePath);
+
+      const records = await scanner.parseFile(filePath, { includeLocation: true, excelOptions: { sheets: ['Q*'] } });
+
+      expect(records).toEqual([
+        { region: 'north', total: 10, closed: '2024-03-01', _location: { sheet: 'Q1', line: 3, index: 0 } },
+        { region: 'south', total: 20.5, closed: '2024-06-01', _location: { sheet: 'Q2', line: 2, index: 1 } }
+      ]);
+      await expect(scanner.readRecordSource(filePath, 0)).rejects.toThrow('Excel rows have no source text');
+    });
+
+    test('should scan workbooks with the Excel options of their source folder', async () => {
+      await writeSalesWorkbook(path.join(tempDir, 'sales.xlsx'));
+      const folder = { id: 'excel', path: tempDir, addedDate: new Date(), excelOptions: { sheets: ['Q2'] } };
+
+      const result = await scanner.scanSourceFolders([folder]);
+
+      expect(result.totalRecords).toBe(1);
+      expect(Object.fromEntries(result.columns.map(column => [column.name, column.type])))
+        .toEqual({ region: 'TEXT', total: 'REAL', closed: 'TEXT' });
+      expect(scanner.describeParseSettings(scanner.getParseOptions(folder, path.join(tempDir, 'sales.xlsx'))))
+        .toBe(JSON.stringify({ excelOptions: { sheets: ['Q2'] } }));
+    });
+
+    test('should report files that are not workbooks', async () => {
+      const filePath = path.join(tempDir, 'broken.xlsx');
+      writeTestZip(filePath, [{ name: 'readme.txt', content: 'not a workbook' }]);
+
+      await expect(scanner.parseFile(filePath))
+        .rejects.toThrow(`Failed to parse Excel file ${filePath}: Not an Excel workbook: no worksheets found`);
+    });
+  });
+
+  describe('record selectors', () => {
+    const response = {
+      meta: { requestId: 'req-1', page: { number: 2 } },
+      data: { items: [{ id: 1, name: 'a' }, { id: 2, name: 'b', meta_requestId: 'own' }, 'skipped'] }
+    };
+
+    test('should turn each matched element into a record with parent fields', async () => {
+      const filePath = path.join(tempDir, 'response.json');
+      fs.writeFileSync(filePath, JSON.stringify(response));
+
+      const result = await scanner.parseFile(filePath, {
+        recordSelector: { path: '$.data.items[*]', parentFields: ['$.meta.requestId', '$.meta.page'] }
+      });
+
+      expect(result).toEqual([
+        { id: 1, name: 'a', meta_requestId: 'req-1', meta_page_number: 2 },
+        { id: 2, name: 'b', meta_requestId: 'own', meta_page_number: 2 }
+      ]);
+    });
+
+    test('should apply the selector to each element of an array and each JSONL line', async () => {
+      const arrayPath = path.join(tempDir, 'pages.json');
+      const linesPath = path.join(tempDir, 'pages.jsonl');
+      fs.writeFileSync(arrayPath, JSON.stringify([response, response]));
+      fs.writeFileSync(linesPath, `${JSON.stringify(response)}\n${JSON.stringify(response)}\n`);
+      const options = { recordSelector: { path: '$.data.items[*]' } };
+
+      expect(await scanner.parseFile(arrayPath, options)).toHaveLength(4);
+      expect(await scanner.parseFile(linesPath, options)).toHaveLength(4);
+    });
+
+    test('should reject parent fields with wildcards', async () => {
+      const filePath = path.join(tempDir, 'response.json');
+      fs.writeFileSync(filePath, JSON.stringify(response));
+
+      await expect(scanner.parseFile(filePath, {
+        recordSelector: { path: '$.data.items[*]', parentFields: ['$.meta.*'] }
+      })).rejects.toThrow('Parent field "$.meta.*" must not contain wildcards');
+    });
+
+    test('should use the first selector whose pattern matches the file', async () => {
+      const sourceDir = path.join(tempDir, 'api');
+      fs.mkdirSync(path.join(sourceDir, 'orders'), { recursive: true });
+      fs.writeFileSync(path.join(sourceDir, 'orders', 'page1.json'), JSON.stringify({ orders: [{ id: 1 }, { id: 2 }] }));
+      fs.writeFileSync(path.join(sourceDir, 'users.json'), JSON.stringify(response));
+      fs.writeFileSync(path.join(sourceDir, 'plain.jsonl'), '{"id": 9}\n');
+
+      const result = await scanner.scanSourceFolders([{
+        id: 'api',
+        path: sourceDir,
+        addedDate: new Date(),
+        recordSelectors: [
+          { pattern: 'orders/**', path: '$.orders[*]' },
+          { pattern: '*.json', path: '$.data.items[*]' }
+        ]
+      }]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.totalRecords).toBe(5);
+      expect(result.columns.map(col => col.name)).toEqual(['id', 'meta_requestId', 'name']);
+    });
+  });
+
+  describe('record locations', () => {
+    const readLocations = async (filePath: string, options: Parameters<FileScanner['readRecords']>[1] = {}) => {
+      const locations: any[] = [];
+      for await (const record of scanner.readRecords(filePath, { ...options, includeLocation: true })) {
+        locations.push(record._location);
+      }
+      return locations;
+    };
+
+    test('should locate the elements of a JSON array', async () => {
+      const filePath = path.join(tempDir, 'data.json');
+      fs.writeFileSync(filePath, '[\n{"id":1},\n{"id":2}\n]');
+
+      expect(await readLocations(filePath)).toEqual([
+        { line: 2, offset: 2, index: 0 },
+        { line: 3, offset: 12, index: 1 }
+      ]);
+      expect(await scanner.readRecordSource(filePath, 12)).toEqual({ text: '{"id":2}', truncated: false });
+    });
+
+    test('should locate the lines of JSONL and DynamoDB JSON files', async () => {
+      const jsonlPath = path.join(tempDir, 'data.jsonl');
+      const ddbPath = path.join(tempDir, 'data.jsonddb');
+      fs.writeFileSync(jsonlPath, '{"id":1}\r\n{"id":2}\r\n');
+      fs.writeFileSync(ddbPath, '{"Item":{"id":{"N":"1"}}}\n\n{"Item":{"id":{"N":"2"}}}\n');
+
+      expect(await readLocations(jsonlPath)).toEqual([
+        { line: 1, offset: 0, index: 0 },
+        { line: 2, offset: 10, index: 1 }
+      ]);
+      expect(await readLocations(ddbPath)).toEqual([
+        { line: 1, offset: 0, index: 0 },
+        { line: 3, offset: 27, index: 1 }
+      ]);
+      expect(await scanner.readRecordSource(ddbPath, 27)).toEqual({ text: '{"Item":{"id":{"N":"2"}}}', truncated: false });
+    });
+
+    test('should give records selected from one document the same location', async () => {
+      const filePath = path.join(tempDir, 'data.jsonl');
+      fs.writeFileSync(filePath, '{"items":[{"id":1},{"id":2}]}\n');
+
+      expect(await readLocations(filePath, { recordSelector: { path: '$.items[*]' } })).toEqual([
+        { line: 1, offset: 0, index: 0 },
+        { line: 1, offset: 0, index: 1 }
+      ]);
+    });
+
+    test('should only number CSV rows', async () => {
+      const filePath = path.join(tempDir, 'data.csv');
+      fs.writeFileSync(filePath, 'id\n1\n2\n');
+
+      expect(await readLocations(filePath)).toEqual([{ index: 0 }, { index: 1 }]);
+    });
+
+    test('should report lines that could not become records', async () => {
+      const filePath = path.join(tempDir, 'data.jsonl');
+      fs.writeFileSync(filePath, '{"id":1}\n{"id":\n[1,2]\n');
+      const skipped: any[] = [];
+
+      const result = await scanner.parseFile(filePath, { onSkippedLine: line => skipped.push(line) });
+
+      expect(result).toEqual([{ id: 1 }]);
+      expect(skipped).toEqual([
+        { line: 2, message: expect.stringMatching(/^Invalid JSON: /), snippet: '{"id":' },
+        { line: 3, message: 'Line is not a JSON object', snippet: '[1,2]' }
+      ]);
+    });
+
+    test('should not add locations unless asked', async () => {
+      const filePath = path.join(tempDir, 'data.jsonl');
+      fs.writeFileSync(filePath, '{"id":1}\n');
+
+      expect(await scanner.parseFile(filePath)).toEqual([{ id: 1 }]);
+    });
+  });
+
+  describe('child tables', () => {
+    test('should move exploded arrays into the child records of each record', async () => {
+      const filePath = path.join(tempDir, 'orders.json');
+      const order = { id: 1, lines: [{ sku: 'A', meta: { size: 'L' } }, 'loose', [1, 2]], shipping: { tags: ['fast'], carrier: 'ups' } };
+      fs.writeFileSync(filePath, JSON.stringify([order]));
+
+      const result = await scanner.parseFile(filePath, { childTables: ['lines', 'shipping.tags', 'missing'] });
+
+      expect(result).toEqual([{
+        id: 1,
+        shipping_carrier: 'ups',
+        _children: {
+          lines: [{ sku: 'A', meta_size: 'L' }, { value: 'loose' }, { value: '[1,2]' }],
+          'shipping.tags': [{ value: 'fast' }]
+        }
+      }]);
+    });
   });
 
   describe('flattenObject', () => {
@@ -318,6 +1072,260 @@ describe('JSONScanner', () => {
     });
   });
 
+  describe('scan settings', () => {
+    const record = { id: 1, a: { b: 1, c: { d: { e: 'deep' } } }, a_b: 2 };
+
+    const parseWith = async (settings: ConstructorParameters<typeof FileScanner>[0]) => {
+      const filePath = path.join(tempDir, 'record.json');
+      fs.writeFileSync(filePath, JSON.stringify([record]));
+      const collisions: string[] = [];
+      const result = await new FileScanner(settings).parseFile(filePath, { onCollision: message => collisions.push(message) });
+      return { record: result[0], collisions };
+    };
+
+    test('should flatten to the configured depth with the configured separator', async () => {
+      const { record: flattened } = await parseWith({ flattenDepth: 3, separator: '.' });
+
+      expect(flattened).toEqual({ id: 1, 'a.b': 1, 'a.c.d.e': 'deep', a_b: 2 });
+      expect((await parseWith({ flattenDepth: 0 })).record).toEqual({
+        id: 1, a: '{"b":1,"c":{"d":{"e":"deep"}}}', a_b: 2
+      });
+    });
+
+    test('should store colliding values in a numbered column by default', async () => {
+      const { record: flattened, collisions } = await parseWith({});
+
+      expect(flattened).toEqual({ id: 1, a_b: 1, a_c_d: '{"e":"deep"}', a_b_2: 2 });
+      expect(collisions).toEqual(['Keys collide on column "a_b"; later values were stored in "a_b_2"']);
+    });
+
+    test('should keep the first or last value when configured', async () => {
+      const keepFirst = await parseWith({ collisionStrategy: 'keep-first' });
+      const overwrite = await parseWith({ collisionStrategy: 'overwrite' });
+
+      expect(keepFirst.record.a_b).toBe(1);
+      expect(keepFirst.collisions).toEqual(['Keys collide on column "a_b"; later values were dropped']);
+      expect(overwrite.record.a_b).toBe(2);
+      expect(overwrite.collisions).toEqual(['Keys collide on column "a_b"; later values overwrote earlier ones']);
+    });
+
+    test('should treat keys differing only in case as colliding', async () => {
+      const filePath = path.join(tempDir, 'cased.json');
+      fs.writeFileSync(filePath, JSON.stringify([{ Name: 'first', name_2: 'second', NAME: 'third' }]));
+      const parseCased = async (settings: ConstructorParameters<typeof FileScanner>[0]) => {
+        const collisions: string[] = [];
+        const result = await new FileScanner(settings).parseFile(filePath, { onCollision: message => collisions.push(message) });
+        return { record: result[0], collisions };
+      };
+
+      const suffixed = await parseCased({});
+      // name_2 already holds a column, whatever its case, so the suffix moves on to _3
+      expect(suffixed.record).toEqual({ Name: 'first', name_2: 'second', Name_3: 'third' });
+      expect(suffixed.collisions).toEqual(['Keys collide on column "Name"; later values were stored in "Name_3"']);
+      const keepFirst = await parseCased({ collisionStrategy: 'keep-first' });
+      expect(keepFirst.record).toEqual({ Name: 'first', name_2: 'second' });
+      expect(keepFirst.collisions).toEqual(['Keys collide on column "Name"; later values were dropped']);
+      const overwrite = await parseCased({ collisionStrategy: 'overwrite' });
+      expect(overwrite.record).toEqual({ Name: 'third', name_2: 'second' });
+      expect(overwrite.collisions).toEqual(['Keys collide on column "Name"; later values overwrote earlier ones']);
+    });
+
+    test('should report collisions in the scan results without failing the file', async () => {
+      const sourceDir = path.join(tempDir, 'collide');
+      fs.mkdirSync(sourceDir);
+      fs.writeFileSync(path.join(sourceDir, 'data.json'), JSON.stringify([record, record]));
+
+      const result = await scanner.scanSourceFolders([{ id: 'collide', path: sourceDir, addedDate: new Date() }]);
+
+      expect(result.processedFiles).toBe(1);
+      expect(result.errors).toEqual([{
+        file: path.join(sourceDir, 'data.json'),
+        error: 'Keys collide on column "a_b"; later values were stored in "a_b_2"'
+      }]);
+    });
+
+    test('should describe only settings that differ from the defaults', () => {
+      expect(scanner.describeParseSettings({ csvOptions: {}, childTables: [] })).toBe('');
+      expect(new FileScanner({ separator: '.' }).describeParseSettings({ childTables: ['items'] }))
+        .toBe('{"childTables":["items"],"separator":"."}');
+    });
+  });
+
+  describe('log files', () => {
+    const logScanner = () => new FileScanner({
+      logFormats: [
+        { pattern: 'nginx/*.log', preset: 'combined' },
+        { pattern: '*.log', regex: '^(?<level>[A-Z]+) (?<message>.*)', multilinePattern: '^\\s' }
+      ]
+    });
+
+    test('should turn each entry into a record and report unmatched lines', async () => {
+      const filePath = path.join(tempDir, 'app.log');
+      fs.writeFileSync(filePath, 'INFO started\nERROR failed\n  at main\n-- restart --\nINFO ready\n');
+      const skipped: any[] = [];
+
+      const records = await logScanner().parseFile(filePath, {
+        ...logScanner().getParseOptions(undefined, filePath),
+        includeLocation: true,
+        onSkippedLine: line => skipped.push(line)
+      });
+
+      expect(records).toEqual([
+        { level: 'INFO', message: 'started', _location: { line: 1, offset: 0, index: 0 } },
+        { level: 'ERROR', message: 'failed\n  at main', _location: { line: 2, offset: 13, index: 1 } },
+        { level: 'INFO', message: 'ready', _location: { line: 5, offset: 50, index: 2 } }
+      ]);
+      expect(skipped).toEqual([{ line: 4, message: 'Line does not match the log format', snippet: '-- restart --' }]);
+    });
+
+    test('should fail files where no line matches', async () => {
+      const filePath = path.join(tempDir, 'app.log');
+      fs.writeFileSync(filePath, 'not\na log\n');
+
+      await expect(logScanner().parseFile(filePath, { logFormat: { pattern: '*.log', preset: 'syslog' } }))
+        .rejects.toThrow('Failed to parse log file');
+    });
+
+    test('should scan files matching a log format, including archive entries', async () => {
+      fs.mkdirSync(path.join(tempDir, 'nginx'));
+      fs.writeFileSync(
+        path.join(tempDir, 'nginx', 'access.log'),
+        '10.0.0.1 - - [01/Jan/2024:10:00:00 +0100] "GET / HTTP/1.1" 200 512 "-" "curl/8.0"\n'
+      );
+      fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'INFO not a log file');
+      writeTestZip(path.join(tempDir, 'old.zip'), [{ name: 'app.log', content: 'WARN disk full\n' }]);
+
+      const scanner = logScanner();
+      const folder = { id: 'logs', path: tempDir, addedDate: new Date() };
+      const result = await scanner.scanSourceFolders([folder]);
+
+      expect((await scanner.findJsonFiles(tempDir)).map(file => path.relative(tempDir, file)).sort())
+        .toEqual([path.join('nginx', 'access.log'), 'old.zip!/app.log']);
+      expect(result.totalRecords).toBe(2);
+      expect(result.columns.map(column => column.name)).toEqual(expect.arrayContaining(['status', 'user_agent', 'level', 'message']));
+      expect(scanner.getParseOptions(folder, path.join(tempDir, 'nginx', 'access.log')).logFormat?.preset).toBe('combined');
+      expect(scanner.describeParseSettings(scanner.getParseOptions(folder, path.join(tempDir, 'other.log'))))
+        .toContain('"logFormat":{"pattern":"*.log"');
+    });
+  });
+
+  describe('table rules', () => {
+    test('should name the table of the first rule matching the folder, file and record', async () => {
+      const otherDir = path.join(tempDir, 'other');
+      fs.mkdirSync(path.join(tempDir, 'feed'), { recursive: true });
+      const filePath = path.join(tempDir, 'feed', 'events.json');
+      fs.writeFileSync(filePath, JSON.stringify({ events: [
+        { type: 'order', id: 1 },
+        { type: 'refund', id: 2, meta: { source: { kind: 'manual' } } },
+        { type: 7, id: 3 }
+      ] }));
+
+      const scanner = new FileScanner({
+        flattenDepth: 1,
+        tableRules: [
+          { table: 'elsewhere', sourceFolder: otherDir },
+          { table: 'csv_files', pattern: '**/*.csv' },
+          { table: 'orders', pattern: 'feed/*.json', field: 'type', value: 'order' },
+          { table: 'manual', field: 'meta.source.kind', value: 'manual' },
+          { table: 'typed', field: 'type', value: '7' }
+        ]
+      });
+      const folder = { id: 'feed', path: tempDir, addedDate: new Date(), recordSelectors: [{ path: '$.events[*]' }] };
+      const options = scanner.getParseOptions(folder, filePath);
+
+      expect(options.tableRules!.map(rule => rule.table)).toEqual(['orders', 'manual', 'typed']);
+      expect(scanner.describeParseSettings(options)).toContain('"tableRules":[{"table":"orders"');
+      expect((await scanner.parseFile(filePath, options)).map(record => [record.id, record._table])).toEqual([
+        [1, 'orders'],
+        [2, 'manual'],
+        [3, 'typed']
+      ]);
+      expect(scanner.getParseOptions(undefined, filePath).tableRules).toBeUndefined();
+    });
+  });
+
+  describe('file selection', () => {
+    const writeFiles = (relativePaths: string[]) => {
+      for (const relativePath of relativePaths) {
+        const filePath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, '{"id":1}');
+      }
+    };
+
+    const findRelative = async (selection: Parameters<FileScanner['findJsonFiles']>[1]) => {
+      const files = await scanner.findJsonFiles(tempDir, selection);
+      return files.map(file => path.relative(tempDir, file).split(path.sep).join('/')).sort();
+    };
+
+    test('should let the last matching rule decide', async () => {
+      writeFiles(['a.json', 'raw/b.json', 'raw/keep.json', 'tmp/c.json']);
+
+      const files = await findRelative({
+        fileRules: [
+          { type: 'exclude', pattern: 'raw/**' },
+          { type: 'include', pattern: 'raw/keep.json' },
+          { type: 'exclude', pattern: 'tmp/' }
+        ]
+      });
+
+      expect(files).toEqual(['a.json', 'raw/keep.json']);
+    });
+
+    test('should only scan included files when the first rule is an include', async () => {
+      writeFiles(['a.json', 'events/b.jsonl', 'events/c.csv']);
+
+      const files = await findRelative({ fileRules: [{ type: 'include', pattern: 'events/*.jsonl' }] });
+
+      expect(files).toEqual(['events/b.jsonl']);
+    });
+
+    test('should scan default-skipped directories that a rule includes', async () => {
+      writeFiles(['.cache/a.json', 'build/b.json', 'node_modules/c.json']);
+
+      const files = await findRelative({ fileRules: [{ type: 'include', pattern: '.cache/**' }, { type: 'include', pattern: 'build' }] });
+
+      expect(files).toEqual(['.cache/a.json', 'build/b.json']);
+    });
+
+    test('should limit the depth of subdirectories', async () => {
+      writeFiles(['a.json', 'one/b.json', 'one/two/c.json']);
+
+      expect(await findRelative({ maxDepth: 0 })).toEqual(['a.json']);
+      expect(await findRelative({ maxDepth: 1 })).toEqual(['a.json', 'one/b.json']);
+      expect(await findRelative({})).toEqual(['a.json', 'one/b.json', 'one/two/c.json']);
+    });
+
+    test('should follow symbolic links unless disabled, without looping', async () => {
+      writeFiles(['a.json']);
+      const outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonscanner-linked-'));
+      try {
+        fs.writeFileSync(path.join(outsideDir, 'b.json'), '{"id":2}');
+        fs.symlinkSync(outsideDir, path.join(tempDir, 'linked'), 'dir');
+        fs.symlinkSync(tempDir, path.join(outsideDir, 'back'), 'dir');
+
+        expect(await findRelative({})).toEqual(['a.json', 'linked/b.json']);
+        expect(await findRelative({ followSymlinks: false })).toEqual(['a.json']);
+      } finally {
+        fs.rmSync(outsideDir, { recursive: true, force: true });
+      }
+    });
+
+    test('should apply the folder rules when scanning source folders', async () => {
+      writeFiles(['a.json', 'skip/b.json']);
+      const sourceFolder = {
+        id: 'test-id',
+        path: tempDir,
+        addedDate: new Date(),
+        fileRules: [{ type: 'exclude' as const, pattern: 'skip/**' }]
+      };
+
+      const result = await scanner.scanSourceFolders([sourceFolder]);
+
+      expect(result.totalFiles).toBe(1);
+    });
+  });
+
   describe('analyzeSchema', () => {
     test('should return empty array for empty data', () => {
       const result = scanner.analyzeSchema([]);
@@ -380,6 +1388,22 @@ describe('JSONScanner', () => {
       expect((scanner as any).inferDataType('true')).toBe('boolean_string');
       expect((scanner as any).inferDataType('false')).toBe('boolean_string');
     });
+
+    test('should treat numbers a double cannot hold exactly as text', () => {
+      expect((scanner as any).inferDataType('9007199254740991')).toBe('integer_string');
+      expect((scanner as any).inferDataType('12345678901234567890')).toBe('text');
+      expect((scanner as any).inferDataType('3.14159265358979323846')).toBe('text');
+    });
+
+    test('should keep numbers that would not read back the same as text', () => {
+      expect((scanner as any).inferDataType('00501')).toBe('text');
+      expect((scanner as any).inferDataType('+15')).toBe('text');
+      expect((scanner as any).inferDataType('1e3')).toBe('text');
+      expect((scanner as any).inferDataType('-0')).toBe('text');
+      expect((scanner as any).inferDataType('007.5')).toBe('text');
+      expect((scanner as any).inferDataType('0.5')).toBe('real_string');
+      expect((scanner as any).inferDataType('-42')).toBe('integer_string');
+    });
   });
 
   describe('determineSQLType', () => {
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FolderWatcher } from '../src/main/FolderWatcher';
+import { SourceFolder, WatchStatus } from '../src/types';
+import { createTempTestDir, cleanupTempDir } from './setup';
+
+describe('FolderWatcher', () => {
+  let testDir: string;
+  let sourceFolders: SourceFolder[];
+  let watcher: FolderWatcher;
+  let changes: string[][];
+  let statuses: WatchStatus[];
+
+  // Resolve with the next batch of changed paths, or fail after the timeout
+  const nextChanges = (timeoutMs = 3000): Promise<string[]> => new Promise((resolve, reject) => {
+    const startCount = changes.length;
+    const startedAt = Date.now();
+    const check = () => {
+      if (changes.length > startCount) {
+        resolve(changes[startCount]!);
+      } else if (Date.now() - startedAt > timeoutMs) {
+        reject(new Error('No changes were reported'));
+      } else {
+        setTimeout(check, 20);
+      }
+    };
+    check();
+  });
+
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    testDir = createTempTestDir();
+    fs.writeFileSync(path.join(testDir, 'a.json'), '[{"id":1}]');
+    sourceFolders = [{ id: 'folder-1', path: testDir, addedDate: new Date() }];
+    changes = [];
+    statuses = [];
+    watcher = new FolderWatcher({
+      onChanges: (_projectId, changedPaths) => changes.push(changedPaths),
+      onStatusChange: (_projectId, status) => statuses.push(status),
+      pollIntervalMs: 50
+    });
+  });
+
+  afterEach(() => {
+    watcher.unwatchAll();
+    cleanupTempDir(testDir);
+  });
+
+  test('should report added, modified and removed files when polling', async () => {
+    await watcher.watchProject('project-1', sourceFolders, { enabled: true, usePolling: true, debounceMs: 100 });
+    expect(watcher.getStatus('project-1')).toEqual({ isWatching: true, isPolling: true, pendingChanges: 0 });
+
+    fs.writeFileSync(path.join(testDir, 'b.jsonl'), '{"id":2}\n');
+    fs.appendFileSync(path.join(testDir, 'a.json'), ' ');
+    expect((await nextChanges()).sort()).toEqual([path.join(testDir, 'a.json'), path.join(testDir, 'b.jsonl')]);
+
+    fs.unlinkSync(path.join(testDir, 'b.jsonl'));
+    expect(await nextChanges()).toEqual([path.join(testDir, 'b.jsonl')]);
+  });
+
+  test('should collect a burst of changes into one batch', async () => {
+    await watcher.watchProject('project-1', sourceFolders, { enabled: true, usePolling: true, debounceMs: 300 });
+
+    fs.writeFileSync(path.join(testDir, 'b.json'), '[]');
+    await wait(120);
+    fs.writeFileSync(path.join(testDir, 'c.json'), '[]');
+
+    expect((await nextChanges()).sort()).toEqual([path.join(testDir, 'b.json'), path.join(testDir, 'c.json')]);
+    expect(statuses.some(status => status.pendingChanges === 2)).toBe(true);
+    expect(watcher.getStatus('project-1').pendingChanges).toBe(0);
+  });
+
+  test('should report changes with file system events', async () => {
+    fs.mkdirSync(path.join(testDir, 'nested'));
+    await watcher.watchProject('project-1', sourceFolders, { enabled: true, debounceMs: 100 });
+    expect(watcher.getStatus('project-1').isPolling).toBe(false);
+
+    fs.writeFileSync(path.join(testDir, 'nested', 'b.json'), '[]');
+
+    expect(await nextChanges()).toEqual([path.join(testDir, 'nested', 'b.json')]);
+  });
+
+  test('should report data files whose format is told from their content when polling', async () => {
+    fs.writeFileSync(path.join(testDir, 'export'), '{"id":1}\n{"id":2}\n');
+    await watcher.watchProject('project-1', sourceFolders, { enabled: true, usePolling: true, debounceMs: 100 });
+
+    fs.appendFileSync(path.join(testDir, 'export'), '{"id":3}\n');
+    fs.writeFileSync(path.join(testDir, 'readings.txt'), 'sensor,value\nA,1\nB,2\n');
+    fs.writeFileSync(path.join(testDir, 'notes.txt'), 'hello');
+
+    expect((await nextChanges()).sort()).toEqual([path.join(testDir, 'export'), path.join(testDir, 'readings.txt')]);
+
+    fs.unlinkSync(path.join(testDir, 'readings.txt'));
+    expect(await nextChanges()).toEqual([path.join(testDir, 'readings.txt')]);
+  });
+
+  test('should report data files whose format is told from their content with file system events', async () => {
+    fs.writeFileSync(path.join(testDir, 'export'), '{"id":1}\n{"id":2}\n');
+    await watcher.watchProject('project-1', sourceFolders, { enabled: true, debounceMs: 100 });
+
+    fs.appendFileSync(path.join(testDir, 'export'), '{"id":3}\n');
+
+    expect(await nextChanges()).toEqual([path.join(testDir, 'export')]);
+  });
+
+  test('should ignore unsupported files and the project config folder', async () => {
+    await watcher.watchProject('project-1', sourceFolders, { enabled: true, debounceMs: 50 });
+
+    fs.writeFileSync(path.join(testDir, 'notes.txt'), 'hello');
+    fs.mkdirSync(path.join(testDir, '.dyvr'));
+    fs.writeFileSync(path.join(testDir, '.dyvr', 'project.json'), '{}');
+
+    await expect(nextChanges(500)).rejects.toThrow('No changes were reported');
+  });
+
+  test('should stop reporting changes once unwatched', async () => {
+    await watcher.watchProject('project-1', sourceFolders, { enabled: true, usePolling: true, debounceMs: 50 });
+    watcher.unwatchProject('project-1');
+
+    fs.writeFileSync(path.join(testDir, 'b.json'), '[]');
+
+    await expect(nextChanges(300)).rejects.toThrow('No changes were reported');
+    expect(watcher.isWatching('project-1')).toBe(false);
+    expect(statuses[statuses.length - 1]).toEqual({ isWatching: false, isPolling: false, pendingChanges: 0 });
+  });
+});
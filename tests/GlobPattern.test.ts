@@ -0,0 +1,38 @@
+import { GlobPattern } from '../src/main/GlobPattern';
+
+describe('GlobPattern', () => {
+  test('should match file names when the pattern has no slash', () => {
+    const pattern = new GlobPattern('*.json');
+
+    expect(pattern.matches('a.json')).toBe(true);
+    expect(pattern.matches('2024/jan/a.JSON')).toBe(true);
+    expect(pattern.matches('a.jsonl')).toBe(false);
+  });
+
+  test('should match paths segment by segment', () => {
+    expect(new GlobPattern('logs/*.log').matches('logs/app.log')).toBe(true);
+    expect(new GlobPattern('logs/*.log').matches('logs/old/app.log')).toBe(false);
+    expect(new GlobPattern('logs/**/*.log').matches('logs/app.log')).toBe(true);
+    expect(new GlobPattern('logs/**/*.log').matches('logs/old/2024/app.log')).toBe(true);
+    expect(new GlobPattern('logs/**').matches('logs/old/app.log')).toBe(true);
+  });
+
+  test('should support single characters, classes and alternatives', () => {
+    expect(new GlobPattern('part-?.csv').matches('part-1.csv')).toBe(true);
+    expect(new GlobPattern('part-?.csv').matches('part-10.csv')).toBe(false);
+    expect(new GlobPattern('part-[0-4].csv').matches('part-3.csv')).toBe(true);
+    expect(new GlobPattern('part-[!0-4].csv').matches('part-3.csv')).toBe(false);
+    expect(new GlobPattern('*.{json,jsonl}').matches('a.jsonl')).toBe(true);
+    expect(new GlobPattern('*.{json,jsonl}').matches('a.csv')).toBe(false);
+  });
+
+  test('should treat regular expression characters literally', () => {
+    expect(new GlobPattern('data (1).json').matches('data (1).json')).toBe(true);
+    expect(new GlobPattern('a+b.json').matches('aab.json')).toBe(false);
+  });
+
+  test('should throw for empty patterns and unclosed alternatives', () => {
+    expect(() => new GlobPattern('  ')).toThrow('Glob pattern must not be empty');
+    expect(() => new GlobPattern('*.{json')).toThrow('Unclosed "{" in glob pattern');
+  });
+});
@@ -0,0 +1,39 @@
+import { JsonPath } from '../src/main/JsonPath';
+
+describe('JsonPath', () => {
+  const document = {
+    meta: { requestId: 'req-1', 'content-type': 'json' },
+    data: { items: [{ id: 1 }, { id: 2 }, { id: 3 }] }
+  };
+
+  test('should select values by property, index and wildcard', () => {
+    expect(new JsonPath('$').select(document)).toEqual([document]);
+    expect(new JsonPath('$.meta.requestId').select(document)).toEqual(['req-1']);
+    expect(new JsonPath("$['meta']['content-type']").select(document)).toEqual(['json']);
+    expect(new JsonPath('$.data.items[1]').select(document)).toEqual([{ id: 2 }]);
+    expect(new JsonPath('$.data.items[-1].id').select(document)).toEqual([3]);
+    expect(new JsonPath('$.data.items[*].id').select(document)).toEqual([1, 2, 3]);
+    expect(new JsonPath('$.meta.*').select(document)).toEqual(['req-1', 'json']);
+  });
+
+  test('should return no values for missing paths', () => {
+    expect(new JsonPath('$.missing.items[*]').select(document)).toEqual([]);
+    expect(new JsonPath('$.data.items[5]').select(document)).toEqual([]);
+    expect(new JsonPath('$.meta.requestId[0]').select(document)).toEqual([]);
+  });
+
+  test('should report wildcards and build column names', () => {
+    expect(new JsonPath('$.data.items[*]').hasWildcard()).toBe(true);
+    expect(new JsonPath('$.meta.requestId').hasWildcard()).toBe(false);
+    expect(new JsonPath('$.meta.requestId').toColumnName()).toBe('meta_requestId');
+    expect(new JsonPath('$.rows[0].id').toColumnName('.')).toBe('rows.0.id');
+  });
+
+  test('should throw for invalid expressions', () => {
+    expect(() => new JsonPath('data.items')).toThrow('must start with $');
+    expect(() => new JsonPath('$..items')).toThrow('recursive descent (..) is not supported');
+    expect(() => new JsonPath('$.data[')).toThrow('unclosed [');
+    expect(() => new JsonPath('$.data[?(@.id)]')).toThrow('unsupported selector');
+    expect(() => new JsonPath('$.')).toThrow('expected a property name');
+  });
+});
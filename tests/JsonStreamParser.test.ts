@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { JsonStreamParser } from '../src/main/JsonStreamParser';
+import { createTempTestDir, cleanupTempDir } from './setup';
+
+describe('JsonStreamParser', () => {
+  const parseAll = async (chunks: (string | Buffer)[]): Promise<any[]> => {
+    const values: any[] = [];
+    for await (const value of new JsonStreamParser().parse(chunks)) {
+      values.push(value);
+    }
+    return values;
+  };
+
+  // Split text into chunks of the given size to exercise chunk boundaries
+  const splitText = (text: string, size: number): string[] => {
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      chunks.push(text.slice(i, i + size));
+    }
+    return chunks;
+  };
+
+  test('should yield the elements of a top-level array', async () => {
+    expect(await parseAll(['[{"id":1},{"id":2}, 3, "four", null, [5]]'])).toEqual([
+      { id: 1 }, { id: 2 }, 3, 'four', null, [5]
+    ]);
+  });
+
+  test('should handle elements split across chunks at every position', async () => {
+    const data = [
+      { id: 1, text: 'brackets ] } [ { and, commas', nested: { list: [1, 2, { deep: true }] } },
+      { id: 2, text: 'escaped \\" quote and \\\\ backslash', unicode: 'héllo ✓' },
+      { id: 3, empty: {}, none: [] }
+    ];
+    const text = JSON.stringify(data, null, 2);
+
+    for (const size of [1, 2, 3, 7, 64]) {
+      expect(await parseAll(splitText(text, size))).toEqual(data);
+    }
+  });
+
+  test('should decode multi-byte characters split across buffer chunks', async () => {
+    const buffer = Buffer.from('[{"name":"✓ñ"}]', 'utf8');
+    const chunks = Array.from(buffer).map(byte => Buffer.from([byte]));
+
+    expect(await parseAll(chunks)).toEqual([{ name: '✓ñ' }]);
+  });
+
+  test('should handle empty arrays, whitespace and a byte order mark', async () => {
+    expect(await parseAll(['﻿  [', ' ', ']  \n'])).toEqual([]);
+  });
+
+  test('should yield a document that is not an array as a single value', async () => {
+    const parser = new JsonStreamParser();
+    const values: any[] = [];
+    for await (const value of parser.parse(['{"id": 1, ', '"items": [1, 2]}'])) {
+      values.push(value);
+    }
+
+    expect(values).toEqual([{ id: 1, items: [1, 2] }]);
+    expect(parser.isTopLevelArray()).toBe(false);
+  });
+
+  test('should report whether the document is an array', async () => {
+    const parser = new JsonStreamParser();
+    for await (const _value of parser.parse(['[1]'])) {
+      expect(parser.isTopLevelArray()).toBe(true);
+    }
+  });
+
+  test('should throw for empty input', async () => {
+    await expect(parseAll(['   '])).rejects.toThrow('File is empty');
+  });
+
+  test('should throw for malformed arrays', async () => {
+    await expect(parseAll(['[{"id":1}'])).rejects.toThrow('unexpected end of input inside the top-level array');
+    await expect(parseAll(['[1,]'])).rejects.toThrow('trailing comma in array');
+    await expect(parseAll(['[,1]'])).rejects.toThrow('unexpected comma in array');
+    await expect(parseAll(['[1] x'])).rejects.toThrow('unexpected content after the top-level array');
+    await expect(parseAll(['[{"id":}]'])).rejects.toThrow('Invalid JSON format');
+    await expect(parseAll(['[1}]'])).rejects.toThrow("unexpected '}' in array element 0");
+  });
+
+  test('should yield earlier elements before reporting a later error', async () => {
+    const values: any[] = [];
+    const parse = async () => {
+      for await (const value of new JsonStreamParser().parse(['[1, 2, {bad}]'])) {
+        values.push(value);
+      }
+    };
+
+    await expect(parse()).rejects.toThrow('in array element 2');
+    expect(values).toEqual([1, 2]);
+  });
+
+  test('should report where each element starts', async () => {
+    const text = '[\n  {"id":1,"name":"é"},\n  {"id":2}\n]';
+    const expectedOffsets = [text.indexOf('{"id":1'), Buffer.byteLength(text.slice(0, text.indexOf('{"id":2')))];
+
+    for (const size of [1, 5, 64]) {
+      const parser = new JsonStreamParser();
+      const locations: any[] = [];
+      for await (const _value of parser.parse(splitText(text, size))) {
+        locations.push(parser.getLocation());
+      }
+      expect(locations).toEqual([
+        { line: 2, offset: expectedOffsets[0] },
+        { line: 3, offset: expectedOffsets[1] }
+      ]);
+    }
+  });
+
+  test('should report where a single document starts', async () => {
+    const parser = new JsonStreamParser();
+    for await (const _value of parser.parse(['\n\n  {"id":1}'])) {
+      expect(parser.getLocation()).toEqual({ line: 3, offset: 4 });
+    }
+  });
+
+  // Writes files larger than the heap and ingests them in a child process, so it only runs when asked for
+  // with RUN_LARGE_FILE_TESTS=1, e.g. through `npm run test:large`
+  const describeLargeFiles = process.env['RUN_LARGE_FILE_TESTS'] ? describe : describe.skip;
+
+  describeLargeFiles('large files', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = createTempTestDir();
+    });
+
+    afterEach(() => {
+      cleanupTempDir(testDir);
+    });
+
+    test('should ingest a JSON file larger than the heap', async () => {
+      const heapLimitMb = 96;
+      const recordCount = 120000;
+      const padding = 'x'.repeat(1000);
+      const sourceDir = path.join(testDir, 'source');
+      const projectDir = path.join(testDir, 'project');
+      fs.mkdirSync(sourceDir);
+      fs.mkdirSync(projectDir);
+      const filePath = path.join(sourceDir, 'large.json');
+
+      // Write a ~120 MB array without holding it in memory
+      const output = fs.createWriteStream(filePath);
+      const write = (text: string) => new Promise<void>(resolve => {
+        if (output.write(text)) resolve(); else output.once('drain', () => resolve());
+      });
+      await write('[');
+      for (let i = 0; i < recordCount; i++) {
+        await write(`${i > 0 ? ',' : ''}{"id":${i},"group":{"name":"g${i % 10}"},"padding":"${padding}"}`);
+      }
+      await write(']');
+      await new Promise<void>(resolve => output.end(() => resolve()));
+
+      expect(fs.statSync(filePath).size).toBeGreaterThan(heapLimitMb * 1024 * 1024);
+
+      // Ingest in a child process whose heap is smaller than the file
+      const script = `
+        const { DatabaseManager } = require('./src/main/DatabaseManager');
+        const { DataIngestor } = require('./src/main/DataIngestor');
+        const { FileScanner } = require('./src/main/FileScanner');
+        (async () => {
+          const dbManager = new DatabaseManager(process.env.PROJECT_DIR);
+          await dbManager.initializeProjectDatabase('large', 'Large', process.env.PROJECT_DIR);
+          const results = await new DataIngestor(dbManager, new FileScanner())
+            .ingest([{ id: 'large', path: process.env.SCAN_DIR, addedDate: new Date() }]);
+          const columns = await dbManager.getDataTableSchema('default');
+          await dbManager.closeProjectDatabase();
+          console.log(JSON.stringify({ errors: results.errors, extractedObjects: results.extractedObjects, columns }));
+        })().catch(error => { console.error(error); process.exit(1); });
+      `;
+      const stdout = await new Promise<string>((resolve, reject) => {
+        execFile(
+          process.execPath,
+          [`--max-old-space-size=${heapLimitMb}`, '-r', 'ts-node/register/transpile-only', '-e', script],
+          { cwd: path.join(__dirname, '..'), env: { ...process.env, SCAN_DIR: sourceDir, PROJECT_DIR: projectDir }, maxBuffer: 1024 * 1024 },
+          (error, out) => error ? reject(error) : resolve(out)
+        );
+      });
+
+      const results = JSON.parse(stdout);
+      expect(results.errors).toEqual([]);
+      expect(results.extractedObjects).toBe(recordCount);
+      expect(results.columns.map((col: any) => `${col.name}:${col.type}`).sort()).toEqual([
+        'group_name:TEXT', 'id:INTEGER', 'padding:TEXT'
+      ]);
+    }, 300000);
+  });
+});
@@ -0,0 +1,134 @@
+import { LogParser, LogEntry } from '../src/main/LogParser';
+import { SourceLine } from '../src/main/SourceFileReader';
+
+describe('LogParser', () => {
+  const parseText = async (parser: LogParser, text: string): Promise<LogEntry[]> => {
+    async function* toLines(): AsyncGenerator<SourceLine> {
+      let offset = 0;
+      for (const [index, line] of text.split('\n').entries()) {
+        yield { text: line, line: index + 1, offset };
+        offset += Buffer.byteLength(line) + 1;
+      }
+    }
+
+    const entries: LogEntry[] = [];
+    for await (const entry of parser.parseLines(toLines())) {
+      entries.push(entry);
+    }
+    return entries;
+  };
+
+  test('should read Apache and nginx access logs', () => {
+    const combined = new LogParser({ pattern: '*.log', preset: 'combined' });
+    const common = new LogParser({ pattern: '*.log', preset: 'common' });
+    const line = '127.0.0.1 - frank [10/Oct/2000:13:55:36 -0700] "GET /apache_pb.gif HTTP/1.0" 200 2326';
+
+    expect(combined.parse(`${line} "http://www.example.com/start.html" "Mozilla/4.08"`)).toEqual({
+      client: '127.0.0.1',
+      ident: null,
+      user: 'frank',
+      timestamp: '2000-10-10T20:55:36.000Z',
+      method: 'GET',
+      path: '/apache_pb.gif',
+      protocol: 'HTTP/1.0',
+      status: '200',
+      bytes: '2326',
+      referrer: 'http://www.example.com/start.html',
+      user_agent: 'Mozilla/4.08'
+    });
+    expect(common.parse('10.0.0.1 - - [01/Jan/2024:00:00:00 +0000] "-" 400 -')).toMatchObject({
+      user: null, method: null, path: null, status: '400', bytes: null
+    });
+    expect(combined.parse(line)).toBeNull();
+  });
+
+  test('should read syslog lines in the current year', () => {
+    const parser = new LogParser({ pattern: '*.log', preset: 'syslog' });
+    const year = new Date().getUTCFullYear();
+
+    expect(parser.parse("<34>Oct 11 22:14:15 mymachine su[230]: 'su root' failed")).toEqual({
+      priority: '34',
+      timestamp: `${year}-10-11T22:14:15.000Z`,
+      host: 'mymachine',
+      program: 'su',
+      pid: '230',
+      message: "'su root' failed"
+    });
+    expect(parser.parse('Feb  5 07:00:01 host CRON: job done')).toMatchObject({
+      priority: null, timestamp: `${year}-02-05T07:00:01.000Z`, program: 'CRON', pid: null
+    });
+  });
+
+  test('should split logfmt lines into key=value pairs', () => {
+    const parser = new LogParser({ pattern: '*.log', preset: 'logfmt', timestampFormat: 'epoch' });
+
+    expect(parser.parse('time=1700000000 level=info msg="user \\"ada\\" logged in" retry= debug')).toEqual({
+      time: '2023-11-14T22:13:20.000Z',
+      level: 'info',
+      msg: 'user "ada" logged in',
+      retry: null,
+      debug: true
+    });
+    expect(parser.parse('just some words')).toBeNull();
+  });
+
+  test('should join continuation lines into one entry', async () => {
+    const parser = new LogParser({
+      pattern: '*.log',
+      regex: '^(?<timestamp>\\S+ \\S+) (?<level>[A-Z]+) (?<message>.*)',
+      multilinePattern: '^\\s',
+      timestampFormat: 'yyyy-MM-dd HH:mm:ss,SSS'
+    });
+
+    const entries = await parseText(parser, [
+      '2024-03-01 12:00:00,250 ERROR Request failed',
+      '    at handler (app.js:10)',
+      '    at main (app.js:2)',
+      '',
+      'not a log line',
+      '2024-03-01 12:00:01,000 INFO Recovered'
+    ].join('\n'));
+
+    expect(entries).toEqual([
+      {
+        record: {
+          timestamp: '2024-03-01T12:00:00.250Z',
+          level: 'ERROR',
+          message: 'Request failed\n    at handler (app.js:10)\n    at main (app.js:2)'
+        },
+        text: '2024-03-01 12:00:00,250 ERROR Request failed\n    at handler (app.js:10)\n    at main (app.js:2)',
+        line: 1,
+        offset: 0
+      },
+      { record: null, text: 'not a log line', line: 5, offset: 96 },
+      {
+        record: { timestamp: '2024-03-01T12:00:01.000Z', level: 'INFO', message: 'Recovered' },
+        text: '2024-03-01 12:00:01,000 INFO Recovered',
+        line: 6,
+        offset: 111
+      }
+    ]);
+  });
+
+  test('should convert timestamps by their format', () => {
+    const parseWith = (timestampFormat: string, value: string) =>
+      new LogParser({ pattern: '*', regex: '(?<timestamp>.+)', timestampFormat }).parse(value)!['timestamp'];
+
+    expect(parseWith("yyyy-MM-dd'T'HH:mm:ssZ", '2024-02-29T23:30:00+05:30')).toBe('2024-02-29T18:00:00.000Z');
+    expect(parseWith('dd.MM.yy H:mm', '05.06.07 9:15')).toBe('2007-06-05T09:15:00.000Z');
+    expect(parseWith('epoch_millis', '1700000000123')).toBe('2023-11-14T22:13:20.123Z');
+    // Values that do not fit the format are kept as they are
+    expect(parseWith('yyyy-MM-dd', '2023-02-30')).toBe('2023-02-30');
+    expect(parseWith('yyyy-MM-dd', 'yesterday')).toBe('yesterday');
+    expect(new LogParser({ pattern: '*', regex: '(?<timestamp>.+)' }).parse('10:00')).toEqual({ timestamp: '10:00' });
+  });
+
+  test('should reject invalid formats', () => {
+    expect(() => new LogParser({ pattern: '*.log' })).toThrow('Log format needs a regex or a preset');
+    expect(() => new LogParser({ pattern: '*.log', preset: 'iis' as any })).toThrow('Unknown log format preset: iis');
+    expect(() => new LogParser({ pattern: '*.log', regex: '(?<level>' })).toThrow('Invalid log format regex');
+    expect(() => new LogParser({ pattern: '*.log', regex: '(\\w+) (.*)' })).toThrow('at least one named capture group');
+    expect(() => new LogParser({ pattern: '*.log', preset: 'syslog', multilinePattern: '[' })).toThrow('Invalid log format multiline pattern');
+    expect(() => new LogParser({ pattern: '*.log', preset: 'syslog', timestampFormat: "yyyy 'T" })).toThrow('Unterminated quote');
+  });
+});
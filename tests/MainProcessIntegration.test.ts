@@ -4,6 +4,7 @@ import { FileScanner } from '../src/main/FileScanner';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { PROJECT_CONFIG_FOLDER, PROJECT_CONFIG_FILE } from '../src/types';
 import { createTempConfigPath, createTempTestDir, cleanupTempDir } from './setup';
 
 describe('Main Process Integration', () => {
@@ -128,6 +129,122 @@ describe('Main Process Integration', () => {
       expect(finalProject!.sourceFolders).toHaveLength(0);
     });
 
+    test('should persist CSV options of a source folder', async () => {
+      const sourceDir = path.join(testDir, 'csv-data');
+      fs.mkdirSync(sourceDir, { recursive: true });
+
+      await projectManager.addSourceFolder(project.id, sourceDir, {
+        csvOptions: { delimiter: ';', noHeader: true }
+      });
+
+      const updatedProject = await projectManager.getProject(project.id);
+      expect(updatedProject!.sourceFolders[0]!.csvOptions).toEqual({ delimiter: ';', noHeader: true });
+
+      const projectJsonPath = path.join(project.workingDirectory, PROJECT_CONFIG_FOLDER, PROJECT_CONFIG_FILE);
+      const projectJson = JSON.parse(fs.readFileSync(projectJsonPath, 'utf8'));
+      expect(projectJson.sourceFolders[0].csvOptions).toEqual({ delimiter: ';', noHeader: true });
+    });
+
+    test('should persist and validate file selection rules of a source folder', async () => {
+      const sourceDir = path.join(testDir, 'rule-data');
+      fs.mkdirSync(sourceDir, { recursive: true });
+
+      await expect(projectManager.addSourceFolder(project.id, sourceDir, { fileRules: [{ type: 'include', pattern: '{a,b' }] }))
+        .rejects.toThrow('Invalid file rule');
+      await expect(projectManager.addSourceFolder(project.id, sourceDir, { maxDepth: -1 }))
+        .rejects.toThrow('Max depth must be a whole number');
+      await expect(projectManager.addSourceFolder(project.id, sourceDir, { excelOptions: { sheets: ['{Q1,Q2'] } }))
+        .rejects.toThrow('Invalid sheet pattern');
+      await expect(projectManager.addSourceFolder(project.id, sourceDir, { excelOptions: { headerRow: 0 } }))
+        .rejects.toThrow('Header row must be a whole number of 1 or more');
+      await expect(projectManager.addSourceFolder(project.id, sourceDir, { xmlOptions: { recordPath: 'feed/entry' } }))
+        .rejects.toThrow('Invalid XML record path');
+
+      const fileRules = [{ type: 'exclude' as const, pattern: 'archive/**' }];
+      await projectManager.addSourceFolder(project.id, sourceDir, { fileRules, maxDepth: 2, followSymlinks: false });
+
+      const projectJsonPath = path.join(project.workingDirectory, PROJECT_CONFIG_FOLDER, PROJECT_CONFIG_FILE);
+      const projectJson = JSON.parse(fs.readFileSync(projectJsonPath, 'utf8'));
+      expect(projectJson.sourceFolders[0].fileRules).toEqual(fileRules);
+      expect(projectJson.sourceFolders[0].maxDepth).toBe(2);
+      expect(projectJson.sourceFolders[0].followSymlinks).toBe(false);
+    });
+
+    test('should persist and validate scan settings', async () => {
+      await projectManager.updateScanSettings(project.id, { flattenDepth: 4, separator: '.', collisionStrategy: 'keep-first' });
+
+      const updatedProject = await projectManager.getProject(project.id);
+      expect(updatedProject!.scanSettings).toEqual({ flattenDepth: 4, separator: '.', collisionStrategy: 'keep-first' });
+
+      const projectJsonPath = path.join(project.workingDirectory, PROJECT_CONFIG_FOLDER, PROJECT_CONFIG_FILE);
+      const projectJson = JSON.parse(fs.readFileSync(projectJsonPath, 'utf8'));
+      expect(projectJson.scanSettings).toEqual({ flattenDepth: 4, separator: '.', collisionStrategy: 'keep-first' });
+
+      await expect(projectManager.updateScanSettings(project.id, { flattenDepth: -1 }))
+        .rejects.toThrow('Flatten depth must be a whole number from 0 to 10');
+      await expect(projectManager.updateScanSettings(project.id, { separator: '-' as any }))
+        .rejects.toThrow('Separator must be one of');
+      await expect(projectManager.updateScanSettings(project.id, { logFormats: [{ pattern: '*.log', regex: '(\\w+)' }] }))
+        .rejects.toThrow('Invalid log format: Log format regex must have at least one named capture group');
+    });
+
+    test('should persist and validate table rules', async () => {
+      const tableRules = [{ table: 'orders', pattern: 'orders/*.csv' }, { table: 'click_events', field: 'type', value: 'click' }];
+      await projectManager.updateScanSettings(project.id, { tableRules });
+
+      const projectJsonPath = path.join(project.workingDirectory, PROJECT_CONFIG_FOLDER, PROJECT_CONFIG_FILE);
+      const projectJson = JSON.parse(fs.readFileSync(projectJsonPath, 'utf8'));
+      expect(projectJson.scanSettings).toEqual({ tableRules });
+
+      await expect(projectManager.updateScanSettings(project.id, { tableRules: [{ table: 'Orders', pattern: '*.csv' }] }))
+        .rejects.toThrow('Invalid table rule: Table name must start with a lowercase letter');
+      await expect(projectManager.updateScanSettings(project.id, { tableRules: [{ table: 'orders__lines', pattern: '*.csv' }] }))
+        .rejects.toThrow('Invalid table rule: Table name orders__lines must not contain __');
+      await expect(projectManager.updateScanSettings(project.id, { tableRules: [{ table: 'scan_runs', pattern: '*.csv' }] }))
+        .rejects.toThrow('Invalid table rule: Table name scan_runs is reserved');
+      await expect(projectManager.updateScanSettings(project.id, { tableRules: [{ table: 'orders' }] }))
+        .rejects.toThrow('Invalid table rule: The rule for table orders needs a source folder, a file pattern or a field');
+      await expect(projectManager.updateScanSettings(project.id, { tableRules: [{ table: 'orders', field: 'type' }] }))
+        .rejects.toThrow('Invalid table rule: The rule for table orders needs both a field and the value it must hold');
+    });
+
+    test('should persist and validate watch settings', async () => {
+      await projectManager.updateWatchSettings(project.id, { enabled: true, usePolling: true });
+
+      const updatedProject = await projectManager.getProject(project.id);
+      expect(updatedProject!.watchSettings).toEqual({ enabled: true, usePolling: true });
+
+      const projectJsonPath = path.join(project.workingDirectory, PROJECT_CONFIG_FOLDER, PROJECT_CONFIG_FILE);
+      const projectJson = JSON.parse(fs.readFileSync(projectJsonPath, 'utf8'));
+      expect(projectJson.watchSettings).toEqual({ enabled: true, usePolling: true });
+
+      await expect(projectManager.updateWatchSettings(project.id, { enabled: true, debounceMs: 1.5 }))
+        .rejects.toThrow('Debounce time must be a whole number');
+      await expect(projectManager.updateWatchSettings(project.id, {} as any))
+        .rejects.toThrow('Watch settings must say whether watching is enabled');
+    });
+
+    test('should persist and validate scan schedules', async () => {
+      await projectManager.updateScanSchedule(project.id, { frequency: 'daily', time: '06:30', cron: 'ignored' });
+
+      const updatedProject = await projectManager.getProject(project.id);
+      expect(updatedProject!.scanSchedule).toEqual({ frequency: 'daily', time: '06:30', updatedDate: expect.any(Date) });
+
+      const projectJsonPath = path.join(project.workingDirectory, PROJECT_CONFIG_FOLDER, PROJECT_CONFIG_FILE);
+      const projectJson = JSON.parse(fs.readFileSync(projectJsonPath, 'utf8'));
+      expect(projectJson.scanSchedule).toMatchObject({ frequency: 'daily', time: '06:30' });
+
+      await expect(projectManager.updateScanSchedule(project.id, { frequency: 'daily', time: '25:00' }))
+        .rejects.toThrow('Daily scans need a time as HH:MM');
+      await expect(projectManager.updateScanSchedule(project.id, { frequency: 'cron', cron: '* * *' }))
+        .rejects.toThrow('Invalid cron expression');
+      await expect(projectManager.updateScanSchedule(project.id, { frequency: 'weekly' as any }))
+        .rejects.toThrow('Scan schedule frequency must be one of: hourly, daily, cron');
+
+      await projectManager.updateScanSchedule(project.id, null);
+      expect((await projectManager.getProject(project.id))!.scanSchedule).toBeUndefined();
+    });
+
     test('should handle source folder errors', async () => {
       const nonExistentDir = path.join(testDir, 'non-existent');
 
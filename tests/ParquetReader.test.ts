@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParquetFieldBuilder, SchemaDefinition, WriterOptions } from '@dsnp/parquetjs';
+import { ParquetReader } from '../src/main/ParquetReader';
+import { RandomAccessFile } from '../src/main/SourceFileReader';
+import { writeTestParquet } from './fixtures/parquet';
+import { createTempTestDir, cleanupTempDir } from './setup';
+
+describe('ParquetReader', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = createTempTestDir();
+  });
+
+  afterEach(() => {
+    cleanupTempDir(testDir);
+  });
+
+  const encode = async (schema: SchemaDefinition, rows: Record<string, unknown>[], options: WriterOptions = {}): Promise<Buffer> => {
+    const filePath = path.join(testDir, 'test.parquet');
+    await writeTestParquet(filePath, schema, rows, options);
+    return fs.readFileSync(filePath);
+  };
+
+  const openBuffer = (buffer: Buffer): RandomAccessFile => ({
+    size: buffer.length,
+    read: async (position, length) => buffer.subarray(position, position + length),
+    close: async () => {}
+  });
+
+  const readAll = async (buffer: Buffer) => {
+    const reader = new ParquetReader();
+    const metadata = await reader.readMetadata(openBuffer(buffer));
+    const rowGroups: Record<string, any>[][] = [];
+    for await (const rows of reader.readRowGroups(metadata)) {
+      rowGroups.push(rows);
+    }
+    return { rows: rowGroups.flat(), rowGroups, types: reader.getDeclaredTypes(metadata) };
+  };
+
+  test('should read flat columns with every codec', async () => {
+    for (const compression of ['UNCOMPRESSED', 'SNAPPY', 'GZIP'] as const) {
+      const buffer = await encode(
+        {
+          id: { type: 'INT64', compression },
+          name: { type: 'UTF8', optional: true, compression },
+          score: { type: 'DOUBLE', compression },
+          active: { type: 'BOOLEAN', optional: true, compression }
+        },
+        [
+          { id: 1n, name: 'Ada', score: 1.5, active: true },
+          { id: 2n, score: -2, active: false },
+          { id: 3n, name: 'Grace'.repeat(30), score: 0 }
+        ]
+      );
+
+      const { rows, types } = await readAll(buffer);
+
+      expect(rows).toEqual([
+        { id: 1, name: 'Ada', score: 1.5, active: true },
+        { id: 2, name: null, score: -2, active: false },
+        { id: 3, name: 'Grace'.repeat(30), score: 0, active: null }
+      ]);
+      expect(types).toEqual({ id: 'integer', name: 'text', score: 'real', active: 'boolean' });
+    }
+  });
+
+  test('should read version 2 pages one row group at a time', async () => {
+    const buffer = await encode(
+      { city: { type: 'UTF8', optional: true, compression: 'SNAPPY' }, count: { type: 'INT32', optional: true } },
+      [{ city: 'Oslo', count: 1 }, { city: 'Rome' }, { city: 'Oslo', count: 3 }, { count: 4 }, { city: 'Rome', count: 5 }],
+      { useDataPageV2: true, rowGroupSize: 3 }
+    );
+
+    const { rowGroups } = await readAll(buffer);
+
+    expect(rowGroups).toEqual([
+      [{ city: 'Oslo', count: 1 }, { city: 'Rome', count: null }, { city: 'Oslo', count: 3 }],
+      [{ city: null, count: 4 }, { city: 'Rome', count: 5 }]
+    ]);
+  });
+
+  test('should convert values by their logical type', async () => {
+    const buffer = await encode(
+      {
+        day: { type: 'DATE' },
+        created: { type: 'TIMESTAMP_MILLIS' },
+        updated: { type: 'TIMESTAMP_MICROS' },
+        opened: { type: 'TIME_MILLIS' },
+        price: { type: 'DECIMAL', precision: 12, scale: 2 },
+        total: { type: 'DECIMAL', precision: 20, scale: 0 },
+        counter: { type: 'INT64' },
+        raw: { type: 'BYTE_ARRAY' },
+        details: { type: 'JSON', optional: true }
+      },
+      [
+        {
+          day: new Date('2020-01-01'),
+          created: new Date(1577836800123),
+          updated: 1577836800123456n,
+          opened: 45296789,
+          price: 123.45,
+          total: Buffer.from('008ac7230489e80000', 'hex'),
+          counter: 4n,
+          raw: Buffer.from('hello'),
+          details: { tags: ['a'] }
+        },
+        {
+          day: new Date(0),
+          created: new Date(0),
+          updated: 0n,
+          opened: 0,
+          price: -12.5,
+          total: Buffer.from('ffffffffffffffffff', 'hex'),
+          counter: 9007199254740993n,
+          raw: Buffer.alloc(0),
+          details: null
+        }
+      ]
+    );
+
+    const { rows, types } = await readAll(buffer);
+
+    expect(rows[0]).toEqual({
+      day: '2020-01-01',
+      created: '2020-01-01T00:00:00.123Z',
+      updated: '2020-01-01T00:00:00.123Z',
+      opened: '12:34:56.789',
+      price: 123.45,
+      total: '10000000000000000000',
+      counter: 4,
+      raw: 'aGVsbG8=',
+      details: '{"tags":["a"]}'
+    });
+    expect(rows[1]).toMatchObject({ day: '1970-01-01', opened: '00:00:00.000', price: -12.5, total: '-1', counter: '9007199254740993', raw: '' });
+    expect(types).toEqual({
+      day: 'text', created: 'text', updated: 'text', opened: 'text', price: 'real', total: 'text', counter: 'integer', raw: 'text', details: 'text'
+    });
+  });
+
+  test('should assemble structs and lists', async () => {
+    const buffer = await encode(
+      {
+        address: { optional: true, fields: { city: { type: 'UTF8', optional: true }, zip: { type: 'INT32' } } },
+        tags: ParquetFieldBuilder.createListField('UTF8'),
+        items: ParquetFieldBuilder.createStructListField({ sku: { type: 'UTF8' }, qty: { type: 'INT32', optional: true } }),
+        scores: { type: 'INT32', repeated: true }
+      },
+      [
+        { address: { city: 'Oslo', zip: 150 }, tags: { list: [{ element: 'a' }, { element: 'b' }] }, items: { list: [{ element: { sku: 'A', qty: 2 } }, { element: { sku: 'B' } }] }, scores: [1, 2] },
+        { tags: { list: [] }, items: { list: [] }, scores: [] },
+        { address: { zip: 5000 }, scores: [7] },
+        { address: { zip: 10 }, tags: { list: [{ element: 'c' }, {}] } }
+      ]
+    );
+
+    const { rows, types } = await readAll(buffer);
+
+    expect(rows).toEqual([
+      { address: { city: 'Oslo', zip: 150 }, tags: ['a', 'b'], items: [{ sku: 'A', qty: 2 }, { sku: 'B', qty: null }], scores: [1, 2] },
+      { address: null, tags: [], items: [], scores: [] },
+      { address: { city: null, zip: 5000 }, tags: null, items: null, scores: [7] },
+      { address: { city: null, zip: 10 }, tags: ['c', null], items: null, scores: [] }
+    ]);
+    expect(types).toEqual({ address: { city: 'text', zip: 'integer' }, tags: 'text', items: 'text', scores: 'text' });
+  });
+
+  test('should reject files that are not Parquet', async () => {
+    const reader = new ParquetReader();
+
+    await expect(reader.readMetadata(openBuffer(Buffer.from('id,name\n1,Ada\n')))).rejects.toThrow('Not a Parquet file');
+    await expect(reader.readMetadata(openBuffer(Buffer.from('PAR1')))).rejects.toThrow('too small');
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ParserRegistry, FileParser } from '../src/main/ParserRegistry';
+
+describe('ParserRegistry', () => {
+  const parser = (name: string, fields: Partial<FileParser> = {}): FileParser => ({
+    name,
+    extensions: ['.dat'],
+    async *readRecords() {},
+    ...fields
+  });
+
+  test('should find parsers by extension, preferring the one registered last', () => {
+    const registry = new ParserRegistry();
+    registry.register(parser('first', { extensions: ['.dat', '.DAT2'] }));
+    registry.register(parser('second'));
+
+    expect(registry.findByExtension('.dat')?.name).toBe('second');
+    expect(registry.findByExtension('.Dat2')?.name).toBe('first');
+    expect(registry.findByExtension('.csv')).toBeUndefined();
+  });
+
+  test('should offer the headers of files no parser claims to sniff functions', () => {
+    const registry = new ParserRegistry();
+    expect(registry.hasSniffers('.bin')).toBe(false);
+
+    registry.register(parser('magic', { extensions: undefined, sniff: header => header.subarray(0, 4).toString() === 'MAGC' }));
+    registry.register(parser('broken', { extensions: [], sniff: header => { if (header[0] === 0) throw new Error('empty header'); return false; } }));
+
+    expect(registry.hasSniffers('.bin')).toBe(true);
+    expect(registry.findBySniff(Buffer.from('MAGC0001'), 'data.bin', '.bin')?.name).toBe('magic');
+    expect(registry.findBySniff(Buffer.from('text'), 'data.bin', '.bin')).toBeUndefined();
+    expect(() => registry.findBySniff(Buffer.from([0]), 'data.bin', '.bin')).toThrow('Parser broken failed to sniff the file: empty header');
+
+    // Files a parser claims by extension are not sniffed
+    registry.register(parser('bin', { extensions: ['.bin'] }));
+    expect(registry.hasSniffers('.bin')).toBe(false);
+    expect(registry.findBySniff(Buffer.from('MAGC0001'), 'data.bin', '.bin')).toBeUndefined();
+  });
+
+  test('should offer files of the sniff extensions a parser lists even when another parser claims them', () => {
+    const registry = new ParserRegistry();
+    registry.register(parser('text', { extensions: ['.txt'] }));
+    registry.register(parser('lines', { extensions: [], sniff: header => header.includes(0x0a), sniffExtensions: ['', '.TXT'] }));
+
+    expect(registry.hasSniffers('.txt')).toBe(true);
+    expect(registry.hasSniffers('')).toBe(true);
+    expect(registry.hasSniffers('.md')).toBe(false);
+    expect(registry.findBySniff(Buffer.from('a\nb'), 'notes.txt', '.txt')?.name).toBe('lines');
+    expect(registry.findByExtension('.txt')?.name).toBe('text');
+    expect(() => registry.register(parser('custom', { sniff: () => true, sniffExtensions: ['txt'] })))
+      .toThrow('Parser custom has an invalid extension "txt": use a dot and a name, such as .dat');
+  });
+
+  test('should reject parsers it cannot use', () => {
+    const registry = new ParserRegistry();
+
+    expect(() => registry.register(parser(''))).toThrow('Parser must have a name');
+    expect(() => registry.register({ name: 'custom', extensions: ['.dat'] } as any)).toThrow('Parser custom must have a readRecords function');
+    expect(() => registry.register(parser('custom', { extensions: [] }))).toThrow('Parser custom must declare file extensions or a sniff function');
+    expect(() => registry.register(parser('custom', { extensions: ['dat'] })))
+      .toThrow('Parser custom has an invalid extension "dat": use a dot and a name, such as .dat');
+    expect(() => registry.register(parser('custom', { schemaHints: { reading: { value: 'decimal' as any } } })))
+      .toThrow('Parser custom has an invalid schema hint for reading.value: use integer, real, boolean, text');
+    expect(registry.findByExtension('.dat')).toBeUndefined();
+  });
+
+  describe('loadModules', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parser-registry-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should register the parsers exported by the modules of a folder', () => {
+      fs.writeFileSync(path.join(tempDir, 'a-single.js'),
+        "module.exports = { name: 'single', extensions: ['.one'], readRecords: async function* () {} };");
+      fs.writeFileSync(path.join(tempDir, 'b-many.cjs'), [
+        'exports.default = [',
+        "  { name: 'two', extensions: ['.two'], readRecords: async function* () {} },",
+        "  { name: 'three', sniff: header => header[0] === 3, readRecords: async function* () {} }",
+        '];'
+      ].join('\n'));
+      fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'not a module');
+
+      const registry = new ParserRegistry();
+
+      expect(registry.loadModules(tempDir)).toEqual(['single', 'two', 'three']);
+      expect(registry.findByExtension('.one')?.name).toBe('single');
+      expect(registry.findBySniff(Buffer.from([3]), 'file', '')?.name).toBe('three');
+      expect(new ParserRegistry().loadModules(path.join(tempDir, 'missing'))).toEqual([]);
+    });
+
+    test('should name the module that could not be loaded', () => {
+      fs.writeFileSync(path.join(tempDir, 'invalid.js'), "module.exports = { name: 'invalid', readRecords: async function* () {} };");
+
+      expect(() => new ParserRegistry().loadModules(tempDir))
+        .toThrow('Failed to load parser module invalid.js: Parser invalid must declare file extensions or a sniff function');
+    });
+  });
+});
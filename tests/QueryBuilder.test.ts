@@ -0,0 +1,295 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { QueryBuilder } from '../src/main/QueryBuilder';
+import { DatabaseManager } from '../src/main/DatabaseManager';
+import { QueryModel } from '../src/types';
+
+describe('QueryBuilder', () => {
+  let queryBuilder: QueryBuilder;
+  let dbManager: DatabaseManager;
+  let testWorkingDirectory: string;
+
+  const columns = [
+    { name: '_id', type: 'INTEGER' },
+    { name: 'name', type: 'TEXT' },
+    { name: 'age', type: 'TEXT' },
+    { name: 'score', type: 'REAL' }
+  ];
+
+  beforeEach(async () => {
+    queryBuilder = new QueryBuilder();
+
+    testWorkingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'querybuilder-test-'));
+    dbManager = new DatabaseManager(testWorkingDirectory);
+    await dbManager.initializeProjectDatabase('test-project', 'Test Project', testWorkingDirectory);
+
+    // Project-wide data table where numbers were stored as text, as older scans did
+    await dbManager.executeNonQuery(`
+      CREATE TABLE data (
+        _id INTEGER PRIMARY KEY AUTOINCREMENT,
+        _source_file TEXT,
+        _scan_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        "name" TEXT,
+        "age" TEXT,
+        "score" REAL
+      )
+    `);
+
+    const rows = [
+      ['a.json', 'Alice', '9', 88.5],
+      ['a.json', 'Bob', '10', 72],
+      ['b.json', 'Carol', '35', 91.25],
+      ['b.json', 'dave_100%', '42', null],
+      ['b.json', null, '27', 60]
+    ];
+    for (const row of rows) {
+      await dbManager.executeNonQuery(
+        'INSERT INTO data (_source_file, "name", "age", "score") VALUES (?, ?, ?, ?)',
+        row
+      );
+    }
+  });
+
+  afterEach(async () => {
+    if (dbManager && dbManager.isConnected()) {
+      await dbManager.closeProjectDatabase();
+    }
+
+    if (fs.existsSync(testWorkingDirectory)) {
+      fs.rmSync(testWorkingDirectory, { recursive: true, force: true });
+    }
+  });
+
+  const baseQuery = (overrides: Partial<QueryModel> = {}): QueryModel => ({
+    viewId: 'default',
+    filters: [],
+    ...overrides
+  });
+
+  describe('compile', () => {
+    test('should compile a query without filters', () => {
+      const compiled = queryBuilder.compile(baseQuery(), 'data', columns);
+
+      expect(compiled.sql).toBe('SELECT * FROM "data"');
+      expect(compiled.params).toEqual([]);
+      expect(compiled.countSql).toBe('SELECT COUNT(*) AS total FROM "data"');
+      expect(compiled.countParams).toEqual([]);
+    });
+
+    test('should compile the equals operator', () => {
+      const compiled = queryBuilder.compile(baseQuery({
+        filters: [{ column: 'name', operator: 'equals', value: 'Alice', dataType: 'TEXT' }]
+      }), 'data', columns);
+
+      expect(compiled.sql).toBe('SELECT * FROM "data" WHERE "name" = ?');
+      expect(compiled.params).toEqual(['Alice']);
+    });
+
+    test('should compile equals null as IS NULL', () => {
+      const compiled = queryBuilder.compile(baseQuery({
+        filters: [{ column: 'name', operator: 'equals', value: null, dataType: 'TEXT' }]
+      }), 'data', columns);
+
+      expect(compiled.sql).toBe('SELECT * FROM "data" WHERE "name" IS NULL');
+      expect(compiled.params).toEqual([]);
+    });
+
+    test('should compile the contains operator with escaped wildcards', () => {
+      const compiled = queryBuilder.compile(baseQuery({
+        filters: [{ column: 'name', operator: 'contains', value: '100%', dataType: 'TEXT' }]
+      }), 'data', columns);
+
+      expect(compiled.sql).toBe(`SELECT * FROM "data" WHERE "name" LIKE ? ESCAPE '\\'`);
+      expect(compiled.params).toEqual(['%100\\%%']);
+    });
+
+    test('should compile the greater operator with a cast for text columns', () => {
+      const compiled = queryBuilder.compile(baseQuery({
+        filters: [{ column: 'age', operator: 'greater', value: '30', dataType: 'INTEGER' }]
+      }), 'data', columns);
+
+      expect(compiled.sql).toBe('SELECT * FROM "data" WHERE CAST("age" AS REAL) > ?');
+      expect(compiled.params).toEqual([30]);
+    });
+
+    test('should compile the less operator without a cast for numeric columns', () => {
+      const compiled = queryBuilder.compile(baseQuery({
+        filters: [{ column: 'score', operator: 'less', value: 80, dataType: 'REAL' }]
+      }), 'data', columns);
+
+      expect(compiled.sql).toBe('SELECT * FROM "data" WHERE "score" < ?');
+      expect(compiled.params).toEqual([80]);
+    });
+
+    test('should compile the like operator with the raw pattern', () => {
+      const compiled = queryBuilder.compile(baseQuery({
+        filters: [{ column: 'name', operator: 'like', value: 'A%', dataType: 'TEXT' }]
+      }), 'data', columns);
+
+      expect(compiled.sql).toBe('SELECT * FROM "data" WHERE "name" LIKE ?');
+      expect(compiled.params).toEqual(['A%']);
+    });
+
+    test('should combine filters, sorting and pagination', () => {
+      const compiled = queryBuilder.compile(baseQuery({
+        filters: [
+          { column: 'name', operator: 'contains', value: 'a', dataType: 'TEXT' },
+          { column: 'score', operator: 'greater', value: 50, dataType: 'REAL' }
+        ],
+        sortBy: 'score',
+        sortDirection: 'DESC',
+        limit: 10,
+        offset: 20
+      }), 'data', columns);
+
+      expect(compiled.sql).toBe(
+        `SELECT * FROM "data" WHERE "name" LIKE ? ESCAPE '\\' AND "score" > ? ORDER BY "score" DESC LIMIT ? OFFSET ?`
+      );
+      expect(compiled.params).toEqual(['%a%', 50, 10, 20]);
+      expect(compiled.countSql).toBe(`SELECT COUNT(*) AS total FROM "data" WHERE "name" LIKE ? ESCAPE '\\' AND "score" > ?`);
+      expect(compiled.countParams).toEqual(['%a%', 50]);
+    });
+
+    test('should use an unbounded limit when only an offset is given', () => {
+      const compiled = queryBuilder.compile(baseQuery({ offset: 5 }), 'data', columns);
+
+      expect(compiled.sql).toBe('SELECT * FROM "data" LIMIT ? OFFSET ?');
+      expect(compiled.params).toEqual([-1, 5]);
+    });
+
+    test('should reject unknown filter and sort columns', () => {
+      expect(() => queryBuilder.compile(baseQuery({
+        filters: [{ column: 'name"; DROP TABLE data; --', operator: 'equals', value: 'x', dataType: 'TEXT' }]
+      }), 'data', columns)).toThrow('Unknown column in filter');
+
+      expect(() => queryBuilder.compile(baseQuery({ sortBy: 'missing' }), 'data', columns))
+        .toThrow('Unknown sort column: missing');
+    });
+
+    test('should reject unsupported operators', () => {
+      expect(() => queryBuilder.compile(baseQuery({
+        filters: [{ column: 'name', operator: 'between' as any, value: 'x', dataType: 'TEXT' }]
+      }), 'data', columns)).toThrow('Unsupported filter operator: between');
+    });
+
+    test('should reject non-numeric values for numeric filters', () => {
+      expect(() => queryBuilder.compile(baseQuery({
+        filters: [{ column: 'age', operator: 'greater', value: 'abc', dataType: 'INTEGER' }]
+      }), 'data', columns)).toThrow('Filter value for "age" must be a number');
+    });
+
+    test('should reject invalid pagination values', () => {
+      expect(() => queryBuilder.compile(baseQuery({ limit: -1 }), 'data', columns))
+        .toThrow('Query limit must be a non-negative integer');
+      expect(() => queryBuilder.compile(baseQuery({ offset: 1.5 }), 'data', columns))
+        .toThrow('Query offset must be a non-negative integer');
+    });
+  });
+
+  describe('execute', () => {
+    test('should return all rows with total count and columns', async () => {
+      const result = await queryBuilder.execute(dbManager, baseQuery());
+
+      expect(result.totalCount).toBe(5);
+      expect(result.data).toHaveLength(5);
+      expect(result.columns).toEqual(['_id', '_source_file', '_scan_date', 'name', 'age', 'score']);
+    });
+
+    test('should filter with equals', async () => {
+      const result = await queryBuilder.execute(dbManager, baseQuery({
+        filters: [{ column: 'name', operator: 'equals', value: 'Bob', dataType: 'TEXT' }]
+      }));
+
+      expect(result.totalCount).toBe(1);
+      expect(result.data[0].name).toBe('Bob');
+    });
+
+    test('should filter with numeric equals on a text column', async () => {
+      const result = await queryBuilder.execute(dbManager, baseQuery({
+        filters: [{ column: 'age', operator: 'equals', value: '35.0', dataType: 'REAL' }]
+      }));
+
+      expect(result.data.map(row => row.name)).toEqual(['Carol']);
+    });
+
+    test('should filter with contains', async () => {
+      const result = await queryBuilder.execute(dbManager, baseQuery({
+        filters: [{ column: 'name', operator: 'contains', value: '100%', dataType: 'TEXT' }]
+      }));
+
+      expect(result.data.map(row => row.name)).toEqual(['dave_100%']);
+    });
+
+    test('should filter with greater numerically rather than lexically', async () => {
+      const result = await queryBuilder.execute(dbManager, baseQuery({
+        filters: [{ column: 'age', operator: 'greater', value: 9, dataType: 'INTEGER' }],
+        sortBy: '_id'
+      }));
+
+      expect(result.data.map(row => row.age)).toEqual(['10', '35', '42', '27']);
+    });
+
+    test('should filter with less', async () => {
+      const result = await queryBuilder.execute(dbManager, baseQuery({
+        filters: [{ column: 'score', operator: 'less', value: 75, dataType: 'REAL' }],
+        sortBy: 'score'
+      }));
+
+      expect(result.data.map(row => row.score)).toEqual([60, 72]);
+    });
+
+    test('should filter with like', async () => {
+      const result = await queryBuilder.execute(dbManager, baseQuery({
+        filters: [{ column: 'name', operator: 'like', value: '%o%', dataType: 'TEXT' }],
+        sortBy: 'name'
+      }));
+
+      expect(result.data.map(row => row.name)).toEqual(['Bob', 'Carol']);
+    });
+
+    test('should sort and paginate while reporting the unpaginated total', async () => {
+      const result = await queryBuilder.execute(dbManager, baseQuery({
+        filters: [{ column: 'score', operator: 'greater', value: 0, dataType: 'REAL' }],
+        sortBy: 'score',
+        sortDirection: 'DESC',
+        limit: 2,
+        offset: 1
+      }));
+
+      expect(result.totalCount).toBe(4);
+      expect(result.data.map(row => row.score)).toEqual([88.5, 72]);
+    });
+
+    test('should query a view data table', async () => {
+      await dbManager.createDataTable('view-1', [
+        { columnName: 'city', dataType: 'TEXT', nullable: true },
+        { columnName: 'population', dataType: 'INTEGER', nullable: true }
+      ]);
+      await dbManager.executeNonQuery(
+        'INSERT INTO data_view_view_1 (_source_file, city, population) VALUES (?, ?, ?), (?, ?, ?)',
+        ['c.json', 'Oslo', 700000, 'c.json', 'Bergen', 285000]
+      );
+
+      const result = await queryBuilder.execute(dbManager, {
+        viewId: 'view-1',
+        filters: [{ column: 'population', operator: 'greater', value: 500000, dataType: 'INTEGER' }]
+      });
+
+      expect(result.totalCount).toBe(1);
+      expect(result.data[0]).toMatchObject({ city: 'Oslo', population: 700000 });
+    });
+
+    test('should throw when the data table does not exist', async () => {
+      await expect(queryBuilder.execute(dbManager, baseQuery({ viewId: 'missing' })))
+        .rejects.toThrow('No data table found for view "missing"');
+    });
+
+    test('should throw when the database is not connected', async () => {
+      const disconnected = new DatabaseManager(testWorkingDirectory);
+
+      await expect(queryBuilder.execute(disconnected, baseQuery()))
+        .rejects.toThrow('DatabaseManager must be connected before executing a query');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseManager } from '../src/main/DatabaseManager';
+import { ScanErrorLog } from '../src/main/ScanErrorLog';
+import { createTempTestDir, cleanupTempDir } from './setup';
+
+describe('ScanErrorLog', () => {
+  let testDir: string;
+  let dbManager: DatabaseManager;
+  let errorLog: ScanErrorLog;
+
+  beforeEach(async () => {
+    testDir = createTempTestDir();
+    const projectDir = path.join(testDir, 'project');
+    fs.mkdirSync(projectDir, { recursive: true });
+    dbManager = new DatabaseManager(projectDir);
+    await dbManager.initializeProjectDatabase('test-project', 'Test Project', projectDir);
+    errorLog = new ScanErrorLog(dbManager);
+  });
+
+  afterEach(async () => {
+    if (dbManager && dbManager.isConnected()) {
+      await dbManager.closeProjectDatabase();
+    }
+    cleanupTempDir(testDir);
+  });
+
+  test('should return the errors of a scan in the order they were recorded', async () => {
+    await errorLog.recordScan('scan-1', [
+      { file: '/data/a.jsonl', line: 3, error: 'Invalid JSON: Unexpected end of JSON input', snippet: '{"id":' },
+      { file: '/data/b.json', error: 'Failed to read file' }
+    ]);
+    await errorLog.recordScan('scan-2', [{ file: '/data/c.jsonl', error: 'Line is not a JSON object' }]);
+
+    expect(await errorLog.getErrors('scan-1')).toEqual([
+      { id: expect.any(Number), scanId: 'scan-1', file: '/data/a.jsonl', line: 3, error: 'Invalid JSON: Unexpected end of JSON input', snippet: '{"id":' },
+      { id: expect.any(Number), scanId: 'scan-1', file: '/data/b.json', error: 'Failed to read file' }
+    ]);
+    expect(await errorLog.getErrors('missing')).toEqual([]);
+  });
+
+  test('should record more errors than fit in one statement', async () => {
+    const errors = Array.from({ length: 250 }, (_, i) => ({ file: '/data/a.jsonl', line: i + 1, error: 'Line is not a JSON object' }));
+
+    await errorLog.recordScan('scan-1', errors);
+
+    expect((await errorLog.getErrors('scan-1')).map(error => error.line)).toEqual(errors.map(error => error.line));
+  });
+
+  test('should only keep the errors of the most recent scans', async () => {
+    for (let i = 1; i <= 21; i++) {
+      await errorLog.recordScan(`scan-${i}`, [{ file: '/data/a.jsonl', error: `Error ${i}` }]);
+    }
+
+    expect(await errorLog.getErrors('scan-1')).toEqual([]);
+    expect(await errorLog.getErrors('scan-2')).toHaveLength(1);
+    expect(await errorLog.getErrors('scan-21')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseManager } from '../src/main/DatabaseManager';
+import { ScanRunLog } from '../src/main/ScanRunLog';
+import { ScanRun } from '../src/types';
+import { createTempTestDir, cleanupTempDir } from './setup';
+
+describe('ScanRunLog', () => {
+  let testDir: string;
+  let dbManager: DatabaseManager;
+  let runLog: ScanRunLog;
+
+  const makeRun = (id: string, completedDate: Date, schema: ScanRun['schema'] = []): ScanRun => ({
+    id,
+    startedDate: new Date(completedDate.getTime() - 1500),
+    completedDate,
+    durationMs: 1500,
+    totalFiles: 3,
+    addedFiles: 2,
+    modifiedFiles: 1,
+    removedFiles: 0,
+    unchangedFiles: 0,
+    insertedRecords: 10,
+    errorCount: 1,
+    fullRebuild: false,
+    schema
+  });
+
+  beforeEach(async () => {
+    testDir = createTempTestDir();
+    const projectDir = path.join(testDir, 'project');
+    fs.mkdirSync(projectDir, { recursive: true });
+    dbManager = new DatabaseManager(projectDir);
+    await dbManager.initializeProjectDatabase('test-project', 'Test Project', projectDir);
+    runLog = new ScanRunLog(dbManager);
+  });
+
+  afterEach(async () => {
+    if (dbManager && dbManager.isConnected()) {
+      await dbManager.closeProjectDatabase();
+    }
+    cleanupTempDir(testDir);
+  });
+
+  test('should return recorded runs with the most recent first', async () => {
+    const first = makeRun('scan-1', new Date('2024-01-01T10:00:00Z'), [{ table: 'data', name: 'id', dataType: 'INTEGER', nullable: false }]);
+    const second = { ...makeRun('scan-2', new Date('2024-01-02T10:00:00Z')), fullRebuild: true };
+    await runLog.recordRun(first);
+    await runLog.recordRun(second);
+
+    expect(await runLog.getRuns()).toEqual([second, first]);
+    expect(await runLog.getRun('scan-1')).toEqual(first);
+    expect(await runLog.getRun('missing')).toBeNull();
+  });
+
+  test('should list schema changes between two runs', async () => {
+    await runLog.recordRun(makeRun('scan-1', new Date('2024-01-01T10:00:00Z'), [
+      { table: 'data', name: 'id', dataType: 'INTEGER', nullable: false },
+      { table: 'data', name: 'price', dataType: 'INTEGER', nullable: true },
+      { table: 'data', name: 'legacy', dataType: 'TEXT', nullable: true }
+    ]));
+    await runLog.recordRun(makeRun('scan-2', new Date('2024-01-02T10:00:00Z'), [
+      { table: 'data', name: 'id', dataType: 'INTEGER', nullable: false },
+      { table: 'data', name: 'Price', dataType: 'REAL', nullable: true },
+      { table: 'data__items', name: 'sku', dataType: 'TEXT', nullable: true }
+    ]));
+
+    expect(await runLog.compareRuns('scan-1', 'scan-2')).toEqual([
+      { table: 'data', column: 'Price', change: 'type-changed', fromType: 'INTEGER', toType: 'REAL' },
+      { table: 'data__items', column: 'sku', change: 'added', toType: 'TEXT' },
+      { table: 'data', column: 'legacy', change: 'removed', fromType: 'TEXT' }
+    ]);
+    expect(await runLog.compareRuns('scan-2', 'scan-2')).toEqual([]);
+  });
+
+  test('should reject comparisons with unknown runs', async () => {
+    await runLog.recordRun(makeRun('scan-1', new Date('2024-01-01T10:00:00Z')));
+
+    await expect(runLog.compareRuns('scan-1', 'missing')).rejects.toThrow('Scan run not found: missing');
+  });
+});
@@ -0,0 +1,62 @@
+import { ScanScheduler } from '../src/main/ScanScheduler';
+
+describe('ScanScheduler', () => {
+  let scheduler: ScanScheduler;
+  let dueProjects: string[];
+
+  const at = (year: number, month: number, day: number, hour: number, minute: number) => new Date(year, month - 1, day, hour, minute);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    dueProjects = [];
+    scheduler = new ScanScheduler({ onDue: projectId => dueProjects.push(projectId) });
+  });
+
+  afterEach(() => {
+    scheduler.unscheduleAll();
+    jest.useRealTimers();
+  });
+
+  test('should turn schedules into cron expressions', () => {
+    expect(scheduler.toCronExpression({ frequency: 'hourly', minute: 15 }).expression).toBe('15 * * * *');
+    expect(scheduler.toCronExpression({ frequency: 'hourly' }).expression).toBe('0 * * * *');
+    expect(scheduler.toCronExpression({ frequency: 'daily', time: '06:05' }).expression).toBe('5 6 * * *');
+    expect(scheduler.toCronExpression({ frequency: 'cron', cron: '0 2 * * 1' }).expression).toBe('0 2 * * 1');
+    expect(() => scheduler.toCronExpression({ frequency: 'daily' })).toThrow('Daily scans need a time as HH:MM');
+  });
+
+  test('should fire a schedule when it is due and then wait for the next run', () => {
+    jest.setSystemTime(at(2024, 3, 4, 9, 50));
+
+    expect(scheduler.schedule('project-1', { frequency: 'hourly' })).toEqual(at(2024, 3, 4, 10, 0));
+
+    jest.advanceTimersByTime(9 * 60 * 1000);
+    expect(dueProjects).toEqual([]);
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(dueProjects).toEqual(['project-1']);
+    expect(scheduler.getNextRunDate('project-1')).toEqual(at(2024, 3, 4, 11, 0));
+
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    expect(dueProjects).toEqual(['project-1', 'project-1']);
+  });
+
+  test('should stop firing an unscheduled project', () => {
+    jest.setSystemTime(at(2024, 3, 4, 9, 50));
+    scheduler.schedule('project-1', { frequency: 'hourly' });
+
+    scheduler.unschedule('project-1');
+    jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+
+    expect(dueProjects).toEqual([]);
+    expect(scheduler.getNextRunDate('project-1')).toBeNull();
+  });
+
+  test('should find a run missed since a date', () => {
+    const schedule = { frequency: 'daily' as const, time: '06:00' };
+    const now = at(2024, 3, 4, 9, 0);
+
+    expect(scheduler.getMissedRunDate(schedule, at(2024, 3, 3, 12, 0), now)).toEqual(at(2024, 3, 4, 6, 0));
+    expect(scheduler.getMissedRunDate(schedule, at(2024, 3, 4, 7, 0), now)).toBeNull();
+  });
+});
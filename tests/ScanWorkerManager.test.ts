@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScanWorkerManager } from '../src/main/ScanWorkerManager';
+import { DatabaseManager } from '../src/main/DatabaseManager';
+import { SourceFolder } from '../src/types';
+import { createTempTestDir, cleanupTempDir } from './setup';
+
+// Run the TypeScript worker entry point directly through ts-node
+const workerOptions = {
+  workerScript: path.join(__dirname, '..', 'src', 'main', 'ScanWorker.ts'),
+  execArgv: ['-r', 'ts-node/register/transpile-only']
+};
+
+describe('ScanWorkerManager', () => {
+  let testDir: string;
+  let projectDir: string;
+  let sourceFolders: SourceFolder[];
+  let scanWorkerManager: ScanWorkerManager;
+
+  const countRows = async (): Promise<number> => {
+    const dbManager = new DatabaseManager(projectDir);
+    await dbManager.openProjectDatabase(projectDir);
+    try {
+      const rows = await dbManager.executeQuery('SELECT COUNT(*) AS total FROM data');
+      return rows[0].total;
+    } finally {
+      await dbManager.closeProjectDatabase();
+    }
+  };
+
+  beforeEach(async () => {
+    testDir = createTempTestDir();
+    projectDir = path.join(testDir, 'project');
+    const sourceDir = path.join(testDir, 'source');
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.mkdirSync(sourceDir, { recursive: true });
+
+    const dbManager = new DatabaseManager(projectDir);
+    await dbManager.initializeProjectDatabase('test-project', 'Test Project', projectDir);
+    await dbManager.closeProjectDatabase();
+
+    for (let i = 0; i < 5; i++) {
+      fs.writeFileSync(path.join(sourceDir, `file${i}.json`), JSON.stringify([{ index: i, name: `Record ${i}` }]));
+    }
+
+    sourceFolders = [{ id: 'folder-1', path: sourceDir, addedDate: new Date() }];
+    scanWorkerManager = new ScanWorkerManager(workerOptions);
+  });
+
+  afterEach(async () => {
+    await scanWorkerManager.terminateAll();
+    cleanupTempDir(testDir);
+  });
+
+  test('should scan source folders on a worker thread', async () => {
+    const onProgress = jest.fn();
+
+    const outcome = await scanWorkerManager.startScan('project-1', projectDir, sourceFolders, { onProgress });
+
+    expect(outcome.status).toBe('completed');
+    if (outcome.status === 'completed') {
+      expect(outcome.results.processedFiles).toBe(5);
+      expect(outcome.results.extractedObjects).toBe(5);
+    }
+    expect(onProgress).toHaveBeenCalledTimes(5);
+    expect(scanWorkerManager.isScanning('project-1')).toBe(false);
+    expect(await countRows()).toBe(5);
+  }, 60000);
+
+  test('should pause, resume and complete a scan', async () => {
+    const onPaused = jest.fn();
+    const onResumed = jest.fn();
+    let resolvePaused: () => void = () => undefined;
+    const paused = new Promise<void>(resolve => { resolvePaused = resolve; });
+
+    const scanPromise = scanWorkerManager.startScan('project-1', projectDir, sourceFolders, {
+      onPaused: () => {
+        onPaused();
+        resolvePaused();
+      },
+      onResumed
+    });
+    scanWorkerManager.pauseScan('project-1');
+
+    await paused;
+    expect(scanWorkerManager.isPaused('project-1')).toBe(true);
+
+    scanWorkerManager.resumeScan('project-1');
+    const outcome = await scanPromise;
+
+    expect(outcome.status).toBe('completed');
+    expect(onPaused).toHaveBeenCalledTimes(1);
+    expect(onResumed).toHaveBeenCalledTimes(1);
+  }, 60000);
+
+  test('should cancel a scan and keep the previous data', async () => {
+    await scanWorkerManager.startScan('project-1', projectDir, sourceFolders);
+    fs.writeFileSync(path.join(sourceFolders[0]!.path, 'file5.json'), JSON.stringify([{ index: 5 }]));
+
+    let resolvePaused: () => void = () => undefined;
+    const paused = new Promise<void>(resolve => { resolvePaused = resolve; });
+    const scanPromise = scanWorkerManager.startScan('project-1', projectDir, sourceFolders, {
+      onPaused: () => resolvePaused()
+    });
+    scanWorkerManager.pauseScan('project-1');
+    await paused;
+
+    scanWorkerManager.cancelScan('project-1');
+
+    await expect(scanPromise).resolves.toEqual({ status: 'cancelled' });
+    expect(await countRows()).toBe(5);
+  }, 60000);
+
+  test('should reject a second scan of the same project', async () => {
+    const firstScan = scanWorkerManager.startScan('project-1', projectDir, sourceFolders);
+
+    await expect(scanWorkerManager.startScan('project-1', projectDir, sourceFolders))
+      .rejects.toThrow('A scan is already running for this project');
+
+    await firstScan;
+  }, 60000);
+
+  test('should reject when the project database cannot be opened', async () => {
+    await expect(scanWorkerManager.startScan('project-2', path.join(testDir, 'missing'), sourceFolders))
+      .rejects.toThrow('Project database does not exist');
+  }, 60000);
+
+  test('should throw when controlling a project without a running scan', () => {
+    expect(() => scanWorkerManager.pauseScan('project-3')).toThrow('No scan is running for this project');
+    expect(() => scanWorkerManager.resumeScan('project-3')).toThrow('No scan is running for this project');
+    expect(() => scanWorkerManager.cancelScan('project-3')).toThrow('No scan is running for this project');
+  });
+});
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { SourceFileReader } from '../src/main/SourceFileReader';
+import { createTempTestDir, cleanupTempDir } from './setup';
+import { writeTestZip } from './fixtures/zip';
+
+// Two JSONL lines compressed with bzip2
+const BZIP2_JSONL = 'QlpoOTFBWSZTWVFHDwoAABhdgAAQUAQwEDAAPieACiAAISo1NPUGNRj1CgaaGRkxEdHJMggcRMintaFSWhZkjScyhhIY2LuSKcKEgoo4eFA=';
+
+describe('SourceFileReader', () => {
+  let testDir: string;
+  let reader: SourceFileReader;
+
+  beforeEach(() => {
+    testDir = createTempTestDir();
+    reader = new SourceFileReader();
+  });
+
+  afterEach(() => {
+    cleanupTempDir(testDir);
+  });
+
+  describe('getFormatExtension', () => {
+    test('should look through compression extensions', () => {
+      expect(reader.getFormatExtension('/data/events.json')).toBe('.json');
+      expect(reader.getFormatExtension('/data/events.JSONL.GZ')).toBe('.jsonl');
+      expect(reader.getFormatExtension('/data/events.csv.bz2')).toBe('.csv');
+      expect(reader.getFormatExtension('/data/events.gz')).toBe('');
+    });
+
+    test('should use the entry name of archive entries', () => {
+      expect(reader.getFormatExtension('/data/bundle.zip!/inner/events.json')).toBe('.json');
+      expect(reader.getFormatExtension('/data/bundle.zip!/inner/events.jsonl.gz')).toBe('.jsonl');
+    });
+  });
+
+  describe('compressed files', () => {
+    test('should read plain files', async () => {
+      const filePath = path.join(testDir, 'plain.json');
+      fs.writeFileSync(filePath, '[1]');
+
+      expect(await reader.readText(filePath)).toBe('[1]');
+    });
+
+    test('should decompress gzip files', async () => {
+      const filePath = path.join(testDir, 'data.json.gz');
+      fs.writeFileSync(filePath, zlib.gzipSync('[{"id":1}]'));
+
+      expect(await reader.readText(filePath)).toBe('[{"id":1}]');
+    });
+
+    test('should decompress bzip2 files', async () => {
+      const filePath = path.join(testDir, 'data.jsonl.bz2');
+      fs.writeFileSync(filePath, Buffer.from(BZIP2_JSONL, 'base64'));
+
+      expect(await reader.readText(filePath)).toBe('{"id": 1, "name": "Alice"}\n{"id": 2, "name": "Bob"}\n');
+    });
+
+    test('should reject corrupt compressed files', async () => {
+      const filePath = path.join(testDir, 'broken.json.gz');
+      fs.writeFileSync(filePath, 'not gzip');
+
+      await expect(reader.readText(filePath)).rejects.toThrow();
+    });
+  });
+
+  describe('lines and offsets', () => {
+    const collectLines = async (filePath: string) => {
+      const lines: any[] = [];
+      for await (const line of reader.readLines(filePath)) {
+        lines.push(line);
+      }
+      return lines;
+    };
+
+    test('should report line numbers and byte offsets', async () => {
+      const filePath = path.join(testDir, 'data.jsonl');
+      fs.writeFileSync(filePath, '{"name":"é"}\r\n\n{"id":2}');
+
+      expect(await collectLines(filePath)).toEqual([
+        { text: '{"name":"é"}', line: 1, offset: 0 },
+        { text: '', line: 2, offset: 15 },
+        { text: '{"id":2}', line: 3, offset: 16 }
+      ]);
+    });
+
+    test('should read from an offset of plain and compressed files', async () => {
+      const plainPath = path.join(testDir, 'data.jsonl');
+      const gzipPath = path.join(testDir, 'data.jsonl.gz');
+      fs.writeFileSync(plainPath, '{"id":1}\n{"id":2}\n');
+      fs.writeFileSync(gzipPath, zlib.gzipSync('{"id":1}\n{"id":2}\n'));
+
+      for (const filePath of [plainPath, gzipPath]) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of reader.readFrom(filePath, 9)) {
+          chunks.push(chunk);
+        }
+        expect(Buffer.concat(chunks).toString('utf8')).toBe('{"id":2}\n');
+      }
+    });
+  });
+
+  describe('zip archives', () => {
+    let zipPath: string;
+
+    beforeEach(() => {
+      zipPath = path.join(testDir, 'bundle.zip');
+      writeTestZip(zipPath, [
+        { name: 'inner/', content: '', stored: true },
+        { name: 'inner/a.json', content: '[{"id":1}]' },
+        { name: 'b.json', content: '[{"id":2}]', stored: true },
+        { name: 'c.jsonl.gz', content: zlib.gzipSync('{"id":3}\n') }
+      ]);
+    });
+
+    test('should list file entries as virtual paths', async () => {
+      expect(reader.isZipArchive(zipPath)).toBe(true);
+      expect(await reader.listArchiveEntries(zipPath)).toEqual([
+        `${zipPath}!/inner/a.json`,
+        `${zipPath}!/b.json`,
+        `${zipPath}!/c.jsonl.gz`
+      ]);
+    });
+
+    test('should read deflated, stored and compressed entries', async () => {
+      expect(await reader.readText(`${zipPath}!/inner/a.json`)).toBe('[{"id":1}]');
+      expect(await reader.readText(`${zipPath}!/b.json`)).toBe('[{"id":2}]');
+      expect(await reader.readText(`${zipPath}!/c.jsonl.gz`)).toBe('{"id":3}\n');
+    });
+
+    test('should report the entry size and archive mtime', async () => {
+      const stats = await reader.stat(`${zipPath}!/b.json`);
+
+      expect(stats.size).toBe(10);
+      expect(stats.mtimeMs).toBe(fs.statSync(zipPath).mtimeMs);
+      expect(reader.exists(`${zipPath}!/b.json`)).toBe(true);
+      expect(reader.exists(path.join(testDir, 'missing.zip!/b.json'))).toBe(false);
+    });
+
+    test('should throw for missing entries and invalid archives', async () => {
+      await expect(reader.readText(`${zipPath}!/missing.json`)).rejects.toThrow('Entry "missing.json" not found in archive');
+
+      const invalidPath = path.join(testDir, 'invalid.zip');
+      fs.writeFileSync(invalidPath, 'not a zip archive');
+      await expect(reader.listArchiveEntries(invalidPath)).rejects.toThrow('End of central directory not found');
+    });
+  });
+});
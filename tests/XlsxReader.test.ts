@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { XlsxReader, XlsxRecord } from '../src/main/XlsxReader';
+import { ExcelOptions } from '../src/types';
+import { createTempTestDir, cleanupTempDir } from './setup';
+import { writeTestXlsx, TestXlsxSheet } from './fixtures/xlsx';
+
+describe('XlsxReader', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = createTempTestDir();
+  });
+
+  afterEach(() => {
+    cleanupTempDir(testDir);
+  });
+
+  // Read the records of every selected sheet by sheet name
+  const readWorkbook = async (sheets: TestXlsxSheet[], options: ExcelOptions = {}, date1904 = false) => {
+    const xlsxPath = path.join(testDir, 'book.xlsx');
+    await writeTestXlsx(xlsxPath, sheets, date1904);
+
+    const reader = new XlsxReader();
+    const workbook = await reader.readWorkbook(fs.createReadStream(xlsxPath));
+    const records: Record<string, XlsxRecord[]> = {};
+    for (const sheet of reader.selectSheets(workbook, options.sheets)) {
+      records[sheet.name] = [];
+      for await (const record of reader.readRecords(workbook, sheet, options)) {
+        records[sheet.name]!.push(record);
+      }
+    }
+    return records;
+  };
+
+  test('should read each sheet with cell types and its header row', async () => {
+    const records = await readWorkbook([
+      {
+        name: 'Orders',
+        rows: [
+          ['id', 'item', 'paid', 'note', 'total'],
+          [1, 'tea', true, { richText: ['a ', '& b'] }, { formula: 'A2*2', result: 2 }],
+          [2.5, 'tea', false, null, { formula: 'A3*2', result: 5 }]
+        ]
+      },
+      { name: 'Empty', rows: [] }
+    ]);
+
+    expect(records).toEqual({
+      Orders: [
+        { record: { id: 1, item: 'tea', paid: true, note: 'a & b', total: 2 }, row: 2 },
+        { record: { id: 2.5, item: 'tea', paid: false, note: null, total: 5 }, row: 3 }
+      ],
+      Empty: []
+    });
+  });
+
+  test('should detect the header below title rows and skip merged and blank rows', async () => {
+    const sheet: TestXlsxSheet = {
+      name: 'Report',
+      rows: [
+        ['Quarterly report'],
+        [],
+        ['region', 'sales', null, 'sales'],
+        ['north', 10, 'x', 11],
+        ['Subtotals'],
+        [],
+        ['south', 20, null, 21]
+      ],
+      merges: ['A1:D1', 'A5:D5']
+    };
+
+    expect((await readWorkbook([sheet]))['Report']!.map(({ record, row }) => ({ ...record, row }))).toEqual([
+      { region: 'north', sales: 10, column_3: 'x', sales_2: 11, row: 4 },
+      { region: 'south', sales: 20, column_3: null, sales_2: 21, row: 7 }
+    ]);
+
+    const kept = await readWorkbook([sheet], { headerRow: 3, keepMergedRows: true, keepBlankRows: true });
+    expect(kept['Report']!.map(({ row }) => row)).toEqual([4, 5, 7]);
+    expect(kept['Report']![1]!.record).toEqual({ region: 'Subtotals', sales: null, column_3: null, sales_2: null });
+
+    const noHeader = await readWorkbook([sheet], { noHeader: true });
+    expect(noHeader['Report']![0]!.record).toEqual({ column_1: 'region', column_2: 'sales', column_3: null, column_4: 'sales' });
+  });
+
+  test('should convert date serials by the cell number format', async () => {
+    const sheets: TestXlsxSheet[] = [{
+      name: 'Dates',
+      rows: [
+        ['date', 'at', 'time', 'due', 'plain', 'early'],
+        [
+          { serial: 45352, format: 'date' },
+          { serial: 45352.75, format: 'datetime' },
+          { serial: 0.5, format: 'time' },
+          { serial: 45353, format: 'custom-date' },
+          45352,
+          { serial: 59, format: 'date' }
+        ]
+      ]
+    }];
+
+    expect((await readWorkbook(sheets))['Dates']![0]!.record).toEqual({
+      date: '2024-03-01',
+      at: '2024-03-01T18:00:00.000Z',
+      time: '12:00:00',
+      due: '2024-03-02',
+      plain: 45352,
+      early: '1900-02-28'
+    });
+    expect((await readWorkbook(sheets, { rawDates: true }))['Dates']![0]!.record).toMatchObject({ date: 45352, time: 0.5 });
+    expect((await readWorkbook(sheets, {}, true))['Dates']![0]!.record).toMatchObject({ date: '2028-03-02' });
+  });
+
+  test('should select sheets by name or pattern', async () => {
+    const sheets: TestXlsxSheet[] = [
+      { name: 'Q1 Sales', rows: [['n'], [1]] },
+      { name: 'Q2 Sales', rows: [['n'], [2]] },
+      { name: 'Notes', rows: [['text'], ['hi']] },
+      { name: 'Lookup', rows: [['k'], ['v']], hidden: true }
+    ];
+
+    expect(Object.keys(await readWorkbook(sheets))).toEqual(['Q1 Sales', 'Q2 Sales', 'Notes']);
+    expect(Object.keys(await readWorkbook(sheets, { sheets: ['q? sales'] }))).toEqual(['Q1 Sales', 'Q2 Sales']);
+    expect(Object.keys(await readWorkbook(sheets, { sheets: ['Lookup', 'Notes'] }))).toEqual(['Notes', 'Lookup']);
+    expect(await readWorkbook(sheets, { sheets: ['Missing'] })).toEqual({});
+  });
+});
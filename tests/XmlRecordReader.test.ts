@@ -0,0 +1,75 @@
+import { XmlRecordReader, XmlRecord } from '../src/main/XmlRecordReader';
+
+describe('XmlRecordReader', () => {
+  const readRecords = async (xml: string | string[], recordPath?: string): Promise<XmlRecord[]> => {
+    const records: XmlRecord[] = [];
+    for await (const record of new XmlRecordReader(recordPath).readRecords(Array.isArray(xml) ? xml : [xml])) {
+      records.push(record);
+    }
+    return records;
+  };
+
+  const catalog = [
+    '<?xml version="1.0"?>',
+    '<catalog xmlns="urn:books" xmlns:x="urn:extra">',
+    '  <book id="bk101" x:lang="en">',
+    '    <author>Gambardella</author>',
+    '    <author>Knorr</author>',
+    '    <price currency="USD">44.95</price>',
+    '    <x:note/>',
+    '  </book>',
+    '  <book id="bk102"><title>Midnight Rain</title></book>',
+    '  <count>2</count>',
+    '</catalog>'
+  ].join('\n');
+
+  test('should read the children of the root element by default', async () => {
+    expect(await readRecords(catalog)).toEqual([
+      {
+        record: {
+          '@id': 'bk101',
+          '@lang': 'en',
+          author: ['Gambardella', 'Knorr'],
+          price: { '@currency': 'USD', '#text': '44.95' },
+          note: null
+        },
+        line: 3
+      },
+      { record: { '@id': 'bk102', title: 'Midnight Rain' }, line: 9 },
+      { record: { '#text': '2' }, line: 10 }
+    ]);
+  });
+
+  test('should read the elements of a record path', async () => {
+    const ids = async (recordPath: string) =>
+      (await readRecords(catalog, recordPath)).map(({ record }) => record['@id'] ?? record['#text']);
+
+    expect(await ids('/catalog/book')).toEqual(['bk101', 'bk102']);
+    expect(await ids('//book')).toEqual(['bk101', 'bk102']);
+    expect(await ids('/*/count')).toEqual(['2']);
+    expect(await ids('/catalog/book/price')).toEqual(['44.95']);
+    expect(await ids('/books/book')).toEqual([]);
+  });
+
+  test('should decode entities and CDATA sections in documents split across chunks', async () => {
+    const document = '<?xml version="1.0"?>\n<!-- orders -->\n<orders><order id="1" note=\'a &amp; b\'>Tea &lt;green&gt; &#233;<![CDATA[<raw>]]></order>\n<order/></orders>';
+    const expected = [{ record: { '@id': '1', '@note': 'a & b', '#text': 'Tea <green> é<raw>' }, line: 3 }, { record: {}, line: 4 }];
+
+    expect(await readRecords(document)).toEqual(expected);
+    expect(await readRecords(document.split(''))).toEqual(expected);
+  });
+
+  test('should reject malformed documents', async () => {
+    await expect(readRecords('<a><b></a>')).rejects.toThrow(/^Invalid XML: 1:10: unexpected close tag/);
+    await expect(readRecords('<a>')).rejects.toThrow(/^Invalid XML: .*unclosed tag: a/);
+    await expect(readRecords('<a/><b/>')).rejects.toThrow('Invalid XML');
+    await expect(readRecords('<a><b attr="x')).rejects.toThrow('Invalid XML');
+    await expect(readRecords('<!-- nothing -->')).rejects.toThrow(/^Invalid XML: .*document must contain a root element/);
+  });
+
+  test('should reject invalid record paths', () => {
+    expect(() => new XmlRecordReader('catalog/book')).toThrow('Invalid XML record path "catalog/book"');
+    expect(() => new XmlRecordReader('/catalog//book')).toThrow('Invalid XML record path');
+    expect(() => new XmlRecordReader('/')).toThrow('Invalid XML record path');
+  });
+});
@@ -0,0 +1,155 @@
+import { YamlParser, YamlDocument } from '../src/main/YamlParser';
+import { SourceLine } from '../src/main/SourceFileReader';
+
+describe('YamlParser', () => {
+  const parser = new YamlParser();
+
+  const readDocuments = async (text: string): Promise<(YamlDocument & { line: number })[]> => {
+    async function* toLines(): AsyncGenerator<SourceLine> {
+      let offset = 0;
+      for (const [index, line] of text.split('\n').entries()) {
+        yield { text: line, line: index + 1, offset };
+        offset += Buffer.byteLength(line) + 1;
+      }
+    }
+
+    const documents: (YamlDocument & { line: number })[] = [];
+    for await (const source of parser.readDocuments(toLines())) {
+      documents.push({ ...parser.parseDocument(source), line: source.line });
+    }
+    return documents;
+  };
+
+  test('should read block mappings and sequences with core schema scalars', () => {
+    expect(parser.parse([
+      'name: Ada Lovelace   # a comment',
+      'born: 1815',
+      'ratio: -1.5e3',
+      'limit: .inf',
+      'floor: -.Inf',
+      'missing: .nan',
+      'active: true',
+      'retired: ~',
+      'hex: 0x1F',
+      'big: 123456789012345678901',
+      'version: "2"',
+      'url: http://example.com/a#b',
+      'time: 12:30',
+      'tags:',
+      '- math',
+      "- 'poet''s daughter'",
+      'address:',
+      '  city: London',
+      '  lines:',
+      '    - 12 St James Square',
+      '    -',
+      '      flat: 2',
+      '      floor: 1',
+      'notes: first line',
+      '  continues here'
+    ].join('\n'))).toEqual([{
+      name: 'Ada Lovelace',
+      born: 1815,
+      ratio: -1500,
+      limit: Infinity,
+      floor: -Infinity,
+      missing: NaN,
+      active: true,
+      retired: null,
+      hex: 31,
+      big: '123456789012345678901',
+      version: '2',
+      url: 'http://example.com/a#b',
+      time: '12:30',
+      tags: ['math', "poet's daughter"],
+      address: { city: 'London', lines: ['12 St James Square', { flat: 2, floor: 1 }] },
+      notes: 'first line continues here'
+    }]);
+  });
+
+  test('should read block scalars, quoted scalars and flow collections', () => {
+    expect(parser.parse([
+      'literal: |',
+      '  line one',
+      '    indented',
+      '',
+      'folded: >-',
+      '  folded',
+      '  text',
+      '',
+      '  new paragraph',
+      'kept: |+',
+      '  end',
+      '',
+      'quoted: "tab\\there \\u00e9',
+      '  next line"',
+      'flow: {a: 1, b: [x, "y, z"], c: }',
+      'multi: [',
+      '  one, # first',
+      '  two: 2',
+      ']'
+    ].join('\n'))).toEqual([{
+      literal: 'line one\n  indented\n',
+      folded: 'folded text\nnew paragraph',
+      kept: 'end\n\n',
+      quoted: 'tab\there é next line',
+      flow: { a: 1, b: ['x', 'y, z'], c: null },
+      multi: ['one', { two: 2 }]
+    }]);
+  });
+
+  test('should resolve anchors, aliases, merge keys, tags and complex keys', () => {
+    expect(parser.parse([
+      'base: &base',
+      '  region: eu',
+      '  size: 1',
+      'server:',
+      '  <<: *base',
+      '  size: 3',
+      'copy: *base',
+      'id: !!str 0x10',
+      'count: !!int "7"',
+      '? complex',
+      ': key'
+    ].join('\n'))).toEqual([{
+      base: { region: 'eu', size: 1 },
+      server: { size: 3, region: 'eu' },
+      copy: { region: 'eu', size: 1 },
+      id: '0x10',
+      count: 7,
+      complex: 'key'
+    }]);
+  });
+
+  test('should split streams into documents and note the lines of top-level sequence items', async () => {
+    const documents = await readDocuments([
+      '%YAML 1.2',
+      '---',
+      'kind: config',
+      '--- # empty document',
+      '...',
+      '---',
+      '- id: 1',
+      '',
+      '- id: 2',
+      '  name: two',
+      '--- {id: 3}'
+    ].join('\n'));
+
+    expect(documents).toEqual([
+      { value: { kind: 'config' }, itemLines: [], line: 3 },
+      { value: [{ id: 1 }, { id: 2, name: 'two' }], itemLines: [7, 9], line: 7 },
+      { value: { id: 3 }, itemLines: [], line: 11 }
+    ]);
+  });
+
+  test('should report syntax errors with their line', () => {
+    expect(() => parser.parse('a: 1\na: 2')).toThrow('Invalid YAML: Map keys must be unique on line 2');
+    expect(() => parser.parse('a:\n  b: 1\n   c: 2')).toThrow('Invalid YAML: Nested mappings are not allowed in compact mappings on line 2');
+    expect(() => parser.parse('a: "open\nb: 1')).toThrow('Invalid YAML: Missing closing "quote on line 2');
+    expect(() => parser.parse('a: [1, 2')).toThrow(/^Invalid YAML: .+ end with a \] on line 1$/);
+    expect(() => parser.parse('a: *missing')).toThrow(/^Invalid YAML: Unresolved alias .+: missing on line 1$/);
+    expect(() => parser.parse('a:\n\tb: 1')).toThrow('Invalid YAML: Tabs are not allowed as indentation on line 2');
+    expect(() => parser.parse('- a\nb: 1')).toThrow(/^Invalid YAML: .+ on line 2$/);
+  });
+});
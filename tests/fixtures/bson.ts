@@ -0,0 +1,54 @@
+/**
+ * Encodes a document as BSON for tests
+ * Integers within 32 bits become int32 and other numbers doubles; `{ $oid }`, `{ $date }` (milliseconds),
+ * `{ $numberLong }`, `{ $numberDecimal }` (plain decimal text) and `{ $binary: { base64, subType } }` become their BSON types
+ * @param document Document to encode
+ * @returns The encoded document, including its length prefix
+ */
+export function encodeTestBson(document: Record<string, any>): Buffer {
+  const cstring = (text: string) => Buffer.concat([Buffer.from(text, 'utf8'), Buffer.from([0])]);
+  const int32 = (value: number) => { const buffer = Buffer.alloc(4); buffer.writeInt32LE(value); return buffer; };
+  const int64 = (value: bigint) => { const buffer = Buffer.alloc(8); buffer.writeBigInt64LE(value); return buffer; };
+
+  const encodeValue = (value: any): [number, Buffer] => {
+    if (value === null) return [0x0a, Buffer.alloc(0)];
+    if (typeof value === 'boolean') return [0x08, Buffer.from([value ? 1 : 0])];
+    if (typeof value === 'string') {
+      const text = cstring(value);
+      return [0x02, Buffer.concat([int32(text.length), text])];
+    }
+    if (typeof value === 'number') {
+      if (Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff) return [0x10, int32(value)];
+      const buffer = Buffer.alloc(8);
+      buffer.writeDoubleLE(value);
+      return [0x01, buffer];
+    }
+    if (Array.isArray(value)) {
+      return [0x04, encodeTestBson(Object.fromEntries(value.map((item, index) => [String(index), item])))];
+    }
+    if ('$oid' in value) return [0x07, Buffer.from(value.$oid, 'hex')];
+    if ('$date' in value) return [0x09, int64(BigInt(value.$date))];
+    if ('$numberLong' in value) return [0x12, int64(BigInt(value.$numberLong))];
+    if ('$binary' in value) {
+      const data = Buffer.from(value.$binary.base64, 'base64');
+      return [0x05, Buffer.concat([int32(data.length), Buffer.from([parseInt(value.$binary.subType, 16)]), data])];
+    }
+    if ('$numberDecimal' in value) {
+      const match = String(value.$numberDecimal).match(/^(-)?(\d+)(?:\.(\d+))?$/)!;
+      const coefficient = BigInt(`${match[2]}${match[3] ?? ''}`);
+      const exponent = BigInt(6176 - (match[3]?.length ?? 0));
+      const buffer = Buffer.alloc(16);
+      buffer.writeBigUInt64LE(coefficient & 0xffffffffffffffffn, 0);
+      buffer.writeBigUInt64LE((match[1] ? 1n << 63n : 0n) | (exponent << 49n) | (coefficient >> 64n), 8);
+      return [0x13, buffer];
+    }
+    return [0x03, encodeTestBson(value)];
+  };
+
+  const elements = Object.entries(document).map(([name, value]) => {
+    const [type, payload] = encodeValue(value);
+    return Buffer.concat([Buffer.from([type]), cstring(name), payload]);
+  });
+  const body = Buffer.concat([...elements, Buffer.from([0])]);
+  return Buffer.concat([int32(body.length + 4), body]);
+}
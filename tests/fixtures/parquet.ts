@@ -0,0 +1,21 @@
+import { ParquetSchema, ParquetWriter, SchemaDefinition, WriterOptions } from '@dsnp/parquetjs';
+
+/**
+ * Writes a Parquet file for tests with the parquetjs writer
+ * @param filePath Path of the file to create
+ * @param schema Fields of the file, as parquetjs defines them
+ * @param rows Rows to write, in order
+ * @param options Writer options such as the row group size and data page version
+ */
+export async function writeTestParquet(
+  filePath: string,
+  schema: SchemaDefinition,
+  rows: Record<string, unknown>[],
+  options: WriterOptions = {}
+): Promise<void> {
+  const writer = await ParquetWriter.openFile(new ParquetSchema(schema), filePath, options);
+  for (const row of rows) {
+    await writer.appendRow(row);
+  }
+  await writer.close();
+}
@@ -0,0 +1,54 @@
+import { CellValue, Workbook } from 'exceljs';
+
+// A cell of a test worksheet: strings become shared strings, `{ richText }` a string of several runs,
+// `{ serial, format }` a number styled as a date, date and time or time, and null an empty cell
+export type TestXlsxCell =
+  | string | number | boolean | null
+  | { richText: string[] }
+  | { formula: string; result: number }
+  | { serial: number; format: 'date' | 'datetime' | 'time' | 'custom-date' };
+
+export interface TestXlsxSheet {
+  name: string;
+  rows: TestXlsxCell[][];   // Rows from row 1; an empty array leaves the row out
+  merges?: string[];        // Merged ranges such as A1:C1
+  hidden?: boolean;
+}
+
+// The built-in date and date and time formats, a time format and a custom date format with quoted text
+const DATE_FORMATS = { date: 'mm-dd-yy', datetime: 'm/d/yy h:mm', time: '[h]:mm:ss', 'custom-date': '"Due "yyyy/mm/dd' };
+
+/**
+ * Writes an Excel workbook for tests with the exceljs writer
+ * @param xlsxPath Path of the workbook to write
+ * @param sheets Worksheets in workbook order
+ * @param date1904 Whether serial numbers use the 1904 date system
+ */
+export async function writeTestXlsx(xlsxPath: string, sheets: TestXlsxSheet[], date1904 = false): Promise<void> {
+  const workbook = new Workbook();
+  workbook.properties.date1904 = date1904;
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name, { state: sheet.hidden ? 'hidden' : 'visible' });
+    sheet.rows.forEach((cells, rowIndex) => {
+      cells.forEach((value, column) => {
+        if (value === null) return;
+
+        const cell = worksheet.getCell(rowIndex + 1, column + 1);
+        if (typeof value === 'object' && 'serial' in value) {
+          cell.value = value.serial;
+          cell.numFmt = DATE_FORMATS[value.format];
+        } else if (typeof value === 'object' && 'richText' in value) {
+          cell.value = { richText: value.richText.map(text => ({ text })) };
+        } else {
+          cell.value = value as CellValue;
+        }
+      });
+    });
+    for (const range of sheet.merges ?? []) {
+      worksheet.mergeCells(range);
+    }
+  }
+
+  await workbook.xlsx.writeFile(xlsxPath);
+}